@@ -0,0 +1,351 @@
+import {
+    LLM_PROVIDERS,
+    MAX_TEXT_LENGTH,
+    MODALITY,
+} from '../../shared/constants';
+import type { DiscoveredModel } from '../../shared/constants';
+import { createLogger } from '../../shared/logger';
+import {
+    createImageAnalysisUserPrompt,
+    createTextAnalysisUserPrompt,
+    IMAGE_ANALYSIS_SYSTEM_PROMPT,
+    TEXT_ANALYSIS_SYSTEM_PROMPT,
+} from '../../shared/prompts';
+import {
+    BaseLLMAdapter,
+    BaseLLMConfig,
+    LLMAnalysisResult,
+} from './base-llm-adapter';
+
+const logger = createLogger('AnthropicAdapter');
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_MESSAGES_PATH = '/v1/messages';
+const ANTHROPIC_MODELS_PATH = '/v1/models?limit=1000';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_COMPLETION_TOKENS = 2000;
+
+/**
+ * Anthropic-specific configuration
+ */
+export interface AnthropicConfig extends BaseLLMConfig {
+    apiKey: string;
+    promptModel: string;
+    visionModel: string;
+
+    /**
+     * API base URL, defaults to the Anthropic API
+     */
+    baseUrl?: string;
+}
+
+/**
+ * Content block of an Anthropic message
+ */
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | {
+        type: 'image';
+        source: { type: 'base64'; media_type: string; data: string };
+    };
+
+/**
+ * Anthropic Messages API response
+ */
+interface AnthropicMessageResponse {
+    content: Array<{
+        type: string;
+        text?: string;
+    }>;
+    stop_reason?: string;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+/**
+ * Anthropic Models API response
+ */
+interface AnthropicModelsResponse {
+    data: Array<{
+        id: string;
+    }>;
+}
+
+/**
+ * Anthropic API adapter for LLM operations
+ * Uses the native Messages API, which takes the system prompt separately
+ * from the messages and returns content blocks instead of choices
+ */
+export class AnthropicAdapter extends BaseLLMAdapter {
+    private apiKey: string;
+
+    private messagesUrl: string;
+
+    private modelsUrl: string;
+
+    /**
+     * Create Anthropic adapter
+     * @param config Configuration object
+     */
+    constructor(config: AnthropicConfig) {
+        super(LLM_PROVIDERS.ANTHROPIC, config);
+        this.apiKey = config.apiKey;
+        const baseUrl = config.baseUrl || ANTHROPIC_BASE_URL;
+        this.messagesUrl = `${baseUrl}${ANTHROPIC_MESSAGES_PATH}`;
+        this.modelsUrl = `${baseUrl}${ANTHROPIC_MODELS_PATH}`;
+    }
+
+    /**
+     * Get the request headers
+     * @returns Headers with the API key and version
+     */
+    private getHeaders(): Record<string, string> {
+        return {
+            'x-api-key': this.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+            // Requests come from the extension, not from a server
+            'anthropic-dangerous-direct-browser-access': 'true',
+            'Content-Type': 'application/json',
+        };
+    }
+
+    /**
+     * Ensure API key is configured
+     * @throws {Error} When API key is not configured
+     */
+    private ensureApiKey(): void {
+        if (!this.apiKey) {
+            const msg = 'Anthropic API key not configured. '
+                + 'Please set it in extension options.';
+            throw new Error(msg);
+        }
+    }
+
+    /**
+     * Truncate text to maximum length
+     * @param text Text to truncate
+     * @returns Truncated text
+     */
+    private static truncateText(text: string): string {
+        if (text.length > MAX_TEXT_LENGTH) {
+            const truncated = `${text.substring(0, MAX_TEXT_LENGTH)}...`;
+            const msg = `Text truncated from ${text.length} `
+                + `to ${truncated.length} chars`;
+            logger.info(msg);
+            return truncated;
+        }
+        return text;
+    }
+
+    /**
+     * Parse the JSON object of a response
+     * The Messages API has no JSON mode, so text around the object
+     * (such as a markdown code block) is ignored
+     * @param content Response text
+     * @returns Analysis result
+     * @throws {Error} When the response has no valid JSON object
+     */
+    private static parseAnalysis(content: string): LLMAnalysisResult {
+        const start = content.indexOf('{');
+        const end = content.lastIndexOf('}');
+        if (start < 0 || end < start) {
+            throw new Error('No JSON object in Anthropic response');
+        }
+        return JSON.parse(
+            content.substring(start, end + 1),
+        ) as LLMAnalysisResult;
+    }
+
+    /**
+     * Send a single user message to the Messages API
+     * @param model Model name to use
+     * @param system System prompt
+     * @param content Content blocks of the user message
+     * @param apiName API name for log and error messages
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    private async createMessage(
+        model: string,
+        system: string,
+        content: AnthropicContentBlock[],
+        apiName: string,
+    ): Promise<LLMAnalysisResult> {
+        const response = await fetch(this.messagesUrl, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                model,
+                system,
+                messages: [{ role: 'user', content }],
+                max_tokens: MAX_COMPLETION_TOKENS,
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const errorMsg = `Anthropic ${apiName} API error: `
+                + `${response.status} ${errorText}`;
+            logger.error(errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        const data = await response.json() as AnthropicMessageResponse;
+        if (!Array.isArray(data.content)) {
+            const errorMsg = `Invalid Anthropic ${apiName} response format`;
+            logger.error(errorMsg, data);
+            throw new Error(errorMsg);
+        }
+
+        const text = data.content
+            .map((block) => (block.type === 'text' ? block.text : ''))
+            .join('');
+        if (text.trim() === '') {
+            logger.warn(`Empty ${apiName} response (${data.stop_reason})`);
+            return {
+                matches: false,
+                confidence: 0.0,
+                explanation: 'Empty response due to token limit',
+            };
+        }
+
+        logger.debug(`${apiName} API success: ${text}`);
+
+        const result = AnthropicAdapter.parseAnalysis(text);
+        const usage = data.usage ? {
+            promptTokens: data.usage.input_tokens,
+            completionTokens: data.usage.output_tokens,
+            totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        } : undefined;
+
+        return {
+            matches: result.matches,
+            confidence: result.confidence,
+            explanation: result.explanation,
+            usage,
+        };
+    }
+
+    /**
+     * Get embedding vector for text
+     * Anthropic doesn't provide embedding endpoints
+     * @throws {Error} Always throws as embeddings are not supported
+     */
+    async getEmbedding(): Promise<number[]> {
+        throw new Error(
+            'Anthropic does not support embeddings. '
+            + 'Use OpenAI, LM Studio or Ollama for embedding operations.',
+        );
+    }
+
+    /**
+     * Analyze text using Anthropic Messages API with prompt
+     * @param text Text to analyze
+     * @param criteria Criteria to check against
+     * @param model Model name to use
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async analyzeWithPrompt(
+        text: string,
+        criteria: string,
+        model: string,
+    ): Promise<LLMAnalysisResult> {
+        this.ensureApiKey();
+
+        const userPrompt = createTextAnalysisUserPrompt(
+            criteria,
+            AnthropicAdapter.truncateText(text),
+        );
+
+        try {
+            logger.debug(
+                `Messages API call: "${userPrompt.substring(0, 100)}..."`,
+            );
+            return await this.createMessage(
+                model,
+                TEXT_ANALYSIS_SYSTEM_PROMPT,
+                [{ type: 'text', text: userPrompt }],
+                'Chat',
+            );
+        } catch (error) {
+            logger.error('Chat API error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Analyze image using Anthropic Messages API
+     * @param imageData Base64-encoded PNG image data
+     * @param criteria Criteria to check against
+     * @param model Model name to use
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async analyzeImage(
+        imageData: string,
+        criteria: string,
+        model: string,
+    ): Promise<LLMAnalysisResult> {
+        this.ensureApiKey();
+
+        try {
+            logger.debug(`Calling vision API with criteria: "${criteria}"`);
+            return await this.createMessage(
+                model,
+                IMAGE_ANALYSIS_SYSTEM_PROMPT,
+                [
+                    {
+                        type: 'image',
+                        source: {
+                            type: 'base64',
+                            media_type: 'image/png',
+                            data: imageData,
+                        },
+                    },
+                    {
+                        type: 'text',
+                        text: createImageAnalysisUserPrompt(criteria),
+                    },
+                ],
+                'Vision',
+            );
+        } catch (error) {
+            logger.error('Vision API error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * List the Claude models available to the API key
+     * All of them take images, none has embeddings
+     * @returns Available models
+     * @throws {Error} When API call fails
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        this.ensureApiKey();
+
+        const response = await fetch(this.modelsUrl, {
+            headers: this.getHeaders(),
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(
+                `Anthropic Models API error: ${response.status} ${errorText}`,
+            );
+        }
+
+        const { data } = await response.json() as AnthropicModelsResponse;
+        return data.map(({ id }) => ({
+            name: id,
+            capabilities: {
+                input: [MODALITY.TEXT, MODALITY.IMAGE],
+                output: [MODALITY.TEXT],
+                structuredOutput: false,
+                logprobs: false,
+            },
+        }));
+    }
+}
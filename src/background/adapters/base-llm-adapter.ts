@@ -1,4 +1,11 @@
 /* eslint-disable class-methods-use-this */
+import { PROVIDER_CAPABILITIES } from '../../shared/constants';
+import type {
+    DiscoveredModel,
+    LLMProvider,
+    AdapterCapabilities,
+} from '../../shared/constants';
+
 /**
  * Token usage information from LLM API
  */
@@ -48,12 +55,17 @@ export abstract class BaseLLMAdapter {
 
     protected config: BaseLLMConfig;
 
+    /**
+     * What the adapter can pass to and from its provider
+     */
+    readonly capabilities: AdapterCapabilities;
+
     /**
      * Create a new LLM adapter
      * @param providerName Name of the provider
      * @param config Provider configuration
      */
-    constructor(providerName: string, config: BaseLLMConfig) {
+    constructor(providerName: LLMProvider, config: BaseLLMConfig) {
         if (this.constructor === BaseLLMAdapter) {
             const msg = 'BaseLLMAdapter is abstract and '
         + 'cannot be instantiated';
@@ -62,6 +74,7 @@ export abstract class BaseLLMAdapter {
 
         this.providerName = providerName;
         this.config = config;
+        this.capabilities = PROVIDER_CAPABILITIES[providerName];
     }
 
     /**
@@ -102,4 +115,11 @@ export abstract class BaseLLMAdapter {
         model: string,
         options?: ImageAnalysisOptions,
     ): Promise<LLMAnalysisResult>;
+
+    /**
+     * List the models of the provider with their capabilities
+     * @returns Models usable for embedding, prompt or vision rules
+     * @throws {Error} Must be implemented by subclass
+     */
+    abstract listModels(): Promise<DiscoveredModel[]>;
 }
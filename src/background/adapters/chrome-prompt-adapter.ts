@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { LLM_PROVIDERS } from '../../shared/constants';
+import type { DiscoveredModel } from '../../shared/constants';
 import { createLogger } from '../../shared/logger';
 import {
     createImageAnalysisUserPrompt,
@@ -272,6 +273,7 @@ export class ChromePromptAdapter extends BaseLLMAdapter {
      * Get embedding vector for text
      * Note: Chrome Prompt API does not support embeddings directly
      * This method throws an error as embeddings are not supported
+     * Its capabilities have no embedding output, so rules never get here
      * @param _text Text to get embedding for
      * @param _model Model name (ignored)
      * @returns Never returns, always throws
@@ -279,7 +281,7 @@ export class ChromePromptAdapter extends BaseLLMAdapter {
      */
     async getEmbedding(_text: string, _model: string): Promise<number[]> {
         const msg = 'Chrome Prompt API does not support embeddings. '
-            + 'Use OpenAI or LM Studio for embedding-based rules.';
+            + 'Use OpenAI, LM Studio or Ollama for embedding-based rules.';
         throw new Error(msg);
     }
 
@@ -534,4 +536,13 @@ export class ChromePromptAdapter extends BaseLLMAdapter {
             throw error;
         }
     }
+
+    /**
+     * List models of the Chrome Prompt API
+     * Gemini Nano is built into Chrome and already in the model registry
+     * @returns No models
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        return [];
+    }
 }
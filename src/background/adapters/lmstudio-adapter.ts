@@ -1,4 +1,9 @@
-import { LLM_PROVIDERS, MAX_TEXT_LENGTH } from '../../shared/constants';
+import {
+    LLM_PROVIDERS,
+    MAX_TEXT_LENGTH,
+    MODALITY,
+} from '../../shared/constants';
+import type { DiscoveredModel } from '../../shared/constants';
 import { createLogger } from '../../shared/logger';
 import {
     createTextAnalysisUserPrompt,
@@ -16,6 +21,8 @@ const logger = createLogger('LMStudioAdapter');
 const LMSTUDIO_BASE_URL = 'http://localhost:1234';
 const LMSTUDIO_EMBEDDINGS_URL = `${LMSTUDIO_BASE_URL}/v1/embeddings`;
 const LMSTUDIO_CHAT_URL = `${LMSTUDIO_BASE_URL}/v1/chat/completions`;
+// The REST API also reports model types and context lengths
+const LMSTUDIO_MODELS_URL = `${LMSTUDIO_BASE_URL}/api/v0/models`;
 const MAX_COMPLETION_TOKENS = 2000;
 
 /**
@@ -46,6 +53,18 @@ interface LMStudioChatResponse {
     }>;
 }
 
+/**
+ * LM Studio models response
+ * Types are "llm", "vlm" (vision) and "embeddings"
+ */
+interface LMStudioModelsResponse {
+    data: Array<{
+        id: string;
+        type: string;
+        max_context_length?: number;
+    }>;
+}
+
 /**
  * LM Studio adapter for local LLM operations
  * Supports embeddings and chat completions through local LM Studio server
@@ -321,4 +340,34 @@ export class LMStudioAdapter extends BaseLLMAdapter {
         logger.error(errorMsg);
         throw new Error(errorMsg);
     }
+
+    /**
+     * List the downloaded models
+     * Images are not sent to LM Studio, so no model is a vision model
+     * @returns Downloaded models
+     * @throws {Error} When the server is not available
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        const response = await fetch(LMSTUDIO_MODELS_URL);
+        if (!response.ok) {
+            throw new Error(`LM Studio Models API error: ${response.status}`);
+        }
+
+        const { data } = await response.json() as LMStudioModelsResponse;
+        return data.map((model) => {
+            const chat = model.type === 'llm' || model.type === 'vlm';
+            return {
+                name: model.id,
+                capabilities: {
+                    input: model.type === 'vlm'
+                        ? [MODALITY.TEXT, MODALITY.IMAGE]
+                        : [MODALITY.TEXT],
+                    output: chat ? [MODALITY.TEXT] : [MODALITY.EMBEDDING],
+                    maxInputTokens: model.max_context_length,
+                    structuredOutput: chat,
+                    logprobs: false,
+                },
+            };
+        });
+    }
 }
@@ -0,0 +1,404 @@
+import {
+    LLM_PROVIDERS,
+    MAX_TEXT_LENGTH,
+    MODALITY,
+} from '../../shared/constants';
+import type { DiscoveredModel, Modality } from '../../shared/constants';
+import { createLogger } from '../../shared/logger';
+import {
+    createImageAnalysisUserPrompt,
+    createTextAnalysisUserPrompt,
+    IMAGE_ANALYSIS_SYSTEM_PROMPT,
+    TEXT_ANALYSIS_SYSTEM_PROMPT,
+} from '../../shared/prompts';
+import {
+    BaseLLMAdapter,
+    BaseLLMConfig,
+    LLMAnalysisResult,
+} from './base-llm-adapter';
+
+const logger = createLogger('OllamaAdapter');
+
+export const OLLAMA_BASE_URL = 'http://localhost:11434';
+const MAX_COMPLETION_TOKENS = 2000;
+
+/**
+ * JSON Schema for LLM analysis responses
+ * Passed as the chat format so Ollama constrains the output to it
+ */
+const ANALYSIS_RESPONSE_SCHEMA = {
+    type: 'object',
+    properties: {
+        matches: { type: 'boolean' },
+        confidence: { type: 'number', minimum: 0.0, maximum: 1.0 },
+        explanation: { type: 'string' },
+    },
+    required: ['matches', 'confidence', 'explanation'],
+} as const;
+
+/**
+ * Ollama model capabilities, as reported by /api/show
+ */
+const OLLAMA_CAPABILITY = {
+    COMPLETION: 'completion',
+    EMBEDDING: 'embedding',
+    VISION: 'vision',
+} as const;
+
+/**
+ * Ollama-specific configuration
+ */
+export interface OllamaConfig extends BaseLLMConfig {
+    embeddingModel: string;
+    promptModel: string;
+    visionModel: string;
+
+    /**
+     * Server URL, defaults to the local Ollama server
+     */
+    baseUrl?: string;
+}
+
+/**
+ * Ollama chat message, images are base64 without a data URL prefix
+ */
+interface OllamaChatMessage {
+    role: 'system' | 'user';
+    content: string;
+    images?: string[];
+}
+
+/**
+ * Ollama embed response
+ */
+interface OllamaEmbedResponse {
+    embeddings: number[][];
+}
+
+/**
+ * Ollama chat response (non-streaming)
+ */
+interface OllamaChatResponse {
+    message: {
+        content: string;
+    };
+    done_reason?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+/**
+ * Ollama list of pulled models
+ */
+interface OllamaTagsResponse {
+    models: Array<{
+        name: string;
+    }>;
+}
+
+/**
+ * Ollama model details
+ * model_info keys are prefixed with the architecture, e.g.
+ * "gemma3.context_length"
+ */
+interface OllamaShowResponse {
+    capabilities?: string[];
+    model_info?: Record<string, unknown>;
+}
+
+/**
+ * Ollama adapter for local LLM operations
+ * Supports embeddings, chat completions and images through the native
+ * Ollama API. Models are loaded on demand by the server, but have to be
+ * pulled first
+ */
+export class OllamaAdapter extends BaseLLMAdapter {
+    private baseUrl: string;
+
+    /**
+     * Create Ollama adapter
+     * @param config Configuration object
+     */
+    constructor(config: OllamaConfig) {
+        super(LLM_PROVIDERS.OLLAMA, config);
+        this.baseUrl = config.baseUrl || OLLAMA_BASE_URL;
+    }
+
+    /**
+     * Truncate text to maximum length
+     * @param text Text to truncate
+     * @returns Truncated text
+     */
+    private static truncateText(text: string): string {
+        if (text.length > MAX_TEXT_LENGTH) {
+            const truncated = `${text.substring(0, MAX_TEXT_LENGTH)}...`;
+            const msg = `Text truncated from ${text.length} `
+                + `to ${truncated.length} chars`;
+            logger.info(msg);
+            return truncated;
+        }
+        return text;
+    }
+
+    /**
+     * Check if an error response means the model has not been pulled
+     * @param status HTTP status
+     * @param errorText Response body
+     * @returns True if the model is missing on the server
+     */
+    private static isModelNotFound(status: number, errorText: string): boolean {
+        return status === 404 && errorText.toLowerCase().includes('not found');
+    }
+
+    /**
+     * Send a request to the Ollama API
+     * @param path API path
+     * @param body Request body
+     * @param model Model name, for the model not found error
+     * @param apiName API name for log and error messages
+     * @returns Parsed response body
+     * @throws {Error} When the model is not pulled or the API call fails
+     */
+    private async post<T>(
+        path: string,
+        body: Record<string, unknown>,
+        model: string,
+        apiName: string,
+    ): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const errorMsg = OllamaAdapter.isModelNotFound(
+                response.status,
+                errorText,
+            )
+                ? `Ollama model "${model}" is not available. `
+                    + `Pull it with "ollama pull ${model}" and try again.`
+                : `Ollama ${apiName} API error: `
+                    + `${response.status} ${errorText}`;
+            logger.error(errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        return await response.json() as T;
+    }
+
+    /**
+     * Get embedding vector for text using Ollama API
+     * @param text Text to get embedding for
+     * @param model Model name to use
+     * @returns Embedding vector
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async getEmbedding(text: string, model: string): Promise<number[]> {
+        const truncatedText = OllamaAdapter.truncateText(text);
+        logger.debug(
+            `Ollama embed API call for: "${truncatedText.substring(0, 50)}..."`,
+        );
+
+        const data = await this.post<OllamaEmbedResponse>(
+            '/api/embed',
+            { model, input: truncatedText },
+            model,
+            'Embed',
+        );
+
+        const embedding = data.embeddings?.[0];
+        if (!embedding) {
+            logger.error('Invalid Ollama Embed response format:', data);
+            throw new Error('Invalid Ollama Embed response format');
+        }
+
+        logger.info(`Embedding success (${embedding.length} dimensions)`);
+        return embedding;
+    }
+
+    /**
+     * Send chat messages and parse the analysis result
+     * @param model Model name to use
+     * @param messages Chat messages
+     * @param apiName API name for log and error messages
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    private async chat(
+        model: string,
+        messages: OllamaChatMessage[],
+        apiName: string,
+    ): Promise<LLMAnalysisResult> {
+        const data = await this.post<OllamaChatResponse>(
+            '/api/chat',
+            {
+                model,
+                messages,
+                format: ANALYSIS_RESPONSE_SCHEMA,
+                stream: false,
+                options: { num_predict: MAX_COMPLETION_TOKENS },
+            },
+            model,
+            apiName,
+        );
+
+        if (!data.message) {
+            const errorMsg = `Invalid Ollama ${apiName} response format`;
+            logger.error(errorMsg, data);
+            throw new Error(errorMsg);
+        }
+
+        const { content } = data.message;
+        if (!content || content.trim() === '') {
+            logger.warn(`Empty ${apiName} response (${data.done_reason})`);
+            return {
+                matches: false,
+                confidence: 0.0,
+                explanation: 'Empty response due to token limit',
+            };
+        }
+
+        logger.debug(`${apiName} API success: ${content}`);
+
+        const result = JSON.parse(content) as LLMAnalysisResult;
+        const promptTokens = data.prompt_eval_count ?? 0;
+        const completionTokens = data.eval_count ?? 0;
+
+        return {
+            matches: result.matches,
+            confidence: result.confidence,
+            explanation: result.explanation,
+            usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens,
+            },
+        };
+    }
+
+    /**
+     * Analyze text using Ollama Chat API with prompt
+     * @param text Text to analyze
+     * @param criteria Criteria to check against
+     * @param model Model name to use
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async analyzeWithPrompt(
+        text: string,
+        criteria: string,
+        model: string,
+    ): Promise<LLMAnalysisResult> {
+        const userPrompt = createTextAnalysisUserPrompt(
+            criteria,
+            OllamaAdapter.truncateText(text),
+        );
+
+        try {
+            logger.debug(
+                `Ollama chat API call: "${userPrompt.substring(0, 100)}..."`,
+            );
+            return await this.chat(
+                model,
+                [
+                    { role: 'system', content: TEXT_ANALYSIS_SYSTEM_PROMPT },
+                    { role: 'user', content: userPrompt },
+                ],
+                'Chat',
+            );
+        } catch (error) {
+            logger.error('Chat API error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Analyze image using Ollama Chat API
+     * @param imageData Base64-encoded image data
+     * @param criteria Criteria to check against
+     * @param model Model name to use, must accept images
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async analyzeImage(
+        imageData: string,
+        criteria: string,
+        model: string,
+    ): Promise<LLMAnalysisResult> {
+        try {
+            logger.debug(`Calling vision API with criteria: "${criteria}"`);
+            return await this.chat(
+                model,
+                [
+                    { role: 'system', content: IMAGE_ANALYSIS_SYSTEM_PROMPT },
+                    {
+                        role: 'user',
+                        content: createImageAnalysisUserPrompt(criteria),
+                        images: [imageData],
+                    },
+                ],
+                'Vision',
+            );
+        } catch (error) {
+            logger.error('Vision API error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * List pulled models with the capabilities reported by the server
+     * @returns Pulled models
+     * @throws {Error} When the server is not available
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        const response = await fetch(`${this.baseUrl}/api/tags`);
+        if (!response.ok) {
+            throw new Error(`Ollama Tags API error: ${response.status}`);
+        }
+        const { models } = await response.json() as OllamaTagsResponse;
+
+        const details = await Promise.all(models.map(
+            ({ name }) => this.post<OllamaShowResponse>(
+                '/api/show',
+                { model: name },
+                name,
+                'Show',
+            ),
+        ));
+
+        return models.map(({ name }, index) => {
+            const capabilities = details[index]!.capabilities ?? [];
+            const modelInfo = details[index]!.model_info ?? {};
+            const contextLength = Object.entries(modelInfo).find(
+                ([key]) => key.endsWith('.context_length'),
+            )?.[1];
+            const chat = capabilities.includes(OLLAMA_CAPABILITY.COMPLETION);
+            const output: Modality[] = [];
+            if (chat) {
+                output.push(MODALITY.TEXT);
+            }
+            if (capabilities.includes(OLLAMA_CAPABILITY.EMBEDDING)) {
+                output.push(MODALITY.EMBEDDING);
+            }
+            return {
+                name,
+                capabilities: {
+                    input: capabilities.includes(OLLAMA_CAPABILITY.VISION)
+                        ? [MODALITY.TEXT, MODALITY.IMAGE]
+                        : [MODALITY.TEXT],
+                    output,
+                    maxInputTokens: typeof contextLength === 'number'
+                        ? contextLength
+                        : undefined,
+                    // The chat format takes a JSON schema for any model
+                    structuredOutput: chat,
+                    logprobs: false,
+                },
+            };
+        });
+    }
+}
@@ -1,4 +1,9 @@
-import { LLM_PROVIDERS, MAX_TEXT_LENGTH } from '../../shared/constants';
+import {
+    LLM_PROVIDERS,
+    MAX_TEXT_LENGTH,
+    MODALITY,
+} from '../../shared/constants';
+import type { DiscoveredModel, Modality } from '../../shared/constants';
 import { createLogger } from '../../shared/logger';
 import {
     createImageAnalysisUserPrompt,
@@ -17,8 +22,37 @@ const logger = createLogger('OpenAIAdapter');
 
 const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
 const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+const OPENAI_MODELS_URL = 'https://api.openai.com/v1/models';
 const MAX_COMPLETION_TOKENS = 2000;
 
+/**
+ * The models endpoint only lists names, capabilities are taken from them
+ * Audio, image, realtime and search variants can't analyze page content
+ */
+const EMBEDDING_MODEL_PREFIX = 'text-embedding-';
+const CHAT_MODEL_PREFIXES = ['gpt-', 'chatgpt-', 'o1', 'o3', 'o4'];
+const EXCLUDED_MODEL_PARTS = [
+    'audio',
+    'realtime',
+    'transcribe',
+    'tts',
+    'image',
+    'search',
+    'instruct',
+];
+const VISION_MODEL_PREFIXES = [
+    'gpt-4o',
+    'gpt-4.1',
+    'gpt-4-turbo',
+    'gpt-5',
+    'chatgpt-4o',
+    'o1',
+    'o3',
+    'o4',
+];
+const TEXT_ONLY_MODEL_PREFIXES = ['o1-mini', 'o3-mini'];
+const REASONING_MODEL_PREFIXES = ['gpt-5', 'o1', 'o3', 'o4'];
+
 /**
  * OpenAI-specific configuration
  */
@@ -49,6 +83,15 @@ interface OpenAIChatResponse {
     }>;
 }
 
+/**
+ * OpenAI models response
+ */
+interface OpenAIModelsResponse {
+    data: Array<{
+        id: string;
+    }>;
+}
+
 /**
  * OpenAI API adapter for LLM operations
  */
@@ -327,4 +370,55 @@ export class OpenAIAdapter extends BaseLLMAdapter {
             throw error;
         }
     }
+
+    /**
+     * List the embedding and chat models available to the API key
+     * @returns Available models
+     * @throws {Error} When API call fails
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        this.ensureApiKey();
+
+        const response = await fetch(OPENAI_MODELS_URL, {
+            headers: { Authorization: `Bearer ${this.apiKey}` },
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(
+                `OpenAI Models API error: ${response.status} ${errorText}`,
+            );
+        }
+
+        const { data } = await response.json() as OpenAIModelsResponse;
+        return data
+            .map(({ id }) => {
+                const startsWith = (prefix: string) => id.startsWith(prefix);
+                const chat = CHAT_MODEL_PREFIXES.some(startsWith)
+                    && !EXCLUDED_MODEL_PARTS.some((part) => id.includes(part));
+                const output: Modality[] = [];
+                if (chat) {
+                    output.push(MODALITY.TEXT);
+                }
+                if (startsWith(EMBEDDING_MODEL_PREFIX)) {
+                    output.push(MODALITY.EMBEDDING);
+                }
+                const vision = chat
+                    && VISION_MODEL_PREFIXES.some(startsWith)
+                    && !TEXT_ONLY_MODEL_PREFIXES.some(startsWith);
+                return {
+                    name: id,
+                    capabilities: {
+                        input: vision
+                            ? [MODALITY.TEXT, MODALITY.IMAGE]
+                            : [MODALITY.TEXT],
+                        output,
+                        structuredOutput: chat,
+                        // Reasoning models return no log probabilities
+                        logprobs: chat
+                            && !REASONING_MODEL_PREFIXES.some(startsWith),
+                    },
+                };
+            })
+            .filter(({ capabilities }) => capabilities.output.length > 0);
+    }
 }
@@ -0,0 +1,401 @@
+import {
+    LLM_PROVIDERS,
+    MAX_TEXT_LENGTH,
+    MODALITY,
+} from '../../shared/constants';
+import type { DiscoveredModel } from '../../shared/constants';
+import { createLogger } from '../../shared/logger';
+import {
+    createImageAnalysisUserPrompt,
+    createTextAnalysisUserPrompt,
+    IMAGE_ANALYSIS_SYSTEM_PROMPT,
+    TEXT_ANALYSIS_SYSTEM_PROMPT,
+} from '../../shared/prompts';
+import {
+    BaseLLMAdapter,
+    BaseLLMConfig,
+    ImageAnalysisOptions,
+    LLMAnalysisResult,
+} from './base-llm-adapter';
+
+const logger = createLogger('OpenAICompatibleAdapter');
+
+const MAX_COMPLETION_TOKENS = 2000;
+
+/**
+ * The models endpoint only lists names, capabilities are guessed from them
+ */
+const EMBEDDING_MODEL_PATTERN = /embed|bge|e5-|minilm/i;
+const VISION_MODEL_PATTERN = /vision|[-_.]vl\b|vl[-_]|llava|pixtral|gpt-4o/i;
+
+/**
+ * OpenAI-compatible server configuration
+ */
+export interface OpenAICompatibleConfig extends BaseLLMConfig {
+    /**
+     * Provider name for log and error messages
+     */
+    name: string;
+
+    /**
+     * API base URL including the version, e.g. http://localhost:8000/v1
+     */
+    baseUrl: string;
+
+    /**
+     * Sent as a bearer token if set
+     */
+    apiKey?: string;
+
+    /**
+     * Extra request headers, e.g. "api-key" for Azure OpenAI
+     */
+    headers?: Record<string, string>;
+}
+
+/**
+ * Part of a chat message with an image
+ */
+type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string; detail: string } };
+
+/**
+ * Chat message content, text or text with an image
+ */
+type ChatContent = string | ChatContentPart[];
+
+/**
+ * OpenAI-compatible embeddings response
+ */
+interface EmbeddingResponse {
+    data: Array<{
+        embedding: number[];
+    }>;
+}
+
+/**
+ * OpenAI-compatible chat response
+ */
+interface ChatResponse {
+    choices: Array<{
+        message: {
+            content: string | null;
+        };
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+}
+
+/**
+ * OpenAI-compatible models response
+ * vLLM also reports the context length of each model
+ */
+interface ModelsResponse {
+    data: Array<{
+        id: string;
+        max_model_len?: number;
+    }>;
+}
+
+/**
+ * Adapter for servers speaking the OpenAI wire format (vLLM, llama.cpp
+ * server, LiteLLM, Azure OpenAI...)
+ * Base URL, API key, headers and model names all come from the options,
+ * so several instances can be used side by side
+ */
+export class OpenAICompatibleAdapter extends BaseLLMAdapter {
+    private name: string;
+
+    private baseUrl: string;
+
+    private headers: Record<string, string>;
+
+    /**
+     * Create OpenAI-compatible adapter
+     * @param config Configuration object
+     */
+    constructor(config: OpenAICompatibleConfig) {
+        super(LLM_PROVIDERS.CUSTOM, config);
+        this.name = config.name;
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.headers = {
+            ...config.headers,
+            ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+            'Content-Type': 'application/json',
+        };
+    }
+
+    /**
+     * Truncate text to maximum length
+     * @param text Text to truncate
+     * @returns Truncated text
+     */
+    private static truncateText(text: string): string {
+        if (text.length > MAX_TEXT_LENGTH) {
+            const truncated = `${text.substring(0, MAX_TEXT_LENGTH)}...`;
+            const msg = `Text truncated from ${text.length} `
+                + `to ${truncated.length} chars`;
+            logger.info(msg);
+            return truncated;
+        }
+        return text;
+    }
+
+    /**
+     * Parse the JSON object of a response
+     * Servers differ in JSON mode support, so reasoning before the object
+     * (<think>...</think>) and text around it are ignored
+     * @param content Response text
+     * @returns Analysis result
+     * @throws {Error} When the response has no valid JSON object
+     */
+    private parseAnalysis(content: string): LLMAnalysisResult {
+        const thinkEndTag = '</think>';
+        const thinkEndIndex = content.indexOf(thinkEndTag);
+        const answer = thinkEndIndex === -1
+            ? content
+            : content.substring(thinkEndIndex + thinkEndTag.length);
+
+        const start = answer.indexOf('{');
+        const end = answer.lastIndexOf('}');
+        if (start < 0 || end < start) {
+            throw new Error(`No JSON object in ${this.name} response`);
+        }
+        return JSON.parse(
+            answer.substring(start, end + 1),
+        ) as LLMAnalysisResult;
+    }
+
+    /**
+     * Send a request to the server
+     * @param path API path relative to the base URL
+     * @param body Request body
+     * @param apiName API name for log and error messages
+     * @returns Parsed response body
+     * @throws {Error} When the API call fails
+     */
+    private async post<T>(
+        path: string,
+        body: Record<string, unknown>,
+        apiName: string,
+    ): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: this.headers,
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const errorMsg = `${this.name} ${apiName} API error: `
+                + `${response.status} ${errorText}`;
+            logger.error(errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        return await response.json() as T;
+    }
+
+    /**
+     * Get embedding vector for text
+     * @param text Text to get embedding for
+     * @param model Model name to use
+     * @returns Embedding vector
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async getEmbedding(text: string, model: string): Promise<number[]> {
+        const truncatedText = OpenAICompatibleAdapter.truncateText(text);
+        logger.debug(
+            `${this.name} embedding API call for: `
+            + `"${truncatedText.substring(0, 50)}..."`,
+        );
+
+        const data = await this.post<EmbeddingResponse>(
+            '/embeddings',
+            { input: truncatedText, model },
+            'Embedding',
+        );
+
+        const embedding = data.data?.[0]?.embedding;
+        if (!embedding) {
+            const errorMsg = `Invalid ${this.name} Embedding response format`;
+            logger.error(errorMsg, data);
+            throw new Error(errorMsg);
+        }
+
+        logger.info(`Embedding success (${embedding.length} dimensions)`);
+        return embedding;
+    }
+
+    /**
+     * Send a system prompt and a user message and parse the result
+     * @param model Model name to use
+     * @param systemPrompt System prompt
+     * @param userContent User message content
+     * @param apiName API name for log and error messages
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    private async chat(
+        model: string,
+        systemPrompt: string,
+        userContent: ChatContent,
+        apiName: string,
+    ): Promise<LLMAnalysisResult> {
+        const data = await this.post<ChatResponse>(
+            '/chat/completions',
+            {
+                model,
+                messages: [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userContent },
+                ],
+                max_tokens: MAX_COMPLETION_TOKENS,
+            },
+            apiName,
+        );
+
+        if (!data.choices?.[0]?.message) {
+            const errorMsg = `Invalid ${this.name} ${apiName} response format`;
+            logger.error(errorMsg, data);
+            throw new Error(errorMsg);
+        }
+
+        const { content } = data.choices[0].message;
+        if (!content || content.trim() === '') {
+            logger.warn('Empty response (likely hit token limit)');
+            return {
+                matches: false,
+                confidence: 0.0,
+                explanation: 'Empty response due to token limit',
+            };
+        }
+
+        logger.debug(`${apiName} API success: ${content}`);
+
+        const result = this.parseAnalysis(content);
+        const usage = data.usage ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+        } : undefined;
+
+        return {
+            matches: result.matches,
+            confidence: result.confidence,
+            explanation: result.explanation,
+            usage,
+        };
+    }
+
+    /**
+     * Analyze text using the chat completions API with prompt
+     * @param text Text to analyze
+     * @param criteria Criteria to check against
+     * @param model Model name to use
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async analyzeWithPrompt(
+        text: string,
+        criteria: string,
+        model: string,
+    ): Promise<LLMAnalysisResult> {
+        const userPrompt = createTextAnalysisUserPrompt(
+            criteria,
+            OpenAICompatibleAdapter.truncateText(text),
+        );
+
+        try {
+            logger.debug(`Chat API call: "${userPrompt.substring(0, 100)}..."`);
+            return await this.chat(
+                model,
+                TEXT_ANALYSIS_SYSTEM_PROMPT,
+                userPrompt,
+                'Chat',
+            );
+        } catch (error) {
+            logger.error('Chat API error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Analyze image using the chat completions API
+     * @param imageData Base64-encoded image data
+     * @param criteria Criteria to check against
+     * @param model Model name to use
+     * @param options Additional options
+     * @returns Analysis result
+     * @throws {Error} When API call fails or response is invalid
+     */
+    async analyzeImage(
+        imageData: string,
+        criteria: string,
+        model: string,
+        options: ImageAnalysisOptions = {},
+    ): Promise<LLMAnalysisResult> {
+        try {
+            logger.debug(`Calling vision API with criteria: "${criteria}"`);
+            return await this.chat(
+                model,
+                IMAGE_ANALYSIS_SYSTEM_PROMPT,
+                [
+                    {
+                        type: 'text',
+                        text: createImageAnalysisUserPrompt(criteria),
+                    },
+                    {
+                        type: 'image_url',
+                        image_url: {
+                            url: `data:image/png;base64,${imageData}`,
+                            detail: options.detail || 'auto',
+                        },
+                    },
+                ],
+                'Vision',
+            );
+        } catch (error) {
+            logger.error('Vision API error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * List the models served by the server
+     * @returns Served models, capabilities guessed from their names
+     * @throws {Error} When API call fails
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        const response = await fetch(`${this.baseUrl}/models`, {
+            headers: this.headers,
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`${this.name} Models API error: `
+                + `${response.status} ${errorText}`);
+        }
+
+        const { data } = await response.json() as ModelsResponse;
+        return data.map(({ id, max_model_len: maxInputTokens }) => {
+            const embeddings = EMBEDDING_MODEL_PATTERN.test(id);
+            return {
+                name: id,
+                capabilities: {
+                    input: !embeddings && VISION_MODEL_PATTERN.test(id)
+                        ? [MODALITY.TEXT, MODALITY.IMAGE]
+                        : [MODALITY.TEXT],
+                    output: embeddings ? [MODALITY.EMBEDDING] : [MODALITY.TEXT],
+                    maxInputTokens,
+                    // Servers differ in JSON mode support, it is not assumed
+                    structuredOutput: false,
+                    logprobs: false,
+                },
+            };
+        });
+    }
+}
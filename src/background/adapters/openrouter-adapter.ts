@@ -1,4 +1,9 @@
-import { LLM_PROVIDERS, MAX_TEXT_LENGTH } from '../../shared/constants';
+import {
+    LLM_PROVIDERS,
+    MAX_TEXT_LENGTH,
+    MODALITY,
+} from '../../shared/constants';
+import type { DiscoveredModel } from '../../shared/constants';
 import { createLogger } from '../../shared/logger';
 import {
     createImageAnalysisUserPrompt,
@@ -16,6 +21,7 @@ import {
 const logger = createLogger('OpenRouterAdapter');
 
 const OPENROUTER_CHAT_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
 const MAX_COMPLETION_TOKENS = 2000;
 
 /**
@@ -70,6 +76,26 @@ interface OpenRouterChatResponse {
     };
 }
 
+/**
+ * OpenRouter models response
+ */
+interface OpenRouterModelsResponse {
+    data: Array<{
+        id: string;
+        context_length?: number;
+        architecture?: {
+            input_modalities?: string[];
+            output_modalities?: string[];
+        };
+        supported_parameters?: string[];
+        // USD per token
+        pricing?: {
+            prompt: string;
+            completion: string;
+        };
+    }>;
+}
+
 /**
  * OpenRouter API adapter for LLM operations
  * OpenRouter uses OpenAI-compatible API format
@@ -228,12 +254,13 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
     /**
      * Get embedding vector for text
      * OpenRouter doesn't provide embedding endpoints, only chat completions
+     * Its capabilities have no embedding output, so rules never get here
      * @throws {Error} Always throws as embeddings are not supported
      */
     async getEmbedding(): Promise<number[]> {
         throw new Error(
             'OpenRouter does not support embeddings. '
-            + 'Use OpenAI or LM Studio for embedding operations.',
+            + 'Use OpenAI, LM Studio or Ollama for embedding operations.',
         );
     }
 
@@ -472,4 +499,52 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
             throw error;
         }
     }
+
+    /**
+     * List the models with text output
+     * OpenRouter reports modalities, context length and supported
+     * parameters for each model
+     * @returns Available models
+     * @throws {Error} When API call fails
+     */
+    async listModels(): Promise<DiscoveredModel[]> {
+        this.ensureApiKey();
+
+        const response = await fetch(OPENROUTER_MODELS_URL, {
+            headers: { Authorization: `Bearer ${this.apiKey}` },
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(
+                `OpenRouter Models API error: ${response.status} ${errorText}`,
+            );
+        }
+
+        const { data } = await response.json() as OpenRouterModelsResponse;
+        return data
+            .filter(({ architecture }) => architecture?.output_modalities
+                ?.includes('text') ?? true)
+            .map((model) => {
+                const parameters = model.supported_parameters ?? [];
+                const vision = model.architecture?.input_modalities
+                    ?.includes('image') ?? false;
+                return {
+                    name: model.id,
+                    capabilities: {
+                        input: vision
+                            ? [MODALITY.TEXT, MODALITY.IMAGE]
+                            : [MODALITY.TEXT],
+                        output: [MODALITY.TEXT],
+                        maxInputTokens: model.context_length,
+                        structuredOutput: parameters.includes('response_format')
+                            || parameters.includes('structured_outputs'),
+                        logprobs: parameters.includes('logprobs'),
+                        pricing: model.pricing && {
+                            input: Number(model.pricing.prompt) * 1e6,
+                            output: Number(model.pricing.completion) * 1e6,
+                        },
+                    },
+                };
+            });
+    }
 }
@@ -4,10 +4,23 @@ import {
     ACTIONS,
     PORT_NAMES,
     RULE_TYPE,
-    SETTINGS_KEYS,
 } from '../shared/constants';
 import { createLogger } from '../shared/logger';
-import type { Rule } from '../shared/rule-types';
+import { getActiveProfile } from '../shared/profiles';
+import type {
+    AnalysisRule,
+    Rule,
+    RuleModifiers,
+    RuleStage,
+    RuleStageResult,
+} from '../shared/rule-types';
+import {
+    applyGlobalExceptionRules,
+    getRuleCriteria,
+    getTargetingKey,
+    isAnalysisRule,
+} from '../shared/rule-utils';
+import { isRuleInSchedule } from '../shared/schedule';
 import { SettingsManager } from '../shared/settings';
 
 import { LLMService } from './llm-service';
@@ -17,7 +30,14 @@ import {
     type AnalyzableElement,
     type ElementRuleMatchResult,
 } from './message-handler';
+import { ModelDiscoveryService } from './model-discovery-service';
+import { ProfileService } from './profile-service';
+import { RuleAnalyzer } from './rule-analyzer';
+import { RuleMatcher } from './rule-matcher';
+import type { MatchOptions, RuleMatchResult } from './rule-matcher';
 import { RuleService } from './rule-service';
+import { ScheduleService } from './schedule-service';
+import { SubscriptionService } from './subscription-service';
 
 const logger = createLogger('Background');
 
@@ -29,6 +49,16 @@ export class BackgroundManager {
 
     ruleService: RuleService;
 
+    subscriptionService: SubscriptionService;
+
+    profileService: ProfileService;
+
+    modelDiscoveryService: ModelDiscoveryService;
+
+    scheduleService: ScheduleService;
+
+    ruleAnalyzer: RuleAnalyzer;
+
     messageHandler: MessageHandler;
 
     private isInitialized = false;
@@ -39,13 +69,30 @@ export class BackgroundManager {
         sendResponse: (response?: unknown) => void;
     }> = [];
 
+    private pendingAlarms: chrome.alarms.Alarm[] = [];
+
     constructor() {
         this.llmService = new LLMService();
         this.ruleService = new RuleService();
+        this.subscriptionService = new SubscriptionService(this.ruleService);
+        this.scheduleService = new ScheduleService(this.ruleService);
+        this.profileService = new ProfileService(
+            this.ruleService,
+            this.llmService,
+            this.subscriptionService,
+        );
+        this.modelDiscoveryService = new ModelDiscoveryService(
+            this.llmService,
+        );
+        this.ruleAnalyzer = new RuleAnalyzer(this.ruleService, this.llmService);
         // Initialize message handler with services
         this.messageHandler = new MessageHandler(
             this.llmService,
             this.ruleService,
+            this.subscriptionService,
+            this.profileService,
+            this.modelDiscoveryService,
+            this.ruleAnalyzer,
             this.analyzeElementsBatch.bind(this),
         );
     }
@@ -66,7 +113,38 @@ export class BackgroundManager {
             this.handlePortWithQueue.bind(this),
         );
 
-        logger.info('🟢 Message and port listeners registered');
+        logger.info('🟢 Registering alarm listener synchronously...');
+        chrome.alarms.onAlarm.addListener(
+            this.handleAlarmWithQueue.bind(this),
+        );
+
+        logger.info('🟢 Message, port and alarm listeners registered');
+    }
+
+    /**
+     * Handle alarm with queueing support during initialization
+     * Alarms wake the service worker, so they often fire before init is done
+     * @param alarm Fired alarm
+     */
+    private handleAlarmWithQueue(alarm: chrome.alarms.Alarm): void {
+        if (!this.isInitialized) {
+            this.pendingAlarms.push(alarm);
+            return;
+        }
+        this.handleAlarm(alarm);
+    }
+
+    /**
+     * Pass a fired alarm to the services that schedule alarms
+     * @param alarm Fired alarm
+     */
+    private handleAlarm(alarm: chrome.alarms.Alarm): void {
+        this.subscriptionService.handleAlarm(alarm).catch((error) => {
+            logger.error('Failed to handle subscription alarm:', error);
+        });
+        this.scheduleService.handleAlarm(alarm).catch((error) => {
+            logger.error('Failed to handle rule schedule alarm:', error);
+        });
     }
 
     /**
@@ -126,6 +204,11 @@ export class BackgroundManager {
             );
             this.pendingMessages.length = 0; // Clear queue
         }
+
+        this.pendingAlarms.forEach((alarm) => {
+            this.handleAlarm(alarm);
+        });
+        this.pendingAlarms.length = 0;
     }
 
     /**
@@ -136,6 +219,10 @@ export class BackgroundManager {
     async init() {
         logger.info('🟢 Background Manager: Starting initialization...');
 
+        // Global models and rules may use discovered models, custom
+        // provider models are registered when settings are loaded
+        await this.modelDiscoveryService.init();
+
         logger.info('🟢 Background Manager: Initializing LLM service...');
         await this.llmService.init();
         logger.info('🟢 Background Manager: LLM service initialized');
@@ -144,6 +231,13 @@ export class BackgroundManager {
         await this.ruleService.initialize();
         logger.info('🟢 Background Manager: Rule service initialized');
 
+        await this.scheduleService.init();
+
+        // Don't wait for subscribed lists to be fetched
+        this.subscriptionService.init().catch((error) => {
+            logger.error('Failed to initialize subscriptions:', error);
+        });
+
         // Handle extension shutdown
         chrome.runtime.onSuspend.addListener(() => {
             logger.info('Extension suspending, saving cache...');
@@ -172,7 +266,11 @@ export class BackgroundManager {
     ): Promise<ElementRuleMatchResult[]> {
         const results = [];
 
-        for (const rule of rules) {
+        // Rules are not filtered by a page URL here
+        for (const rule of applyGlobalExceptionRules(rules)) {
+            if (!isAnalysisRule(rule)) {
+                continue;
+            }
             if (!rule.enabled) {
                 logger.info(`Skipping disabled rule: ${rule.ruleString}`);
                 continue;
@@ -180,48 +278,26 @@ export class BackgroundManager {
 
             // TODO we should be able to analyze them by several at once
             for (const element of elements) {
-                try {
-                    let shouldBlock = false;
-                    let confidence = 0;
-
-                    // Check against rule criteria
-                    if (rule.type === RULE_TYPE.EMBEDDING) {
-                        const result = await this.llmService.analyzeByEmbedding(
-                            element.text,
-                            rule.containsText,
-                            element.groundTruth,
-                        );
-                        shouldBlock = result.matches;
-                        confidence = result.confidence;
-                    } else if (rule.type === RULE_TYPE.PROMPT) {
-                        const result = await this.llmService.analyzeByPrompt(
-                            element.text,
-                            rule.prompt,
-                            element.groundTruth,
-                        );
-                        shouldBlock = result.matches;
-                        confidence = result.confidence;
-                    }
-
-                    if (shouldBlock) {
-                        results.push({
-                            elementId: element.id,
-                            ruleId: rule.id,
-                            confidence,
-                            rule,
-                            element,
-                        });
-                        const text = element.text.substring(0, 50);
-                        const msg = `Element "${text}..."`
-                            + ` matches rule "${rule.ruleString}"`
-                            + ` (confidence: ${confidence})`;
-                        logger.debug(msg);
-                    }
-                } catch (error) {
-                    const msg = 'Error analyzing element'
-                        + ` "${element.text.substring(0, 50)}..."`
-                        + ` with rule "${rule.ruleString}":`;
-                    logger.error(msg, error);
+                const result = await this.analyzeElementWithRule(
+                    element,
+                    rule,
+                );
+
+                if (result.matches) {
+                    results.push({
+                        elementId: element.id,
+                        ruleId: rule.id,
+                        confidence: result.confidence,
+                        label: rule.modifiers?.label,
+                        category: rule.modifiers?.category,
+                        rule,
+                        element,
+                    });
+                    const text = element.text.substring(0, 50);
+                    const msg = `Element "${text}..."`
+                        + ` matches rule "${rule.ruleString}"`
+                        + ` (confidence: ${result.confidence})`;
+                    logger.debug(msg);
                 }
             }
         }
@@ -250,54 +326,60 @@ export class BackgroundManager {
 
     /**
      * Analyze a single element with a single rule
+     * Pre-filters of chained rules are evaluated first, in order,
+     * and evaluation stops at the first predicate that does not match
      * @param element Element with id, text, selector
      * @param rule Rule object
-     * @returns Analysis result with matches and confidence
+     * @returns Analysis result with matches, confidence and per-stage results
      */
     async analyzeElementWithRule(
         element: AnalyzableElement,
-        rule: Rule,
+        rule: AnalysisRule,
     ): Promise<{
             matches: boolean;
             confidence: number;
             threshold?: number;
             explanation?: string;
+            stages?: RuleStageResult[];
         }> {
         try {
-            let matches = false;
-            let confidence = 0;
-            let threshold;
-            let explanation = '';
-
-            // Check against rule criteria
-            if (rule.type === RULE_TYPE.EMBEDDING) {
-                // Use embedding threshold from LLM service
-                threshold = this.llmService.embeddingThreshold;
-
-                const checkResult = await this.llmService.analyzeByEmbedding(
-                    element.text,
-                    rule.containsText,
-                    element.groundTruth,
-                );
-                matches = checkResult.matches;
-                confidence = checkResult.confidence;
-                explanation = checkResult.explanation || '';
-            } else if (rule.type === RULE_TYPE.PROMPT) {
-                // Use prompt threshold from LLM service
-                threshold = this.llmService.promptThreshold;
-
-                const result = await this.llmService.analyzeByPrompt(
-                    element.text,
-                    rule.prompt,
-                    element.groundTruth,
+            const ownStage: RuleStage = {
+                type: rule.type,
+                criteria: getRuleCriteria(rule),
+                ...(rule.type === RULE_TYPE.EMBEDDING
+                    && { anchors: rule.anchors }),
+            };
+            const stages = [...(rule.preFilters ?? []), ownStage];
+            const stageResults: RuleStageResult[] = [];
+
+            for (const stage of stages) {
+                // Rule modifiers only apply to the rule's own predicate
+                const result = await this.analyzeStage(
+                    element,
+                    stage,
+                    stage === ownStage ? rule.modifiers : undefined,
                 );
-                matches = result.matches;
-                confidence = result.confidence;
-                explanation = result.explanation || '';
+                stageResults.push(result);
+
+                if (!result.matches) {
+                    break;
+                }
             }
 
+            const last = stageResults[stageResults.length - 1]!;
+            const isShortCircuited = stageResults.length < stages.length;
+            const explanation = isShortCircuited
+                ? `Stopped at ${last.type} pre-filter `
+                    + `${stageResults.length}/${stages.length}`
+                    + `${last.explanation ? `: ${last.explanation}` : ''}`
+                : last.explanation || '';
+
             return {
-                matches, confidence, threshold, explanation,
+                matches: last.matches && !isShortCircuited,
+                confidence: last.confidence,
+                threshold: last.threshold,
+                explanation,
+                stages: stageResults,
             };
         } catch (error) {
             const msg = 'Error analyzing element'
@@ -307,6 +389,62 @@ export class BackgroundManager {
         }
     }
 
+    /**
+     * Evaluate a single predicate against an element
+     * @param element Element with id, text, selector
+     * @param stage Predicate to evaluate
+     * @param modifiers Per-rule threshold and model overrides (optional)
+     * @returns Predicate result
+     */
+    async analyzeStage(
+        element: AnalyzableElement,
+        stage: RuleStage,
+        modifiers?: RuleModifiers,
+    ): Promise<RuleStageResult> {
+        if (stage.type === RULE_TYPE.EMBEDDING) {
+            // Use rule threshold or embedding threshold from LLM service
+            const threshold = modifiers?.threshold
+                ?? this.llmService.embeddingThreshold;
+
+            const result = await this.llmService.analyzeByEmbedding(
+                element.text,
+                stage.anchors ?? stage.criteria,
+                element.groundTruth,
+                modifiers,
+            );
+            return {
+                ...stage,
+                matches: result.matches,
+                confidence: result.confidence,
+                threshold,
+                explanation: result.explanation || '',
+            };
+        }
+
+        if (stage.type === RULE_TYPE.PROMPT) {
+            // Use rule threshold or prompt threshold from LLM service
+            const threshold = modifiers?.threshold
+                ?? this.llmService.promptThreshold;
+
+            const result = await this.llmService.analyzeByPrompt(
+                element.text,
+                stage.criteria,
+                element.groundTruth,
+                modifiers,
+            );
+            return {
+                ...stage,
+                matches: result.matches,
+                confidence: result.confidence,
+                threshold,
+                explanation: result.explanation || '',
+            };
+        }
+
+        // Vision rules are analyzed from screenshots by the content script
+        return { ...stage, matches: false, confidence: 0 };
+    }
+
     /**
      * Handle port connections for streaming analysis and screenshot capture
      * @param {chrome.runtime.Port} port Port connection
@@ -426,9 +564,8 @@ export class BackgroundManager {
         logger.info(`Starting streaming analysis for ${count} elements`);
 
         // Pre-analysis checks at background level
-        const blockingEnabled = await SettingsManager.get(
-            SETTINGS_KEYS.BLOCKING_ENABLED,
-        );
+        const settings = await SettingsManager.load();
+        const { enabled: blockingEnabled } = getActiveProfile(settings);
         if (!blockingEnabled) {
             const msg = '⚠️ Blocking is disabled, skipping';
             logger.info(msg);
@@ -440,7 +577,8 @@ export class BackgroundManager {
             return;
         }
 
-        const enabledRules = this.getEnabledRules();
+        const senderUrl = port.sender?.url || port.sender?.tab?.url;
+        const enabledRules = this.getEnabledRules(senderUrl);
         if (enabledRules.length === 0) {
             const msg = 'No executable rules '
                 + '(rules may require API key that is not configured)';
@@ -461,7 +599,10 @@ export class BackgroundManager {
                 logger.debug(msg);
                 return;
             }
-            await this.analyzeAndSendResult(element, enabledRules, port);
+            await this.analyzeAndSendResult(element, enabledRules, port, {
+                strategy: settings.matchStrategy,
+                consensusCount: settings.consensusCount,
+            });
         }
 
         // Only send complete message if port is still connected
@@ -481,22 +622,31 @@ export class BackgroundManager {
 
     /**
      * Get enabled rules from rule service, filtered by API key availability
+     * The rule service only holds rules of the active profile, it reloads
+     * them when the profile is switched. Rules outside their $schedule
+     * are skipped
+     * @param url Page URL to filter rules by domain and exceptions
+     * (optional), without it only exceptions for all sites are applied
      * @returns {Array} Array of enabled rules that can be executed
      */
-    getEnabledRules(): Rule[] {
-        const rules = this.ruleService.getRules();
+    getEnabledRules(url?: string): Rule[] {
+        const rules = url
+            ? this.ruleService.getRulesForUrl(url)
+            : applyGlobalExceptionRules(this.ruleService.getRules());
+        const now = new Date();
         return rules.filter((r: Rule) => {
-            if (!r.enabled) {
+            if (!r.enabled || !isRuleInSchedule(r, now)) {
                 return false;
             }
 
-            // Check if this rule type can be executed
-            // (filters out rules requiring API key when no API
-            // key is configured)
-            const canExecute = this.llmService.canExecuteRuleType(r.type);
+            // Check if the rule and its pre-filters can be executed
+            // (filters out rules whose model does not support them and
+            // rules requiring API key when no API key is configured)
+            const canExecute = this.llmService.canExecuteRule(r);
             if (!canExecute) {
                 const msg = `Skipping rule "${r.ruleString}" `
-                    + `(type: ${r.type}) - requires API key`;
+                    + `(type: ${r.type}) - unsupported model or `
+                    + 'missing API key';
                 logger.info(msg);
             }
 
@@ -509,14 +659,20 @@ export class BackgroundManager {
      * @param {object} element Element to analyze
      * @param {Array} enabledRules Array of enabled rules
      * @param {chrome.runtime.Port} port Port for sending result
+     * @param options Match strategy
      */
     async analyzeAndSendResult(
         element: AnalyzableElement,
         enabledRules: Rule[],
         port: chrome.runtime.Port,
+        options: MatchOptions,
     ): Promise<void> {
         try {
-            const result = await this.findBestRuleMatch(element, enabledRules);
+            const result = await this.findBestRuleMatch(
+                element,
+                enabledRules,
+                options,
+            );
             BackgroundManager.sendElementResult(port, element.id, result);
 
             const status = result.matched ? 'blocked' : 'allowed';
@@ -550,30 +706,27 @@ export class BackgroundManager {
     }
 
     /**
-     * Find best matching rule for element
+     * Find the rule blocking an element
+     * Applicable rules run in priority order, the match strategy decides
+     * whether all of them run and how their results are combined
      * @param element Element to analyze
      * @param enabledRules Array of enabled rules
+     * @param options Match strategy
      * @returns Result with matched, matchedRule, maxConfidence
      */
     async findBestRuleMatch(
         element: AnalyzableElement,
         enabledRules: Rule[],
-    ): Promise<{
-            matched: boolean;
-            matchedRule: Rule | null;
-            maxConfidence: number;
-            threshold: number;
-            explanation?: string;
-        }> {
-        let matched = false;
-        let matchedRule = null;
-        let maxConfidence = 0;
-        let threshold = 0;
-        let bestExplanation = '';
-
-        // Filter rules to only those whose selector matches this element
-        const applicableRules = enabledRules.filter(
-            (rule: Rule) => rule.selector === element.selector,
+        options: MatchOptions,
+    ): Promise<RuleMatchResult> {
+        // Filter rules to only those whose selector and targeting match
+        // this element, skipping exception and cosmetic rules and
+        // the AI rules disabled by exceptions (exceptions limited to
+        // domains are already applied when rules are filtered by URL)
+        const applicableRules = applyGlobalExceptionRules(enabledRules).filter(
+            (rule): rule is AnalysisRule => isAnalysisRule(rule)
+                && rule.selector === element.selector
+                && getTargetingKey(rule) === (element.targeting ?? ''),
         );
 
         if (applicableRules.length === 0) {
@@ -581,35 +734,13 @@ export class BackgroundManager {
                 'No applicable rules for element with selector: '
                 + `${element.selector}`,
             );
-            return {
-                matched, matchedRule, maxConfidence, threshold,
-            };
-        }
-
-        for (const rule of applicableRules) {
-            const result = await this.analyzeElementWithRule(element, rule);
-
-            // Track highest confidence result regardless of match
-            if (result.confidence > maxConfidence) {
-                maxConfidence = result.confidence;
-                threshold = result.threshold ?? 0;
-                bestExplanation = result.explanation || '';
-
-                // Only set as matched if it actually matches
-                if (result.matches) {
-                    matched = true;
-                    matchedRule = rule;
-                }
-            }
         }
 
-        return {
-            matched,
-            matchedRule,
-            maxConfidence,
-            threshold,
-            explanation: bestExplanation,
-        };
+        return RuleMatcher.match(
+            applicableRules,
+            (rule) => this.analyzeElementWithRule(element, rule),
+            options,
+        );
     }
 
     /**
@@ -634,6 +765,7 @@ export class BackgroundManager {
      * @param result.matchedRule The matched rule or null
      * @param result.maxConfidence Maximum confidence score
      * @param result.threshold Threshold used for matching
+     * @param result.stages Per-predicate results of the best rule
      */
     static sendElementResult(
         port: chrome.runtime.Port,
@@ -643,6 +775,7 @@ export class BackgroundManager {
             matchedRule: Rule | null;
             maxConfidence: number;
             threshold: number;
+            stages?: RuleStageResult[];
         },
     ): void {
         try {
@@ -662,6 +795,9 @@ export class BackgroundManager {
                     rule: result.matchedRule,
                     confidence: result.maxConfidence,
                     threshold: result.threshold,
+                    stages: result.stages,
+                    label: result.matchedRule?.modifiers?.label,
+                    category: result.matchedRule?.modifiers?.category,
                 },
             };
 
@@ -0,0 +1,207 @@
+// Filter List Parser - Splits filter list text into header and rule lines
+
+import type { FilterListMetadata } from '../shared/rule-types';
+
+const COMMENT_PREFIX = '!';
+
+/**
+ * Header line, e.g. "! Title: Team rules"
+ */
+const HEADER_PATTERN = /^!\s*([A-Za-z][\w ]*?)\s*:\s*(.*)$/;
+
+/**
+ * Section line, e.g. "! [Social widgets]", "! []" ends the section
+ */
+const SECTION_PATTERN = /^!\s*\[([^\]]*)\]$/;
+
+/**
+ * Expires value, e.g. "4 days" or "12 hours (update frequency)"
+ */
+const EXPIRES_PATTERN = /^(\d+)\s*(days?|hours?)\b/i;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Rule line of a filter list
+ */
+export interface FilterListRuleLine {
+    /**
+     * One-based line number
+     */
+    line: number;
+
+    /**
+     * Rule string without surrounding whitespace
+     */
+    ruleString: string;
+
+    /**
+     * Number of characters the rule is indented by on its line
+     */
+    indent: number;
+
+    /**
+     * Name of the section the rule is in
+     */
+    section?: string;
+}
+
+/**
+ * Error of a single filter list line
+ */
+export interface FilterListLineError {
+    /**
+     * One-based line number
+     */
+    line: number;
+
+    /**
+     * Line text as written in the list
+     */
+    text: string;
+    error: string;
+
+    /**
+     * One-based column of the error on the line, if known
+     */
+    column?: number;
+}
+
+/**
+ * Filter list split into header, rule lines and header errors
+ */
+export interface ParsedFilterList {
+    metadata: FilterListMetadata;
+    rules: FilterListRuleLine[];
+    errors: FilterListLineError[];
+}
+
+/**
+ * Filter list parser
+ *
+ * Format:
+ * ! Title: Team rules
+ * ! Version: 1.2.0
+ * ! Expires: 4 days
+ * ! Any other comment
+ * example.com##.banner
+ * ! [Social widgets]
+ * ##.share-buttons
+ *
+ * Lines starting with "!" are comments, blank lines are ignored,
+ * every other line is a rule. Headers are only read from the comments
+ * before the first rule, later "! Key: value" lines are plain comments.
+ * A "! [Name]" comment puts the rules below it into a section until the
+ * next section line, "! []" ends the section.
+ * Rule strings are not parsed here, see RuleService.parseFilterList
+ */
+export class FilterListParser {
+    /**
+     * Parse filter list text
+     * @param text Filter list text
+     * @returns Header values, rule lines and header errors
+     */
+    static parse(text: string): ParsedFilterList {
+        const metadata: FilterListMetadata = {};
+        const rules: FilterListRuleLine[] = [];
+        const errors: FilterListLineError[] = [];
+        let section: string | undefined;
+
+        text.split(/\r?\n/).forEach((lineText, index) => {
+            const line = index + 1;
+            const trimmed = lineText.trim();
+
+            if (!trimmed) {
+                return;
+            }
+
+            if (trimmed.startsWith(COMMENT_PREFIX)) {
+                const sectionMatch = trimmed.match(SECTION_PATTERN);
+                if (sectionMatch) {
+                    section = sectionMatch[1]!.trim() || undefined;
+                    return;
+                }
+                if (rules.length === 0) {
+                    const { header, error } = FilterListParser.parseHeader(
+                        trimmed,
+                    );
+                    Object.assign(metadata, header);
+                    if (error) {
+                        errors.push({ line, text: lineText, error });
+                    }
+                }
+                return;
+            }
+
+            rules.push({
+                line,
+                ruleString: trimmed,
+                indent: lineText.length - lineText.trimStart().length,
+                ...(section && { section }),
+            });
+        });
+
+        return { metadata, rules, errors };
+    }
+
+    /**
+     * Read a header comment
+     * Comments that are not a known header give an empty result
+     * @param comment Trimmed comment line
+     * @returns Header value or error message for an invalid value
+     */
+    static parseHeader(comment: string): {
+        header?: FilterListMetadata;
+        error?: string;
+    } {
+        const match = comment.match(HEADER_PATTERN);
+        if (!match) {
+            return {};
+        }
+
+        const key = match[1]!.toLowerCase();
+        const value = match[2]!.trim();
+
+        switch (key) {
+            case 'title':
+                return { header: { title: value } };
+            case 'version':
+                return { header: { version: value } };
+            case 'expires': {
+                const expires = FilterListParser.parseExpires(value);
+                if (expires === null) {
+                    return {
+                        error: `Invalid "Expires" header "${value}", `
+                            + 'expected e.g. "4 days" or "12 hours"',
+                    };
+                }
+                return { header: { expires } };
+            }
+            default:
+                return {};
+        }
+    }
+
+    /**
+     * Parse an "Expires" header value
+     * @param value Header value, e.g. "4 days" or "12 hours"
+     * @returns Interval in milliseconds or null if invalid
+     */
+    static parseExpires(value: string): number | null {
+        const match = value.match(EXPIRES_PATTERN);
+        if (!match) {
+            return null;
+        }
+
+        const amount = Number(match[1]);
+        if (amount <= 0) {
+            return null;
+        }
+
+        const unit = match[2]!.toLowerCase().startsWith('day')
+            ? DAY_MS
+            : HOUR_MS;
+        return amount * unit;
+    }
+}
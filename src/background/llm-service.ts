@@ -1,9 +1,25 @@
 import {
+    ALL_MODELS_MAP,
+    EMBEDDING_NEGATIVE_MARGIN,
     LLM_PROVIDERS,
+    PROVIDER_CAPABILITIES,
     RULE_TYPE,
 } from '../shared/constants';
-import type { LLMProvider, RuleType } from '../shared/constants';
+import type {
+    DiscoveredModel,
+    LLMProvider,
+    ModelOption,
+    RuleType,
+} from '../shared/constants';
 import { createLogger } from '../shared/logger';
+import { getActiveProfile } from '../shared/profiles';
+import type {
+    AnalysisRuleType,
+    EmbeddingAnchors,
+    Rule,
+    RuleModifiers,
+} from '../shared/rule-types';
+import { formatEmbeddingCriteria } from '../shared/rule-utils';
 import { SettingsManager } from '../shared/settings';
 import type { Settings } from '../shared/settings-schema';
 import {
@@ -11,12 +27,20 @@ import {
     ImageAnalysisOptions,
 } from './adapters/base-llm-adapter';
 import { ChromePromptAdapter } from './adapters/chrome-prompt-adapter';
+import { AnthropicAdapter } from './adapters/anthropic-adapter';
 import { LMStudioAdapter } from './adapters/lmstudio-adapter';
+import { OLLAMA_BASE_URL, OllamaAdapter } from './adapters/ollama-adapter';
 import { OpenAIAdapter } from './adapters/openai-adapter';
+import { OpenAICompatibleAdapter } from './adapters/openai-compatible-adapter';
 import { OpenRouterAdapter } from './adapters/openrouter-adapter';
 import { CacheManager } from './cache-manager';
 import { EmbeddingBenchmark, EmbeddingTextType } from './embedding-benchmark';
-import { getModelInfo } from '../shared/model-utils';
+import {
+    getAdapterKey,
+    getModelInfo,
+    getUnsupportedReason,
+    type ModelSource,
+} from '../shared/model-utils';
 import { VectorMath } from './vector-math';
 
 const logger = createLogger('LLMService');
@@ -51,10 +75,15 @@ export interface CacheInfo {
     groundTruth?: 'ad' | 'not-ad';
 }
 
+/**
+ * Per-call model and threshold overrides (from rule modifiers)
+ */
+export type AnalysisOverrides = Pick<RuleModifiers, 'model' | 'threshold'>;
+
 /**
  * Union type for all values that can be cached by LLMService
  */
-type CachedValue = number[] | AnalysisResult;
+type CachedValue = number | number[] | AnalysisResult;
 
 /**
  * Provider availability cache entry
@@ -71,10 +100,10 @@ interface ProviderAvailabilityCache {
 export class LLMService {
     /**
      * Provider pool - providers are created on-demand and reused
-     * Key: LLMProvider enum value
+     * Key: LLMProvider enum value, "custom:instanceId" for custom providers
      * Value: Adapter instance for that provider
      */
-    private providers: Map<LLMProvider, BaseLLMAdapter>;
+    private providers: Map<string, BaseLLMAdapter>;
 
     private embeddingModel!: string;
 
@@ -111,19 +140,25 @@ export class LLMService {
     /**
      * Get or create a provider adapter
      * Implements lazy instantiation - providers are created only when needed
-     * @param provider Provider to get or create
+     * @param source Model, or provider, to get or create the adapter for
      * @returns Provider adapter instance
      * @throws {Error} When provider is unknown or unavailable
      */
-    private getOrCreateProvider(provider: LLMProvider): BaseLLMAdapter {
+    private getOrCreateProvider(source: ModelSource): BaseLLMAdapter {
         // Check if provider already exists in the pool
-        const existing = this.providers.get(provider);
+        const { provider } = source;
+        const key = getAdapterKey(source);
+        const existing = this.providers.get(key);
         if (existing) {
             return existing;
         }
 
         // Create new provider instance based on type
-        const { openaiApiKey, openrouterApiKey } = this.currentSettings;
+        const {
+            anthropicApiKey,
+            openaiApiKey,
+            openrouterApiKey,
+        } = this.currentSettings;
         let adapter: BaseLLMAdapter;
 
         switch (provider) {
@@ -143,6 +178,15 @@ export class LLMService {
                 logger.info('LM Studio adapter created');
                 break;
             }
+            case LLM_PROVIDERS.OLLAMA: {
+                adapter = new OllamaAdapter({
+                    embeddingModel: this.embeddingModel,
+                    promptModel: this.promptModel,
+                    visionModel: this.visionModel,
+                });
+                logger.info('Ollama adapter created');
+                break;
+            }
             case LLM_PROVIDERS.OPENAI: {
                 adapter = new OpenAIAdapter({
                     apiKey: openaiApiKey || '',
@@ -162,20 +206,114 @@ export class LLMService {
                 logger.info('OpenRouter adapter created');
                 break;
             }
+            case LLM_PROVIDERS.ANTHROPIC: {
+                adapter = new AnthropicAdapter({
+                    apiKey: anthropicApiKey || '',
+                    promptModel: this.promptModel,
+                    visionModel: this.visionModel,
+                });
+                logger.info('Anthropic adapter created');
+                break;
+            }
+            case LLM_PROVIDERS.CUSTOM: {
+                const custom = this.currentSettings.customProviders.find(
+                    ({ id }) => id === source.instance?.id,
+                );
+                if (!custom) {
+                    throw new Error(`Unknown custom provider: ${key}`);
+                }
+                adapter = new OpenAICompatibleAdapter({
+                    name: custom.name,
+                    baseUrl: custom.baseUrl,
+                    apiKey: custom.apiKey,
+                    headers: custom.headers,
+                });
+                logger.info(`Custom provider "${custom.name}" adapter created`);
+                break;
+            }
             default:
                 throw new Error(`Unknown provider: ${provider}`);
         }
 
         // Add to pool and return
-        this.providers.set(provider, adapter);
+        this.providers.set(key, adapter);
         return adapter;
     }
 
+    /**
+     * Get the providers to list models of
+     * Providers without API key or without running server are skipped
+     * @returns Available providers and each custom provider
+     */
+    async getModelSources(): Promise<ModelSource[]> {
+        const {
+            anthropicApiKey,
+            customProviders,
+            openaiApiKey,
+            openrouterApiKey,
+        } = this.currentSettings;
+        const providers = Object.values(LLM_PROVIDERS)
+            .filter((provider) => provider !== LLM_PROVIDERS.CUSTOM);
+        const available = await Promise.all(providers.map(
+            (provider) => this.isProviderAvailable(
+                provider,
+                openaiApiKey,
+                openrouterApiKey,
+                anthropicApiKey,
+            ),
+        ));
+
+        return [
+            ...providers
+                .filter((_, index) => available[index])
+                .map((provider) => ({ provider })),
+            ...customProviders.map(({ id, name }) => ({
+                provider: LLM_PROVIDERS.CUSTOM,
+                instance: { id, name },
+            })),
+        ];
+    }
+
+    /**
+     * List the models of a provider with their capabilities
+     * @param source Provider to list the models of
+     * @returns Models of the provider
+     * @throws {Error} When the provider can't list its models
+     */
+    async listModels(source: ModelSource): Promise<DiscoveredModel[]> {
+        const models = await this.getOrCreateProvider(source).listModels();
+        logger.info(`${getAdapterKey(source)}: ${models.length} models listed`);
+        return models;
+    }
+
+    /**
+     * Remove the adapters of custom providers from the pool when their
+     * configuration changed, they are created again on next use
+     * @param settings Newly loaded settings
+     */
+    private clearChangedCustomProviders(settings: Settings): void {
+        const changed = JSON.stringify(settings.customProviders)
+            !== JSON.stringify(this.currentSettings?.customProviders);
+        if (!changed) {
+            return;
+        }
+
+        [...this.providers.keys()]
+            .filter((key) => key.startsWith(`${LLM_PROVIDERS.CUSTOM}:`))
+            .forEach((key) => this.providers.delete(key));
+        logger.info('Custom providers changed, cleared their adapters');
+    }
+
     /**
      * Initialize service from storage
      * Providers are created on-demand when needed
      */
     async init(): Promise<void> {
+        // Initialize cache manager first, analysis needs it even if the
+        // rest of the initialization fails
+        // Cache keys include model identifiers for proper cache isolation
+        this.cacheManager = new CacheManager();
+
         try {
             const settings = await SettingsManager.load();
 
@@ -186,22 +324,18 @@ export class LLMService {
             this.embeddingModel = settings.embeddingModel;
             this.promptModel = settings.promptModel;
             this.visionModel = settings.visionModel;
-            this.embeddingThreshold = settings.embeddingThreshold;
-            this.promptThreshold = settings.promptThreshold;
-            this.visionThreshold = settings.visionThreshold;
+
+            // Thresholds belong to the active rule profile
+            const profile = getActiveProfile(settings);
+            this.embeddingThreshold = profile.embeddingThreshold;
+            this.promptThreshold = profile.promptThreshold;
+            this.visionThreshold = profile.visionThreshold;
 
             const modelsMsg = `Models: embedding=${this.embeddingModel}, `
                 + `prompt=${this.promptModel}, vision=${this.visionModel}`;
             logger.info(modelsMsg);
 
-            const { provider: embProv } = getModelInfo(this.embeddingModel);
-            const { provider: prmProv } = getModelInfo(this.promptModel);
-            const { provider: visProv } = getModelInfo(this.visionModel);
-            const providersMsg = 'Providers (lazy): '
-                + `embedding=${embProv}, `
-                + `prompt=${prmProv}, `
-                + `vision=${visProv}`;
-            logger.info(providersMsg);
+            this.logProviders();
 
             const thresholdsMsg = 'Thresholds: '
                 + `embedding=${this.embeddingThreshold}, `
@@ -209,10 +343,6 @@ export class LLMService {
                 + `vision=${this.visionThreshold}`;
             logger.info(thresholdsMsg);
 
-            // Initialize cache manager
-            // Cache keys include model identifiers for proper cache isolation
-            this.cacheManager = new CacheManager();
-
             // Load cached data
             await this.cacheManager.load();
 
@@ -239,17 +369,34 @@ export class LLMService {
         }
     }
 
+    /**
+     * Check if Ollama server is running and accessible
+     * @returns True if server is available
+     */
+    private async checkOllamaHealth(): Promise<boolean> {
+        try {
+            const response = await fetch(`${OLLAMA_BASE_URL}/api/version`, {
+                method: 'GET',
+            });
+            return response.ok;
+        } catch (error) {
+            return false;
+        }
+    }
+
     /**
      * Check if provider is available with caching
      * @param provider LLM provider to check
      * @param openaiApiKey OpenAI API key (if applicable)
      * @param openrouterApiKey OpenRouter API key (if applicable)
+     * @param anthropicApiKey Anthropic API key (if applicable)
      * @returns True if provider is available
      */
     private async isProviderAvailable(
         provider: LLMProvider,
         openaiApiKey?: string,
         openrouterApiKey?: string,
+        anthropicApiKey?: string,
     ): Promise<boolean> {
         const cacheKey = `${provider}:availability`;
         const cached = this.providerAvailability.get(cacheKey);
@@ -273,9 +420,19 @@ export class LLMService {
         } else if (provider === LLM_PROVIDERS.OPENROUTER) {
             // OpenRouter requires API key
             available = !!openrouterApiKey && openrouterApiKey.length > 0;
+        } else if (provider === LLM_PROVIDERS.ANTHROPIC) {
+            // Anthropic requires API key
+            available = !!anthropicApiKey && anthropicApiKey.length > 0;
         } else if (provider === LLM_PROVIDERS.LMSTUDIO) {
             // LM Studio requires server to be running
             available = await this.checkLMStudioHealth();
+        } else if (provider === LLM_PROVIDERS.OLLAMA) {
+            // Ollama requires server to be running
+            available = await this.checkOllamaHealth();
+        } else if (provider === LLM_PROVIDERS.CUSTOM) {
+            // Custom providers only have registered models while configured,
+            // the API key is optional
+            available = true;
         }
 
         // Cache result
@@ -290,16 +447,19 @@ export class LLMService {
     /**
      * Ensure settings are up-to-date for embedding operations
      * Updates current settings and clears provider pool if needed
+     * @param modelId Model ID overriding the global embedding model, only
+     * its provider has to be available then
      * @throws {Error} When provider is unavailable
      */
-    private async ensureEmbeddingAdapter(): Promise<void> {
+    private async ensureEmbeddingAdapter(modelId?: string): Promise<void> {
         const settings = await SettingsManager.load();
         const currentModel = settings.embeddingModel;
-        const currentThreshold = settings.embeddingThreshold;
+        const currentThreshold = getActiveProfile(settings).embeddingThreshold;
 
-        // Parse provider and model (supports both "provider:model" and legacy "model" formats)
-        const { provider: currentProvider } = getModelInfo(currentModel);
-        const { provider: previousProvider } = getModelInfo(
+        // Models missing from the registry have no provider, settings are
+        // still updated and analysis fails below
+        const currentProvider = LLMService.findModelProvider(currentModel);
+        const previousProvider = LLMService.findModelProvider(
             this.embeddingModel || currentModel,
         );
 
@@ -311,22 +471,33 @@ export class LLMService {
 
         if (providerChanged || modelChanged || settingsChanged) {
             // Update cached settings
+            this.clearChangedCustomProviders(settings);
             this.currentSettings = settings;
             this.embeddingModel = currentModel;
             this.embeddingThreshold = currentThreshold;
 
             // Clear provider pool if provider changed - forces recreation
-            if (providerChanged) {
+            if (providerChanged && previousProvider) {
                 this.providers.delete(previousProvider);
                 logger.info(`Cleared ${previousProvider} from provider pool`);
             }
         }
 
+        if (modelId) {
+            await this.ensureOverrideModelAvailable(modelId, 'embedding');
+            return;
+        }
+
+        if (!currentProvider) {
+            throw new Error(LLMService.getMissingModelMessage(currentModel, 'embedding'));
+        }
+
         // Check provider availability
         const available = await this.isProviderAvailable(
             currentProvider,
             settings.openaiApiKey,
             settings.openrouterApiKey,
+            settings.anthropicApiKey,
         );
 
         if (!available) {
@@ -339,27 +510,43 @@ export class LLMService {
                     + 'for embedding analysis';
                 throw new Error(msg);
             }
+            if (currentProvider === LLM_PROVIDERS.ANTHROPIC) {
+                const msg = 'Anthropic API key required '
+                    + 'for embedding analysis';
+                throw new Error(msg);
+            }
             if (currentProvider === LLM_PROVIDERS.LMSTUDIO) {
                 const msg = 'LM Studio server not available '
                     + 'at http://localhost:1234';
                 throw new Error(msg);
             }
+            if (currentProvider === LLM_PROVIDERS.OLLAMA) {
+                const msg = 'Ollama server not available '
+                    + `at ${OLLAMA_BASE_URL}`;
+                throw new Error(msg);
+            }
         }
     }
 
     /**
      * Ensure settings are up-to-date for prompt operations
      * Updates current settings and clears provider pool if needed
+     * @param modelId Model ID overriding the global prompt model, only
+     * its provider has to be available then
      * @throws {Error} When provider is unavailable
      */
-    private async ensurePromptAdapter(): Promise<void> {
+    private async ensurePromptAdapter(modelId?: string): Promise<void> {
         const settings = await SettingsManager.load();
         const currentPromptModel = settings.promptModel;
-        const currentPromptThreshold = settings.promptThreshold;
+        const currentPromptThreshold = getActiveProfile(settings)
+            .promptThreshold;
 
-        // Get provider and model info from registry
-        const { provider: currentProvider } = getModelInfo(currentPromptModel);
-        const { provider: previousProvider } = getModelInfo(
+        // Models missing from the registry have no provider, settings are
+        // still updated and analysis fails below
+        const currentProvider = LLMService.findModelProvider(
+            currentPromptModel,
+        );
+        const previousProvider = LLMService.findModelProvider(
             this.promptModel || currentPromptModel,
         );
 
@@ -371,22 +558,33 @@ export class LLMService {
 
         if (providerChanged || modelChanged || settingsChanged) {
             // Update cached settings
+            this.clearChangedCustomProviders(settings);
             this.currentSettings = settings;
             this.promptModel = currentPromptModel;
             this.promptThreshold = currentPromptThreshold;
 
             // Clear provider pool if provider changed - forces recreation
-            if (providerChanged) {
+            if (providerChanged && previousProvider) {
                 this.providers.delete(previousProvider);
                 logger.info(`Cleared ${previousProvider} from provider pool`);
             }
         }
 
+        if (modelId) {
+            await this.ensureOverrideModelAvailable(modelId, 'prompt');
+            return;
+        }
+
+        if (!currentProvider) {
+            throw new Error(LLMService.getMissingModelMessage(currentPromptModel, 'prompt'));
+        }
+
         // Check provider availability
         const available = await this.isProviderAvailable(
             currentProvider,
             settings.openaiApiKey,
             settings.openrouterApiKey,
+            settings.anthropicApiKey,
         );
 
         if (!available) {
@@ -397,27 +595,42 @@ export class LLMService {
                 const msg = 'OpenRouter API key required for prompt analysis';
                 throw new Error(msg);
             }
+            if (currentProvider === LLM_PROVIDERS.ANTHROPIC) {
+                const msg = 'Anthropic API key required for prompt analysis';
+                throw new Error(msg);
+            }
             if (currentProvider === LLM_PROVIDERS.LMSTUDIO) {
                 const msg = 'LM Studio server not available '
                     + 'at http://localhost:1234';
                 throw new Error(msg);
             }
+            if (currentProvider === LLM_PROVIDERS.OLLAMA) {
+                const msg = 'Ollama server not available '
+                    + `at ${OLLAMA_BASE_URL}`;
+                throw new Error(msg);
+            }
         }
     }
 
     /**
      * Ensure settings are up-to-date for vision operations
      * Updates current settings and clears provider pool if needed
+     * @param modelId Model ID overriding the global vision model, only
+     * its provider has to be available then
      * @throws {Error} When provider is unavailable
      */
-    private async ensureVisionAdapter(): Promise<void> {
+    private async ensureVisionAdapter(modelId?: string): Promise<void> {
         const settings = await SettingsManager.load();
         const currentVisionModel = settings.visionModel;
-        const currentVisionThreshold = settings.visionThreshold;
+        const currentVisionThreshold = getActiveProfile(settings)
+            .visionThreshold;
 
-        // Get provider and model info from registry
-        const { provider: currentProvider } = getModelInfo(currentVisionModel);
-        const { provider: previousProvider } = getModelInfo(
+        // Models missing from the registry have no provider, settings are
+        // still updated and analysis fails below
+        const currentProvider = LLMService.findModelProvider(
+            currentVisionModel,
+        );
+        const previousProvider = LLMService.findModelProvider(
             this.visionModel || currentVisionModel,
         );
 
@@ -429,22 +642,33 @@ export class LLMService {
 
         if (providerChanged || modelChanged || settingsChanged) {
             // Update cached settings
+            this.clearChangedCustomProviders(settings);
             this.currentSettings = settings;
             this.visionModel = currentVisionModel;
             this.visionThreshold = currentVisionThreshold;
 
             // Clear provider pool if provider changed - forces recreation
-            if (providerChanged) {
+            if (providerChanged && previousProvider) {
                 this.providers.delete(previousProvider);
                 logger.info(`Cleared ${previousProvider} from provider pool`);
             }
         }
 
+        if (modelId) {
+            await this.ensureOverrideModelAvailable(modelId, 'vision');
+            return;
+        }
+
+        if (!currentProvider) {
+            throw new Error(LLMService.getMissingModelMessage(currentVisionModel, 'vision'));
+        }
+
         // Check provider availability
         const available = await this.isProviderAvailable(
             currentProvider,
             settings.openaiApiKey,
             settings.openrouterApiKey,
+            settings.anthropicApiKey,
         );
 
         if (!available) {
@@ -455,11 +679,47 @@ export class LLMService {
                 const msg = 'OpenRouter API key required for vision analysis';
                 throw new Error(msg);
             }
+            if (currentProvider === LLM_PROVIDERS.ANTHROPIC) {
+                const msg = 'Anthropic API key required for vision analysis';
+                throw new Error(msg);
+            }
             if (currentProvider === LLM_PROVIDERS.LMSTUDIO) {
                 const msg = 'LM Studio server not available '
                     + 'at http://localhost:1234';
                 throw new Error(msg);
             }
+            if (currentProvider === LLM_PROVIDERS.OLLAMA) {
+                const msg = 'Ollama server not available '
+                    + `at ${OLLAMA_BASE_URL}`;
+                throw new Error(msg);
+            }
+        }
+    }
+
+    /**
+     * Ensure the provider of a per-rule model override is available
+     * Called by the ensure*Adapter methods instead of checking the
+     * global model
+     * @param modelId Model ID from rule modifiers
+     * @param analysisType Analysis type for error messages
+     * @throws {Error} When provider is unavailable
+     */
+    private async ensureOverrideModelAvailable(
+        modelId: string,
+        analysisType: string,
+    ): Promise<void> {
+        const { provider } = getModelInfo(modelId);
+        const available = await this.isProviderAvailable(
+            provider,
+            this.currentSettings.openaiApiKey,
+            this.currentSettings.openrouterApiKey,
+            this.currentSettings.anthropicApiKey,
+        );
+
+        if (!available) {
+            const msg = `Provider "${provider}" of model "${modelId}" `
+                + `is not available for ${analysisType} analysis`;
+            throw new Error(msg);
         }
     }
 
@@ -467,21 +727,28 @@ export class LLMService {
      * Get embedding vector for a text string
      * @param text Text to get embedding for
      * @param textType Type of text being embedded (content or query)
+     * @param modelId Model ID overriding the global embedding model
      * @returns The embedding vector
      * @throws {Error} When API call fails or response is invalid
      */
     async getEmbedding(
         text: string,
         textType?: EmbeddingTextType,
+        modelId?: string,
     ): Promise<number[]> {
-        await this.ensureEmbeddingAdapter();
+        await this.ensureEmbeddingAdapter(modelId);
+
+        const embeddingModel = modelId ?? this.embeddingModel;
 
         // Get provider from model registry
-        const { provider } = getModelInfo(this.embeddingModel);
-        const adapter = this.getOrCreateProvider(provider);
+        const model = LLMService.getSupportedModel(
+            embeddingModel,
+            RULE_TYPE.EMBEDDING,
+        );
+        const adapter = this.getOrCreateProvider(model);
 
         const cacheKey = `${CACHE_KEY_TYPES.EMBEDDING}:`
-            + `${this.embeddingModel}:${text}`;
+            + `${embeddingModel}:${text}`;
         const benchmarkEnabled = this.benchmark.isEnabled();
 
         // Skip cache when benchmarking to get accurate measurements
@@ -502,16 +769,13 @@ export class LLMService {
             // Measure performance if benchmarking is enabled
             const startTime = benchmarkEnabled ? performance.now() : 0;
 
-            // Get model info from registry
-            const model = getModelInfo(this.embeddingModel);
-
             const embedding = await adapter.getEmbedding(text, model.name);
 
             // Record benchmark measurement
             if (benchmarkEnabled) {
                 const duration = performance.now() - startTime;
                 await this.benchmark.recordMeasurement(
-                    this.embeddingModel,
+                    embeddingModel,
                     duration,
                     text.length,
                     textType,
@@ -532,42 +796,31 @@ export class LLMService {
 
     /**
      * Analyze text using embedding similarity with caching
+     * With multiple anchors the closest positive anchor has to pass
+     * the threshold and beat every negative anchor by a margin
      * @param text Text to analyze
-     * @param criteria Criteria to check against
+     * @param criteria Criteria text or positive and negative anchors
      * @param groundTruth Ground truth label for accuracy tracking
+     * @param overrides Per-rule model and threshold overrides
      * @returns Analysis result with confidence based on cosine similarity
      * @throws {Error} When API call fails or response is invalid
      */
     async analyzeByEmbedding(
         text: string,
-        criteria: string,
+        criteria: string | EmbeddingAnchors,
         groundTruth?: 'ad' | 'not-ad',
+        overrides: AnalysisOverrides = {},
     ): Promise<AnalysisResult> {
-        await this.ensureEmbeddingAdapter();
+        await this.ensureEmbeddingAdapter(overrides.model);
 
-        const cacheKey = `${CACHE_KEY_TYPES.EMBEDDING}:`
-            + `${this.embeddingModel}:similarity:${text}:${criteria}`;
+        const anchors = typeof criteria === 'string'
+            ? { positive: [criteria], negative: [] }
+            : criteria;
+        const embeddingModel = overrides.model ?? this.embeddingModel;
+        const threshold = overrides.threshold ?? this.embeddingThreshold;
         const benchmarkEnabled = this.benchmark.isEnabled();
 
-        // Skip cache when benchmarking to get accurate measurements
-        if (!benchmarkEnabled) {
-            // Check cache first
-            const cached = this.cacheManager.get(cacheKey);
-            if (cached && typeof cached === 'object') {
-                logger.debug('Cache hit for embedding similarity check');
-                const result = cached as AnalysisResult;
-
-                // Backfill explanation if missing from legacy cache
-                if (!result.explanation && result.confidence !== undefined) {
-                    const confPct = (result.confidence * 100).toFixed(1);
-                    const thrPct = (this.embeddingThreshold * 100).toFixed(1);
-                    // Note: using current threshold for display
-                    result.explanation = `Cosine similarity ${confPct}%`
-                        + ` (threshold: ${thrPct}%)`;
-                }
-                return result;
-            }
-        } else {
+        if (benchmarkEnabled) {
             logger.debug('📊 Benchmark mode: skipping cache');
         }
 
@@ -575,30 +828,44 @@ export class LLMService {
             // Start timing for benchmark
             const startTime = benchmarkEnabled ? performance.now() : 0;
 
-            // Get embeddings for both text and criteria
-            const [textEmbedding, criteriaEmbedding] = await Promise.all([
-                this.getEmbedding(text, 'content'),
-                this.getEmbedding(criteria, 'query'),
+            const similarity = (anchor: string) => this.getAnchorSimilarity(
+                text,
+                anchor,
+                embeddingModel,
+                overrides.model,
+            );
+            const [positive, negative] = await Promise.all([
+                Promise.all(anchors.positive.map(similarity)),
+                Promise.all(anchors.negative.map(similarity)),
             ]);
 
-            // Compute cosine similarity
-            const confidence = VectorMath.cosineSimilarity(
-                textEmbedding,
-                criteriaEmbedding,
-            );
+            const confidence = Math.max(...positive);
+            const closestNegative = negative.length > 0
+                ? Math.max(...negative)
+                : null;
+            const matches = confidence >= threshold
+                && (closestNegative === null
+                    || confidence - closestNegative
+                        >= EMBEDDING_NEGATIVE_MARGIN);
 
-            const matches = confidence >= this.embeddingThreshold;
             const confPct = (confidence * 100).toFixed(1);
-            const thrPct = (this.embeddingThreshold * 100).toFixed(1);
-            const explanation = `Cosine similarity ${confPct}%`
+            const thrPct = (threshold * 100).toFixed(1);
+            let explanation = `Cosine similarity ${confPct}%`
                 + ` (threshold: ${thrPct}%)`;
+            if (closestNegative !== null) {
+                const index = negative.indexOf(closestNegative);
+                const negPct = (closestNegative * 100).toFixed(1);
+                explanation += ', closest negative anchor '
+                    + `"${anchors.negative[index]}" ${negPct}%`;
+            }
 
             // Record benchmark measurement for embedding analysis
             if (benchmarkEnabled) {
                 const duration = performance.now() - startTime;
-                const combinedText = `${criteria}\n${text}`;
+                const combinedText = `${formatEmbeddingCriteria(anchors)}`
+                    + `\n${text}`;
                 await this.benchmark.recordMeasurement(
-                    this.embeddingModel,
+                    embeddingModel,
                     duration,
                     combinedText.length,
                     'content',
@@ -613,34 +880,76 @@ export class LLMService {
             }
 
             const { provider: embeddingProvider } = getModelInfo(
-                this.embeddingModel,
+                embeddingModel,
             );
 
-            const result: AnalysisResult = {
+            return {
                 matches,
                 confidence,
                 explanation,
                 provider: embeddingProvider,
                 cached: false,
             };
-
-            // Cache the result (unless benchmarking)
-            if (!benchmarkEnabled) {
-                this.cacheManager.set(cacheKey, result);
-            }
-
-            return result;
         } catch (error) {
             logger.error('Failed to analyze by embedding:', error);
             throw error;
         }
     }
 
+    /**
+     * Get cosine similarity between text and a single anchor
+     * Cached per anchor, so anchors shared between rules
+     * are only compared once
+     * @param text Text to analyze
+     * @param anchor Anchor phrase
+     * @param embeddingModel Resolved embedding model ID
+     * @param modelOverride Per-rule model override (optional)
+     * @returns Cosine similarity
+     */
+    private async getAnchorSimilarity(
+        text: string,
+        anchor: string,
+        embeddingModel: string,
+        modelOverride?: string,
+    ): Promise<number> {
+        const cacheKey = `${CACHE_KEY_TYPES.EMBEDDING}:`
+            + `${embeddingModel}:similarity:${text}:${anchor}`;
+        const benchmarkEnabled = this.benchmark.isEnabled();
+
+        // Skip cache when benchmarking to get accurate measurements.
+        // Similarity doesn't depend on threshold, so only it is cached
+        if (!benchmarkEnabled) {
+            const cached = this.cacheManager.get(cacheKey);
+            if (typeof cached === 'number') {
+                logger.debug('Cache hit for embedding similarity check');
+                return cached;
+            }
+        }
+
+        // Get embeddings for both text and anchor
+        const [textEmbedding, anchorEmbedding] = await Promise.all([
+            this.getEmbedding(text, 'content', modelOverride),
+            this.getEmbedding(anchor, 'query', modelOverride),
+        ]);
+
+        const similarity = VectorMath.cosineSimilarity(
+            textEmbedding,
+            anchorEmbedding,
+        );
+
+        if (!benchmarkEnabled) {
+            this.cacheManager.set(cacheKey, similarity);
+        }
+
+        return similarity;
+    }
+
     /**
      * Analyze text using LLM prompt with caching
      * @param text Text to analyze
      * @param criteria Criteria to check against
      * @param groundTruth Ground truth label for benchmarking (optional)
+     * @param overrides Per-rule model and threshold overrides
      * @returns Analysis result
      * @throws {Error} When API call fails or response is invalid
      */
@@ -648,24 +957,41 @@ export class LLMService {
         text: string,
         criteria: string,
         groundTruth?: 'ad' | 'not-ad',
+        overrides: AnalysisOverrides = {},
     ): Promise<AnalysisResult> {
-        await this.ensurePromptAdapter();
+        await this.ensurePromptAdapter(overrides.model);
+
+        const promptModel = overrides.model ?? this.promptModel;
+        const threshold = overrides.threshold ?? this.promptThreshold;
 
         // Get provider from model registry
-        const { provider } = getModelInfo(this.promptModel);
-        const adapter = this.getOrCreateProvider(provider);
+        const model = LLMService.getSupportedModel(
+            promptModel,
+            RULE_TYPE.PROMPT,
+        );
+        const { provider } = model;
+        const adapter = this.getOrCreateProvider(model);
 
         const cacheKey = `${CACHE_KEY_TYPES.PROMPT}:`
-            + `${this.promptModel}:${text}:${criteria}`;
+            + `${promptModel}:${text}:${criteria}`;
         const benchmarkEnabled = this.benchmark.isEnabled();
 
         // Skip cache when benchmarking to get accurate measurements
         if (!benchmarkEnabled) {
             // Check cache first
             const cachedResult = this.cacheManager.get(cacheKey);
-            if (cachedResult && !Array.isArray(cachedResult)) {
+            if (
+                typeof cachedResult === 'object'
+                && !Array.isArray(cachedResult)
+            ) {
                 // Silently return cached result - logging handled by BackgroundManager
-                return { ...cachedResult, cached: true };
+                // Threshold is applied on read since it can differ per rule
+                return {
+                    ...cachedResult,
+                    matches: cachedResult.matches
+                        && cachedResult.confidence >= threshold,
+                    cached: true,
+                };
             }
         } else {
             logger.debug('📊 Benchmark mode: skipping cache');
@@ -679,9 +1005,6 @@ export class LLMService {
             // Start timing for benchmark
             const startTime = performance.now();
 
-            // Get model info from registry
-            const model = getModelInfo(this.promptModel);
-
             const result = await adapter.analyzeWithPrompt(
                 text,
                 criteria,
@@ -690,7 +1013,6 @@ export class LLMService {
 
             // Combine API's matches decision with confidence threshold
             // Both must be true: API says it matches AND confidence is high enough
-            const threshold = this.promptThreshold;
             const matches = result.matches && result.confidence >= threshold;
 
             // Record benchmark measurement
@@ -698,7 +1020,7 @@ export class LLMService {
                 const duration = performance.now() - startTime;
                 const combinedText = `${criteria}\n${text}`;
                 await this.benchmark.recordMeasurement(
-                    this.promptModel,
+                    promptModel,
                     duration,
                     combinedText.length,
                     'content',
@@ -719,9 +1041,12 @@ export class LLMService {
                 cached: false,
             };
 
-            // Cache the result (unless benchmarking)
+            // Cache the API decision without threshold (unless benchmarking)
             if (!benchmarkEnabled) {
-                this.cacheManager.set(cacheKey, response);
+                this.cacheManager.set(cacheKey, {
+                    ...response,
+                    matches: result.matches,
+                });
             }
 
             // All result logging is now handled by BackgroundManager
@@ -740,6 +1065,7 @@ export class LLMService {
      * @param criteria Criteria to check against
      * @param cacheInfo Cache information with innerText
      * @param options Additional options
+     * @param overrides Per-rule model and threshold overrides
      * @returns Analysis result
      * @throws {Error} When API call fails or response is invalid
      */
@@ -748,12 +1074,20 @@ export class LLMService {
         criteria: string,
         cacheInfo: CacheInfo = {},
         options: ImageAnalysisOptions = {},
+        overrides: AnalysisOverrides = {},
     ): Promise<AnalysisResult> {
-        await this.ensureVisionAdapter();
+        await this.ensureVisionAdapter(overrides.model);
+
+        const visionModel = overrides.model ?? this.visionModel;
+        const threshold = overrides.threshold ?? this.visionThreshold;
 
         // Get provider from model registry
-        const { provider } = getModelInfo(this.visionModel);
-        const adapter = this.getOrCreateProvider(provider);
+        const model = LLMService.getSupportedModel(
+            visionModel,
+            RULE_TYPE.VISION,
+        );
+        const { provider } = model;
+        const adapter = this.getOrCreateProvider(model);
 
         // Extract text for logging purposes
         const innerText = cacheInfo.innerText || '';
@@ -785,15 +1119,12 @@ export class LLMService {
                 + `element text: "${cacheId}"\n`
                 + `   - Criteria: "${criteria}"\n`
                 + `   - Image size: ${imgSizeKb} KB\n`
-                + `   - Model: ${this.visionModel}`;
+                + `   - Model: ${visionModel}`;
             logger.info(apiCallMsg);
 
             // Start timing for benchmark
             const startTime = performance.now();
 
-            // Get model info from registry
-            const model = getModelInfo(this.visionModel);
-
             const result = await adapter.analyzeImage(
                 imageData,
                 criteria,
@@ -811,7 +1142,7 @@ export class LLMService {
                 const groundTruth = cacheInfo.groundTruth as 'ad' | 'not-ad' | undefined;
 
                 await this.benchmark.recordMeasurement(
-                    this.visionModel,
+                    visionModel,
                     duration,
                     combinedText.length,
                     'content',
@@ -827,7 +1158,6 @@ export class LLMService {
             // Combine API's matches decision with confidence threshold
             // Both must be true: API says it matches
             // AND confidence is high enough
-            const threshold = this.visionThreshold;
             const matches = result.matches && result.confidence >= threshold;
 
             // Vision results are NOT cached
@@ -846,37 +1176,79 @@ export class LLMService {
     }
 
     /**
-     * Check if a specific provider requires an API key
-     * @param provider Provider to check
-     * @returns True if provider requires API key
+     * Get a model that has to support a rule type
+     * @param modelId Model ID
+     * @param ruleType Type of the rule the model evaluates
+     * @returns Model from the registry
+     * @throws {Error} When the model does not support the rule type
+     */
+    private static getSupportedModel(
+        modelId: string,
+        ruleType: AnalysisRuleType,
+    ): ModelOption {
+        const model = getModelInfo(modelId);
+        const unsupportedReason = getUnsupportedReason(model, ruleType);
+        if (unsupportedReason) {
+            throw new Error(unsupportedReason);
+        }
+        return model;
+    }
+
+    /**
+     * Check if a rule and all its pre-filters can be executed
+     * Pre-filters use the global model of their type, $model only applies
+     * to the rule's own predicate
+     * @param rule Rule to check
+     * @returns True if every stage of the rule can be executed
      */
-    private static providerRequiresApiKey(provider: LLMProvider): boolean {
-        // Chrome Prompt API and LM Studio don't require API keys
-        return provider === LLM_PROVIDERS.OPENAI
-            || provider === LLM_PROVIDERS.OPENROUTER;
+    canExecuteRule(rule: Rule): boolean {
+        return this.canExecuteRuleType(rule.type, rule.modifiers?.model)
+            && (rule.preFilters ?? []).every(
+                (stage) => this.canExecuteRuleType(stage.type),
+            );
     }
 
     /**
-     * Check if a specific rule type can be executed without API key
-     * @param ruleType Type of rule (embedding, prompt, vision)
-     * @returns True if rule can be executed, false if it requires
-     * API key that's missing
+     * Check if a specific rule type can be executed
+     * @param ruleType Type of rule (embedding, prompt, vision, exception,
+     * cosmetic)
+     * @param modelId Model ID overriding the global model (optional)
+     * @returns True if rule can be executed, false if the model is not
+     * in the registry, does not support the rule type or requires an API
+     * key that's missing
      */
-    canExecuteRuleType(ruleType: RuleType): boolean {
-        let provider: LLMProvider;
+    canExecuteRuleType(ruleType: RuleType, modelId?: string): boolean {
+        // Exception and cosmetic rules never call a model
+        if (
+            ruleType === RULE_TYPE.EXCEPTION
+            || ruleType === RULE_TYPE.COSMETIC
+        ) {
+            return true;
+        }
 
-        // Determine which provider to check based on rule type
-        if (ruleType === RULE_TYPE.EMBEDDING) {
-            provider = getModelInfo(this.embeddingModel).provider;
+        // Determine which model to check based on rule type
+        let checkedModelId: string;
+        if (modelId) {
+            checkedModelId = modelId;
+        } else if (ruleType === RULE_TYPE.EMBEDDING) {
+            checkedModelId = this.embeddingModel;
         } else if (ruleType === RULE_TYPE.VISION) {
-            provider = getModelInfo(this.visionModel).provider;
+            checkedModelId = this.visionModel;
         } else {
-            provider = getModelInfo(this.promptModel).provider;
+            checkedModelId = this.promptModel;
         }
 
-        // If provider doesn't require API key (e.g., LM Studio, Chrome Prompt),
+        // Models of removed custom providers and models that are not
+        // listed right now make the rule unavailable until they are back
+        const model = ALL_MODELS_MAP[checkedModelId];
+        if (!model || getUnsupportedReason(model, ruleType)) {
+            return false;
+        }
+
+        // If provider doesn't require API key (e.g., LM Studio, Ollama),
         // rule can be executed
-        if (!LLMService.providerRequiresApiKey(provider)) {
+        const { provider } = model;
+        if (!PROVIDER_CAPABILITIES[provider].requiresApiKey) {
             return true;
         }
 
@@ -887,6 +1259,9 @@ export class LLMService {
         if (provider === LLM_PROVIDERS.OPENROUTER) {
             return !!this.currentSettings?.openrouterApiKey;
         }
+        if (provider === LLM_PROVIDERS.ANTHROPIC) {
+            return !!this.currentSettings?.anthropicApiKey;
+        }
 
         return false;
     }
@@ -915,14 +1290,15 @@ export class LLMService {
         // Check if any models changed to determine if providers need clearing
         const modelsChanged = this.hasModelSettingsChanged(settings);
 
-        // Get old providers for each model type
-        const { provider: oldEmbeddingProvider } = getModelInfo(
+        // Get old providers for each model type, models missing from the
+        // registry have none
+        const oldEmbeddingProvider = LLMService.findModelProvider(
             this.embeddingModel || settings.embeddingModel,
         );
-        const { provider: oldPromptProvider } = getModelInfo(
+        const oldPromptProvider = LLMService.findModelProvider(
             this.promptModel || settings.promptModel,
         );
-        const { provider: oldVisionProvider } = getModelInfo(
+        const oldVisionProvider = LLMService.findModelProvider(
             this.visionModel || settings.visionModel,
         );
 
@@ -930,35 +1306,38 @@ export class LLMService {
         this.embeddingModel = settings.embeddingModel;
         this.promptModel = settings.promptModel;
         this.visionModel = settings.visionModel;
-        this.embeddingThreshold = settings.embeddingThreshold;
-        this.promptThreshold = settings.promptThreshold;
-        this.visionThreshold = settings.visionThreshold;
+        const profile = getActiveProfile(settings);
+        this.embeddingThreshold = profile.embeddingThreshold;
+        this.promptThreshold = profile.promptThreshold;
+        this.visionThreshold = profile.visionThreshold;
 
         // Update cached settings
+        this.clearChangedCustomProviders(settings);
         this.currentSettings = settings;
 
         // Clear provider pool if providers changed
         if (modelsChanged) {
-            const { provider: newEmbeddingProvider } = getModelInfo(
+            const newEmbeddingProvider = LLMService.findModelProvider(
                 this.embeddingModel,
             );
-            const { provider: newPromptProvider } = getModelInfo(
+            const newPromptProvider = LLMService.findModelProvider(
                 this.promptModel,
             );
-            const { provider: newVisionProvider } = getModelInfo(
+            const newVisionProvider = LLMService.findModelProvider(
                 this.visionModel,
             );
 
             // Clear old providers that are no longer needed
-            if (oldEmbeddingProvider !== newEmbeddingProvider) {
+            if (oldEmbeddingProvider
+                && oldEmbeddingProvider !== newEmbeddingProvider) {
                 this.providers.delete(oldEmbeddingProvider);
                 logger.info(`Cleared ${oldEmbeddingProvider} from provider pool`);
             }
-            if (oldPromptProvider !== newPromptProvider) {
+            if (oldPromptProvider && oldPromptProvider !== newPromptProvider) {
                 this.providers.delete(oldPromptProvider);
                 logger.info(`Cleared ${oldPromptProvider} from provider pool`);
             }
-            if (oldVisionProvider !== newVisionProvider) {
+            if (oldVisionProvider && oldVisionProvider !== newVisionProvider) {
                 this.providers.delete(oldVisionProvider);
                 logger.info(`Cleared ${oldVisionProvider} from provider pool`);
             }
@@ -972,16 +1351,48 @@ export class LLMService {
             + `vision=${this.visionModel}`;
         logger.info(modelsMsg);
 
-        const { provider: embProv } = getModelInfo(this.embeddingModel);
-        const { provider: prmProv } = getModelInfo(this.promptModel);
-        const { provider: visProv } = getModelInfo(this.visionModel);
+        this.logProviders();
+    }
+
+    /**
+     * Log the providers of the global models
+     * Models missing from the registry, e.g. discovered models that are
+     * not listed anymore, are logged as such instead of failing
+     */
+    private logProviders(): void {
+        const describe = (modelId: string) => (
+            LLMService.findModelProvider(modelId) ?? 'model not in registry'
+        );
         const providersMsg = 'Providers (lazy): '
-            + `embedding=${embProv}, `
-            + `prompt=${prmProv}, `
-            + `vision=${visProv}`;
+            + `embedding=${describe(this.embeddingModel)}, `
+            + `prompt=${describe(this.promptModel)}, `
+            + `vision=${describe(this.visionModel)}`;
         logger.info(providersMsg);
     }
 
+    /**
+     * Build the error message for a global model missing from the registry
+     * @param modelId Model ID
+     * @param analysisType Analysis type for the message
+     * @returns Error message
+     */
+    private static getMissingModelMessage(
+        modelId: string,
+        analysisType: string,
+    ): string {
+        return `Model "${modelId}" for ${analysisType} analysis is not `
+            + 'available, its provider was removed or does not list it';
+    }
+
+    /**
+     * Get the provider of a model without throwing
+     * @param modelId Model ID
+     * @returns Provider, or undefined if the model is not in the registry
+     */
+    private static findModelProvider(modelId: string): LLMProvider | undefined {
+        return ALL_MODELS_MAP[modelId]?.provider;
+    }
+
     /**
      * Clear all cached data
      */
@@ -5,16 +5,46 @@ import {
     GroundTruthLabel,
     SETTINGS_KEYS,
 } from '../shared/constants';
+import type { RuleExportFormat, RuleImportMode } from '../shared/constants';
 import { filterRulesByUrl } from '../shared/domain-matcher';
 import { createLogger, getErrorMessage } from '../shared/logger';
 import type { CropBounds } from '../shared/offscreen-messages';
-import type { Rule } from '../shared/rule-types';
+import { getActiveProfile, getProfileUpdates } from '../shared/profiles';
+import type {
+    FilterList,
+    PromptRule,
+    Rule,
+    RuleModifiers,
+} from '../shared/rule-types';
+import { isPageRule } from '../shared/rule-utils';
+import { isRuleInSchedule } from '../shared/schedule';
 import { SettingsManager } from '../shared/settings';
 import { Settings } from '../shared/settings-schema';
 
 import { LLMService } from './llm-service';
+import type {
+    ListModelsResult,
+    ModelDiscoveryService,
+} from './model-discovery-service';
+import type { RuleAnalyzer, RuleFinding } from './rule-analyzer';
 import { RuleService } from './rule-service';
+import type {
+    FilterListImportResult,
+    RuleImportPreview,
+    RuleImportResult,
+    RuleValidationResult,
+} from './rule-service';
+import type {
+    ProfileActionResult,
+    ProfileList,
+    ProfileService,
+} from './profile-service';
 import { ScreenshotService } from './screenshot-service';
+import type {
+    RefreshResult,
+    SubscribeResult,
+    SubscriptionService,
+} from './subscription-service';
 
 const logger = createLogger('MessageHandler');
 
@@ -25,9 +55,31 @@ export interface AnalyzableElement {
     id: string;
     text: string;
     selector: string;
+
+    /**
+     * Targeting key of the rule that found the element (empty if none)
+     */
+    targeting?: string;
     groundTruth?: GroundTruthLabel;
 }
 
+/**
+ * Page content classified by page rules
+ */
+export interface PageContent {
+    title: string;
+
+    /**
+     * Content of <meta name="description">, empty if missing
+     */
+    description: string;
+
+    /**
+     * Text of the main content area (or of the body)
+     */
+    text: string;
+}
+
 /**
  * Result of matching an element against a rule
  */
@@ -35,6 +87,12 @@ export interface ElementRuleMatchResult {
     elementId: string;
     ruleId: string;
     confidence: number;
+
+    /**
+     * Overlay label and category from the rule's modifiers
+     */
+    label?: string;
+    category?: string;
     rule: Rule;
     element: AnalyzableElement;
 }
@@ -60,9 +118,15 @@ export interface GetRulesResponse {
     rules: Rule[];
 }
 
-export interface ValidateRuleResponse {
+export interface GetAllRulesResponse extends GetRulesResponse {
+    /**
+     * Tags used by any rule, not only the returned ones
+     */
+    tags: string[];
+}
+
+export interface ValidateRuleResponse extends RuleValidationResult {
     success: boolean;
-    valid: boolean;
 }
 
 export interface AddRuleResponse {
@@ -71,6 +135,20 @@ export interface AddRuleResponse {
     error?: string | null;
 }
 
+export interface AnalyzePageResponse {
+    success: boolean;
+    matched: boolean;
+
+    /**
+     * Page rule that matched, null if none did
+     */
+    rule: PromptRule | null;
+    confidence: number;
+    threshold: number;
+    explanation?: string;
+    error?: string;
+}
+
 export interface RemoveRuleResponse {
     success: boolean;
 }
@@ -79,6 +157,82 @@ export interface ToggleRuleResponse {
     success: boolean;
 }
 
+export interface MoveRuleResponse {
+    success: boolean;
+}
+
+export interface SetRuleTagsResponse {
+    success: boolean;
+}
+
+export interface ToggleTagResponse {
+    success: boolean;
+
+    /**
+     * Number of rules toggled, read-only rules are skipped
+     */
+    count: number;
+}
+
+export interface AnalyzeRulesResponse {
+    success: boolean;
+    findings: RuleFinding[];
+    error?: string;
+}
+
+export interface MergeRulesResponse {
+    success: boolean;
+}
+
+export interface ImportFilterListResponse extends FilterListImportResult {
+    success: boolean;
+}
+
+export interface ExportRulesResponse {
+    success: boolean;
+
+    /**
+     * Export file content
+     */
+    content: string;
+}
+
+export interface PreviewRuleImportResponse extends RuleImportPreview {
+    success: boolean;
+}
+
+export interface ImportRulesResponse extends RuleImportResult {
+    success: boolean;
+}
+
+export interface GetFilterListsResponse {
+    success: boolean;
+    lists: FilterList[];
+}
+
+export interface FilterListActionResponse {
+    success: boolean;
+}
+
+export interface SubscribeFilterListResponse extends SubscribeResult {
+    success: boolean;
+}
+
+export interface RefreshFilterListResponse extends RefreshResult {
+    success: boolean;
+}
+
+export interface ListModelsResponse extends ListModelsResult {
+    success: boolean;
+    error?: string;
+}
+
+export interface GetProfilesResponse extends ProfileList {
+    success: boolean;
+}
+
+export type ProfileActionResponse = ProfileActionResult;
+
 export interface GetThresholdsResponse {
     success: boolean;
     embeddingThreshold: number;
@@ -118,7 +272,16 @@ export type MessageMap = {
         response: { success: boolean; error?: string };
     };
     [ACTIONS.ADD_RULE]: {
-        message: { action: typeof ACTIONS.ADD_RULE; ruleString: string };
+        message: {
+            action: typeof ACTIONS.ADD_RULE;
+            ruleString: string;
+            tags?: string[];
+
+            /**
+             * Priority position, e.g. of the rule an edit replaces
+             */
+            index?: number;
+        };
         response: AddRuleResponse;
     };
     [ACTIONS.REMOVE_RULE]: {
@@ -133,6 +296,42 @@ export type MessageMap = {
         };
         response: ToggleRuleResponse;
     };
+    [ACTIONS.MOVE_RULE]: {
+        message: {
+            action: typeof ACTIONS.MOVE_RULE;
+            ruleId: string;
+            targetRuleId: string;
+        };
+        response: MoveRuleResponse;
+    };
+    [ACTIONS.SET_RULE_TAGS]: {
+        message: {
+            action: typeof ACTIONS.SET_RULE_TAGS;
+            ruleId: string;
+            tags: string[];
+        };
+        response: SetRuleTagsResponse;
+    };
+    [ACTIONS.TOGGLE_TAG]: {
+        message: {
+            action: typeof ACTIONS.TOGGLE_TAG;
+            tag: string;
+            enabled: boolean;
+        };
+        response: ToggleTagResponse;
+    };
+    [ACTIONS.ANALYZE_RULES]: {
+        message: { action: typeof ACTIONS.ANALYZE_RULES };
+        response: AnalyzeRulesResponse;
+    };
+    [ACTIONS.MERGE_RULES]: {
+        message: {
+            action: typeof ACTIONS.MERGE_RULES;
+            ruleIds: string[];
+            ruleString: string;
+        };
+        response: MergeRulesResponse;
+    };
     [ACTIONS.VALIDATE_RULE]: {
         message: { action: typeof ACTIONS.VALIDATE_RULE; ruleString: string };
         response: ValidateRuleResponse;
@@ -142,8 +341,78 @@ export type MessageMap = {
         response: GetRulesResponse;
     };
     [ACTIONS.GET_ALL_RULES]: {
-        message: { action: typeof ACTIONS.GET_ALL_RULES };
-        response: GetRulesResponse;
+        message: { action: typeof ACTIONS.GET_ALL_RULES; tag?: string };
+        response: GetAllRulesResponse;
+    };
+    [ACTIONS.IMPORT_FILTER_LIST]: {
+        message: { action: typeof ACTIONS.IMPORT_FILTER_LIST; text: string };
+        response: ImportFilterListResponse;
+    };
+    [ACTIONS.EXPORT_RULES]: {
+        message: {
+            action: typeof ACTIONS.EXPORT_RULES;
+            format: RuleExportFormat;
+        };
+        response: ExportRulesResponse;
+    };
+    [ACTIONS.PREVIEW_RULE_IMPORT]: {
+        message: { action: typeof ACTIONS.PREVIEW_RULE_IMPORT; text: string };
+        response: PreviewRuleImportResponse;
+    };
+    [ACTIONS.IMPORT_RULES]: {
+        message: {
+            action: typeof ACTIONS.IMPORT_RULES;
+            text: string;
+            mode: RuleImportMode;
+        };
+        response: ImportRulesResponse;
+    };
+    [ACTIONS.GET_FILTER_LISTS]: {
+        message: { action: typeof ACTIONS.GET_FILTER_LISTS };
+        response: GetFilterListsResponse;
+    };
+    [ACTIONS.TOGGLE_FILTER_LIST]: {
+        message: {
+            action: typeof ACTIONS.TOGGLE_FILTER_LIST;
+            listId: string;
+            enabled: boolean;
+        };
+        response: FilterListActionResponse;
+    };
+    [ACTIONS.REMOVE_FILTER_LIST]: {
+        message: { action: typeof ACTIONS.REMOVE_FILTER_LIST; listId: string };
+        response: FilterListActionResponse;
+    };
+    [ACTIONS.SUBSCRIBE_FILTER_LIST]: {
+        message: { action: typeof ACTIONS.SUBSCRIBE_FILTER_LIST; url: string };
+        response: SubscribeFilterListResponse;
+    };
+    [ACTIONS.REFRESH_FILTER_LIST]: {
+        message: {
+            action: typeof ACTIONS.REFRESH_FILTER_LIST;
+            listId: string;
+        };
+        response: RefreshFilterListResponse;
+    };
+    [ACTIONS.LIST_MODELS]: {
+        message: { action: typeof ACTIONS.LIST_MODELS; refresh?: boolean };
+        response: ListModelsResponse;
+    };
+    [ACTIONS.GET_PROFILES]: {
+        message: { action: typeof ACTIONS.GET_PROFILES };
+        response: GetProfilesResponse;
+    };
+    [ACTIONS.SWITCH_PROFILE]: {
+        message: { action: typeof ACTIONS.SWITCH_PROFILE; profileId: string };
+        response: ProfileActionResponse;
+    };
+    [ACTIONS.CREATE_PROFILE]: {
+        message: { action: typeof ACTIONS.CREATE_PROFILE; name: string };
+        response: ProfileActionResponse;
+    };
+    [ACTIONS.DELETE_PROFILE]: {
+        message: { action: typeof ACTIONS.DELETE_PROFILE; profileId: string };
+        response: ProfileActionResponse;
     };
     [ACTIONS.GET_THRESHOLDS]: {
         message: { action: typeof ACTIONS.GET_THRESHOLDS };
@@ -172,7 +441,8 @@ export type MessageMap = {
             action: typeof ACTIONS.CAPTURE_PAGE_SCREENSHOT;
             bounds?: unknown;
             criteria?: string;
-            cacheInfo?: unknown
+            cacheInfo?: unknown;
+            modifiers?: RuleModifiers;
         };
         response: unknown;
     };
@@ -183,6 +453,13 @@ export type MessageMap = {
         };
         response: unknown;
     };
+    [ACTIONS.ANALYZE_PAGE]: {
+        message: {
+            action: typeof ACTIONS.ANALYZE_PAGE;
+            page: PageContent;
+        };
+        response: AnalyzePageResponse;
+    };
     [ACTIONS.ANALYZE_ELEMENTS]: {
         message: {
             action: typeof ACTIONS.ANALYZE_ELEMENTS;
@@ -213,6 +490,14 @@ export class MessageHandler {
 
     private rules: RuleService;
 
+    private subscriptions: SubscriptionService;
+
+    private profiles: ProfileService;
+
+    private modelDiscovery: ModelDiscoveryService;
+
+    private ruleAnalyzer: RuleAnalyzer;
+
     private analyzeElementsBatch: (
         elements: AnalyzableElement[],
         rules: Rule[]
@@ -221,6 +506,10 @@ export class MessageHandler {
     constructor(
         llmService: LLMService,
         ruleService: RuleService,
+        subscriptionService: SubscriptionService,
+        profileService: ProfileService,
+        modelDiscoveryService: ModelDiscoveryService,
+        ruleAnalyzer: RuleAnalyzer,
         analyzeElementsBatch: (
             elements: AnalyzableElement[],
             rules: Rule[]
@@ -228,6 +517,10 @@ export class MessageHandler {
     ) {
         this.llm = llmService;
         this.rules = ruleService;
+        this.subscriptions = subscriptionService;
+        this.profiles = profileService;
+        this.modelDiscovery = modelDiscoveryService;
+        this.ruleAnalyzer = ruleAnalyzer;
         this.analyzeElementsBatch = analyzeElementsBatch;
     }
 
@@ -266,14 +559,71 @@ export class MessageHandler {
                 return this.handleGetRules(sender, sendResponse);
 
             case ACTIONS.GET_ALL_RULES:
-                return this.handleGetAllRules(sendResponse);
+                return this.handleGetAllRules(message, sendResponse);
 
             case ACTIONS.TOGGLE_RULE:
                 return this.handleToggleRule(message, sendResponse);
 
+            case ACTIONS.MOVE_RULE:
+                return this.handleMoveRule(message, sendResponse);
+
+            case ACTIONS.SET_RULE_TAGS:
+                return this.handleSetRuleTags(message, sendResponse);
+
+            case ACTIONS.TOGGLE_TAG:
+                return this.handleToggleTag(message, sendResponse);
+
+            case ACTIONS.ANALYZE_RULES:
+                return this.handleAnalyzeRules(sendResponse);
+
+            case ACTIONS.MERGE_RULES:
+                return this.handleMergeRules(message, sendResponse);
+
             case ACTIONS.VALIDATE_RULE:
                 return this.handleValidateRule(message, sendResponse);
 
+            case ACTIONS.IMPORT_FILTER_LIST:
+                return this.handleImportFilterList(message, sendResponse);
+
+            case ACTIONS.EXPORT_RULES:
+                return this.handleExportRules(message, sendResponse);
+
+            case ACTIONS.PREVIEW_RULE_IMPORT:
+                return this.handlePreviewRuleImport(message, sendResponse);
+
+            case ACTIONS.IMPORT_RULES:
+                return this.handleImportRules(message, sendResponse);
+
+            case ACTIONS.GET_FILTER_LISTS:
+                return this.handleGetFilterLists(sendResponse);
+
+            case ACTIONS.TOGGLE_FILTER_LIST:
+                return this.handleToggleFilterList(message, sendResponse);
+
+            case ACTIONS.REMOVE_FILTER_LIST:
+                return this.handleRemoveFilterList(message, sendResponse);
+
+            case ACTIONS.SUBSCRIBE_FILTER_LIST:
+                return this.handleSubscribeFilterList(message, sendResponse);
+
+            case ACTIONS.REFRESH_FILTER_LIST:
+                return this.handleRefreshFilterList(message, sendResponse);
+
+            case ACTIONS.LIST_MODELS:
+                return this.handleListModels(message, sendResponse);
+
+            case ACTIONS.GET_PROFILES:
+                return this.handleGetProfiles(sendResponse);
+
+            case ACTIONS.SWITCH_PROFILE:
+                return this.handleSwitchProfile(message, sendResponse);
+
+            case ACTIONS.CREATE_PROFILE:
+                return this.handleCreateProfile(message, sendResponse);
+
+            case ACTIONS.DELETE_PROFILE:
+                return this.handleDeleteProfile(message, sendResponse);
+
             case ACTIONS.GET_THRESHOLDS:
                 return this.handleGetThresholds(sendResponse);
 
@@ -293,7 +643,14 @@ export class MessageHandler {
                 return this.handleDownloadCanvasImage(message, sendResponse);
 
             case ACTIONS.ANALYZE_ELEMENTS:
-                return this.handleAnalyzeElements(message, sendResponse);
+                return this.handleAnalyzeElements(
+                    message,
+                    sender,
+                    sendResponse,
+                );
+
+            case ACTIONS.ANALYZE_PAGE:
+                return this.handleAnalyzePage(message, sender, sendResponse);
 
             default:
                 // No matching action found
@@ -313,18 +670,17 @@ export class MessageHandler {
         (async () => {
             try {
                 logger.info('🔵 GET_BLOCKING_STATUS: Fetching settings...');
-                const settings = await SettingsManager.get([
-                    SETTINGS_KEYS.BLOCKING_ENABLED,
-                    SETTINGS_KEYS.DEBUG_LOGGING,
-                ]);
+                const settings = await SettingsManager.load();
+                // Blocking can be turned off per rule profile
+                const blockingEnabled = getActiveProfile(settings).enabled;
                 logger.info(
                     '🔵 GET_BLOCKING_STATUS: Settings retrieved - '
-                    + `blocking=${settings.blockingEnabled}, `
+                    + `blocking=${blockingEnabled}, `
                     + `debug=${settings.debugLogging}`,
                 );
                 const response = {
                     success: true,
-                    blockingEnabled: settings.blockingEnabled,
+                    blockingEnabled,
                     debugLogging: settings.debugLogging,
                 };
                 logger.info('🔵 GET_BLOCKING_STATUS: Sending response');
@@ -423,14 +779,40 @@ export class MessageHandler {
                         !== currentSettings.openrouterApiKey
                     && currentSettings.openrouterApiKey
                     && currentSettings.openrouterApiKey.length > 0;
+                const anthropicKeyAdded = typeof updates.anthropicApiKey === 'string'
+                    && updates.anthropicApiKey.length > 0
+                    && (!currentSettings.anthropicApiKey
+                        || currentSettings.anthropicApiKey.length === 0);
+                const anthropicKeyChanged = updates.anthropicApiKey
+                        !== undefined
+                    && updates.anthropicApiKey
+                        !== currentSettings.anthropicApiKey
+                    && currentSettings.anthropicApiKey
+                    && currentSettings.anthropicApiKey.length > 0;
 
                 const apiKeysChanged = openaiKeyAdded
                     || openaiKeyChanged
                     || openrouterKeyAdded
-                    || openrouterKeyChanged;
+                    || openrouterKeyChanged
+                    || anthropicKeyAdded
+                    || anthropicKeyChanged;
+                const customProvidersChanged = updates.customProviders
+                        !== undefined
+                    && JSON.stringify(updates.customProviders)
+                        !== JSON.stringify(currentSettings.customProviders);
 
-                // Save the updated settings
-                await SettingsManager.update(updates);
+                // Save the updated settings, per-profile ones
+                // (blocking state, thresholds) go to the active profile
+                await SettingsManager.modify(
+                    (settings) => getProfileUpdates(settings, updates),
+                );
+
+                // Rules may use models of the changed custom providers,
+                // rules with missing models are kept and skipped until
+                // their models are back
+                if (customProvidersChanged) {
+                    await RuleService.notifyTabs();
+                }
 
                 // If models changed, clear cache and reload LLM service settings
                 if (modelsChanged) {
@@ -438,8 +820,9 @@ export class MessageHandler {
                     await this.llm.clearCache();
                     await this.llm.reloadSettings();
                     logger.info('Cache cleared and settings reloaded due to model change');
-                } else if (apiKeysChanged) {
-                    // API keys changed but models didn't - just reload settings
+                } else if (apiKeysChanged || customProvidersChanged) {
+                    // API keys or custom providers changed but models
+                    // didn't - just reload settings
                     logger.info('API key changed detected, reloading settings...');
                     await this.llm.reloadSettings();
                     logger.info('Settings reloaded due to API key change');
@@ -482,7 +865,8 @@ export class MessageHandler {
 
     /**
      * Handle ADD_RULE action
-     * @param message Message with rule string to add
+     * @param message Message with rule string to add, optional tags
+     * and priority position
      * @param sendResponse Function to send response
      * @returns True for async response
      */
@@ -493,6 +877,8 @@ export class MessageHandler {
         (async () => {
             const rule = await this.rules.addRule(
                 message.ruleString,
+                message.tags,
+                message.index,
             );
             sendResponse({
                 success: !!rule,
@@ -524,7 +910,7 @@ export class MessageHandler {
 
     /**
      * Handle GET_RULES action - filters rules for content scripts based on page URL
-     * URL scheme filtering (https://, http://, file://) is handled by filterRulesByUrl
+     * URL scheme filtering (https://, http://, file://) is handled by the rule index
      * @param sender Message sender information
      * @param sendResponse Function to send response
      * @returns False for sync response
@@ -545,8 +931,12 @@ export class MessageHandler {
             return false;
         }
 
-        // Filter rules based on URL (handles URL scheme filtering internally)
-        const applicableRules = filterRulesByUrl(allRules, senderUrl);
+        // Look up rules by URL in the rule index (handles URL scheme
+        // filtering internally) and drop rules outside their $schedule, tabs are told to fetch
+        // rules again when a schedule turns on or off
+        const now = new Date();
+        const applicableRules = this.rules.getRulesForUrl(senderUrl)
+            .filter((rule) => isRuleInSchedule(rule, now));
 
         logger.info(
             `Filtered ${allRules.length} rules to `
@@ -558,17 +948,106 @@ export class MessageHandler {
     }
 
     /**
-     * Handle GET_ALL_RULES action - returns all rules without filtering
+     * Handle ANALYZE_PAGE action - classifies page content with the
+     * page rules applicable to the sender URL, the first match wins
+     * @param message Message with the page title, description and text
+     * @param sender Message sender information
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleAnalyzePage(
+        message: MessageMap[typeof ACTIONS.ANALYZE_PAGE]['message'],
+        sender: chrome.runtime.MessageSender,
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        const senderUrl = sender.url || sender.tab?.url;
+        const pageRules = senderUrl
+            ? this.rules.getRulesForUrl(senderUrl).filter(
+                (rule): rule is PromptRule => (
+                    isPageRule(rule) && isRuleInSchedule(rule, new Date())
+                ),
+            )
+            : [];
+
+        (async () => {
+            const { title, description, text } = message.page;
+            const pageText = [title, description, text]
+                .filter(Boolean)
+                .join('\n');
+            let best: AnalyzePageResponse = {
+                success: true,
+                matched: false,
+                rule: null,
+                confidence: 0,
+                threshold: 0,
+            };
+
+            try {
+                for (const rule of pageRules) {
+                    const result = await this.llm.analyzeByPrompt(
+                        pageText,
+                        rule.prompt,
+                        undefined,
+                        rule.modifiers,
+                    );
+                    const threshold = rule.modifiers?.threshold
+                        ?? this.llm.promptThreshold;
+
+                    if (result.matches || result.confidence > best.confidence) {
+                        best = {
+                            success: true,
+                            matched: result.matches,
+                            rule: result.matches ? rule : null,
+                            confidence: result.confidence,
+                            threshold,
+                            explanation: result.explanation,
+                        };
+                    }
+                    if (result.matches) {
+                        logger.info(
+                            `Page ${senderUrl} matches rule `
+                            + `"${rule.ruleString}"`,
+                        );
+                        break;
+                    }
+                }
+                sendResponse(best);
+            } catch (error) {
+                logger.error('Error analyzing page:', error);
+                sendResponse({
+                    ...best,
+                    success: false,
+                    error: getErrorMessage(error),
+                });
+            }
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle GET_ALL_RULES action - returns all rules without page filtering
      * Used by popup and options pages for rule management
+     * @param message Message with an optional tag the rules must have
      * @param sendResponse Function to send response
      * @returns False for sync response
      */
     private handleGetAllRules(
+        message: MessageMap[typeof ACTIONS.GET_ALL_RULES]['message'],
         sendResponse: (response?: unknown) => void,
     ): boolean {
         const allRules = this.rules.getRules();
-        logger.info(`Returning all ${allRules.length} rules`);
-        sendResponse({ success: true, rules: allRules });
+        const [tag] = RuleService.normalizeTags(
+            message.tag ? [message.tag] : [],
+        );
+        const rules = tag
+            ? allRules.filter((rule) => rule.tags?.includes(tag))
+            : allRules;
+        logger.info(`Returning ${rules.length} of ${allRules.length} rules`);
+        sendResponse({
+            success: true,
+            rules,
+            tags: RuleService.getTags(allRules),
+        });
         return false; // Sync response
     }
 
@@ -592,6 +1071,111 @@ export class MessageHandler {
         return true;
     }
 
+    /**
+     * Handle MOVE_RULE action - changes the rule's priority
+     * @param message Message with rule ID and the ID of the rule
+     * whose position it takes
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleMoveRule(
+        message: MessageMap[typeof ACTIONS.MOVE_RULE]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const moved = await this.rules.moveRule(
+                message.ruleId,
+                message.targetRuleId,
+            );
+            sendResponse({ success: moved });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle SET_RULE_TAGS action
+     * @param message Message with rule ID and its new tags
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleSetRuleTags(
+        message: MessageMap[typeof ACTIONS.SET_RULE_TAGS]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const updated = await this.rules.setRuleTags(
+                message.ruleId,
+                message.tags,
+            );
+            sendResponse({ success: updated });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle TOGGLE_TAG action - enables or disables all rules with a tag
+     * @param message Message with tag and enabled status
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleToggleTag(
+        message: MessageMap[typeof ACTIONS.TOGGLE_TAG]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const count = await this.rules.toggleTag(
+                message.tag,
+                message.enabled,
+            );
+            sendResponse({ success: count > 0, count });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle ANALYZE_RULES action - finds duplicate and redundant rules
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleAnalyzeRules(
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            try {
+                const findings = await this.ruleAnalyzer.analyze();
+                sendResponse({ success: true, findings });
+            } catch (error) {
+                logger.error('Error analyzing rules:', error);
+                sendResponse({
+                    success: false,
+                    findings: [],
+                    error: getErrorMessage(error),
+                });
+            }
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle MERGE_RULES action - replaces rules with a merged rule
+     * @param message Message with rule IDs and the merged rule string
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleMergeRules(
+        message: MessageMap[typeof ACTIONS.MERGE_RULES]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const merged = await this.rules.mergeRules(
+                message.ruleIds,
+                message.ruleString,
+            );
+            sendResponse({ success: merged !== null });
+        })();
+        return true; // Async response
+    }
+
     /**
      * Handle VALIDATE_RULE action
      * @param message Message with rule string to validate
@@ -602,12 +1186,270 @@ export class MessageHandler {
         message: MessageMap[typeof ACTIONS.VALIDATE_RULE]['message'],
         sendResponse: (response?: unknown) => void,
     ): boolean {
-        const ruleStr = message.ruleString;
-        const isValid = RuleService.validateRuleFormat(ruleStr);
-        sendResponse({ success: true, valid: isValid });
+        const validation = RuleService.validateRule(message.ruleString);
+        sendResponse({ success: true, ...validation });
         return false;
     }
 
+    /**
+     * Handle IMPORT_FILTER_LIST action
+     * @param message Message with the filter list text
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleImportFilterList(
+        message: MessageMap[typeof ACTIONS.IMPORT_FILTER_LIST]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const result = await this.rules.importFilterList(message.text);
+            sendResponse({ success: !!result.list, ...result });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle EXPORT_RULES action
+     * @param message Message with the export format
+     * @param sendResponse Function to send response
+     * @returns False for sync response
+     */
+    private handleExportRules(
+        message: MessageMap[typeof ACTIONS.EXPORT_RULES]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        sendResponse({
+            success: true,
+            content: this.rules.exportRules(message.format),
+        });
+        return false; // Sync response
+    }
+
+    /**
+     * Handle PREVIEW_RULE_IMPORT action - parses rules without importing
+     * @param message Message with the export text
+     * @param sendResponse Function to send response
+     * @returns False for sync response
+     */
+    private handlePreviewRuleImport(
+        message: MessageMap[typeof ACTIONS.PREVIEW_RULE_IMPORT]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        sendResponse({
+            success: true,
+            ...this.rules.previewRuleImport(message.text),
+        });
+        return false; // Sync response
+    }
+
+    /**
+     * Handle IMPORT_RULES action
+     * @param message Message with the export text and import mode
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleImportRules(
+        message: MessageMap[typeof ACTIONS.IMPORT_RULES]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const result = await this.rules.importRules(
+                message.text,
+                message.mode,
+            );
+            sendResponse({ success: result.imported, ...result });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle GET_FILTER_LISTS action
+     * @param sendResponse Function to send response
+     * @returns False for sync response
+     */
+    private handleGetFilterLists(
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        sendResponse({ success: true, lists: this.rules.getFilterLists() });
+        return false; // Sync response
+    }
+
+    /**
+     * Handle TOGGLE_FILTER_LIST action
+     * @param message Message with list ID and enabled status
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleToggleFilterList(
+        message: MessageMap[typeof ACTIONS.TOGGLE_FILTER_LIST]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const toggled = await this.rules.toggleFilterList(
+                message.listId,
+                message.enabled,
+            );
+            sendResponse({ success: toggled });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle REMOVE_FILTER_LIST action
+     * @param message Message with list ID to remove
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleRemoveFilterList(
+        message: MessageMap[typeof ACTIONS.REMOVE_FILTER_LIST]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const removed = await this.rules.removeFilterList(message.listId);
+            sendResponse({ success: removed });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle SUBSCRIBE_FILTER_LIST action
+     * @param message Message with the filter list URL
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleSubscribeFilterList(
+        message: MessageMap[typeof ACTIONS.SUBSCRIBE_FILTER_LIST]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const result = await this.subscriptions.subscribe(message.url);
+            sendResponse({ success: !!result.list, ...result });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle REFRESH_FILTER_LIST action - updates a subscription now
+     * @param message Message with list ID to refresh
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleRefreshFilterList(
+        message: MessageMap[typeof ACTIONS.REFRESH_FILTER_LIST]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const result = await this.subscriptions.refresh(message.listId);
+            sendResponse({ success: result.updated, ...result });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle LIST_MODELS action
+     * Stored model lists are returned at once unless refreshing
+     * @param message Message with the refresh flag
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleListModels(
+        message: MessageMap[typeof ACTIONS.LIST_MODELS]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            try {
+                const result = message.refresh
+                    ? await this.modelDiscovery.listModels(true)
+                    : await this.modelDiscovery.getModels();
+                sendResponse({ success: true, ...result });
+            } catch (error) {
+                logger.error('Failed to list models:', error);
+                sendResponse({
+                    success: false,
+                    models: {},
+                    errors: {},
+                    error: getErrorMessage(error),
+                });
+            }
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle GET_PROFILES action
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleGetProfiles(
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            const list = await this.profiles.getProfiles();
+            sendResponse({ success: true, ...list });
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle SWITCH_PROFILE action
+     * @param message Message with the profile ID to activate
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleSwitchProfile(
+        message: MessageMap[typeof ACTIONS.SWITCH_PROFILE]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            sendResponse(await this.profiles.switchProfile(message.profileId));
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle CREATE_PROFILE action
+     * @param message Message with the profile name
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleCreateProfile(
+        message: MessageMap[typeof ACTIONS.CREATE_PROFILE]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            sendResponse(await this.profiles.createProfile(message.name));
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Handle DELETE_PROFILE action
+     * @param message Message with the profile ID to delete
+     * @param sendResponse Function to send response
+     * @returns True for async response
+     */
+    private handleDeleteProfile(
+        message: MessageMap[typeof ACTIONS.DELETE_PROFILE]['message'],
+        sendResponse: (response?: unknown) => void,
+    ): boolean {
+        (async () => {
+            sendResponse(await this.profiles.deleteProfile(message.profileId));
+        })();
+        return true; // Async response
+    }
+
+    /**
+     * Save settings of the active rule profile
+     * @param updates Per-profile settings in the top-level settings shape
+     */
+    private static async setProfileSettings(
+        updates: Partial<Settings>,
+    ): Promise<void> {
+        await SettingsManager.modify(
+            (settings) => getProfileUpdates(settings, updates),
+        );
+    }
+
     /**
      * Handle GET_THRESHOLDS action
      * @param sendResponse Function to send response
@@ -617,11 +1459,9 @@ export class MessageHandler {
         sendResponse: (response?: unknown) => void,
     ): boolean {
         (async () => {
-            const thresholds = await SettingsManager.get([
-                SETTINGS_KEYS.EMBEDDING_THRESHOLD,
-                SETTINGS_KEYS.PROMPT_THRESHOLD,
-                SETTINGS_KEYS.VISION_THRESHOLD,
-            ]);
+            const thresholds = getActiveProfile(
+                await SettingsManager.load(),
+            );
 
             sendResponse({
                 success: true,
@@ -645,10 +1485,9 @@ export class MessageHandler {
     ): boolean {
         (async () => {
             const { threshold } = message;
-            await SettingsManager.set(
-                SETTINGS_KEYS.EMBEDDING_THRESHOLD,
-                threshold,
-            );
+            await MessageHandler.setProfileSettings({
+                [SETTINGS_KEYS.EMBEDDING_THRESHOLD]: threshold,
+            });
             this.llm.embeddingThreshold = threshold;
             logger.info(`Embedding threshold set to ${threshold}`);
             sendResponse({ success: true });
@@ -668,10 +1507,9 @@ export class MessageHandler {
     ): boolean {
         (async () => {
             const { threshold } = message;
-            await SettingsManager.set(
-                SETTINGS_KEYS.PROMPT_THRESHOLD,
-                threshold,
-            );
+            await MessageHandler.setProfileSettings({
+                [SETTINGS_KEYS.PROMPT_THRESHOLD]: threshold,
+            });
             this.llm.promptThreshold = threshold;
             logger.info(`Prompt threshold set to ${threshold}`);
             sendResponse({ success: true });
@@ -691,10 +1529,9 @@ export class MessageHandler {
     ): boolean {
         (async () => {
             const { threshold } = message;
-            await SettingsManager.set(
-                SETTINGS_KEYS.VISION_THRESHOLD,
-                threshold,
-            );
+            await MessageHandler.setProfileSettings({
+                [SETTINGS_KEYS.VISION_THRESHOLD]: threshold,
+            });
             this.llm.visionThreshold = threshold;
             logger.info(`Vision threshold set to ${threshold}`);
             sendResponse({ success: true });
@@ -768,11 +1605,14 @@ export class MessageHandler {
                                 base64Data,
                                 criteria,
                                 cacheInfo,
+                                {},
+                                message.modifiers,
                             );
+                        const threshold = message.modifiers?.threshold
+                            ?? this.llm.visionThreshold;
                         const confPct = (parsed.confidence * 100)
                             .toFixed(1);
-                        const thrPct = (this.llm.visionThreshold
-                            * 100).toFixed(1);
+                        const thrPct = (threshold * 100).toFixed(1);
 
                         const status = parsed.matches ? 'blocked' : 'allowed';
                         const resultGroup = `📸 [${result.filename}] `
@@ -792,7 +1632,7 @@ export class MessageHandler {
                         // Add analysis to result with threshold
                         result.visionAnalysis = {
                             ...parsed,
-                            threshold: this.llm.visionThreshold,
+                            threshold,
                         };
                     } catch (error) {
                         const logMsg = `📸 [${result.filename}] `
@@ -899,11 +1739,14 @@ export class MessageHandler {
                             base64Data,
                             criteria,
                             cacheInfo,
+                            {},
+                            message.modifiers,
                         );
+                    const threshold = message.modifiers?.threshold
+                        ?? this.llm.visionThreshold;
                     const confPct = (parsed.confidence * 100)
                         .toFixed(1);
-                    const thrPct = (this.llm.visionThreshold
-                        * 100).toFixed(1);
+                    const thrPct = (threshold * 100).toFixed(1);
 
                     const status = parsed.matches ? 'blocked' : 'allowed';
                     const resultGroup = `📸 [${result.filename}] `
@@ -923,7 +1766,7 @@ export class MessageHandler {
                     // Add analysis to result with threshold
                     result.visionAnalysis = {
                         ...parsed,
-                        threshold: this.llm.visionThreshold,
+                        threshold,
                     };
                 } catch (error) {
                     const logMsg = `📸 [${result.filename}] `
@@ -979,19 +1822,23 @@ export class MessageHandler {
 
     /**
      * Handle ANALYZE_ELEMENTS action
+     * Rules are filtered by the sender URL if there is one, exceptions
+     * limited to domains only apply then
      * @param message Message with elements to analyze
+     * @param sender Message sender information
      * @param sendResponse Function to send response
      * @returns True for async response
      */
     private handleAnalyzeElements(
         message: MessageMap[typeof ACTIONS.ANALYZE_ELEMENTS]['message'],
+        sender: chrome.runtime.MessageSender,
         sendResponse: (response?: unknown) => void,
     ): boolean {
         (async () => {
             try {
-                const rules = await SettingsManager.get(
-                    SETTINGS_KEYS.AD_BLOCK_RULES,
-                );
+                const rules = getActiveProfile(
+                    await SettingsManager.load(),
+                ).adBlockRules;
 
                 // Parse rules using RuleService
                 const parsedRules = rules.map((storedRule) => {
@@ -1008,9 +1855,12 @@ export class MessageHandler {
                 }).filter((rule): rule is Rule => rule !== null);
 
                 // Analyze elements with rules from settings
+                const senderUrl = sender.url || sender.tab?.url;
                 const results = await this.analyzeElementsBatch(
                     message.elements,
-                    parsedRules,
+                    senderUrl
+                        ? filterRulesByUrl(parsedRules, senderUrl)
+                        : parsedRules,
                 );
                 sendResponse({ success: true, results });
                 MessageHandler.notifyPopupAnalysisComplete(results);
@@ -0,0 +1,150 @@
+// Model Discovery Service - Lists the models of the configured providers
+
+import {
+    LLM_PROVIDERS,
+    MODEL_DISCOVERY_CONFIG,
+    STORAGE_KEYS,
+} from '../shared/constants';
+import type { DiscoveredModel } from '../shared/constants';
+import { createLogger, getErrorMessage } from '../shared/logger';
+import {
+    getAdapterKey,
+    registerDiscoveredModels,
+} from '../shared/model-utils';
+import { Storage } from '../shared/storage';
+import type { LLMService } from './llm-service';
+import { RuleService } from './rule-service';
+
+const logger = createLogger('ModelDiscoveryService');
+
+/**
+ * Models listed by a provider
+ */
+export interface ProviderModelList {
+    /**
+     * When the models were listed
+     */
+    listedAt: number;
+    models: DiscoveredModel[];
+}
+
+/**
+ * Listed models by adapter key, as stored
+ */
+export type DiscoveredModelCache = Record<string, ProviderModelList>;
+
+/**
+ * Result of listing the models of all providers
+ */
+export interface ListModelsResult {
+    models: DiscoveredModelCache;
+
+    /**
+     * Why providers could not list their models, by adapter key
+     */
+    errors: Record<string, string>;
+}
+
+/**
+ * Model Discovery Service - Keeps the models listed by the providers in
+ * the model registry
+ * Lists are stored and used until they are older than the TTL, so the
+ * registry has the same models after a restart without any request
+ */
+export class ModelDiscoveryService {
+    private llm: LLMService;
+
+    /**
+     * @param llm LLM service the provider adapters come from
+     */
+    constructor(llm: LLMService) {
+        this.llm = llm;
+    }
+
+    /**
+     * Add the stored models to the model registry
+     * Runs before the LLM service and rules are loaded, so global models
+     * and rules using discovered models work from the start
+     */
+    async init(): Promise<void> {
+        registerDiscoveredModels(await ModelDiscoveryService.load());
+    }
+
+    /**
+     * Check if a model list has to be listed again
+     * @param list Stored model list
+     * @param now Current timestamp
+     * @returns True if there is no list or it is older than the TTL
+     */
+    static isStale(list: ProviderModelList | undefined, now: number): boolean {
+        return !list || now - list.listedAt >= MODEL_DISCOVERY_CONFIG.TTL;
+    }
+
+    /**
+     * Get the stored model lists without waiting for providers
+     * Stale lists are listed again in the background for next time
+     * @returns Stored model lists
+     */
+    async getModels(): Promise<ListModelsResult> {
+        const models = await ModelDiscoveryService.load();
+        this.listModels().catch((error) => {
+            logger.error('Failed to list models:', error);
+        });
+        return { models, errors: {} };
+    }
+
+    /**
+     * List the models of the available providers
+     * Providers with a fresh stored list are not asked again unless
+     * refreshing, providers that fail keep their stored list
+     * @param refresh List the models of all providers again
+     * @returns Listed models and errors by adapter key
+     */
+    async listModels(refresh = false): Promise<ListModelsResult> {
+        const cache = await ModelDiscoveryService.load();
+        const sources = await this.llm.getModelSources();
+        const errors: Record<string, string> = {};
+        const now = Date.now();
+
+        // Forget the models of removed custom providers
+        const keys = sources.map(getAdapterKey);
+        Object.keys(cache)
+            .filter((key) => key.startsWith(`${LLM_PROVIDERS.CUSTOM}:`)
+                && !keys.includes(key))
+            .forEach((key) => {
+                delete cache[key];
+            });
+
+        await Promise.all(sources.map(async (source, index) => {
+            const key = keys[index]!;
+            if (!refresh && !ModelDiscoveryService.isStale(cache[key], now)) {
+                return;
+            }
+            try {
+                cache[key] = {
+                    listedAt: now,
+                    models: await this.llm.listModels(source),
+                };
+            } catch (error) {
+                errors[key] = getErrorMessage(error);
+                logger.warn(`Failed to list ${key} models: ${errors[key]}`);
+            }
+        }));
+
+        await Storage.set(STORAGE_KEYS.DISCOVERED_MODELS, cache);
+        registerDiscoveredModels(cache);
+        // Rules using models that were not listed before can run now,
+        // rules themselves are not reloaded
+        await RuleService.notifyTabs();
+        return { models: cache, errors };
+    }
+
+    /**
+     * Load the stored model lists
+     * @returns Model lists by adapter key
+     */
+    private static async load(): Promise<DiscoveredModelCache> {
+        const stored = await Storage.get(STORAGE_KEYS.DISCOVERED_MODELS);
+        return (stored as DiscoveredModelCache | undefined) ?? {};
+    }
+}
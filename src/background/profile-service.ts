@@ -0,0 +1,199 @@
+// Profile Service - Manages named rule profiles and switches between them
+
+import { nanoid } from 'nanoid/non-secure';
+
+import { DEFAULT_PROFILE } from '../shared/constants';
+import { createLogger } from '../shared/logger';
+import { getActiveProfile, getProfiles } from '../shared/profiles';
+import { SettingsManager } from '../shared/settings';
+import type { RuleProfile } from '../shared/settings-schema';
+import type { LLMService } from './llm-service';
+import { RuleService } from './rule-service';
+import type { SubscriptionService } from './subscription-service';
+
+const logger = createLogger('ProfileService');
+
+/**
+ * Profile as listed in the popup
+ */
+export interface ProfileSummary {
+    id: string;
+    name: string;
+    enabled: boolean;
+    ruleCount: number;
+}
+
+/**
+ * Profiles and the active one
+ */
+export interface ProfileList {
+    profiles: ProfileSummary[];
+    activeProfileId: string;
+}
+
+/**
+ * Result of a profile action
+ */
+export interface ProfileActionResult {
+    success: boolean;
+    profile?: ProfileSummary;
+    error?: string;
+}
+
+/**
+ * Profile Service - Named rule profiles, e.g. "Work" or "Kids"
+ * Every profile has its own rules, filter lists, thresholds and blocking
+ * state. Only the active profile is loaded into the rule and LLM services,
+ * switching reloads them and re-initializes open tabs
+ */
+export class ProfileService {
+    private rules: RuleService;
+
+    private llm: LLMService;
+
+    private subscriptions: SubscriptionService;
+
+    /**
+     * @param rules Rule service holding the active profile's rules
+     * @param llm LLM service holding the active profile's thresholds
+     * @param subscriptions Subscription service to refresh lists with
+     */
+    constructor(
+        rules: RuleService,
+        llm: LLMService,
+        subscriptions: SubscriptionService,
+    ) {
+        this.rules = rules;
+        this.llm = llm;
+        this.subscriptions = subscriptions;
+    }
+
+    /**
+     * Get all profiles
+     * @returns Profiles, the default one first, and the active profile ID
+     */
+    async getProfiles(): Promise<ProfileList> {
+        const settings = await SettingsManager.load();
+        return {
+            profiles: getProfiles(settings).map(ProfileService.summarize),
+            activeProfileId: getActiveProfile(settings).id,
+        };
+    }
+
+    /**
+     * Make a profile the active one
+     * @param profileId Profile ID
+     * @returns Switched profile or the reason it could not be switched to
+     */
+    async switchProfile(profileId: string): Promise<ProfileActionResult> {
+        const settings = await SettingsManager.load();
+        const profile = getProfiles(settings).find(
+            ({ id }) => id === profileId,
+        );
+        if (!profile) {
+            return { success: false, error: 'Profile not found' };
+        }
+
+        await SettingsManager.set({ activeProfileId: profile.id });
+        await this.rules.loadRulesFromStorage();
+        await this.llm.reloadSettings();
+        logger.info(`Switched to profile "${profile.name}"`);
+
+        // Catch up on subscriptions that came due since the last check
+        this.subscriptions.refreshDue().catch((error) => {
+            logger.error('Failed to refresh subscriptions:', error);
+        });
+        await RuleService.notifyTabs();
+
+        return { success: true, profile: ProfileService.summarize(profile) };
+    }
+
+    /**
+     * Create an empty profile with the active profile's thresholds
+     * @param name Profile name
+     * @returns Created profile or the reason it could not be created
+     */
+    async createProfile(name: string): Promise<ProfileActionResult> {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            return { success: false, error: 'Profile name is required' };
+        }
+
+        const settings = await SettingsManager.load();
+        const nameTaken = getProfiles(settings).some(
+            (profile) => (
+                profile.name.toLowerCase() === trimmedName.toLowerCase()
+            ),
+        );
+        if (nameTaken) {
+            return {
+                success: false,
+                error: `Profile "${trimmedName}" already exists`,
+            };
+        }
+
+        const active = getActiveProfile(settings);
+        const profile: RuleProfile = {
+            id: `profile-${nanoid()}`,
+            name: trimmedName,
+            enabled: true,
+            embeddingThreshold: active.embeddingThreshold,
+            promptThreshold: active.promptThreshold,
+            visionThreshold: active.visionThreshold,
+            adBlockRules: [],
+            filterLists: [],
+        };
+        await SettingsManager.modify(({ profiles }) => ({
+            profiles: [...profiles, profile],
+        }));
+        logger.info(`Created profile "${profile.name}"`);
+
+        return { success: true, profile: ProfileService.summarize(profile) };
+    }
+
+    /**
+     * Delete a profile with its rules and filter lists
+     * Deleting the active profile switches to the default one first
+     * @param profileId Profile ID
+     * @returns Whether the profile was deleted
+     */
+    async deleteProfile(profileId: string): Promise<ProfileActionResult> {
+        if (profileId === DEFAULT_PROFILE.ID) {
+            return {
+                success: false,
+                error: 'The default profile cannot be deleted',
+            };
+        }
+
+        const settings = await SettingsManager.load();
+        const profile = settings.profiles.find(({ id }) => id === profileId);
+        if (!profile) {
+            return { success: false, error: 'Profile not found' };
+        }
+
+        if (getActiveProfile(settings).id === profileId) {
+            await this.switchProfile(DEFAULT_PROFILE.ID);
+        }
+
+        await SettingsManager.modify(({ profiles }) => ({
+            profiles: profiles.filter(({ id }) => id !== profileId),
+        }));
+        logger.info(`Deleted profile "${profile.name}"`);
+
+        return { success: true };
+    }
+
+    /**
+     * Summarize a profile for listing
+     * @param profile Profile
+     * @returns Profile summary
+     */
+    private static summarize(profile: RuleProfile): ProfileSummary {
+        return {
+            id: profile.id,
+            name: profile.name,
+            enabled: profile.enabled,
+            ruleCount: profile.adBlockRules.length,
+        };
+    }
+}
@@ -0,0 +1,405 @@
+// Rule Analyzer - Finds duplicate, redundant and overlapping rules
+
+import { RULE_FINDING, RULE_FIX_ACTION, RULE_TYPE } from '../shared/constants';
+import type { RuleFindingKind } from '../shared/constants';
+import { domainsCover, isNegatedDomain } from '../shared/domain-matcher';
+import { createLogger, getErrorMessage } from '../shared/logger';
+import type { Rule } from '../shared/rule-types';
+import {
+    getRuleCriteria,
+    getTargetingKey,
+    isAnalysisRule,
+    isExceptionRule,
+} from '../shared/rule-utils';
+import type { LLMService } from './llm-service';
+import { RuleParser } from './rule-parser';
+import type { RuleService } from './rule-service';
+import { VectorMath } from './vector-math';
+
+const logger = createLogger('RuleAnalyzer');
+
+/**
+ * Embedding similarity from which two criteria count as the same,
+ * criteria are short so unrelated ones rarely get close to it
+ */
+const SIMILAR_CRITERIA_THRESHOLD = 0.9;
+
+/**
+ * One-click fix of a finding
+ * "remove" removes the redundant rules, "merge" replaces the rules
+ * with a single one
+ */
+export type RuleFindingFix =
+    | { action: typeof RULE_FIX_ACTION.REMOVE; ruleIds: string[] }
+    | {
+        action: typeof RULE_FIX_ACTION.MERGE;
+        ruleIds: string[];
+        ruleString: string;
+    };
+
+/**
+ * Problem found between rules
+ */
+export interface RuleFinding {
+    kind: RuleFindingKind;
+
+    /**
+     * Rules involved, in priority order
+     */
+    ruleIds: string[];
+    ruleStrings: string[];
+    message: string;
+
+    /**
+     * Unset if the rules to change are read-only (subscribed)
+     */
+    fix?: RuleFindingFix;
+}
+
+/**
+ * Compares the criteria of two rules
+ * @returns Similarity between 0 and 1
+ */
+export type CriteriaComparator = (a: string, b: string) => Promise<number>;
+
+/**
+ * Rule Analyzer - Checks the rules of the active profile for duplicates,
+ * rules with the same selector and similar criteria, and rules shadowed
+ * by a rule applying on a superset of their domains
+ * Criteria are compared with the embedding model when it is available,
+ * otherwise only criteria that differ in case, spacing or punctuation
+ * are found
+ */
+export class RuleAnalyzer {
+    private rules: RuleService;
+
+    private llm: LLMService;
+
+    /**
+     * @param rules Rule service holding the rules to analyze
+     * @param llm LLM service for criteria embeddings
+     */
+    constructor(rules: RuleService, llm: LLMService) {
+        this.rules = rules;
+        this.llm = llm;
+    }
+
+    /**
+     * Analyze the current rules
+     * @returns Findings
+     */
+    async analyze(): Promise<RuleFinding[]> {
+        const useEmbeddings = this.llm.canExecuteRuleType(RULE_TYPE.EMBEDDING);
+        let embeddingsFailed = false;
+
+        const compare: CriteriaComparator = async (a, b) => {
+            if (!useEmbeddings || embeddingsFailed) {
+                return 0;
+            }
+            try {
+                const [first, second] = await Promise.all([
+                    this.llm.getEmbedding(a, 'query'),
+                    this.llm.getEmbedding(b, 'query'),
+                ]);
+                return VectorMath.cosineSimilarity(first, second);
+            } catch (error) {
+                // Fall back to text comparison for the remaining pairs
+                embeddingsFailed = true;
+                logger.warn(
+                    'Embeddings unavailable, comparing criteria as text: '
+                    + `${getErrorMessage(error)}`,
+                );
+                return 0;
+            }
+        };
+
+        const findings = await RuleAnalyzer.findIssues(
+            this.rules.getRules(),
+            compare,
+            (rule) => this.rules.isReadOnlyRule(rule),
+        );
+        logger.info(`Rule analysis found ${findings.length} issues`);
+        return findings;
+    }
+
+    /**
+     * Find duplicate, similar, shadowed and mergeable rules
+     * Only rules with the same type, selector, targeting, pre-filters and
+     * modifiers are compared, anything else changes what a rule does
+     * @param rules Rules in priority order
+     * @param compare Criteria comparator for criteria that differ as text
+     * @param isReadOnly Tells which rules cannot be removed
+     * @returns Findings
+     */
+    static async findIssues(
+        rules: Rule[],
+        compare: CriteriaComparator,
+        isReadOnly: (rule: Rule) => boolean,
+    ): Promise<RuleFinding[]> {
+        const findings: RuleFinding[] = [];
+
+        // Exact duplicates, only the first copy is compared further
+        const byString = new Map<string, Rule[]>();
+        rules.forEach((rule) => {
+            byString.set(rule.ruleString, [
+                ...(byString.get(rule.ruleString) ?? []),
+                rule,
+            ]);
+        });
+        const unique: Rule[] = [];
+        byString.forEach((copies) => {
+            unique.push(copies[0]!);
+            if (copies.length > 1) {
+                findings.push(RuleAnalyzer.createRemoveFinding(
+                    RULE_FINDING.DUPLICATE,
+                    copies,
+                    copies.slice(1),
+                    isReadOnly,
+                    `Rule is listed ${copies.length} times`,
+                ));
+            }
+        });
+
+        const groups = new Map<string, Rule[]>();
+        unique
+            .filter((rule) => !isExceptionRule(rule))
+            .forEach((rule) => {
+                const key = RuleAnalyzer.getComparisonKey(rule);
+                groups.set(key, [...(groups.get(key) ?? []), rule]);
+            });
+
+        for (const group of groups.values()) {
+            for (let i = 0; i < group.length; i += 1) {
+                for (let j = i + 1; j < group.length; j += 1) {
+                    const finding = await RuleAnalyzer.comparePair(
+                        group[i]!,
+                        group[j]!,
+                        compare,
+                        isReadOnly,
+                    );
+                    if (finding) {
+                        findings.push(finding);
+                    }
+                }
+            }
+        }
+
+        return findings;
+    }
+
+    /**
+     * Compare two rules doing the same thing to the same elements
+     * @param first Higher priority rule
+     * @param second Lower priority rule
+     * @param compare Criteria comparator
+     * @param isReadOnly Tells which rules cannot be removed
+     * @returns Finding or null if the rules do not overlap
+     */
+    static async comparePair(
+        first: Rule,
+        second: Rule,
+        compare: CriteriaComparator,
+        isReadOnly: (rule: Rule) => boolean,
+    ): Promise<RuleFinding | null> {
+        const similarity = await RuleAnalyzer.getCriteriaSimilarity(
+            first,
+            second,
+            compare,
+        );
+        if (similarity < SIMILAR_CRITERIA_THRESHOLD) {
+            return null;
+        }
+
+        const pair = [first, second];
+        const percent = Math.round(similarity * 100);
+        const criteria = similarity === 1
+            ? 'the same criteria'
+            : `similar criteria (${percent}% similar)`;
+
+        if (RuleAnalyzer.haveSameDomains(first, second)) {
+            return RuleAnalyzer.createRemoveFinding(
+                RULE_FINDING.SIMILAR,
+                pair,
+                isReadOnly(second) ? [first] : [second],
+                isReadOnly,
+                `Same selector with ${criteria}`,
+            );
+        }
+
+        // The narrower rule never blocks anything the broader one misses
+        const broader = [first, second].find((rule) => {
+            const other = rule === first ? second : first;
+            return domainsCover(rule.domains, other.domains);
+        });
+        if (broader) {
+            const narrower = broader === first ? second : first;
+            return RuleAnalyzer.createRemoveFinding(
+                RULE_FINDING.SHADOWED,
+                pair,
+                [narrower],
+                isReadOnly,
+                `Same selector with ${criteria}, "${narrower.ruleString}" `
+                    + `only applies where "${broader.ruleString}" does`,
+            );
+        }
+
+        const merged = RuleAnalyzer.mergeDomains(first, second);
+        if (!merged) {
+            return null;
+        }
+        const readOnly = pair.some(isReadOnly);
+        return {
+            kind: RULE_FINDING.OVERLAPPING,
+            ruleIds: pair.map((rule) => rule.id),
+            ruleStrings: pair.map((rule) => rule.ruleString),
+            message: 'Same rule on different domains, '
+                + 'can be merged into one rule',
+            ...(!readOnly && {
+                fix: {
+                    action: RULE_FIX_ACTION.MERGE,
+                    ruleIds: pair.map((rule) => rule.id),
+                    ruleString: merged,
+                },
+            }),
+        };
+    }
+
+    /**
+     * Build a finding fixed by removing some of its rules
+     * @param kind Finding kind
+     * @param rules Rules involved
+     * @param toRemove Redundant rules
+     * @param isReadOnly Tells which rules cannot be removed
+     * @param message Description of the problem
+     * @returns Finding, without a fix if no redundant rule can be removed
+     */
+    static createRemoveFinding(
+        kind: RuleFindingKind,
+        rules: Rule[],
+        toRemove: Rule[],
+        isReadOnly: (rule: Rule) => boolean,
+        message: string,
+    ): RuleFinding {
+        const removable = toRemove.filter((rule) => !isReadOnly(rule));
+        return {
+            kind,
+            ruleIds: rules.map((rule) => rule.id),
+            ruleStrings: rules.map((rule) => rule.ruleString),
+            message,
+            ...(removable.length > 0 && {
+                fix: {
+                    action: RULE_FIX_ACTION.REMOVE,
+                    ruleIds: removable.map((rule) => rule.id),
+                },
+            }),
+        };
+    }
+
+    /**
+     * Key of what a rule does apart from its criteria and domains
+     * @param rule Rule
+     * @returns Comparison key, rules with different keys never overlap
+     */
+    static getComparisonKey(rule: Rule): string {
+        return JSON.stringify([
+            rule.type,
+            rule.selector,
+            getTargetingKey(rule),
+            rule.preFilters ?? [],
+            rule.modifiers ?? {},
+        ]);
+    }
+
+    /**
+     * Compare the criteria of two rules with the same comparison key
+     * Cosmetic rules have no criteria, their selector is all they do
+     * @param first First rule
+     * @param second Second rule
+     * @param compare Comparator for criteria that differ as text
+     * @returns Similarity between 0 and 1
+     */
+    static async getCriteriaSimilarity(
+        first: Rule,
+        second: Rule,
+        compare: CriteriaComparator,
+    ): Promise<number> {
+        if (!isAnalysisRule(first) || !isAnalysisRule(second)) {
+            return 1;
+        }
+
+        const firstCriteria = getRuleCriteria(first);
+        const secondCriteria = getRuleCriteria(second);
+        if (
+            RuleAnalyzer.normalizeCriteria(firstCriteria)
+            === RuleAnalyzer.normalizeCriteria(secondCriteria)
+        ) {
+            return 1;
+        }
+        return compare(firstCriteria, secondCriteria);
+    }
+
+    /**
+     * Normalize criteria text for comparison
+     * @param criteria Criteria text
+     * @returns Lowercase words separated by single spaces
+     */
+    static normalizeCriteria(criteria: string): string {
+        return criteria
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}|]+/gu, ' ')
+            .trim();
+    }
+
+    /**
+     * Check if two rules have the same domain entries in any order
+     * @param first First rule
+     * @param second Second rule
+     * @returns True if the domain lists are equal as sets
+     */
+    static haveSameDomains(first: Rule, second: Rule): boolean {
+        const domains = new Set(first.domains);
+        return domains.size === new Set(second.domains).size
+            && second.domains.every((domain) => domains.has(domain));
+    }
+
+    /**
+     * Build one rule applying on the domains of both rules
+     * Only rules with the same text after the domains and with only
+     * included domains can be merged
+     * @param first Higher priority rule
+     * @param second Lower priority rule
+     * @returns Merged rule string or null if the rules cannot be merged
+     */
+    static mergeDomains(first: Rule, second: Rule): string | null {
+        const pair = [first, second];
+        const hasDomainsToMerge = pair.every(
+            (rule) => rule.domains.length > 0
+                && !rule.domains.some(isNegatedDomain),
+        );
+        if (!hasDomainsToMerge) {
+            return null;
+        }
+
+        const [firstParts, secondParts] = pair.map((rule) => {
+            const ast = RuleParser.parse(rule.ruleString);
+            const lastDomain = ast.domains[ast.domains.length - 1]!;
+            return {
+                separator: ast.source.substring(
+                    lastDomain.end,
+                    ast.selector.start,
+                ),
+                body: ast.source.substring(ast.selector.start),
+            };
+        });
+        if (
+            firstParts!.body !== secondParts!.body
+            || firstParts!.separator !== secondParts!.separator
+        ) {
+            return null;
+        }
+
+        const domains = [...new Set([...first.domains, ...second.domains])];
+        return `${domains.join(',')}${firstParts!.separator}`
+            + `${firstParts!.body}`;
+    }
+}
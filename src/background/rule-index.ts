@@ -0,0 +1,198 @@
+// Rule Index - Finds the rules applicable to a URL without checking every rule
+
+import {
+    filterRulesByUrl,
+    getHostKey,
+    isNegatedDomain,
+    isWebUrl,
+    parseUrl,
+    shouldRuleApply,
+} from '../shared/domain-matcher';
+import { getPublicSuffix } from '../shared/public-suffix';
+import type { Rule } from '../shared/rule-types';
+import { applyExceptionRules } from '../shared/rule-utils';
+
+/**
+ * Rule positions by host, in priority order
+ */
+type HostMap = Map<string, number[]>;
+
+/**
+ * Rule Index - Rules keyed by the hosts of their included domains
+ * A lookup walks the labels of the hostname ("a.b.example.com",
+ * "b.example.com", "example.com", "com") and only checks the rules keyed
+ * by one of them, plus the few rules that cannot be keyed by host
+ * Domain patterns are compiled once and cached by the domain matcher
+ * Build a new index whenever the rules change, rules are only checked for
+ * being enabled at lookup time
+ */
+export class RuleIndex {
+    private readonly rules: Rule[];
+
+    /**
+     * Rules without included domains, and rules with a regex, host-less
+     * or inner wildcard pattern, checked on every lookup
+     */
+    private readonly unkeyed: number[] = [];
+
+    /**
+     * Host patterns (example.com) by host, found on the host and
+     * its subdomains
+     */
+    private readonly hosts: HostMap = new Map();
+
+    /**
+     * Subdomain patterns (*.example.com) by host, found on subdomains
+     * of the host
+     */
+    private readonly subdomainHosts: HostMap = new Map();
+
+    /**
+     * Entity patterns (example.*) by host, found on the host and its
+     * subdomains under any public suffix
+     */
+    private readonly entityHosts: HostMap = new Map();
+
+    /**
+     * Entity subdomain patterns (*.example.*) by host, found on
+     * subdomains of the host under any public suffix
+     */
+    private readonly entitySubdomainHosts: HostMap = new Map();
+
+    /**
+     * @param rules Rules in priority order
+     */
+    constructor(rules: Rule[]) {
+        this.rules = [...rules];
+        this.rules.forEach((rule, position) => this.addRule(rule, position));
+    }
+
+    /**
+     * Get the enabled rules that apply to a URL
+     * Same result as filterRulesByUrl over the indexed rules
+     * @param urlString URL to match against
+     * @returns Applicable rules in priority order, with rules disabled by
+     * exception rules removed
+     */
+    getRulesForUrl(urlString: string): Rule[] {
+        if (!isWebUrl(urlString)) {
+            return [];
+        }
+
+        const parsed = parseUrl(urlString);
+        if (!parsed) {
+            return filterRulesByUrl(this.rules, urlString);
+        }
+
+        const { hostname, pathname, location } = parsed;
+        return applyExceptionRules(
+            this.getCandidates(hostname)
+                .map((position) => this.rules[position]!)
+                .filter((rule) => (
+                    rule.enabled
+                    && shouldRuleApply(rule, hostname, pathname, location)
+                )),
+        );
+    }
+
+    /**
+     * Add a rule under the hosts of its included domains
+     * A rule with any pattern that has no host key is not keyed at all
+     * @param rule Rule
+     * @param position Priority position of the rule
+     */
+    private addRule(rule: Rule, position: number): void {
+        const included = rule.domains.filter(
+            (domain) => !isNegatedDomain(domain),
+        );
+        const keys = included.map(getHostKey);
+        if (included.length === 0 || keys.some((key) => !key)) {
+            this.unkeyed.push(position);
+            return;
+        }
+
+        keys.forEach((key) => {
+            const { host, subdomainsOnly, anyPublicSuffix } = key!;
+            let hosts: HostMap;
+            if (anyPublicSuffix) {
+                hosts = subdomainsOnly
+                    ? this.entitySubdomainHosts
+                    : this.entityHosts;
+            } else {
+                hosts = subdomainsOnly ? this.subdomainHosts : this.hosts;
+            }
+
+            const positions = hosts.get(host);
+            if (!positions) {
+                hosts.set(host, [position]);
+            } else if (positions[positions.length - 1] !== position) {
+                // The same host can be listed more than once in a rule
+                positions.push(position);
+            }
+        });
+    }
+
+    /**
+     * Get the positions of the rules that may apply on a hostname
+     * @param hostname Hostname of the URL
+     * @returns Rule positions in priority order, without duplicates
+     */
+    private getCandidates(hostname: string): number[] {
+        const candidates = new Set(this.unkeyed);
+        RuleIndex.collect(
+            hostname,
+            this.hosts,
+            this.subdomainHosts,
+            candidates,
+        );
+
+        // Entity patterns match the hostname without its public suffix
+        const suffix = getPublicSuffix(hostname);
+        if (
+            suffix
+            && suffix !== hostname
+            && (this.entityHosts.size > 0 || this.entitySubdomainHosts.size > 0)
+        ) {
+            RuleIndex.collect(
+                hostname.substring(0, hostname.length - suffix.length - 1),
+                this.entityHosts,
+                this.entitySubdomainHosts,
+                candidates,
+            );
+        }
+
+        return [...candidates].sort((a, b) => a - b);
+    }
+
+    /**
+     * Collect the rules keyed by a hostname and its parent domains
+     * @param hostname Hostname to look up
+     * @param hosts Rules applying on a host and its subdomains
+     * @param subdomainHosts Rules applying on subdomains of a host
+     * @param candidates Collected rule positions
+     */
+    private static collect(
+        hostname: string,
+        hosts: HostMap,
+        subdomainHosts: HostMap,
+        candidates: Set<number>,
+    ): void {
+        if (!hostname) {
+            return;
+        }
+
+        let start = 0;
+        while (start >= 0) {
+            const host = hostname.substring(start);
+            hosts.get(host)?.forEach((position) => candidates.add(position));
+            if (start > 0) {
+                subdomainHosts.get(host)?.forEach(
+                    (position) => candidates.add(position),
+                );
+            }
+
+            const dot = hostname.indexOf('.', start);
+            start = dot < 0 ? -1 : dot + 1;
+        }
+    }
+}
@@ -0,0 +1,574 @@
+/**
+ * Rule lexer - Splits a rule string into positioned tokens
+ * Lexing is mode-based because the same character means different things
+ * in different parts of a rule (e.g. "," separates domains, arguments
+ * and modifiers, "$" is a modifier separator only outside the selector's
+ * brackets and quotes)
+ */
+
+import { RULE_PATTERNS, TARGET_OPERATOR } from '../shared/constants';
+import { RuleSyntaxError } from './rule-syntax-error';
+
+/**
+ * Token types produced by the lexer
+ */
+export const TOKEN_TYPE = {
+    DOMAIN: 'domain',
+    COMMA: 'comma',
+    SEPARATOR: 'separator',
+    EXCEPTION_SEPARATOR: 'exceptionSeparator',
+    COSMETIC_SEPARATOR: 'cosmeticSeparator',
+    SELECTOR: 'selector',
+    PSEUDO_CLASS: 'pseudoClass',
+    OPERATOR: 'operator',
+    LPAREN: 'lparen',
+    RPAREN: 'rparen',
+    STRING: 'string',
+    PIPE: 'pipe',
+    COLON: 'colon',
+    MODIFIER_SEPARATOR: 'modifierSeparator',
+    WORD: 'word',
+    EQUALS: 'equals',
+    EOF: 'eof',
+} as const;
+
+export type TokenType = typeof TOKEN_TYPE[keyof typeof TOKEN_TYPE];
+
+/**
+ * Single token with its position in the rule string
+ */
+export interface RuleToken {
+    type: TokenType;
+
+    /**
+     * Token text (unescaped content for strings, kind for pseudo-classes
+     * and name for targeting operators)
+     */
+    value: string;
+
+    /**
+     * Zero-based offset of the first character
+     */
+    start: number;
+
+    /**
+     * Zero-based offset after the last character
+     */
+    end: number;
+}
+
+/**
+ * Position of the domain separator in a rule string
+ */
+export interface SeparatorPosition {
+    index: number;
+    length: number;
+
+    /**
+     * SEPARATOR, EXCEPTION_SEPARATOR or COSMETIC_SEPARATOR
+     */
+    type: TokenType;
+}
+
+const QUOTES = ['\'', '"'];
+const ESCAPE = '\\';
+const OPENING_BRACKETS: Record<string, string> = { '(': ')', '[': ']' };
+const CLOSING_BRACKETS = [')', ']'];
+
+// Domain separators, checked in this order at each position
+const SEPARATORS = [
+    {
+        pattern: RULE_PATTERNS.EXCEPTION_SEPARATOR,
+        type: TOKEN_TYPE.EXCEPTION_SEPARATOR,
+    },
+    {
+        pattern: RULE_PATTERNS.DOMAIN_SEPARATOR,
+        type: TOKEN_TYPE.SEPARATOR,
+    },
+    {
+        pattern: RULE_PATTERNS.COSMETIC_SEPARATOR,
+        type: TOKEN_TYPE.COSMETIC_SEPARATOR,
+    },
+];
+
+// Targeting operators as they start in a rule, e.g. ":upward("
+const OPERATOR_PREFIXES = Object.values(TARGET_OPERATOR).map(
+    (operator) => `:${operator}(`,
+);
+
+// Characters that end an unquoted word in argument and modifier sections
+const WORD_DELIMITERS = [',', '=', '(', ')', '$', '\'', '"'];
+
+// In arguments ":" ends an argument name and "|" separates alternatives,
+// in modifiers both can be part of a value (e.g. model=openai:gpt-5-nano)
+const ARGUMENT_WORD_DELIMITERS = [...WORD_DELIMITERS, '|', ':'];
+
+// Single-character tokens inside pseudo-class arguments
+const ARGUMENT_PUNCTUATION: Record<string, TokenType> = {
+    ',': TOKEN_TYPE.COMMA,
+    '|': TOKEN_TYPE.PIPE,
+    ':': TOKEN_TYPE.COLON,
+};
+
+/**
+ * Rule lexer class - Holds scan position while tokenizing one rule
+ */
+export class RuleLexer {
+    private readonly source: string;
+
+    private readonly tokens: RuleToken[] = [];
+
+    private pos = 0;
+
+    /**
+     * @param source Rule string to tokenize
+     */
+    private constructor(source: string) {
+        this.source = source;
+    }
+
+    /**
+     * Tokenize a rule string
+     * @param source Rule string to tokenize
+     * @returns Tokens ending with an EOF token
+     * @throws {RuleSyntaxError} On unterminated strings or brackets
+     */
+    static tokenize(source: string): RuleToken[] {
+        const lexer = new RuleLexer(source);
+        lexer.lexRule();
+        return lexer.tokens;
+    }
+
+    /**
+     * Find the domain separator (#?#, #@?# or ##), the one that comes
+     * first wins
+     * Separators inside quotes (e.g. [title="a#?#b"]) are ignored
+     * @param source Rule string to scan
+     * @returns Separator position, or null if rule has no domain separator
+     */
+    static findSeparator(source: string): SeparatorPosition | null {
+        let quote: string | null = null;
+
+        for (let i = 0; i < source.length; i += 1) {
+            const char = source[i]!;
+
+            if (char === ESCAPE) {
+                i += 1;
+            } else if (quote) {
+                if (char === quote) {
+                    quote = null;
+                }
+            } else if (QUOTES.includes(char)) {
+                quote = char;
+            } else {
+                const separator = SEPARATORS.find(
+                    ({ pattern }) => source.startsWith(pattern, i),
+                );
+                if (separator) {
+                    return {
+                        index: i,
+                        length: separator.pattern.length,
+                        type: separator.type,
+                    };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Lex the whole rule: domains, selector, pseudo-classes,
+     * targeting operators and modifiers
+     */
+    private lexRule(): void {
+        const separator = RuleLexer.findSeparator(this.source);
+        if (separator) {
+            this.lexDomains(separator.index);
+            this.push(
+                separator.type,
+                this.source.substring(
+                    separator.index,
+                    separator.index + separator.length,
+                ),
+                separator.index,
+                separator.index + separator.length,
+            );
+            this.pos = separator.index + separator.length;
+        }
+
+        this.lexSelector();
+
+        // Chained rules have several pseudo-classes in a row,
+        // targeting operators may come before or after them
+        const { PSEUDO_CLASS_PREFIX } = RULE_PATTERNS;
+        while (this.pos < this.source.length) {
+            this.skipWhitespace();
+            const operatorPrefix = this.findOperatorPrefix();
+            if (this.source.startsWith(PSEUDO_CLASS_PREFIX, this.pos)) {
+                this.lexPseudoClass();
+            } else if (operatorPrefix) {
+                this.lexOperator(operatorPrefix);
+            } else {
+                break;
+            }
+        }
+
+        this.skipWhitespace();
+        if (this.peek() === RULE_PATTERNS.MODIFIER_SEPARATOR) {
+            this.lexModifiers();
+        }
+
+        // Anything left is unexpected, the parser reports it
+        this.skipWhitespace();
+        if (this.pos < this.source.length) {
+            const text = this.source.substring(this.pos).trimEnd();
+            this.push(
+                TOKEN_TYPE.WORD,
+                text,
+                this.pos,
+                this.pos + text.length,
+            );
+            this.pos = this.source.length;
+        }
+
+        this.push(
+            TOKEN_TYPE.EOF,
+            '',
+            this.source.length,
+            this.source.length,
+        );
+    }
+
+    /**
+     * Lex comma-separated domains before the separator
+     * Escaped commas (e.g. in domain regexes) do not separate domains
+     * @param end Offset of the domain separator
+     */
+    private lexDomains(end: number): void {
+        let segmentStart = 0;
+
+        for (let i = 0; i <= end; i += 1) {
+            if (this.source[i] === ESCAPE && i + 1 < end) {
+                i += 1;
+            } else if (i === end || this.source[i] === ',') {
+                this.pushTrimmed(TOKEN_TYPE.DOMAIN, segmentStart, i);
+                if (i < end) {
+                    this.push(TOKEN_TYPE.COMMA, ',', i, i + 1);
+                }
+                segmentStart = i + 1;
+            }
+        }
+    }
+
+    /**
+     * Lex the CSS selector up to the pseudo-class, targeting operator,
+     * modifiers or end of rule
+     * Quotes, brackets and escapes are tracked so their content is kept
+     * @param isArgument Whether the selector is a targeting operator
+     * argument, which ends at the unmatched ")"
+     * @throws {RuleSyntaxError} On unterminated strings or brackets
+     */
+    private lexSelector(isArgument = false): void {
+        const start = this.pos;
+        const brackets: { char: string; offset: number }[] = [];
+        let quoteStart = -1;
+
+        while (this.pos < this.source.length) {
+            const char = this.source[this.pos]!;
+
+            if (char === ESCAPE) {
+                // Escaped character is skipped together with the backslash
+                this.pos += 1;
+            } else if (quoteStart !== -1) {
+                if (char === this.source[quoteStart]) {
+                    quoteStart = -1;
+                }
+            } else if (QUOTES.includes(char)) {
+                quoteStart = this.pos;
+            } else if (OPENING_BRACKETS[char]) {
+                brackets.push({ char, offset: this.pos });
+            } else if (
+                isArgument
+                && char === ')'
+                && brackets.length === 0
+            ) {
+                break;
+            } else if (CLOSING_BRACKETS.includes(char)) {
+                const open = brackets.pop();
+                if (!open || OPENING_BRACKETS[open.char] !== char) {
+                    throw new RuleSyntaxError(
+                        `Invalid rule format: unexpected "${char}"`,
+                        this.pos,
+                    );
+                }
+            } else if (
+                !isArgument
+                && brackets.length === 0
+                && (
+                    char === RULE_PATTERNS.MODIFIER_SEPARATOR
+                    || this.source.startsWith(
+                        RULE_PATTERNS.PSEUDO_CLASS_PREFIX,
+                        this.pos,
+                    )
+                    || this.findOperatorPrefix()
+                )
+            ) {
+                break;
+            }
+
+            this.pos += 1;
+        }
+        this.pos = Math.min(this.pos, this.source.length);
+
+        if (quoteStart !== -1) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: unterminated string',
+                quoteStart,
+            );
+        }
+
+        const unclosed = brackets.pop();
+        if (unclosed) {
+            throw new RuleSyntaxError(
+                `Invalid rule format: unclosed "${unclosed.char}"`,
+                unclosed.offset,
+            );
+        }
+
+        this.pushTrimmed(TOKEN_TYPE.SELECTOR, start, this.pos);
+    }
+
+    /**
+     * Lex :contains-meaning-<kind> and its parenthesized arguments
+     * e.g. ('sponsored deal' | 'limited offer', not: 'news report')
+     * @throws {RuleSyntaxError} On unterminated strings
+     */
+    private lexPseudoClass(): void {
+        const start = this.pos;
+        this.pos += RULE_PATTERNS.PSEUDO_CLASS_PREFIX.length;
+
+        const kindStart = this.pos;
+        while (/[a-z]/i.test(this.peek())) {
+            this.pos += 1;
+        }
+        this.push(
+            TOKEN_TYPE.PSEUDO_CLASS,
+            this.source.substring(kindStart, this.pos),
+            start,
+            this.pos,
+        );
+
+        this.skipWhitespace();
+        if (this.peek() !== '(') {
+            return;
+        }
+
+        let depth = 0;
+        while (this.pos < this.source.length) {
+            this.skipWhitespace();
+            const char = this.peek();
+
+            if (char === '(') {
+                depth += 1;
+                this.push(TOKEN_TYPE.LPAREN, char, this.pos, this.pos + 1);
+                this.pos += 1;
+            } else if (char === ')') {
+                depth -= 1;
+                this.push(TOKEN_TYPE.RPAREN, char, this.pos, this.pos + 1);
+                this.pos += 1;
+                if (depth === 0) {
+                    return;
+                }
+            } else if (ARGUMENT_PUNCTUATION[char]) {
+                this.push(
+                    ARGUMENT_PUNCTUATION[char],
+                    char,
+                    this.pos,
+                    this.pos + 1,
+                );
+                this.pos += 1;
+            } else if (QUOTES.includes(char)) {
+                this.lexString();
+            } else if (char !== '') {
+                this.lexWord(ARGUMENT_WORD_DELIMITERS);
+            }
+        }
+    }
+
+    /**
+     * Find the targeting operator starting at the current position
+     * @returns Operator prefix (e.g. ":upward("), or undefined if none
+     */
+    private findOperatorPrefix(): string | undefined {
+        return OPERATOR_PREFIXES.find(
+            (prefix) => this.source.startsWith(prefix, this.pos),
+        );
+    }
+
+    /**
+     * Lex :upward(...) or :text-from(...), the argument is a selector
+     * (or a number for :upward) and is kept as a single token
+     * @param prefix Operator prefix including "("
+     * @throws {RuleSyntaxError} On unterminated strings or brackets
+     */
+    private lexOperator(prefix: string): void {
+        const start = this.pos;
+        const parenOffset = start + prefix.length - 1;
+        this.push(
+            TOKEN_TYPE.OPERATOR,
+            prefix.slice(1, -1),
+            start,
+            parenOffset,
+        );
+        this.push(TOKEN_TYPE.LPAREN, '(', parenOffset, parenOffset + 1);
+        this.pos = parenOffset + 1;
+
+        this.lexSelector(true);
+
+        if (this.peek() === ')') {
+            this.push(TOKEN_TYPE.RPAREN, ')', this.pos, this.pos + 1);
+            this.pos += 1;
+        }
+    }
+
+    /**
+     * Lex the $ modifier section as key=value words
+     */
+    private lexModifiers(): void {
+        this.push(
+            TOKEN_TYPE.MODIFIER_SEPARATOR,
+            RULE_PATTERNS.MODIFIER_SEPARATOR,
+            this.pos,
+            this.pos + 1,
+        );
+        this.pos += 1;
+
+        while (this.pos < this.source.length) {
+            this.skipWhitespace();
+            const char = this.peek();
+
+            if (char === ',') {
+                this.push(TOKEN_TYPE.COMMA, char, this.pos, this.pos + 1);
+                this.pos += 1;
+            } else if (char === '=') {
+                this.push(TOKEN_TYPE.EQUALS, char, this.pos, this.pos + 1);
+                this.pos += 1;
+            } else if (QUOTES.includes(char)) {
+                this.lexString();
+            } else if (char !== '') {
+                this.lexWord();
+            }
+        }
+    }
+
+    /**
+     * Lex a quoted string, backslash escapes the next character
+     * @throws {RuleSyntaxError} When the closing quote is missing
+     */
+    private lexString(): void {
+        const start = this.pos;
+        const quote = this.source[start];
+        let value = '';
+        this.pos += 1;
+
+        while (this.pos < this.source.length) {
+            const char = this.source[this.pos]!;
+
+            if (char === ESCAPE && this.pos + 1 < this.source.length) {
+                value += this.source[this.pos + 1];
+                this.pos += 2;
+            } else if (char === quote) {
+                this.pos += 1;
+                this.push(TOKEN_TYPE.STRING, value, start, this.pos);
+                return;
+            } else {
+                value += char;
+                this.pos += 1;
+            }
+        }
+
+        throw new RuleSyntaxError(
+            'Invalid rule format: unterminated string',
+            start,
+        );
+    }
+
+    /**
+     * Lex an unquoted word up to whitespace or a delimiter
+     * A word is always at least one character long so lexing advances
+     * @param delimiters Characters that end the word
+     */
+    private lexWord(delimiters = WORD_DELIMITERS): void {
+        const start = this.pos;
+        do {
+            this.pos += 1;
+        } while (
+            this.pos < this.source.length
+            && !/\s/.test(this.peek())
+            && !delimiters.includes(this.peek())
+        );
+
+        this.push(
+            TOKEN_TYPE.WORD,
+            this.source.substring(start, this.pos),
+            start,
+            this.pos,
+        );
+    }
+
+    /**
+     * Push a token for the trimmed text between offsets, if not empty
+     * @param type Token type
+     * @param start Offset of the first character
+     * @param end Offset after the last character
+     */
+    private pushTrimmed(type: TokenType, start: number, end: number): void {
+        const text = this.source.substring(start, end);
+        const trimmed = text.trim();
+        if (!trimmed) {
+            return;
+        }
+
+        const trimmedStart = start + text.indexOf(trimmed);
+        this.push(type, trimmed, trimmedStart, trimmedStart + trimmed.length);
+    }
+
+    /**
+     * Append a token
+     * @param type Token type
+     * @param value Token value
+     * @param start Offset of the first character
+     * @param end Offset after the last character
+     */
+    private push(
+        type: TokenType,
+        value: string,
+        start: number,
+        end: number,
+    ): void {
+        this.tokens.push({
+            type,
+            value,
+            start,
+            end,
+        });
+    }
+
+    /**
+     * Get the character at the current position
+     * @returns Current character, or empty string at end of rule
+     */
+    private peek(): string {
+        return this.source[this.pos] ?? '';
+    }
+
+    /**
+     * Advance past whitespace
+     */
+    private skipWhitespace(): void {
+        while (/\s/.test(this.peek())) {
+            this.pos += 1;
+        }
+    }
+}
@@ -0,0 +1,187 @@
+// Rule Matcher - Combines the results of the rules applicable to an element
+
+import { MATCH_STRATEGY } from '../shared/constants';
+import type { MatchStrategy } from '../shared/constants';
+import type { Rule, RuleStageResult } from '../shared/rule-types';
+
+/**
+ * Result of analyzing an element with a single rule
+ */
+export interface RuleAnalysisResult {
+    matches: boolean;
+    confidence: number;
+    threshold?: number;
+    explanation?: string;
+    stages?: RuleStageResult[];
+}
+
+/**
+ * Combined result of the rules applicable to an element
+ */
+export interface RuleMatchResult {
+    matched: boolean;
+
+    /**
+     * Rule the element is blocked by, null if it is not blocked
+     */
+    matchedRule: Rule | null;
+    maxConfidence: number;
+    threshold: number;
+    explanation?: string;
+    stages?: RuleStageResult[];
+}
+
+/**
+ * How rule results are combined
+ */
+export interface MatchOptions {
+    strategy: MatchStrategy;
+
+    /**
+     * Matching rules needed with the consensus strategy, elements with
+     * fewer applicable rules are never blocked
+     */
+    consensusCount: number;
+}
+
+/**
+ * Analyzed rule with its result
+ */
+interface RuleResultEntry {
+    rule: Rule;
+    result: RuleAnalysisResult;
+}
+
+/**
+ * Rule Matcher - Runs rules in priority order and decides
+ * if an element is blocked according to the match strategy
+ */
+export class RuleMatcher {
+    /**
+     * Analyze an element with its applicable rules
+     * @param rules Applicable rules in priority order
+     * @param analyze Analyzes the element with one rule
+     * @param options Match strategy
+     * @returns Combined result
+     */
+    static async match<T extends Rule>(
+        rules: T[],
+        analyze: (rule: T) => Promise<RuleAnalysisResult>,
+        options: MatchOptions,
+    ): Promise<RuleMatchResult> {
+        const entries: RuleResultEntry[] = [];
+        for (const rule of rules) {
+            const result = await analyze(rule);
+            entries.push({ rule, result });
+
+            // Lower priority rules are not analyzed at all
+            if (
+                options.strategy === MATCH_STRATEGY.FIRST_MATCH
+                && result.matches
+            ) {
+                return RuleMatcher.toMatchResult({ rule, result }, true);
+            }
+        }
+
+        if (options.strategy === MATCH_STRATEGY.CONSENSUS) {
+            return RuleMatcher.matchConsensus(entries, options.consensusCount);
+        }
+        return RuleMatcher.matchBestConfidence(entries);
+    }
+
+    /**
+     * Block the element if any rule matches
+     * The most confident matching rule is reported as the matched one,
+     * the most confident result if no rule matches
+     * @param entries Analyzed rules
+     * @returns Combined result
+     */
+    static matchBestConfidence(entries: RuleResultEntry[]): RuleMatchResult {
+        const matching = entries.filter(({ result }) => result.matches);
+        if (matching.length > 0) {
+            return RuleMatcher.toMatchResult(
+                RuleMatcher.findMostConfident(matching),
+                true,
+            );
+        }
+        return RuleMatcher.toMatchResult(
+            RuleMatcher.findMostConfident(entries),
+            false,
+        );
+    }
+
+    /**
+     * Block the element if enough rules match
+     * The most confident matching rule is reported as the matched one
+     * @param entries Analyzed rules
+     * @param count Matching rules needed
+     * @returns Combined result
+     */
+    static matchConsensus(
+        entries: RuleResultEntry[],
+        count: number,
+    ): RuleMatchResult {
+        const matching = entries.filter(({ result }) => result.matches);
+        const agreed = matching.length > 0 && matching.length >= count;
+        const best = RuleMatcher.findMostConfident(
+            agreed ? matching : entries,
+        );
+        const result = RuleMatcher.toMatchResult(best, agreed);
+
+        const votes = `${matching.length} of ${entries.length} rules `
+            + `matched (${count} needed)`;
+        return {
+            ...result,
+            explanation: result.explanation
+                ? `${votes}: ${result.explanation}`
+                : votes,
+        };
+    }
+
+    /**
+     * Find the most confident result, the first one on ties
+     * @param entries Analyzed rules
+     * @returns Most confident entry or null if there are none
+     */
+    static findMostConfident(
+        entries: RuleResultEntry[],
+    ): RuleResultEntry | null {
+        return entries.reduce<RuleResultEntry | null>(
+            (best, entry) => (
+                !best || entry.result.confidence > best.result.confidence
+                    ? entry
+                    : best
+            ),
+            null,
+        );
+    }
+
+    /**
+     * Build the combined result from a single rule's result
+     * @param entry Analyzed rule, null if no rule applied
+     * @param matched Whether the element is blocked
+     * @returns Combined result
+     */
+    static toMatchResult(
+        entry: RuleResultEntry | null,
+        matched: boolean,
+    ): RuleMatchResult {
+        if (!entry) {
+            return {
+                matched: false,
+                matchedRule: null,
+                maxConfidence: 0,
+                threshold: 0,
+            };
+        }
+
+        return {
+            matched,
+            matchedRule: matched ? entry.rule : null,
+            maxConfidence: entry.result.confidence,
+            threshold: entry.result.threshold ?? 0,
+            explanation: entry.result.explanation || '',
+            stages: entry.result.stages,
+        };
+    }
+}
@@ -1,9 +1,49 @@
 /**
  * Rule parser utility - Tokenizer-based parser for rule strings
  * Supports domain-specific rules with syntax: domain1,domain2#?#selector:contains-meaning-*('...')
+ * exception rules with syntax: domain1,domain2#@?#selector[:contains-meaning-*('...')]
+ * and cosmetic rules with syntax: domain1,domain2##selector
+ * Targeting operators pick the text source and the element acted on:
+ * selector:text-from(selector):contains-meaning-*('...'):upward(n|selector)
+ * Rules may end with a modifier section: ...$threshold=0.85,model=provider:model,action=hide
+ * or ...$schedule=mon-fri 09:00-18:00
+ * or ...$label="Spoiler: Game of Thrones",category=spoiler
+ *
+ * Grammar (tokens come from RuleLexer):
+ * rule := [domains separator] selector (pseudo | operator)* ['$' modifiers]
+ * separator := '#?#' | '#@?#' | '##'
+ * domains := domain (',' domain)*
+ * domain := ['~'] ('/' regex '/' | [scheme '://'] [host [':' port]] [path] ['?' query])
+ * pseudo := ':contains-meaning-' kind '(' argument (',' argument)* ')'
+ * argument := [name ':'] string ('|' string)*
+ * operator := (':upward' | ':text-from') '(' selector ')'
+ * modifiers := key '=' value (',' key '=' value)*
+ * value := string | word+ (words joined by single spaces)
+ * Strings are quoted with ' or " and a backslash escapes the next character
+ * (also in domains, e.g. a comma inside a domain regex: /^ads\d{1\,3}\./)
  */
 
-import { RULE_PATTERNS } from '../shared/constants';
+import {
+    ALL_MODELS_MAP,
+    RULE_ACTION,
+    RULE_CATEGORY,
+    RULE_MODIFIER,
+    RULE_PATTERNS,
+    RULE_TYPE,
+    TARGET_OPERATOR,
+} from '../shared/constants';
+import type { RuleAction, TargetOperator } from '../shared/constants';
+import type { AnalysisRuleType, RuleModifiers } from '../shared/rule-types';
+import {
+    isRegexDomainPattern,
+    parseDomainPattern,
+} from '../shared/domain-matcher';
+import { getUnsupportedReason } from '../shared/model-utils';
+import { isPublicSuffix } from '../shared/public-suffix';
+import { parseSchedule } from '../shared/schedule';
+import { RuleLexer, TOKEN_TYPE } from './rule-lexer';
+import type { RuleToken, TokenType } from './rule-lexer';
+import { RuleSyntaxError } from './rule-syntax-error';
 
 /**
  * Parsed rule components extracted from a rule string
@@ -19,36 +59,195 @@ export interface ParsedRuleComponents {
      * The rule portion after the #?# separator (or entire string if no separator found)
      */
     rulePart: string;
+
+    /**
+     * Whether the rule uses the #@?# exception separator
+     */
+    isException: boolean;
+
+    /**
+     * Whether the rule uses the ## cosmetic separator
+     */
+    isCosmetic: boolean;
+}
+
+/**
+ * AST node position in the rule string (end is exclusive)
+ */
+interface AstNode {
+    start: number;
+    end: number;
+}
+
+/**
+ * Domain entry from the domain list (may be negated with ~)
+ */
+export interface DomainNode extends AstNode {
+    value: string;
+}
+
+/**
+ * CSS selector part of the rule
+ */
+export interface SelectorNode extends AstNode {
+    value: string;
+}
+
+/**
+ * Quoted string with escapes resolved
+ */
+export interface StringArgumentNode extends AstNode {
+    value: string;
 }
 
 /**
- * Rule parser class - Uses tokenization instead of regex
+ * Pseudo-class argument: one or more "|"-separated alternatives,
+ * optionally named (e.g. not: 'news report' | 'tutorial')
+ */
+export interface ArgumentNode extends AstNode {
+    /**
+     * Argument name before ":" (null for positional arguments)
+     */
+    name: string | null;
+    values: StringArgumentNode[];
+}
+
+/**
+ * :contains-meaning-<kind>(...) pseudo-class
+ */
+export interface PseudoClassNode extends AstNode {
+    kind: AnalysisRuleType;
+    arguments: ArgumentNode[];
+}
+
+/**
+ * :upward(...) or :text-from(...) targeting operator
+ */
+export interface TargetOperatorNode extends AstNode {
+    kind: TargetOperator;
+
+    /**
+     * Unparsed argument, a selector (or a number for :upward)
+     */
+    argument: SelectorNode;
+}
+
+/**
+ * key=value entry from the $ modifier section
+ */
+export interface ModifierNode extends AstNode {
+    key: string;
+    value: string;
+
+    /**
+     * Position of the value, used to point at invalid values
+     */
+    valueStart: number;
+    valueEnd: number;
+}
+
+/**
+ * Syntax tree of a single rule string
+ */
+export interface RuleAst {
+    source: string;
+    domains: DomainNode[];
+    isException: boolean;
+    isCosmetic: boolean;
+    selector: SelectorNode;
+
+    /**
+     * AI pseudo-classes in source order, more than one for chained rules
+     * (empty for cosmetic and selector-only exception rules)
+     */
+    pseudoClasses: PseudoClassNode[];
+
+    /**
+     * Targeting operators in source order
+     */
+    operators: TargetOperatorNode[];
+    modifiers: ModifierNode[];
+}
+
+/**
+ * Options for converting modifier nodes
+ */
+export interface ModifierParseOptions {
+    /**
+     * Accept $model values without checking the model registry, for
+     * stored rules whose models may not be listed right now
+     */
+    skipModelCheck?: boolean;
+}
+
+const PSEUDO_CLASS_KINDS: AnalysisRuleType[] = [
+    RULE_TYPE.EMBEDDING,
+    RULE_TYPE.PROMPT,
+    RULE_TYPE.VISION,
+];
+
+const TARGET_OPERATOR_KINDS: TargetOperator[] = Object.values(
+    TARGET_OPERATOR,
+);
+
+// Longer labels would not fit on the overlay of small elements
+const MAX_LABEL_LENGTH = 60;
+
+const CATEGORY_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Rule parser class - Recursive descent over RuleLexer tokens
  */
 export class RuleParser {
+    private readonly tokens: RuleToken[];
+
+    private index = 0;
+
+    /**
+     * @param tokens Tokens of the rule string, ending with EOF
+     */
+    private constructor(tokens: RuleToken[]) {
+        this.tokens = tokens;
+    }
+
+    /**
+     * Parse a rule string into a syntax tree
+     * Only syntax is checked here, domains and modifier values are
+     * validated by validateDomainNodes and parseModifierNodes
+     * @param source Rule string to parse
+     * @returns Rule syntax tree
+     * @throws {RuleSyntaxError} When rule syntax is invalid
+     */
+    static parse(source: string): RuleAst {
+        const parser = new RuleParser(RuleLexer.tokenize(source));
+        return parser.parseRule(source);
+    }
+
     /**
      * Parse rule string to extract domains and rule portion
      * @param ruleString Full rule string to parse
      * @returns Parsed components with domains array and rule portion
      */
     static parseRuleComponents(ruleString: string): ParsedRuleComponents {
-        // Find domain separator
-        const separatorIndex = ruleString.indexOf(
-            RULE_PATTERNS.DOMAIN_SEPARATOR,
-        );
+        const separator = RuleLexer.findSeparator(ruleString);
 
         // No separator means no domains specified
-        if (separatorIndex === -1) {
+        if (!separator) {
             return {
                 domains: [],
                 rulePart: ruleString,
+                isException: false,
+                isCosmetic: false,
             };
         }
 
         // Extract domain part (before separator)
-        const domainPart = ruleString.substring(0, separatorIndex);
+        const domainPart = ruleString.substring(0, separator.index);
         const rulePart = ruleString.substring(
-            separatorIndex + RULE_PATTERNS.DOMAIN_SEPARATOR.length,
+            separator.index + separator.length,
         );
+        const isException = separator.type === TOKEN_TYPE.EXCEPTION_SEPARATOR;
+        const isCosmetic = separator.type === TOKEN_TYPE.COSMETIC_SEPARATOR;
 
         // Parse domains (comma-separated)
         const domains = RuleParser.parseDomains(domainPart);
@@ -56,6 +255,8 @@ export class RuleParser {
         return {
             domains,
             rulePart,
+            isException,
+            isCosmetic,
         };
     }
 
@@ -76,7 +277,11 @@ export class RuleParser {
         for (let i = 0; i < domainPart.length; i += 1) {
             const char = domainPart[i];
 
-            if (char === ',') {
+            if (char === '\\') {
+                // Escaped characters (e.g. commas in regexes) are kept
+                currentDomain += domainPart.substring(i, i + 2);
+                i += 1;
+            } else if (char === ',') {
                 // Found separator, add current domain if not empty
                 const trimmed = currentDomain.trim();
                 if (trimmed) {
@@ -99,7 +304,10 @@ export class RuleParser {
 
     /**
      * Validate domain format
-     * Supports wildcards (*), paths (/), and special identifiers
+     * Supports hosts with wildcards (*.example.com, example.*),
+     * scheme, port, path and query parts (https://example.com:8080/news?id=*),
+     * /regex/ hostname patterns, special identifiers (file://, localhost)
+     * and negation (~example.com)
      * @param domain Domain string to validate
      * @returns True if domain is valid
      */
@@ -108,61 +316,75 @@ export class RuleParser {
             return false;
         }
 
-        // Special identifiers are always valid
-        if (domain === 'file://' || domain === 'localhost') {
-            return true;
+        // Negated domains are valid if the pattern after ~ is valid
+        // Double negation (~~example.com) is not allowed
+        if (domain.startsWith(RULE_PATTERNS.DOMAIN_NEGATION)) {
+            const pattern = domain.substring(
+                RULE_PATTERNS.DOMAIN_NEGATION.length,
+            );
+            return !pattern.startsWith(RULE_PATTERNS.DOMAIN_NEGATION)
+                && RuleParser.isValidDomain(pattern);
         }
 
-        // Path patterns (for file URLs) are valid if they contain /
-        // e.g., test-page/index.html, */test-page/*, /Volumes/dev/*/index.html
-        if (domain.includes('/')) {
-            // Check for invalid characters in paths
-            const invalidChars = ['#', '?', ' ', '\t', '\n', '\r'];
-            for (const char of invalidChars) {
-                if (domain.includes(char)) {
-                    return false;
-                }
-            }
+        // URLs never contain whitespace, and # starts the fragment
+        if (/[\s#]/.test(domain)) {
+            return false;
+        }
+
+        // Regexes are valid if they compile
+        const parts = parseDomainPattern(domain);
+        if (!parts) {
+            return false;
+        }
+        if (isRegexDomainPattern(domain)) {
             return true;
         }
 
-        // Basic validation without regex for regular domains
-        // Check for invalid characters
-        const invalidChars = ['#', '?', ' ', '\t', '\n', '\r'];
-        for (const char of invalidChars) {
-            if (domain.includes(char)) {
-                return false;
-            }
+        // Only the first ? starts the query string
+        if (parts.query?.includes('?')) {
+            return false;
         }
 
-        // Must contain at least one dot (e.g., example.com, *.example.com)
-        if (!domain.includes('.')) {
+        // Entries without a host match any host, e.g. file:// or /blog/
+        if (!parts.host) {
+            return parts.scheme !== null
+                || parts.path !== null
+                || parts.query !== null;
+        }
+        return RuleParser.isValidHost(parts.host);
+    }
+
+    /**
+     * Validate the host part of a domain entry
+     * @param host Host pattern without scheme, port and path
+     * @returns True if host is valid
+     */
+    static isValidHost(host: string): boolean {
+        if (host === 'localhost') {
+            return true;
+        }
+
+        // Check for invalid characters
+        if (/[?:/\\,~]/.test(host)) {
             return false;
         }
 
-        // Check for invalid wildcard patterns
+        // Must contain at least one dot (e.g., example.com, *.example.com)
         // Wildcard-only patterns like "*" are not valid
-        if (domain === '*') {
+        if (!host.includes('.')) {
             return false;
         }
 
         // Check if starts/ends with dot (not counting wildcards)
         // *.example.org is valid, but .example.org is not
         // example.* is valid, but example. is not
-        const withoutWildcards = domain.replace(/\*/g, '');
-        // Only check for dots if there's content left after removing wildcards
-        if (withoutWildcards.length > 0) {
-            // Check for leading dot (that's not after a wildcard)
-            if (!domain.startsWith('*') && domain.startsWith('.')) {
-                return false;
-            }
-            // Check for trailing dot (that's not before a wildcard)
-            if (!domain.endsWith('*') && domain.endsWith('.')) {
-                return false;
-            }
+        if (host.startsWith('.') || host.endsWith('.')) {
+            return false;
         }
 
-        return true;
+        // Patterns cover subdomains, so a public suffix like co.uk
+        // would cover every site registered under it
+        return host.includes('*') || !isPublicSuffix(host);
     }
 
     /**
@@ -184,4 +406,470 @@ export class RuleParser {
 
         return { isValid: true };
     }
+
+    /**
+     * Validate domain nodes of a parsed rule
+     * @param domains Domain nodes to validate
+     * @throws {RuleSyntaxError} Pointing at the first invalid domain
+     */
+    static validateDomainNodes(domains: DomainNode[]): void {
+        for (const domain of domains) {
+            const { error } = RuleParser.validateDomains([domain.value]);
+            if (error) {
+                throw new RuleSyntaxError(
+                    error,
+                    domain.start,
+                    domain.end - domain.start,
+                );
+            }
+        }
+    }
+
+    /**
+     * Convert modifier nodes into rule modifiers
+     * @param nodes Modifier nodes from the rule syntax tree
+     * @param ruleType Type of the rule the modifiers belong to
+     * @param options Parse options
+     * @returns Parsed modifiers
+     * @throws {RuleSyntaxError} Pointing at the invalid key or value
+     */
+    static parseModifierNodes(
+        nodes: ModifierNode[],
+        ruleType: AnalysisRuleType,
+        options: ModifierParseOptions = {},
+    ): RuleModifiers {
+        const modifiers: RuleModifiers = {};
+        const keys: string[] = Object.values(RULE_MODIFIER);
+
+        for (const node of nodes) {
+            const keyLength = node.key.length;
+
+            if (!keys.includes(node.key)) {
+                throw new RuleSyntaxError(
+                    `Unknown modifier: "${node.key}"`,
+                    node.start,
+                    keyLength,
+                );
+            }
+
+            if (modifiers[node.key as keyof RuleModifiers] !== undefined) {
+                throw new RuleSyntaxError(
+                    `Duplicate modifier: "${node.key}"`,
+                    node.start,
+                    keyLength,
+                );
+            }
+
+            const { modifier, error } = RuleParser.parseModifier(
+                node.key,
+                node.value,
+                ruleType,
+                options,
+            );
+            if (error) {
+                throw new RuleSyntaxError(
+                    error,
+                    node.valueStart,
+                    node.valueEnd - node.valueStart,
+                );
+            }
+            Object.assign(modifiers, modifier);
+        }
+
+        return modifiers;
+    }
+
+    /**
+     * Parse and validate a single modifier
+     * @param key Modifier key
+     * @param value Modifier value
+     * @param ruleType Type of the rule the modifier belongs to
+     * @param options Parse options
+     * @returns Object with the parsed modifier and error message if invalid
+     */
+    static parseModifier(
+        key: string,
+        value: string,
+        ruleType: AnalysisRuleType,
+        options: ModifierParseOptions = {},
+    ): { modifier: RuleModifiers; error?: string } {
+        switch (key) {
+            case RULE_MODIFIER.THRESHOLD: {
+                const threshold = Number(value);
+                if (
+                    value === ''
+                    || Number.isNaN(threshold)
+                    || threshold < 0
+                    || threshold > 1
+                ) {
+                    return {
+                        modifier: {},
+                        error: `Invalid threshold: "${value}" `
+                            + '(expected a number between 0 and 1)',
+                    };
+                }
+                return { modifier: { threshold } };
+            }
+            case RULE_MODIFIER.MODEL: {
+                const error = options.skipModelCheck
+                    ? undefined
+                    : RuleParser.validateModel(value, ruleType);
+                return error
+                    ? { modifier: {}, error }
+                    : { modifier: { model: value } };
+            }
+            case RULE_MODIFIER.ACTION: {
+                const actions: string[] = Object.values(RULE_ACTION);
+                if (!actions.includes(value)) {
+                    return {
+                        modifier: {},
+                        error: `Invalid action: "${value}" `
+                            + `(expected ${actions.join(' or ')})`,
+                    };
+                }
+                return { modifier: { action: value as RuleAction } };
+            }
+            case RULE_MODIFIER.SCHEDULE: {
+                const { windows, error } = parseSchedule(value);
+                return error
+                    ? { modifier: {}, error }
+                    : { modifier: { schedule: windows } };
+            }
+            case RULE_MODIFIER.LABEL: {
+                const label = value.trim();
+                if (!label || label.length > MAX_LABEL_LENGTH) {
+                    return {
+                        modifier: {},
+                        error: `Invalid label: "${value}" `
+                            + `(expected 1-${MAX_LABEL_LENGTH} characters)`,
+                    };
+                }
+                return { modifier: { label } };
+            }
+            case RULE_MODIFIER.CATEGORY: {
+                const category = value.toLowerCase();
+                if (!CATEGORY_PATTERN.test(category)) {
+                    return {
+                        modifier: {},
+                        error: `Invalid category: "${value}" `
+                            + '(expected letters, digits and dashes, '
+                            + `e.g. ${Object.values(RULE_CATEGORY).join(', ')})`,
+                    };
+                }
+                return { modifier: { category } };
+            }
+            default:
+                return { modifier: {}, error: `Unknown modifier: "${key}"` };
+        }
+    }
+
+    /**
+     * Check that a model ID exists and supports the rule type
+     * @param modelId Model ID in "provider:modelName" format
+     * @param ruleType Type of the rule using the model
+     * @returns Error message, or undefined if model is valid
+     */
+    static validateModel(
+        modelId: string,
+        ruleType: AnalysisRuleType,
+    ): string | undefined {
+        const model = ALL_MODELS_MAP[modelId];
+        if (!model) {
+            return `Unknown model: "${modelId}"`;
+        }
+
+        return getUnsupportedReason(model, ruleType);
+    }
+
+    /**
+     * Parse the whole token stream
+     * @param source Rule string the tokens come from
+     * @returns Rule syntax tree
+     * @throws {RuleSyntaxError} When rule syntax is invalid
+     */
+    private parseRule(source: string): RuleAst {
+        const domains: DomainNode[] = [];
+        while (
+            this.peek().type === TOKEN_TYPE.DOMAIN
+            || this.peek().type === TOKEN_TYPE.COMMA
+        ) {
+            const token = this.next();
+            if (token.type === TOKEN_TYPE.DOMAIN) {
+                domains.push({
+                    value: token.value,
+                    start: token.start,
+                    end: token.end,
+                });
+            }
+        }
+
+        const separatorType = this.peek().type;
+        const isException = separatorType === TOKEN_TYPE.EXCEPTION_SEPARATOR;
+        const isCosmetic = separatorType === TOKEN_TYPE.COSMETIC_SEPARATOR;
+        if (
+            isException
+            || isCosmetic
+            || separatorType === TOKEN_TYPE.SEPARATOR
+        ) {
+            this.next();
+        }
+
+        const selectorToken = this.expect(
+            TOKEN_TYPE.SELECTOR,
+            'expected selector',
+        );
+        const selector: SelectorNode = {
+            value: selectorToken.value,
+            start: selectorToken.start,
+            end: selectorToken.end,
+        };
+
+        const pseudoClasses: PseudoClassNode[] = [];
+        const operators: TargetOperatorNode[] = [];
+        for (;;) {
+            const { type } = this.peek();
+            if (type === TOKEN_TYPE.PSEUDO_CLASS) {
+                pseudoClasses.push(this.parsePseudoClass());
+            } else if (type === TOKEN_TYPE.OPERATOR) {
+                operators.push(this.parseOperator());
+            } else {
+                break;
+            }
+        }
+
+        const modifiers = this.peek().type === TOKEN_TYPE.MODIFIER_SEPARATOR
+            ? this.parseModifiers()
+            : [];
+
+        const rest = this.peek();
+        if (rest.type !== TOKEN_TYPE.EOF) {
+            throw RuleParser.syntaxError(`unexpected "${rest.value}"`, rest);
+        }
+
+        return {
+            source,
+            domains,
+            isException,
+            isCosmetic,
+            selector,
+            pseudoClasses,
+            operators,
+            modifiers,
+        };
+    }
+
+    /**
+     * Parse :contains-meaning-<kind>('...', ...)
+     * @returns Pseudo-class node
+     * @throws {RuleSyntaxError} When pseudo-class syntax is invalid
+     */
+    private parsePseudoClass(): PseudoClassNode {
+        const token = this.next();
+        const name = `${RULE_PATTERNS.PSEUDO_CLASS_PREFIX}${token.value}`;
+        const kind = PSEUDO_CLASS_KINDS.find((k) => k === token.value);
+        if (!kind) {
+            throw RuleParser.syntaxError(
+                `unknown pseudo-class "${name}"`,
+                token,
+            );
+        }
+
+        this.expect(TOKEN_TYPE.LPAREN, `expected "(" after "${name}"`);
+
+        const args: ArgumentNode[] = [];
+        do {
+            args.push(this.parseArgument());
+        } while (this.accept(TOKEN_TYPE.COMMA));
+
+        const closing = this.expect(TOKEN_TYPE.RPAREN, 'expected ")"');
+
+        return {
+            kind,
+            arguments: args,
+            start: token.start,
+            end: closing.end,
+        };
+    }
+
+    /**
+     * Parse :upward(...) or :text-from(...)
+     * @returns Targeting operator node
+     * @throws {RuleSyntaxError} When operator syntax is invalid
+     */
+    private parseOperator(): TargetOperatorNode {
+        const token = this.next();
+        const kind = TARGET_OPERATOR_KINDS.find((k) => k === token.value)!;
+
+        this.expect(TOKEN_TYPE.LPAREN, `expected "(" after ":${kind}"`);
+        const argument = this.expect(TOKEN_TYPE.SELECTOR, 'expected selector');
+        const closing = this.expect(TOKEN_TYPE.RPAREN, 'expected ")"');
+
+        return {
+            kind,
+            argument: {
+                value: argument.value,
+                start: argument.start,
+                end: argument.end,
+            },
+            start: token.start,
+            end: closing.end,
+        };
+    }
+
+    /**
+     * Parse [name:] 'value' | 'value' ...
+     * @returns Argument node
+     * @throws {RuleSyntaxError} When argument syntax is invalid
+     */
+    private parseArgument(): ArgumentNode {
+        const first = this.peek();
+        let name: string | null = null;
+        if (first.type === TOKEN_TYPE.WORD) {
+            this.next();
+            // Without ":" the word is an unquoted value, not a name
+            if (!this.accept(TOKEN_TYPE.COLON)) {
+                throw RuleParser.syntaxError('expected quoted string', first);
+            }
+            name = first.value;
+        }
+
+        const values: StringArgumentNode[] = [];
+        do {
+            const value = this.expect(
+                TOKEN_TYPE.STRING,
+                'expected quoted string',
+            );
+            if (value.value.trim() === '') {
+                throw RuleParser.syntaxError('empty argument', value);
+            }
+            values.push({
+                value: value.value,
+                start: value.start,
+                end: value.end,
+            });
+        } while (this.accept(TOKEN_TYPE.PIPE));
+
+        return {
+            name,
+            values,
+            start: first.start,
+            end: values[values.length - 1]!.end,
+        };
+    }
+
+    /**
+     * Parse $key=value,key=value
+     * @returns Modifier nodes in source order
+     * @throws {RuleSyntaxError} When modifier syntax is invalid
+     */
+    private parseModifiers(): ModifierNode[] {
+        this.next();
+
+        const modifiers: ModifierNode[] = [];
+        do {
+            const key = this.expect(TOKEN_TYPE.WORD, 'expected modifier name');
+            this.expect(
+                TOKEN_TYPE.EQUALS,
+                `expected "=" after modifier "${key.value}"`,
+            );
+
+            const value = this.peek();
+            if (
+                value.type !== TOKEN_TYPE.WORD
+                && value.type !== TOKEN_TYPE.STRING
+            ) {
+                throw RuleParser.syntaxError(
+                    `expected value for modifier "${key.value}"`,
+                    value,
+                );
+            }
+            this.next();
+
+            // Unquoted values may contain spaces, e.g. "mon-fri 09:00-18:00"
+            const words = [value];
+            while (
+                value.type === TOKEN_TYPE.WORD
+                && this.peek().type === TOKEN_TYPE.WORD
+            ) {
+                words.push(this.next());
+            }
+            const last = words[words.length - 1]!;
+
+            modifiers.push({
+                key: key.value,
+                value: words.map((word) => word.value).join(' '),
+                start: key.start,
+                end: last.end,
+                valueStart: value.start,
+                valueEnd: last.end,
+            });
+        } while (this.accept(TOKEN_TYPE.COMMA));
+
+        return modifiers;
+    }
+
+    /**
+     * Get the current token without consuming it
+     * @returns Current token (EOF at the end)
+     */
+    private peek(): RuleToken {
+        return this.tokens[this.index] ?? this.tokens[this.tokens.length - 1]!;
+    }
+
+    /**
+     * Consume the current token
+     * @returns Consumed token
+     */
+    private next(): RuleToken {
+        const token = this.peek();
+        if (this.index < this.tokens.length - 1) {
+            this.index += 1;
+        }
+        return token;
+    }
+
+    /**
+     * Consume the current token if it has the given type
+     * @param type Expected token type
+     * @returns True if token was consumed
+     */
+    private accept(type: TokenType): boolean {
+        if (this.peek().type !== type) {
+            return false;
+        }
+        this.next();
+        return true;
+    }
+
+    /**
+     * Consume a token of the given type or fail
+     * @param type Expected token type
+     * @param description Error description if token does not match
+     * @returns Consumed token
+     * @throws {RuleSyntaxError} Pointing at the unexpected token
+     */
+    private expect(type: TokenType, description: string): RuleToken {
+        const token = this.peek();
+        if (token.type !== type) {
+            throw RuleParser.syntaxError(description, token);
+        }
+        return this.next();
+    }
+
+    /**
+     * Create a rule format error covering a token
+     * @param description Error description
+     * @param token Token the error points at
+     * @returns Syntax error
+     */
+    private static syntaxError(
+        description: string,
+        token: RuleToken,
+    ): RuleSyntaxError {
+        return new RuleSyntaxError(
+            `Invalid rule format: ${description}`,
+            token.start,
+            token.end - token.start,
+        );
+    }
 }
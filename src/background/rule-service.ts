@@ -1,28 +1,197 @@
 // Rule Service - Pure rule logic without DOM dependencies
 
 import { nanoid } from 'nanoid/non-secure';
-import { RULE_PATTERNS, RULE_TYPE, SETTINGS_KEYS } from '../shared/constants';
+import {
+    ACTIONS,
+    RULE_EXPORT_FORMAT,
+    RULE_IMPORT_MODE,
+    RULE_MODIFIER,
+    RULE_PATTERNS,
+    RULE_TYPE,
+    SETTINGS_KEYS,
+    TARGET_OPERATOR,
+} from '../shared/constants';
+import type { RuleExportFormat, RuleImportMode } from '../shared/constants';
 import { createLogger, getErrorMessage } from '../shared/logger';
-import type { Rule } from '../shared/rule-types';
+import type {
+    AnalysisRule,
+    CosmeticRule,
+    EmbeddingAnchors,
+    ExceptionRule,
+    FilterList,
+    FilterListMetadata,
+    FilterListSubscription,
+    Rule,
+    RuleTargeting,
+} from '../shared/rule-types';
+import {
+    formatEmbeddingCriteria,
+    getRuleCriteria,
+} from '../shared/rule-utils';
+import {
+    getActiveProfile,
+    getProfile,
+    getProfileUpdates,
+} from '../shared/profiles';
 import { SettingsManager } from '../shared/settings';
+import { FilterListParser } from './filter-list-parser';
+import type { FilterListLineError } from './filter-list-parser';
+import { RuleIndex } from './rule-index';
 import { RuleParser } from './rule-parser';
+import type {
+    ArgumentNode,
+    ModifierParseOptions,
+    PseudoClassNode,
+    RuleAst,
+    TargetOperatorNode,
+} from './rule-parser';
+import { RuleSyntaxError } from './rule-syntax-error';
 
 const logger = createLogger('RuleService');
 
+const { NEGATIVE_ANCHOR_ARGUMENT, PAGE_SELECTOR } = RULE_PATTERNS;
+
+/**
+ * Version of the JSON rule export format
+ */
+const RULE_EXPORT_VERSION = 1;
+
 /**
- * Stored rule format (persisted in settings)
+ * Stored rule format (persisted in settings and in JSON exports)
+ * The order of stored rules is their priority
  */
-interface StoredRule {
+export interface StoredRule {
     ruleString: string;
     enabled: boolean;
+    listId?: string;
+    tags?: string[];
+}
+
+/**
+ * Rules read from an export, lines that failed are in errors
+ * For JSON exports the line of an error is the number of the rule entry
+ */
+export interface RuleImportParseResult {
+    format: RuleExportFormat;
+    rules: Rule[];
+    errors: FilterListLineError[];
+}
+
+/**
+ * Rules of an import that would be added, shown before importing
+ */
+export interface RuleImportPreview extends RuleImportParseResult {
+    /**
+     * Number of valid rules already in the current rules
+     */
+    existing: number;
+}
+
+/**
+ * Result of a rule import
+ */
+export interface RuleImportResult {
+    /**
+     * False if the text has no valid rules, the rules are left as they
+     * were then
+     */
+    imported: boolean;
+    added: number;
+    removed: number;
+
+    /**
+     * Rules left out because they are already there
+     */
+    skipped: number;
+    errors: FilterListLineError[];
+}
+
+/**
+ * Filter list with its rules parsed, lines that failed are in errors
+ */
+export interface FilterListParseResult {
+    metadata: FilterListMetadata;
+    rules: Rule[];
+    errors: FilterListLineError[];
+}
+
+/**
+ * Result of a filter list import
+ */
+export interface FilterListImportResult {
+    /**
+     * Imported list or null if the text has no valid rules
+     */
+    list: FilterList | null;
+    ruleCount: number;
+    errors: FilterListLineError[];
+}
+
+/**
+ * Result of updating a list from a new version of its text
+ */
+export interface FilterListUpdateResult {
+    /**
+     * False if the list does not exist or the text has no valid rules,
+     * the list is left as it was then
+     */
+    updated: boolean;
+    added: number;
+    removed: number;
+    errors: FilterListLineError[];
+}
+
+/**
+ * Result of rule validation with the error position for the UI
+ */
+export interface RuleValidationResult {
+    valid: boolean;
+    error?: string;
+
+    /**
+     * Zero-based offset and length of the invalid part of the rule
+     */
+    offset?: number;
+    length?: number;
+
+    /**
+     * One-based column of the error, as used in the error message
+     */
+    column?: number;
 }
 
 /**
  * Rule Service - Manages ad blocking rules
  */
 export class RuleService {
+    /**
+     * Profile the rules are loaded from and saved to, the active one if
+     * not set
+     */
+    private readonly profileId?: string;
+
     private rules: Rule[] = [];
 
+    private filterLists: FilterList[] = [];
+
+    /**
+     * Called after rules are loaded or saved
+     */
+    private changeListeners: Array<() => void> = [];
+
+    /**
+     * Index for URL lookups, built on first lookup after a change
+     */
+    private index: RuleIndex | null = null;
+
+    /**
+     * @param profileId Profile to manage the rules of, the active one by
+     * default
+     */
+    constructor(profileId?: string) {
+        this.profileId = profileId;
+    }
+
     /**
      * Initialize the rule service by loading rules from storage
      */
@@ -32,18 +201,32 @@ export class RuleService {
     }
 
     /**
-     * Load rules from settings
+     * Load rules and filter lists of the profile from settings
+     * Models of $model modifiers are not checked, rules using models that
+     * are not listed right now are kept and skipped at analysis time
      * @returns Array of loaded rules
      */
     async loadRulesFromStorage(): Promise<Rule[]> {
-        const storedRules = await SettingsManager.get(
-            SETTINGS_KEYS.AD_BLOCK_RULES,
-        );
+        const settings = await SettingsManager.load();
+        const profile = this.profileId === undefined
+            ? getActiveProfile(settings)
+            : getProfile(settings, this.profileId);
+        const storedRules = profile.adBlockRules;
+        this.filterLists = profile.filterLists;
 
         this.rules = storedRules.map((storedRule): Rule | null => {
             try {
-                const rule = RuleService.parseRule(storedRule.ruleString);
+                const rule = RuleService.parseRule(
+                    storedRule.ruleString,
+                    { skipModelCheck: true },
+                );
                 rule.enabled = storedRule.enabled ?? true;
+                if (storedRule.listId) {
+                    rule.listId = storedRule.listId;
+                }
+                if (storedRule.tags?.length) {
+                    rule.tags = storedRule.tags;
+                }
                 return rule;
             } catch (error) {
                 const ruleStr = storedRule.ruleString;
@@ -52,19 +235,81 @@ export class RuleService {
             }
         }).filter((rule): rule is Rule => rule !== null);
 
+        this.notifyChange();
         return this.rules;
     }
 
     /**
-     * Save current rules to settings
+     * Save current rules and filter lists to the profile
      */
     async saveRulesToStorage(): Promise<void> {
-        const rulesToSave: StoredRule[] = this.rules.map((rule) => ({
+        const rulesToSave = this.rules.map(RuleService.toStoredRule);
+        await SettingsManager.modify((settings) => getProfileUpdates(settings, {
+            [SETTINGS_KEYS.AD_BLOCK_RULES]: rulesToSave,
+            [SETTINGS_KEYS.FILTER_LISTS]: this.filterLists,
+        }, this.profileId));
+        logger.info(`Saved ${rulesToSave.length} rules to storage`);
+        this.notifyChange();
+    }
+
+    /**
+     * Convert a rule to its stored format
+     * @param rule Rule
+     * @returns Stored rule
+     */
+    static toStoredRule(rule: Rule): StoredRule {
+        return {
             ruleString: rule.ruleString,
             enabled: rule.enabled,
-        }));
-        await SettingsManager.set(SETTINGS_KEYS.AD_BLOCK_RULES, rulesToSave);
-        logger.info(`Saved ${rulesToSave.length} rules to storage`);
+            ...(rule.listId ? { listId: rule.listId } : {}),
+            ...(rule.tags?.length ? { tags: rule.tags } : {}),
+        };
+    }
+
+    /**
+     * Listen for rules being loaded or changed
+     * @param listener Called after every load and save
+     */
+    onChange(listener: () => void): void {
+        this.changeListeners.push(listener);
+    }
+
+    /**
+     * Call change listeners
+     */
+    private notifyChange(): void {
+        this.index = null;
+        this.changeListeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Tell all tabs the applicable rules changed so they re-initialize
+     * Tabs without the content script are skipped
+     */
+    static async notifyTabs(): Promise<void> {
+        try {
+            const tabs = await chrome.tabs.query({});
+            tabs.forEach((tab) => {
+                if (tab.id === undefined) {
+                    return;
+                }
+                chrome.tabs.sendMessage(tab.id, {
+                    action: ACTIONS.RULES_CHANGED,
+                }).catch(() => {
+                    // No content script in this tab
+                });
+            });
+        } catch (error) {
+            logger.warn(`Failed to notify tabs: ${getErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Generate a unique filter list ID
+     * @returns Unique list ID with 'list-' prefix
+     */
+    static generateListId(): string {
+        return `list-${nanoid()}`;
     }
 
     /**
@@ -78,80 +323,425 @@ export class RuleService {
     /**
      * Parse rule from string format
      * @param ruleString Rule string to parse
+     * @param options Modifier parse options
      * @returns Parsed rule object
-     * @throws {Error} When rule format is invalid
+     * @throws {RuleSyntaxError} When rule format is invalid
      */
-    static parseRule(ruleString: string): Rule {
-        // Parse domains using tokenizer
-        const { domains, rulePart } = RuleParser.parseRuleComponents(
-            ruleString,
+    static parseRule(
+        ruleString: string,
+        options: ModifierParseOptions = {},
+    ): Rule {
+        const ast = RuleParser.parse(ruleString);
+        RuleParser.validateDomainNodes(ast.domains);
+        const domains = ast.domains.map((domain) => domain.value);
+
+        if (ast.isException) {
+            return RuleService.buildExceptionRule(ast, domains);
+        }
+
+        if (ast.isCosmetic) {
+            return RuleService.buildCosmeticRule(ast, domains);
+        }
+
+        return RuleService.buildAnalysisRule(ast, domains, options);
+    }
+
+    /**
+     * Build a cosmetic rule
+     * Cosmetic rules are a plain selector, AI pseudo-classes,
+     * targeting operators and modifiers are not allowed
+     * @param ast Rule syntax tree
+     * @param domains Already validated domains
+     * @returns Parsed cosmetic rule
+     * @throws {RuleSyntaxError} When rule format is invalid
+     */
+    static buildCosmeticRule(ast: RuleAst, domains: string[]): CosmeticRule {
+        const [pseudoClass] = ast.pseudoClasses;
+        const { modifiers } = ast;
+        if (pseudoClass) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: cosmetic rules cannot use '
+                    + 'AI pseudo-classes, use #?# instead',
+                pseudoClass.start,
+                pseudoClass.end - pseudoClass.start,
+            );
+        }
+
+        const [operator] = ast.operators;
+        if (operator) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: cosmetic rules cannot use '
+                    + `":${operator.kind}"`,
+                operator.start,
+                operator.end - operator.start,
+            );
+        }
+
+        const [modifier] = modifiers;
+        if (modifier) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: cosmetic rules do not support modifiers',
+                modifier.start,
+                modifier.end - modifier.start,
+            );
+        }
+
+        return {
+            id: RuleService.generateRuleId(),
+            selector: ast.selector.value,
+            enabled: true,
+            ruleString: ast.source,
+            type: RULE_TYPE.COSMETIC,
+            domains,
+        };
+    }
+
+    /**
+     * Build an AI rule with its optional $ modifier section
+     * In chained rules the last pseudo-class is the rule's own predicate,
+     * the ones before it become pre-filters
+     * @param ast Rule syntax tree
+     * @param domains Already validated domains
+     * @param options Modifier parse options
+     * @returns Parsed rule object
+     * @throws {RuleSyntaxError} When rule or modifier format is invalid
+     */
+    static buildAnalysisRule(
+        ast: RuleAst,
+        domains: string[],
+        options: ModifierParseOptions = {},
+    ): AnalysisRule {
+        const { pseudoClasses, selector } = ast;
+        const pseudoClass = pseudoClasses[pseudoClasses.length - 1];
+        if (!pseudoClass) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: expected ":contains-meaning-embedding", '
+                    + '":contains-meaning-prompt" or ":contains-meaning-vision"',
+                selector.end,
+            );
+        }
+
+        // Vision is analyzed from screenshots and cannot share
+        // a chain with text predicates
+        if (pseudoClasses.length > 1) {
+            const vision = pseudoClasses.find(
+                (node) => node.kind === RULE_TYPE.VISION,
+            );
+            if (vision) {
+                throw new RuleSyntaxError(
+                    'Invalid rule format: vision predicates cannot be chained',
+                    vision.start,
+                    vision.end - vision.start,
+                );
+            }
+        }
+
+        const isPage = selector.value === PAGE_SELECTOR;
+        if (isPage) {
+            RuleService.validatePageRule(ast);
+        }
+
+        const base = {
+            id: RuleService.generateRuleId(),
+            selector: selector.value,
+            enabled: true,
+            ruleString: ast.source,
+            domains,
+        };
+        const criteria = RuleService.getPseudoClassCriteria(pseudoClass);
+
+        let rule: AnalysisRule;
+        switch (pseudoClass.kind) {
+            case RULE_TYPE.EMBEDDING:
+                rule = {
+                    ...base,
+                    type: RULE_TYPE.EMBEDDING,
+                    containsText: criteria,
+                    anchors: RuleService.getEmbeddingAnchors(pseudoClass),
+                };
+                break;
+            case RULE_TYPE.PROMPT:
+                rule = {
+                    ...base,
+                    type: RULE_TYPE.PROMPT,
+                    prompt: criteria,
+                    ...(isPage && { page: true }),
+                };
+                break;
+            default:
+                rule = { ...base, type: RULE_TYPE.VISION, criteria };
+        }
+
+        if (pseudoClasses.length > 1) {
+            rule.preFilters = pseudoClasses.slice(0, -1).map((node) => ({
+                type: node.kind,
+                criteria: RuleService.getPseudoClassCriteria(node),
+                ...(node.kind === RULE_TYPE.EMBEDDING
+                    && { anchors: RuleService.getEmbeddingAnchors(node) }),
+            }));
+        }
+
+        if (ast.operators.length > 0) {
+            rule.targeting = RuleService.buildTargeting(ast.operators, rule);
+        }
+
+        // Apply per-rule overrides from the $ modifier section
+        if (ast.modifiers.length > 0) {
+            rule.modifiers = RuleParser.parseModifierNodes(
+                ast.modifiers,
+                rule.type,
+                options,
+            );
+        }
+
+        return rule;
+    }
+
+    /**
+     * Check that a page rule (page:contains-meaning-prompt('...')) has
+     * a single prompt predicate, no targeting and no action modifier,
+     * a matched page is gated by an interstitial instead
+     * @param ast Rule syntax tree with the "page" selector
+     * @throws {RuleSyntaxError} When the rule is not a valid page rule
+     */
+    static validatePageRule(ast: RuleAst): void {
+        const [pseudoClass, chained] = ast.pseudoClasses;
+        const [operator] = ast.operators;
+        const action = ast.modifiers.find(
+            (modifier) => modifier.key === RULE_MODIFIER.ACTION,
         );
 
-        // Validate domains if present
-        if (domains.length > 0) {
-            const validation = RuleParser.validateDomains(domains);
-            if (!validation.isValid) {
-                throw new Error(validation.error || 'Invalid domain format');
+        let error: string | null = null;
+        let node: { start: number; end: number } | undefined;
+        if (chained) {
+            error = 'page rules cannot be chained';
+            node = chained;
+        } else if (pseudoClass && pseudoClass.kind !== RULE_TYPE.PROMPT) {
+            error = 'page rules only support ":contains-meaning-prompt"';
+            node = pseudoClass;
+        } else if (operator) {
+            error = `page rules cannot use ":${operator.kind}"`;
+            node = operator;
+        } else if (action) {
+            error = 'page rules do not support the "action" modifier';
+            node = action;
+        }
+
+        if (error && node) {
+            throw new RuleSyntaxError(
+                `Invalid rule format: ${error}`,
+                node.start,
+                node.end - node.start,
+            );
+        }
+    }
+
+    /**
+     * Build the targeting of an AI rule from :text-from and :upward
+     * @param operators Targeting operator nodes
+     * @param rule Rule being built
+     * @returns Rule targeting
+     * @throws {RuleSyntaxError} When an operator is repeated, has an invalid
+     * argument or is used in a vision rule
+     */
+    static buildTargeting(
+        operators: TargetOperatorNode[],
+        rule: AnalysisRule,
+    ): RuleTargeting {
+        const targeting: RuleTargeting = {};
+        const seen = new Set<string>();
+
+        for (const operator of operators) {
+            const { kind, argument } = operator;
+            let error: string | null = null;
+
+            // Vision rules are analyzed from screenshots of the matched
+            // element, there is no text to take from another one
+            if (rule.type === RULE_TYPE.VISION) {
+                error = `vision rules cannot use ":${kind}"`;
+            } else if (seen.has(kind)) {
+                error = `duplicate ":${kind}"`;
+            }
+            if (error) {
+                throw new RuleSyntaxError(
+                    `Invalid rule format: ${error}`,
+                    operator.start,
+                    operator.end - operator.start,
+                );
+            }
+            seen.add(kind);
+
+            if (kind === TARGET_OPERATOR.TEXT_FROM) {
+                targeting.textFrom = argument.value;
+            } else if (/^\d+$/.test(argument.value)) {
+                const levels = Number(argument.value);
+                if (levels < 1) {
+                    throw new RuleSyntaxError(
+                        'Invalid rule format: expected a positive number '
+                            + 'or a selector',
+                        argument.start,
+                        argument.end - argument.start,
+                    );
+                }
+                targeting.upward = levels;
+            } else {
+                targeting.upward = argument.value;
             }
         }
 
-        // Try to match embedding-based rule first
-        let match = rulePart.match(RULE_PATTERNS.PARSING.EMBEDDING);
-        if (match) {
-            const [, selector, containsText] = match;
-            return {
-                id: RuleService.generateRuleId(),
-                selector: selector!.trim(),
-                containsText: containsText!.trim(),
-                enabled: true,
-                ruleString,
-                type: RULE_TYPE.EMBEDDING,
-                domains,
-            };
+        return targeting;
+    }
+
+    /**
+     * Get the criteria text of a pseudo-class
+     * Embedding anchors are formatted as "a | b, not: c"
+     * @param pseudoClass Pseudo-class node
+     * @returns Trimmed criteria
+     * @throws {RuleSyntaxError} When pseudo-class arguments are invalid
+     */
+    static getPseudoClassCriteria(pseudoClass: PseudoClassNode): string {
+        if (pseudoClass.kind === RULE_TYPE.EMBEDDING) {
+            return formatEmbeddingCriteria(
+                RuleService.getEmbeddingAnchors(pseudoClass),
+            );
         }
 
-        // Try to match LLM prompt-based rule
-        match = rulePart.match(RULE_PATTERNS.PARSING.PROMPT);
-        if (match) {
-            const [, selector, prompt] = match;
-            return {
-                id: RuleService.generateRuleId(),
-                selector: selector!.trim(),
-                prompt: prompt!.trim(),
-                enabled: true,
-                ruleString,
-                type: RULE_TYPE.PROMPT,
-                domains,
-            };
+        const [argument, extra] = pseudoClass.arguments;
+        if (extra) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: expected a single argument',
+                extra.start,
+                extra.end - extra.start,
+            );
         }
+        RuleService.assertUnnamedArgument(argument!);
 
-        // Try to match vision-based rule
-        match = rulePart.match(RULE_PATTERNS.PARSING.VISION);
-        if (match) {
-            const [, selector, criteria] = match;
-            return {
-                id: RuleService.generateRuleId(),
-                selector: selector!.trim(),
-                criteria: criteria!.trim(),
-                enabled: true,
-                ruleString,
-                type: RULE_TYPE.VISION,
-                domains,
-            };
+        const [value, alternative] = argument!.values;
+        if (alternative) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: alternatives (|) are only supported '
+                    + 'in embedding rules',
+                alternative.start,
+                alternative.end - alternative.start,
+            );
+        }
+        return value!.value.trim();
+    }
+
+    /**
+     * Get the positive and negative anchors of an embedding pseudo-class
+     * The first argument lists the positive anchors,
+     * an optional "not:" argument the negative ones
+     * @param pseudoClass Embedding pseudo-class node
+     * @returns Trimmed anchors
+     * @throws {RuleSyntaxError} When pseudo-class arguments are invalid
+     */
+    static getEmbeddingAnchors(pseudoClass: PseudoClassNode): EmbeddingAnchors {
+        const [positive, negative, extra] = pseudoClass.arguments;
+        RuleService.assertUnnamedArgument(positive!);
+
+        if (negative && negative.name !== NEGATIVE_ANCHOR_ARGUMENT) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: expected '
+                    + `"${NEGATIVE_ANCHOR_ARGUMENT}:" argument`,
+                negative.start,
+                negative.end - negative.start,
+            );
+        }
+        if (extra) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: unexpected argument',
+                extra.start,
+                extra.end - extra.start,
+            );
         }
 
-        throw new Error(`Invalid rule format: ${rulePart}`);
+        const trim = (node: ArgumentNode | undefined): string[] => (
+            node ? node.values.map(({ value }) => value.trim()) : []
+        );
+        return { positive: trim(positive), negative: trim(negative) };
+    }
+
+    /**
+     * Check that an argument has no name
+     * @param argument Argument node
+     * @throws {RuleSyntaxError} When argument is named
+     */
+    static assertUnnamedArgument(argument: ArgumentNode): void {
+        if (argument.name !== null) {
+            throw new RuleSyntaxError(
+                `Invalid rule format: unexpected argument "${argument.name}:"`,
+                argument.start,
+                argument.end - argument.start,
+            );
+        }
+    }
+
+    /**
+     * Build an exception rule
+     * Either a plain selector (element is never analyzed) or a full
+     * AI rule (that rule is disabled on the listed domains)
+     * Modifiers, targeting and pre-filters of the target rule are ignored,
+     * a chained rule is disabled by its own (last) predicate
+     * @param ast Rule syntax tree
+     * @param domains Already validated domains
+     * @returns Parsed exception rule
+     * @throws {RuleSyntaxError} When rule format is invalid
+     */
+    static buildExceptionRule(ast: RuleAst, domains: string[]): ExceptionRule {
+        let targetType: ExceptionRule['targetType'] = null;
+        let targetCriteria: string | null = null;
+
+        const [operator] = ast.operators;
+        if (ast.pseudoClasses.length === 0 && operator) {
+            throw new RuleSyntaxError(
+                'Invalid rule format: selector-only exception rules '
+                    + `cannot use ":${operator.kind}"`,
+                operator.start,
+                operator.end - operator.start,
+            );
+        }
+
+        if (ast.pseudoClasses.length > 0) {
+            const target = RuleService.buildAnalysisRule(
+                { ...ast, modifiers: [] },
+                [],
+            );
+            targetType = target.type;
+            targetCriteria = getRuleCriteria(target);
+        }
+
+        return {
+            id: RuleService.generateRuleId(),
+            selector: ast.selector.value,
+            targetType,
+            targetCriteria,
+            enabled: true,
+            ruleString: ast.source,
+            type: RULE_TYPE.EXCEPTION,
+            domains,
+        };
     }
 
     /**
      * Add rule to the collection
      * @param ruleString Rule string to add
+     * @param tags Tags of the rule, e.g. kept when a rule is edited
+     * @param index Priority position, the rule is added last if unset
      * @returns Parsed rule object or null if parsing failed
      */
-    async addRule(ruleString: string): Promise<Rule | null> {
+    async addRule(
+        ruleString: string,
+        tags: string[] = [],
+        index = this.rules.length,
+    ): Promise<Rule | null> {
         try {
             const rule = RuleService.parseRule(ruleString);
-            this.rules.push(rule);
+            const ruleTags = RuleService.normalizeTags(tags);
+            if (ruleTags.length > 0) {
+                rule.tags = ruleTags;
+            }
+            this.rules.splice(index, 0, rule);
             logger.info(`Added rule: ${rule.ruleString}`);
             await this.saveRulesToStorage();
             return rule;
@@ -172,7 +762,7 @@ export class RuleService {
      */
     async removeRule(ruleId: string): Promise<boolean> {
         const index = this.rules.findIndex((rule) => rule.id === ruleId);
-        if (index !== -1) {
+        if (index !== -1 && !this.isReadOnlyRule(this.rules[index]!)) {
             const removed = this.rules.splice(index, 1)[0]!;
             logger.info(`Removed rule: ${removed.ruleString}`);
             await this.saveRulesToStorage();
@@ -181,12 +771,102 @@ export class RuleService {
         return false;
     }
 
+    /**
+     * Replace rules with a single rule, e.g. rules only differing in their
+     * domains merged into one rule listing all of them
+     * The merged rule takes the priority of the first rule, is enabled if
+     * any of the rules was and keeps the tags of all of them
+     * @param ruleIds IDs of the rules to replace
+     * @param ruleString Rule string of the merged rule
+     * @returns Merged rule or null if a rule was not found, is read-only
+     * or the rule string is invalid
+     */
+    async mergeRules(
+        ruleIds: string[],
+        ruleString: string,
+    ): Promise<Rule | null> {
+        const merged = this.rules.filter((rule) => ruleIds.includes(rule.id));
+        if (
+            merged.length !== ruleIds.length
+            || merged.some((rule) => this.isReadOnlyRule(rule))
+        ) {
+            return null;
+        }
+
+        let rule: Rule;
+        try {
+            rule = RuleService.parseRule(ruleString);
+        } catch (error) {
+            logger.error(
+                `Rule parsing error "${ruleString}": ${getErrorMessage(error)}`,
+            );
+            return null;
+        }
+        rule.enabled = merged.some((r) => r.enabled);
+        const tags = RuleService.normalizeTags(
+            merged.flatMap((r) => r.tags ?? []),
+        );
+        if (tags.length > 0) {
+            rule.tags = tags;
+        }
+
+        const index = this.rules.indexOf(merged[0]!);
+        this.rules = this.rules.filter((r) => !merged.includes(r));
+        this.rules.splice(index, 0, rule);
+        logger.info(
+            `Merged ${merged.length} rules into: ${rule.ruleString}`,
+        );
+        await this.saveRulesToStorage();
+        return rule;
+    }
+
+    /**
+     * Check if a rule is managed by a subscription
+     * Such rules change only when their list is updated from its URL
+     * @param rule Rule to check
+     * @returns True if the rule belongs to a subscribed list
+     */
+    isReadOnlyRule(rule: Rule): boolean {
+        return !!rule.listId && !!this.getFilterList(rule.listId)?.subscription;
+    }
+
     /**
      * Get all rules
+     * Rules of disabled filter lists are returned disabled
      * @returns Copy of all rules
      */
     getRules(): Rule[] {
-        return [...this.rules];
+        return this.getEffectiveRules();
+    }
+
+    /**
+     * Get the rules with their effective enabled state
+     * A rule is enabled if both the rule and its filter list are, the
+     * stored flag of each rule is left as the user set it
+     * @returns Rules, those of disabled lists as disabled copies
+     */
+    private getEffectiveRules(): Rule[] {
+        const disabledListIds = new Set(this.filterLists
+            .filter((list) => !list.enabled)
+            .map((list) => list.id));
+        return this.rules.map((rule) => (
+            rule.enabled && rule.listId && disabledListIds.has(rule.listId)
+                ? { ...rule, enabled: false }
+                : rule
+        ));
+    }
+
+    /**
+     * Get the enabled rules that apply to a URL
+     * @param url Page URL
+     * @returns Applicable rules in priority order, with rules disabled by
+     * exception rules removed
+     */
+    getRulesForUrl(url: string): Rule[] {
+        if (!this.index) {
+            this.index = new RuleIndex(this.getEffectiveRules());
+        }
+        return this.index.getRulesForUrl(url);
     }
 
     /**
@@ -197,7 +877,7 @@ export class RuleService {
      */
     async toggleRule(ruleId: string, enabled: boolean): Promise<boolean> {
         const rule = this.rules.find((r) => r.id === ruleId);
-        if (rule) {
+        if (rule && !this.isReadOnlyRule(rule)) {
             rule.enabled = enabled;
             const state = enabled ? 'enabled' : 'disabled';
             logger.info(`Rule ${rule.ruleString} ${state}`);
@@ -207,17 +887,665 @@ export class RuleService {
         return false;
     }
 
+    /**
+     * Move a rule to the priority position of another rule
+     * Moving down places it after the target, moving up before it.
+     * Rules of subscribed lists keep the order of their list
+     * @param ruleId Rule ID to move
+     * @param targetRuleId ID of the rule whose position it takes
+     * @returns True if both rules were found and the moved rule is not
+     * read-only
+     */
+    async moveRule(ruleId: string, targetRuleId: string): Promise<boolean> {
+        const from = this.rules.findIndex((rule) => rule.id === ruleId);
+        const to = this.rules.findIndex((rule) => rule.id === targetRuleId);
+        if (
+            from === -1
+            || to === -1
+            || this.isReadOnlyRule(this.rules[from]!)
+        ) {
+            return false;
+        }
+
+        const [rule] = this.rules.splice(from, 1);
+        this.rules.splice(to, 0, rule!);
+        logger.info(`Moved rule ${rule!.ruleString} to position ${to + 1}`);
+        await this.saveRulesToStorage();
+        return true;
+    }
+
+    /**
+     * Replace the tags of a rule
+     * @param ruleId Rule ID
+     * @param tags New tags, empty to remove all
+     * @returns True if the rule was found and is not read-only
+     */
+    async setRuleTags(ruleId: string, tags: string[]): Promise<boolean> {
+        const rule = this.rules.find((r) => r.id === ruleId);
+        if (!rule || this.isReadOnlyRule(rule)) {
+            return false;
+        }
+
+        const ruleTags = RuleService.normalizeTags(tags);
+        if (ruleTags.length > 0) {
+            rule.tags = ruleTags;
+        } else {
+            delete rule.tags;
+        }
+        logger.info(`Rule ${rule.ruleString} tagged: ${ruleTags.join(', ')}`);
+        await this.saveRulesToStorage();
+        return true;
+    }
+
+    /**
+     * Enable/disable all rules with a tag
+     * Rules of subscribed lists are skipped, as with toggleRule
+     * @param tag Tag of the rules
+     * @param enabled New enabled state
+     * @returns Number of rules toggled
+     */
+    async toggleTag(tag: string, enabled: boolean): Promise<number> {
+        const [normalizedTag] = RuleService.normalizeTags([tag]);
+        const rules = this.rules.filter(
+            (rule) => !!normalizedTag
+                && !!rule.tags?.includes(normalizedTag)
+                && !this.isReadOnlyRule(rule),
+        );
+        if (rules.length === 0) {
+            return 0;
+        }
+
+        for (const rule of rules) {
+            rule.enabled = enabled;
+        }
+        const state = enabled ? 'enabled' : 'disabled';
+        logger.info(`${rules.length} rules tagged ${normalizedTag} ${state}`);
+        await this.saveRulesToStorage();
+        return rules.length;
+    }
+
+    /**
+     * Clean up tags entered by the user
+     * @param tags Raw tags
+     * @returns Lowercase tags of letters, digits, "-" and "_"
+     * (spaces become "-"), without empty ones and duplicates
+     */
+    static normalizeTags(tags: string[]): string[] {
+        const normalized = tags
+            .map((tag) => tag
+                .trim()
+                .toLowerCase()
+                .replace(/\s+/g, '-')
+                .replace(/[^\p{L}\p{N}_-]/gu, ''))
+            .filter((tag) => tag);
+        return [...new Set(normalized)];
+    }
+
+    /**
+     * Collect the tags used by rules
+     * @param rules Rules to collect tags from
+     * @returns Sorted unique tags
+     */
+    static getTags(rules: Rule[]): string[] {
+        const tags = new Set(rules.flatMap((rule) => rule.tags ?? []));
+        return [...tags].sort();
+    }
+
+    /**
+     * Parse filter list text into rules
+     * Every rule line is parsed on its own, a broken line is reported
+     * with its line number and does not affect the others. Rules in a
+     * section are tagged with the section name
+     * @param text Filter list text
+     * @returns Header values, parsed rules and per-line errors
+     */
+    static parseFilterList(text: string): FilterListParseResult {
+        const parsed = FilterListParser.parse(text);
+        const rules: Rule[] = [];
+        const errors = [...parsed.errors];
+
+        parsed.rules.forEach(({
+            line,
+            ruleString,
+            indent,
+            section,
+        }) => {
+            try {
+                const rule = RuleService.parseRule(ruleString);
+                const tags = RuleService.normalizeTags(
+                    section ? [section] : [],
+                );
+                if (tags.length) {
+                    rule.tags = tags;
+                }
+                rules.push(rule);
+            } catch (error) {
+                const lineError: FilterListLineError = {
+                    line,
+                    text: ruleString,
+                    error: getErrorMessage(error),
+                };
+                if (error instanceof RuleSyntaxError) {
+                    lineError.column = indent + error.column;
+                }
+                errors.push(lineError);
+            }
+        });
+
+        errors.sort((a, b) => a.line - b.line);
+        return { metadata: parsed.metadata, rules, errors };
+    }
+
+    /**
+     * Import filter list text as a new list
+     * Valid rules are imported even if some lines have errors
+     * @param text Filter list text
+     * @param url URL the list was fetched from, makes it a subscription
+     * @returns Imported list, number of its rules and per-line errors
+     */
+    async importFilterList(
+        text: string,
+        url?: string,
+    ): Promise<FilterListImportResult> {
+        const { metadata, rules, errors } = RuleService.parseFilterList(text);
+
+        if (rules.length === 0) {
+            return { list: null, ruleCount: 0, errors };
+        }
+
+        const list: FilterList = {
+            ...metadata,
+            id: RuleService.generateListId(),
+            title: metadata.title || url || 'Untitled list',
+            enabled: true,
+        };
+        if (url) {
+            const now = Date.now();
+            list.subscription = {
+                url,
+                lastUpdated: now,
+                lastAttempt: now,
+                failureCount: 0,
+            };
+        }
+
+        this.filterLists.push(list);
+        this.rules.push(...rules.map((rule) => ({ ...rule, listId: list.id })));
+        logger.info(
+            `Imported filter list "${list.title}" with ${rules.length} rules`,
+        );
+        await this.saveRulesToStorage();
+
+        return { list, ruleCount: rules.length, errors };
+    }
+
+    /**
+     * Update a list from a new version of its text
+     * See mergeFilterListRules for how rules are carried over
+     * @param listId Filter list ID
+     * @param text New filter list text
+     * @returns Number of added and removed rules and per-line errors
+     */
+    async updateFilterList(
+        listId: string,
+        text: string,
+    ): Promise<FilterListUpdateResult> {
+        const list = this.filterLists.find((l) => l.id === listId);
+        const { metadata, rules, errors } = RuleService.parseFilterList(text);
+
+        if (!list || rules.length === 0) {
+            return {
+                updated: false,
+                added: 0,
+                removed: 0,
+                errors,
+            };
+        }
+
+        const previous = this.rules.filter((rule) => rule.listId === listId);
+        const merged = RuleService.mergeFilterListRules(previous, rules, list);
+        const { added, removed } = merged;
+
+        // Kept rules stay at their priority position, new ones go last
+        const mergedRules = new Set(merged.rules);
+        const kept = this.rules.filter(
+            (rule) => rule.listId !== listId || mergedRules.has(rule),
+        );
+        const keptRules = new Set(kept);
+        this.rules = [
+            ...kept,
+            ...merged.rules.filter((rule) => !keptRules.has(rule)),
+        ];
+
+        list.title = metadata.title || list.title;
+        list.version = metadata.version;
+        list.expires = metadata.expires;
+        if (list.subscription) {
+            const now = Date.now();
+            list.subscription = {
+                url: list.subscription.url,
+                lastUpdated: now,
+                lastAttempt: now,
+                failureCount: 0,
+            };
+        }
+
+        logger.info(
+            `Updated filter list "${list.title}": `
+            + `${added} rules added, ${removed} removed`,
+        );
+        await this.saveRulesToStorage();
+        return {
+            updated: true,
+            added,
+            removed,
+            errors,
+        };
+    }
+
+    /**
+     * Merge a new version of a list's rules with the current ones
+     * Rules are matched by rule string: unchanged rules keep their ID and
+     * enabled state, new ones get the list ID and are enabled (the state
+     * of the list applies on top, see getRules).
+     * Duplicate lines in the new version are kept once
+     * @param previous Current rules of the list
+     * @param next Rules parsed from the new version
+     * @param list Filter list the rules belong to
+     * @returns Merged rules and number of added and removed rules
+     */
+    static mergeFilterListRules(
+        previous: Rule[],
+        next: Rule[],
+        list: FilterList,
+    ): { rules: Rule[]; added: number; removed: number } {
+        const previousByString = new Map(
+            previous.map((rule) => [rule.ruleString, rule]),
+        );
+        const nextStrings = new Set<string>();
+
+        const rules = next
+            .filter((rule) => {
+                if (nextStrings.has(rule.ruleString)) {
+                    return false;
+                }
+                nextStrings.add(rule.ruleString);
+                return true;
+            })
+            .map((rule) => previousByString.get(rule.ruleString) ?? {
+                ...rule,
+                listId: list.id,
+            });
+
+        return {
+            rules,
+            added: rules.filter(
+                (rule) => !previousByString.has(rule.ruleString),
+            ).length,
+            removed: previous.filter(
+                (rule) => !nextStrings.has(rule.ruleString),
+            ).length,
+        };
+    }
+
+    /**
+     * Record a failed update of a subscribed list
+     * @param listId Filter list ID
+     * @param error Error message of the failed attempt
+     */
+    async recordSubscriptionFailure(
+        listId: string,
+        error: string,
+    ): Promise<void> {
+        const list = this.filterLists.find((l) => l.id === listId);
+        if (!list?.subscription) {
+            return;
+        }
+
+        const subscription: FilterListSubscription = {
+            ...list.subscription,
+            lastAttempt: Date.now(),
+            failureCount: list.subscription.failureCount + 1,
+            lastError: error,
+        };
+        list.subscription = subscription;
+        logger.warn(
+            `Filter list "${list.title}" update failed `
+            + `(${subscription.failureCount} in a row): ${error}`,
+        );
+        await this.saveRulesToStorage();
+    }
+
+    /**
+     * Get an imported filter list by ID
+     * @param listId Filter list ID
+     * @returns Copy of the list or null if not found
+     */
+    getFilterList(listId: string): FilterList | null {
+        const list = this.filterLists.find((l) => l.id === listId);
+        return list ? { ...list } : null;
+    }
+
+    /**
+     * Get all imported filter lists
+     * @returns Copy of the filter lists
+     */
+    getFilterLists(): FilterList[] {
+        return this.filterLists.map((list) => ({ ...list }));
+    }
+
+    /**
+     * Enable/disable a filter list together with all its rules
+     * Rules keep their own enabled state, rules disabled one by one stay
+     * disabled when the list is enabled again
+     * @param listId Filter list ID
+     * @param enabled New enabled state
+     * @returns True if the list was found and toggled
+     */
+    async toggleFilterList(listId: string, enabled: boolean): Promise<boolean> {
+        const list = this.filterLists.find((l) => l.id === listId);
+        if (!list) {
+            return false;
+        }
+
+        list.enabled = enabled;
+        const state = enabled ? 'enabled' : 'disabled';
+        logger.info(`Filter list "${list.title}" ${state}`);
+        await this.saveRulesToStorage();
+        return true;
+    }
+
+    /**
+     * Remove a filter list together with all its rules
+     * @param listId Filter list ID
+     * @returns True if the list was removed
+     */
+    async removeFilterList(listId: string): Promise<boolean> {
+        const index = this.filterLists.findIndex((l) => l.id === listId);
+        if (index === -1) {
+            return false;
+        }
+
+        const removed = this.filterLists.splice(index, 1)[0]!;
+        this.rules = this.rules.filter((rule) => rule.listId !== listId);
+        logger.info(`Removed filter list "${removed.title}"`);
+        await this.saveRulesToStorage();
+        return true;
+    }
+
+    /**
+     * Export the rules of the active profile
+     * @param format Text filter list or JSON
+     * @returns Export file content
+     */
+    exportRules(format: RuleExportFormat): string {
+        return RuleService.formatRuleExport(this.rules, format);
+    }
+
+    /**
+     * Show what importing rules would do, nothing is changed
+     * @param text Text or JSON export
+     * @returns Parsed rules, per-line errors and number of rules
+     * already there
+     */
+    previewRuleImport(text: string): RuleImportPreview {
+        const parsed = RuleService.parseRuleImport(text);
+        const current = new Set(this.rules.map((rule) => rule.ruleString));
+        return {
+            ...parsed,
+            existing: parsed.rules.filter(
+                (rule) => current.has(rule.ruleString),
+            ).length,
+        };
+    }
+
+    /**
+     * Import rules from a text or JSON export
+     * Valid rules are imported even if some lines have errors. List IDs
+     * are only kept for imported lists of the active profile, replacing
+     * removes the imported lists that have no rules left
+     * @param text Text or JSON export
+     * @param mode Merge with or replace the current rules
+     * @returns Number of added, removed and skipped rules and per-line
+     * errors
+     */
+    async importRules(
+        text: string,
+        mode: RuleImportMode,
+    ): Promise<RuleImportResult> {
+        const { rules, errors } = RuleService.parseRuleImport(text);
+        if (rules.length === 0) {
+            return {
+                imported: false,
+                added: 0,
+                removed: 0,
+                skipped: 0,
+                errors,
+            };
+        }
+
+        // Rules of other profiles' or subscribed lists become user rules
+        const listIds = new Set(this.filterLists
+            .filter((list) => !list.subscription)
+            .map((list) => list.id));
+        const imported = rules.map((rule) => (
+            !rule.listId || listIds.has(rule.listId)
+                ? rule
+                : { ...rule, listId: undefined }
+        ));
+
+        const merged = RuleService.mergeImportedRules(
+            this.rules,
+            imported,
+            mode,
+            (rule) => this.isReadOnlyRule(rule),
+        );
+        this.rules = merged.rules;
+        if (mode === RULE_IMPORT_MODE.REPLACE) {
+            // Imported lists go away together with their rules
+            const usedListIds = new Set(this.rules.map((rule) => rule.listId));
+            this.filterLists = this.filterLists.filter(
+                (list) => list.subscription || usedListIds.has(list.id),
+            );
+        }
+        const { added, removed, skipped } = merged;
+        logger.info(
+            `Imported rules (${mode}): ${added} added, `
+            + `${removed} removed, ${skipped} already there`,
+        );
+        await this.saveRulesToStorage();
+        return {
+            imported: true,
+            added,
+            removed,
+            skipped,
+            errors,
+        };
+    }
+
+    /**
+     * Write rules as a filter list or as JSON
+     * The text format only keeps rule strings, JSON also keeps the
+     * enabled state, tags and list ID of every rule
+     * @param rules Rules in priority order
+     * @param format Text filter list or JSON
+     * @returns Export file content
+     */
+    static formatRuleExport(rules: Rule[], format: RuleExportFormat): string {
+        if (format === RULE_EXPORT_FORMAT.JSON) {
+            return JSON.stringify({
+                version: RULE_EXPORT_VERSION,
+                rules: rules.map(RuleService.toStoredRule),
+            }, null, 2);
+        }
+
+        return [
+            '! Title: Exported rules',
+            ...rules.map((rule) => rule.ruleString),
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Parse a text or JSON rule export
+     * Text is parsed as a filter list, every rule line on its own. JSON
+     * is an object with a rules array of stored rules, or that array
+     * @param text Export file content
+     * @returns Parsed rules with their enabled state and tags, and
+     * per-line errors
+     */
+    static parseRuleImport(text: string): RuleImportParseResult {
+        const trimmed = text.trim();
+        if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+            const { rules, errors } = RuleService.parseFilterList(text);
+            return { format: RULE_EXPORT_FORMAT.TEXT, rules, errors };
+        }
+
+        const result: RuleImportParseResult = {
+            format: RULE_EXPORT_FORMAT.JSON,
+            rules: [],
+            errors: [],
+        };
+        let data: unknown;
+        try {
+            data = JSON.parse(trimmed);
+        } catch (error) {
+            result.errors.push({
+                line: 1,
+                text: trimmed.split('\n')[0]!,
+                error: `Invalid JSON: ${getErrorMessage(error)}`,
+            });
+            return result;
+        }
+
+        const entries = Array.isArray(data)
+            ? data
+            : (data as { rules?: unknown }).rules;
+        if (!Array.isArray(entries)) {
+            result.errors.push({
+                line: 1,
+                text: trimmed.split('\n')[0]!,
+                error: 'Invalid rule export: expected a "rules" array',
+            });
+            return result;
+        }
+
+        entries.forEach((entry: unknown, index) => {
+            try {
+                result.rules.push(RuleService.parseStoredRule(entry));
+            } catch (error) {
+                const { ruleString } = (entry ?? {}) as StoredRule;
+                result.errors.push({
+                    line: index + 1,
+                    text: typeof ruleString === 'string'
+                        ? ruleString
+                        : JSON.stringify(entry),
+                    error: getErrorMessage(error),
+                });
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Parse one rule entry of a JSON export
+     * @param entry Entry in the stored rule format
+     * @returns Rule with the entry's enabled state, tags and list ID
+     * @throws {Error} If the entry or its rule string is invalid
+     */
+    static parseStoredRule(entry: unknown): Rule {
+        const stored = entry as Partial<StoredRule> | null;
+        if (
+            typeof stored !== 'object'
+            || !stored
+            || typeof stored.ruleString !== 'string'
+        ) {
+            throw new Error('Invalid rule entry: expected a "ruleString"');
+        }
+
+        const rule = RuleService.parseRule(stored.ruleString);
+        rule.enabled = stored.enabled ?? true;
+        const tags = Array.isArray(stored.tags)
+            ? RuleService.normalizeTags(
+                stored.tags.filter((tag) => typeof tag === 'string'),
+            )
+            : [];
+        if (tags.length > 0) {
+            rule.tags = tags;
+        }
+        if (typeof stored.listId === 'string' && stored.listId) {
+            rule.listId = stored.listId;
+        }
+        return rule;
+    }
+
+    /**
+     * Combine imported rules with the current ones
+     * Imported rules go last in their order. Rules already there and
+     * repeated rules are left out. Replacing keeps read-only rules
+     * @param current Current rules in priority order
+     * @param imported Imported rules
+     * @param mode Merge with or replace the current rules
+     * @param isReadOnly Tells which rules cannot be removed
+     * @returns Combined rules and number of added, removed and
+     * skipped rules
+     */
+    static mergeImportedRules(
+        current: Rule[],
+        imported: Rule[],
+        mode: RuleImportMode,
+        isReadOnly: (rule: Rule) => boolean,
+    ): { rules: Rule[]; added: number; removed: number; skipped: number } {
+        const kept = mode === RULE_IMPORT_MODE.REPLACE
+            ? current.filter(isReadOnly)
+            : current;
+        const ruleStrings = new Set(kept.map((rule) => rule.ruleString));
+
+        const added = imported.filter((rule) => {
+            if (ruleStrings.has(rule.ruleString)) {
+                return false;
+            }
+            ruleStrings.add(rule.ruleString);
+            return true;
+        });
+
+        return {
+            rules: [...kept, ...added],
+            added: added.length,
+            removed: current.length - kept.length,
+            skipped: imported.length - added.length,
+        };
+    }
+
     /**
      * Validate rule string format
      * @param ruleString Rule string to validate
      * @returns True if rule format is valid
      */
     static validateRuleFormat(ruleString: string): boolean {
+        return RuleService.validateRule(ruleString).valid;
+    }
+
+    /**
+     * Validate rule string and report where the error is
+     * @param ruleString Rule string to validate
+     * @returns Validation result with error message and position
+     */
+    static validateRule(ruleString: string): RuleValidationResult {
         try {
             RuleService.parseRule(ruleString);
-            return true;
-        } catch {
-            return false;
+            return { valid: true };
+        } catch (error) {
+            if (error instanceof RuleSyntaxError) {
+                return {
+                    valid: false,
+                    error: error.message,
+                    offset: error.offset,
+                    length: error.length,
+                    column: error.column,
+                };
+            }
+            return { valid: false, error: getErrorMessage(error) };
         }
     }
 }
@@ -0,0 +1,35 @@
+/**
+ * Rule syntax error - Parse error with the position of the problem
+ * in the rule string, so UI can point at the offending characters
+ */
+export class RuleSyntaxError extends Error {
+    /**
+     * Zero-based character offset where the error starts
+     */
+    readonly offset: number;
+
+    /**
+     * Number of characters covered by the error (at least 1)
+     */
+    readonly length: number;
+
+    /**
+     * @param description Error description without position
+     * @param offset Zero-based character offset where the error starts
+     * @param length Number of characters covered by the error
+     */
+    constructor(description: string, offset: number, length = 1) {
+        super(`${description} at column ${offset + 1}`);
+        this.name = 'RuleSyntaxError';
+        this.offset = offset;
+        this.length = Math.max(1, length);
+    }
+
+    /**
+     * One-based column where the error starts
+     * @returns Column number
+     */
+    get column(): number {
+        return this.offset + 1;
+    }
+}
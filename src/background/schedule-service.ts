@@ -0,0 +1,88 @@
+// Schedule Service - Turns scheduled rules on and off in open tabs
+
+import { SCHEDULE_CONFIG } from '../shared/constants';
+import { createLogger } from '../shared/logger';
+import type { Rule } from '../shared/rule-types';
+import { getNextScheduleChange } from '../shared/schedule';
+import { RuleService } from './rule-service';
+
+const logger = createLogger('ScheduleService');
+
+/**
+ * Schedule Service - Re-initializes tabs when a $schedule window
+ * starts or ends
+ * Scheduled rules are filtered out of the applicable rules while their
+ * schedule is inactive, a one-shot alarm set to the next start or end
+ * of any schedule makes tabs fetch their rules again
+ */
+export class ScheduleService {
+    private rules: RuleService;
+
+    /**
+     * @param rules Rule service holding the scheduled rules
+     */
+    constructor(rules: RuleService) {
+        this.rules = rules;
+        rules.onChange(() => {
+            this.scheduleNextAlarm().catch((error) => {
+                logger.error('Failed to schedule rule alarm:', error);
+            });
+        });
+    }
+
+    /**
+     * Set the alarm for the next schedule change
+     */
+    async init(): Promise<void> {
+        await this.scheduleNextAlarm();
+    }
+
+    /**
+     * Handle a fired alarm, other alarms are ignored
+     * @param alarm Fired alarm
+     */
+    async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+        if (alarm.name !== SCHEDULE_CONFIG.ALARM_NAME) {
+            return;
+        }
+
+        logger.info('Rule schedule changed, notifying tabs');
+        await RuleService.notifyTabs();
+        await this.scheduleNextAlarm();
+    }
+
+    /**
+     * Set the alarm to the next time a scheduled rule turns on or off,
+     * or clear it if there are no enabled scheduled rules
+     * @param now Current time
+     */
+    async scheduleNextAlarm(now = new Date()): Promise<void> {
+        const next = ScheduleService.getNextChange(this.rules.getRules(), now);
+        if (!next) {
+            await chrome.alarms.clear(SCHEDULE_CONFIG.ALARM_NAME);
+            return;
+        }
+
+        await chrome.alarms.create(SCHEDULE_CONFIG.ALARM_NAME, {
+            when: next.getTime(),
+        });
+        logger.info(`Next rule schedule change at ${next.toLocaleString()}`);
+    }
+
+    /**
+     * Find the next time any enabled rule's schedule turns on or off
+     * @param rules Rules to check
+     * @param now Current time
+     * @returns Time of the earliest change or null if nothing changes
+     */
+    static getNextChange(rules: Rule[], now: Date): Date | null {
+        return rules
+            .filter((rule) => rule.enabled && rule.modifiers?.schedule)
+            .map((rule) => getNextScheduleChange(
+                rule.modifiers!.schedule!,
+                now,
+            ))
+            .filter((change): change is Date => change !== null)
+            .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+    }
+}
@@ -0,0 +1,305 @@
+// Subscription Service - Keeps filter lists subscribed to by URL up to date
+
+import { SUBSCRIPTION_CONFIG } from '../shared/constants';
+import { createLogger, getErrorMessage } from '../shared/logger';
+import { getActiveProfile, getProfiles } from '../shared/profiles';
+import type { FilterList } from '../shared/rule-types';
+import { SettingsManager } from '../shared/settings';
+import { RuleService } from './rule-service';
+import type {
+    FilterListImportResult,
+    FilterListUpdateResult,
+} from './rule-service';
+
+const logger = createLogger('SubscriptionService');
+
+/**
+ * Result of subscribing to a filter list URL
+ */
+export interface SubscribeResult extends FilterListImportResult {
+    /**
+     * Why the list could not be fetched or subscribed to
+     */
+    error?: string;
+}
+
+/**
+ * Result of refreshing a subscribed list
+ */
+export interface RefreshResult extends FilterListUpdateResult {
+    error?: string;
+}
+
+/**
+ * Subscription Service - Fetches subscribed filter lists on a schedule
+ * A single periodic alarm checks which lists of all profiles are due, a
+ * list is due once its "Expires" interval has passed since the last
+ * successful update
+ */
+export class SubscriptionService {
+    private rules: RuleService;
+
+    /**
+     * @param rules Rule service the lists are stored in
+     */
+    constructor(rules: RuleService) {
+        this.rules = rules;
+    }
+
+    /**
+     * Schedule the periodic check and refresh lists that are already due
+     */
+    async init(): Promise<void> {
+        const alarm = await chrome.alarms.get(SUBSCRIPTION_CONFIG.ALARM_NAME);
+        if (!alarm) {
+            await chrome.alarms.create(SUBSCRIPTION_CONFIG.ALARM_NAME, {
+                periodInMinutes: SUBSCRIPTION_CONFIG.CHECK_INTERVAL_MINUTES,
+            });
+        }
+        await this.refreshDue();
+    }
+
+    /**
+     * Handle a fired alarm, other alarms are ignored
+     * @param alarm Fired alarm
+     */
+    async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+        if (alarm.name === SUBSCRIPTION_CONFIG.ALARM_NAME) {
+            await this.refreshDue();
+        }
+    }
+
+    /**
+     * Subscribe to a filter list URL
+     * @param url Filter list URL
+     * @returns Imported list or the reason it could not be subscribed to
+     */
+    async subscribe(url: string): Promise<SubscribeResult> {
+        const trimmedUrl = url.trim();
+        const urlError = SubscriptionService.validateUrl(trimmedUrl);
+        if (urlError) {
+            return SubscriptionService.failedSubscribe(urlError);
+        }
+
+        const existing = this.rules.getFilterLists().find(
+            (list) => list.subscription?.url === trimmedUrl,
+        );
+        if (existing) {
+            return SubscriptionService.failedSubscribe(
+                `Already subscribed as "${existing.title}"`,
+            );
+        }
+
+        try {
+            const text = await SubscriptionService.fetchList(trimmedUrl);
+            const result = await this.rules.importFilterList(text, trimmedUrl);
+            if (!result.list) {
+                return {
+                    ...result,
+                    error: 'No valid rules found in the filter list',
+                };
+            }
+            logger.info(`Subscribed to ${trimmedUrl}`);
+            return result;
+        } catch (error) {
+            return SubscriptionService.failedSubscribe(getErrorMessage(error));
+        }
+    }
+
+    /**
+     * Fetch a subscribed list of the active profile and update its rules
+     * Failures are recorded on the list, its rules stay as they were
+     * @param listId Filter list ID
+     * @returns Number of added and removed rules or the error
+     */
+    async refresh(listId: string): Promise<RefreshResult> {
+        return SubscriptionService.refreshList(this.rules, listId);
+    }
+
+    /**
+     * Refresh the subscribed lists of all profiles that are due
+     * Lists of inactive profiles are updated in their stored profile,
+     * saves are queued by SettingsManager.modify so they don't overwrite
+     * changes to other profiles
+     * @param now Current time (ms since epoch)
+     */
+    async refreshDue(now = Date.now()): Promise<void> {
+        const settings = await SettingsManager.load();
+        const activeId = getActiveProfile(settings).id;
+
+        for (const profile of getProfiles(settings)) {
+            const isActive = profile.id === activeId;
+            const lists = isActive
+                ? this.rules.getFilterLists()
+                : profile.filterLists;
+            const dueLists = lists.filter(
+                (list) => SubscriptionService.isDue(list, now),
+            );
+            if (dueLists.length > 0) {
+                logger.info(`Refreshing ${dueLists.length} filter list(s) of profile "${profile.name}"`);
+                // A profile deleted while refreshing fails to save, the
+                // other profiles are still refreshed
+                await SubscriptionService.refreshProfile(
+                    isActive ? this.rules : new RuleService(profile.id),
+                    dueLists,
+                    isActive,
+                ).catch((error) => {
+                    logger.error(`Failed to refresh profile "${profile.name}":`, error);
+                });
+            }
+        }
+    }
+
+    /**
+     * Refresh lists of one profile
+     * @param rules Rule service of the profile
+     * @param lists Lists to refresh
+     * @param loaded False if the rules still have to be loaded
+     */
+    private static async refreshProfile(
+        rules: RuleService,
+        lists: FilterList[],
+        loaded: boolean,
+    ): Promise<void> {
+        if (!loaded) {
+            await rules.loadRulesFromStorage();
+        }
+        await Promise.all(lists.map(
+            (list) => SubscriptionService.refreshList(rules, list.id),
+        ));
+    }
+
+    /**
+     * Fetch a subscribed list and update its rules
+     * Failures are recorded on the list, its rules stay as they were
+     * @param rules Rule service the list is stored in
+     * @param listId Filter list ID
+     * @returns Number of added and removed rules or the error
+     */
+    private static async refreshList(
+        rules: RuleService,
+        listId: string,
+    ): Promise<RefreshResult> {
+        const list = rules.getFilterList(listId);
+        if (!list?.subscription) {
+            return SubscriptionService.failedRefresh('Not a subscription');
+        }
+
+        let result: RefreshResult;
+        try {
+            const text = await SubscriptionService.fetchList(
+                list.subscription.url,
+            );
+            result = await rules.updateFilterList(listId, text);
+            if (!result.updated) {
+                result.error = 'No valid rules found in the filter list';
+            }
+        } catch (error) {
+            result = SubscriptionService.failedRefresh(getErrorMessage(error));
+        }
+
+        if (result.error) {
+            await rules.recordSubscriptionFailure(listId, result.error);
+        }
+        return result;
+    }
+
+    /**
+     * Check if a subscribed list should be fetched again
+     * Disabled lists are still kept up to date, lists that keep failing
+     * are retried less and less often
+     * @param list Filter list
+     * @param now Current time (ms since epoch)
+     * @returns True if the list is a subscription due for an update
+     */
+    static isDue(list: FilterList, now: number): boolean {
+        if (!list.subscription) {
+            return false;
+        }
+
+        const expires = list.expires ?? SUBSCRIPTION_CONFIG.DEFAULT_EXPIRES;
+        const {
+            failureCount,
+            lastAttempt,
+            lastUpdated = 0,
+        } = list.subscription;
+        if (failureCount > 0 && lastAttempt !== undefined) {
+            const retryDelay = Math.min(
+                SUBSCRIPTION_CONFIG.RETRY_DELAY * 2 ** (failureCount - 1),
+                expires,
+            );
+            if (now - lastAttempt < retryDelay) {
+                return false;
+            }
+        }
+        return now - lastUpdated >= expires;
+    }
+
+    /**
+     * Validate a subscription URL
+     * @param url URL to validate
+     * @returns Error message or null if the URL can be subscribed to
+     */
+    static validateUrl(url: string): string | null {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return `Invalid URL "${url}"`;
+        }
+
+        const protocols: readonly string[] = SUBSCRIPTION_CONFIG
+            .ALLOWED_PROTOCOLS;
+        if (!protocols.includes(parsed.protocol)) {
+            return `Unsupported URL scheme "${parsed.protocol}", `
+                + `expected one of ${protocols.join(' ')}`;
+        }
+        return null;
+    }
+
+    /**
+     * Fetch filter list text
+     * @param url Filter list URL
+     * @returns Response text
+     * @throws {Error} When the request fails or times out
+     */
+    static async fetchList(url: string): Promise<string> {
+        const response = await fetch(url, {
+            cache: 'no-cache',
+            signal: AbortSignal.timeout(SUBSCRIPTION_CONFIG.FETCH_TIMEOUT),
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        return response.text();
+    }
+
+    /**
+     * Build a failed subscribe result
+     * @param error Error message
+     * @returns Subscribe result without a list
+     */
+    private static failedSubscribe(error: string): SubscribeResult {
+        return {
+            list: null,
+            ruleCount: 0,
+            errors: [],
+            error,
+        };
+    }
+
+    /**
+     * Build a failed refresh result
+     * @param error Error message
+     * @returns Refresh result with nothing changed
+     */
+    private static failedRefresh(error: string): RefreshResult {
+        return {
+            updated: false,
+            added: 0,
+            removed: 0,
+            errors: [],
+            error,
+        };
+    }
+}
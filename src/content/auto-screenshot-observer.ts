@@ -4,9 +4,12 @@ import {
     GROUND_TRUTH,
     GroundTruthLabel,
     PORT_NAMES,
+    RULE_ACTION,
 } from '../shared/constants';
 import { createLogger } from '../shared/logger';
 import type {
+    ExceptionRule,
+    RuleModifiers,
     ScreenshotResponse,
     VisionAnalysisResult,
     VisionRule,
@@ -14,6 +17,7 @@ import type {
 import { BlurManager } from './blur-manager';
 import { BLUR_MODE } from './content-constants';
 import { domObserver } from './dom-observer';
+import { RuleDOMManager } from './rule-dom-manager';
 
 const logger = createLogger('AutoScreenshotObserver');
 
@@ -57,15 +61,20 @@ export class AutoScreenshotObserver {
     private registeredElements: WeakSet<Element>;
 
     /**
-     * Maps elements to their vision criteria for analysis
+     * Maps elements to the vision rule they matched
      */
-    private elementCriteria: WeakMap<Element, string>;
+    private elementRules: WeakMap<Element, VisionRule>;
 
     /**
      * Vision rules loaded from background
      */
     private visionRules: VisionRule[];
 
+    /**
+     * Selector-only exception rules, matching elements are never observed
+     */
+    private exceptionRules: ExceptionRule[];
+
     /**
      * Combined CSS selector from all enabled vision rules
      */
@@ -95,8 +104,9 @@ export class AutoScreenshotObserver {
     constructor() {
         this.observedElements = new WeakSet();
         this.registeredElements = new WeakSet();
-        this.elementCriteria = new WeakMap();
+        this.elementRules = new WeakMap();
         this.visionRules = [];
+        this.exceptionRules = [];
         this.combinedSelector = null;
         this.intersectionObserver = null;
         this.lastScrollY = window.scrollY;
@@ -107,10 +117,15 @@ export class AutoScreenshotObserver {
     /**
      * Initialize the observer and start watching for target elements
      * @param visionRules Array of vision rules from background
+     * @param exceptionRules Selector-only exception rules from background
      */
-    init(visionRules: VisionRule[] = []): void {
+    init(
+        visionRules: VisionRule[] = [],
+        exceptionRules: ExceptionRule[] = [],
+    ): void {
         logger.info('Initializing auto-screenshot observer');
         this.visionRules = visionRules;
+        this.exceptionRules = exceptionRules;
         this.buildCombinedSelector();
         logger.info(
             `Loaded ${this.visionRules.length} vision rules`,
@@ -258,6 +273,14 @@ export class AutoScreenshotObserver {
         }
 
         if (element.matches(this.combinedSelector)) {
+            // Skip elements allowed by exception rules
+            if (RuleDOMManager.isElementExcepted(
+                element,
+                this.exceptionRules,
+            )) {
+                return;
+            }
+
             // Check if already registered with IntersectionObserver
             if (!this.registeredElements.has(element)) {
                 // Find which rule matched and store its criteria
@@ -266,7 +289,7 @@ export class AutoScreenshotObserver {
                 );
 
                 if (matchedRule) {
-                    this.elementCriteria.set(element, matchedRule.criteria);
+                    this.elementRules.set(element, matchedRule);
                     this.intersectionObserver.observe(element);
                     this.registeredElements.add(element);
                     logger.info(
@@ -419,8 +442,10 @@ export class AutoScreenshotObserver {
             this.scrollVelocity,
         );
 
-        // Get the vision criteria for this element
-        const criteria = this.elementCriteria.get(element) || 'unknown';
+        // Get the vision rule criteria and overrides for this element
+        const matchedRule = this.elementRules.get(element);
+        const criteria = matchedRule?.criteria || 'unknown';
+        const modifiers = matchedRule?.modifiers;
 
         // Use element's innerText as cache key for simplicity
         // TODO: Handle cases when multiple elements have the same innerText
@@ -465,6 +490,7 @@ export class AutoScreenshotObserver {
             criteria,
             cacheInfo,
             port,
+            modifiers,
         );
 
         // Wait for screenshot capture and vision analysis
@@ -503,15 +529,22 @@ export class AutoScreenshotObserver {
 
             if (shouldBlock) {
                 // Advertisement detected - update blocked mode
-                const scorePercent = (confidence * 100).toFixed(0);
-                const threshPercent = (threshold * 100).toFixed(0);
-                const label = `🚫 Ad Blocked ${scorePercent}% `
-                    + `(min: ${threshPercent}%)`;
-
-                BlurManager.blur(element, {
-                    mode: BLUR_MODE.BLOCKED,
-                    label,
-                });
+                const label = RuleDOMManager.formatBlockLabel(
+                    modifiers ?? {},
+                    confidence,
+                    threshold,
+                    'Ad Blocked',
+                );
+
+                if (modifiers?.action === RULE_ACTION.HIDE) {
+                    BlurManager.unblur(element);
+                    RuleDOMManager.hideElement(element);
+                } else {
+                    BlurManager.blur(element, {
+                        mode: BLUR_MODE.BLOCKED,
+                        label,
+                    });
+                }
 
                 logger.info(
                     `📸 [${filename}] ❌ BLOCKED - Advertisement detected `
@@ -585,6 +618,7 @@ export class AutoScreenshotObserver {
      * @param criteria Vision criteria for this element
      * @param cacheInfo Cache information for stable identification
      * @param port Port connection for receiving screenshot notifications
+     * @param modifiers Per-rule threshold and model overrides
      * @returns Vision analysis result or null
      */
     async captureScreenshotWithBounds(
@@ -592,6 +626,7 @@ export class AutoScreenshotObserver {
         criteria: string,
         cacheInfo: CacheInfo,
         port: chrome.runtime.Port,
+        modifiers?: RuleModifiers,
     ): Promise<VisionAnalysisResult | null> {
         try {
             logger.info(`Element bounds: ${JSON.stringify(bounds)}`);
@@ -605,6 +640,7 @@ export class AutoScreenshotObserver {
                 bounds,
                 criteria,
                 cacheInfo,
+                modifiers,
             });
 
             // Wait for response via port
@@ -7,7 +7,12 @@ import {
     PORT_NAMES,
 } from '../shared/constants';
 import { createLogger } from '../shared/logger';
-import type { Rule } from '../shared/rule-types';
+import type {
+    ExceptionRule,
+    Rule,
+    RuleStageResult,
+} from '../shared/rule-types';
+import { getTargetingKey } from '../shared/rule-utils';
 import { BLUR_MODE } from './content-constants';
 import { ContentObserver } from './content-observer';
 import { ExtensionContextManager } from './extension-context-manager';
@@ -20,9 +25,18 @@ const logger = createLogger('ContentAnalyzer');
  */
 interface CandidateElement {
     id: string;
+
+    /**
+     * Element that is blurred or blocked (the :upward target if any)
+     */
     element: Element;
     text: string;
     selector: string;
+
+    /**
+     * Targeting key of the rule that found the element (empty if none)
+     */
+    targeting: string;
     ruleString: string;
 }
 
@@ -33,6 +47,11 @@ interface ElementData {
     id: string;
     text: string;
     selector: string;
+
+    /**
+     * Targeting key of the rule that found the element (empty if none)
+     */
+    targeting: string;
     groundTruth?: GroundTruthLabel;
 }
 
@@ -46,6 +65,17 @@ interface AnalysisResult {
     threshold: number;
     similarity?: number;
     rule: Rule;
+
+    /**
+     * Per-predicate results (chained rules stop at the first mismatch)
+     */
+    stages?: RuleStageResult[];
+
+    /**
+     * Overlay label and category of the matched rule
+     */
+    label?: string;
+    category?: string;
 }
 
 /**
@@ -100,24 +130,49 @@ export class ContentAnalyzer {
      */
     private rules: Rule[];
 
+    /**
+     * Selector-only exception rules, matching elements are never analyzed
+     */
+    private exceptionRules: ExceptionRule[];
+
+    /**
+     * Registered runtime message listener, removed on destroy
+     */
+    private messageListener: Parameters<
+        typeof chrome.runtime.onMessage.addListener
+    >[0] | null;
+
+    /**
+     * Registered beforeunload listener, removed on destroy
+     */
+    private unloadListener: (() => void) | null;
+
     constructor() {
         this.ruleDOMManager = null;
         this.isAnalyzing = false;
         this.initialized = false;
         this.rules = [];
+        this.exceptionRules = [];
+        this.messageListener = null;
+        this.unloadListener = null;
     }
 
     /**
      * Initialize the analyzer with pre-fetched rules
      * @param rules Array of rules from background
+     * @param exceptionRules Selector-only exception rules from background
      */
-    async initialize(rules: Rule[] = []): Promise<void> {
+    async initialize(
+        rules: Rule[] = [],
+        exceptionRules: ExceptionRule[] = [],
+    ): Promise<void> {
         if (this.initialized) {
             return;
         }
 
         try {
             this.rules = rules;
+            this.exceptionRules = exceptionRules;
             this.ruleDOMManager = new RuleDOMManager();
             ContentObserver.initialize(() => {
                 this.analyzePageWithRules();
@@ -237,7 +292,8 @@ export class ContentAnalyzer {
             }
 
             const candidateElements = RuleDOMManager
-                .findElementsByRule(rule);
+                .findElementsByRule(rule, this.exceptionRules);
+            const targeting = getTargetingKey(rule);
 
             // Track stats per rule
             ruleStatsMap.set(rule.ruleString, {
@@ -253,7 +309,9 @@ export class ContentAnalyzer {
                     continue;
                 }
 
-                const elementId = `${candidate.selector}-`
+                // Targeting is part of the ID so results map back
+                // to the element the rule acts on
+                const elementId = `${candidate.selector}${targeting}-`
                     + `${candidate.text.substring(0, 50)}`;
 
                 if (!allCandidates.has(elementId)) {
@@ -262,6 +320,7 @@ export class ContentAnalyzer {
                         element: candidate.element,
                         text: candidate.text,
                         selector: candidate.selector,
+                        targeting,
                         ruleString: rule.ruleString,
                     });
                 }
@@ -321,6 +380,7 @@ export class ContentAnalyzer {
                     id: c.id,
                     text: c.text,
                     selector: c.selector,
+                    targeting: c.targeting,
                     groundTruth,
                 };
             });
@@ -382,6 +442,19 @@ export class ContentAnalyzer {
                                 );
                             }
 
+                            // Chained rule - log confidence of each stage
+                            if (result.stages && result.stages.length > 1) {
+                                const stages = result.stages.map((stage) => (
+                                    `${stage.type} `
+                                    + `${(stage.confidence * 100).toFixed(0)}%`
+                                    + `${stage.matches ? ' ✓' : ' ✗'}`
+                                ));
+                                logger.debug(
+                                    `📊 [${title}...] → stages: `
+                                    + `${stages.join(' → ')}`,
+                                );
+                            }
+
                             // Remove analysis blur immediately
                             const cleanup = blurCleanups.get(result.elementId);
                             logger.info(
@@ -415,6 +488,10 @@ export class ContentAnalyzer {
                                     result.rule,
                                     result.confidence,
                                     result.threshold,
+                                    {
+                                        label: result.label,
+                                        category: result.category,
+                                    },
                                 );
                                 results.blockedElements += 1;
 
@@ -589,6 +666,7 @@ export class ContentAnalyzer {
             }
         };
 
+        this.messageListener = listener;
         chrome.runtime.onMessage.addListener(listener);
     }
 
@@ -597,9 +675,10 @@ export class ContentAnalyzer {
      */
     setupPageLifecycleHandlers(): void {
         // Cleanup on page unload
-        window.addEventListener('beforeunload', () => {
+        this.unloadListener = () => {
             this.cleanup();
-        });
+        };
+        window.addEventListener('beforeunload', this.unloadListener);
     }
 
     /**
@@ -611,4 +690,22 @@ export class ContentAnalyzer {
         }
         this.isAnalyzing = false;
     }
+
+    /**
+     * Undo everything the analyzer did on the page and stop it
+     * Used before re-initializing with the rules of another profile
+     */
+    destroy(): void {
+        this.cleanup();
+        ContentObserver.disconnect();
+        if (this.messageListener) {
+            chrome.runtime.onMessage.removeListener(this.messageListener);
+            this.messageListener = null;
+        }
+        if (this.unloadListener) {
+            window.removeEventListener('beforeunload', this.unloadListener);
+            this.unloadListener = null;
+        }
+        this.initialized = false;
+    }
 }
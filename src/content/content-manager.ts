@@ -1,10 +1,20 @@
 import { ACTIONS, RULE_TYPE } from '../shared/constants';
 import { createLogger, setDebugLogging } from '../shared/logger';
 import { Messaging } from '../shared/messaging';
-import type { Rule, VisionRule } from '../shared/rule-types';
+import type {
+    CosmeticRule,
+    ExceptionRule,
+    Rule,
+    VisionRule,
+} from '../shared/rule-types';
+import { isPageRule } from '../shared/rule-utils';
 import { AutoScreenshotObserver } from './auto-screenshot-observer';
+import { BlurManager } from './blur-manager';
 import { ContentAnalyzer } from './content-analyzer';
+import { CosmeticStylesheet } from './cosmetic-stylesheet';
 import { domObserver } from './dom-observer';
+import { PageClassifier } from './page-classifier';
+import { PageInterstitial } from './page-interstitial';
 
 const logger = createLogger('ContentManager');
 
@@ -25,12 +35,16 @@ class ContentManager {
     /**
      * Initialize content analyzer with pre-fetched rules
      * @param rules Array of analysis rules (embedding/prompt)
+     * @param exceptionRules Array of selector-only exception rules
      * @returns The initialized content analyzer instance
      */
-    initializeContentAnalyzer(rules: Rule[]): ContentAnalyzer {
+    initializeContentAnalyzer(
+        rules: Rule[],
+        exceptionRules: ExceptionRule[],
+    ): ContentAnalyzer {
         if (!this.contentAnalyzer) {
             this.contentAnalyzer = new ContentAnalyzer();
-            this.contentAnalyzer.initialize(rules);
+            this.contentAnalyzer.initialize(rules, exceptionRules);
         }
         return this.contentAnalyzer;
     }
@@ -38,13 +52,15 @@ class ContentManager {
     /**
      * Initialize auto-screenshot observer with vision rules
      * @param visionRules Array of vision rules
+     * @param exceptionRules Array of selector-only exception rules
      */
     initializeAutoScreenshotObserver(
         visionRules: VisionRule[],
+        exceptionRules: ExceptionRule[],
     ): void {
         if (!this.autoScreenshotObserver) {
             this.autoScreenshotObserver = new AutoScreenshotObserver();
-            this.autoScreenshotObserver.init(visionRules);
+            this.autoScreenshotObserver.init(visionRules, exceptionRules);
         }
     }
 
@@ -86,20 +102,49 @@ class ContentManager {
 
             logger.info(`Received ${applicableRules.length} applicable rules`);
 
+            // Cosmetic rules only need CSS, apply them before anything else
+            const cosmeticRules = applicableRules.filter(
+                (rule): rule is CosmeticRule => (
+                    rule.type === RULE_TYPE.COSMETIC
+                ),
+            );
+            CosmeticStylesheet.inject(cosmeticRules);
+
             // Separate rules by type
             const visionRules = applicableRules.filter(
                 (rule): rule is VisionRule => rule.type === RULE_TYPE.VISION,
             );
+            // Page rules classify the whole page instead of elements
+            const pageRules = applicableRules.filter(
+                (rule) => rule.enabled && isPageRule(rule),
+            );
             const analysisRules = applicableRules.filter(
-                (rule) => rule.type === RULE_TYPE.EMBEDDING
-                    || rule.type === RULE_TYPE.PROMPT,
+                (rule) => (rule.type === RULE_TYPE.EMBEDDING
+                    || rule.type === RULE_TYPE.PROMPT)
+                    && !isPageRule(rule),
+            );
+            // Exceptions targeting a specific AI rule are already applied
+            // by the background, only selector-only ones reach the DOM
+            const exceptionRules = applicableRules.filter(
+                (rule): rule is ExceptionRule => (
+                    rule.type === RULE_TYPE.EXCEPTION
+                    && rule.targetType === null
+                ),
             );
 
             logger.info(
                 `Loaded ${visionRules.length} vision rules, `
-                + `${analysisRules.length} analysis rules`,
+                + `${analysisRules.length} analysis rules, `
+                + `${pageRules.length} page rules, `
+                + `${cosmeticRules.length} cosmetic rules, `
+                + `${exceptionRules.length} exception rules`,
             );
 
+            // Page classification runs alongside element analysis
+            if (pageRules.length > 0) {
+                PageClassifier.classify();
+            }
+
             // Skip initialization if no enabled rules
             if (analysisRules.length === 0 && visionRules.length === 0) {
                 logger.info('No applicable rules, skipping initialization');
@@ -110,10 +155,10 @@ class ContentManager {
             domObserver.init();
 
             // Initialize content analyzer with analysis rules
-            this.initializeContentAnalyzer(analysisRules);
+            this.initializeContentAnalyzer(analysisRules, exceptionRules);
 
             // Initialize auto-screenshot observer with vision rules
-            this.initializeAutoScreenshotObserver(visionRules);
+            this.initializeAutoScreenshotObserver(visionRules, exceptionRules);
         } catch (error) {
             logger.error('Failed to initialize content scripts:', error);
         }
@@ -124,9 +169,44 @@ class ContentManager {
      * Fetches rules immediately to reduce delay before blur appears
      */
     init(): void {
+        // Switching the rule profile or a rule schedule turning on or off
+        // changes which rules apply
+        chrome.runtime.onMessage.addListener((message: { action: string }) => {
+            if (message.action === ACTIONS.RULES_CHANGED) {
+                this.reinitialize();
+            }
+            return false;
+        });
+
         // Fetch rules immediately, don't wait for DOMContentLoaded
         this.fetchAndInitialize();
     }
+
+    /**
+     * Undo the current rules on the page and initialize again
+     * with the rules that apply now
+     */
+    async reinitialize(): Promise<void> {
+        logger.info('Applicable rules changed, re-initializing...');
+
+        if (this.contentAnalyzer) {
+            this.contentAnalyzer.destroy();
+            this.contentAnalyzer = null;
+        }
+        if (this.autoScreenshotObserver) {
+            this.autoScreenshotObserver.disconnect();
+            this.autoScreenshotObserver = null;
+        }
+        domObserver.clearSubscribers();
+        domObserver.disconnect();
+
+        // Vision rule blurs are not owned by the content analyzer
+        BlurManager.unblurAll();
+        CosmeticStylesheet.remove();
+        PageInterstitial.remove();
+
+        await this.fetchAndInitialize();
+    }
 }
 
 export const contentManager = new ContentManager();
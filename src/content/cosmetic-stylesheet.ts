@@ -0,0 +1,73 @@
+import { createLogger } from '../shared/logger';
+import type { CosmeticRule } from '../shared/rule-types';
+
+const logger = createLogger('CosmeticStylesheet');
+
+/**
+ * ID of the injected style element
+ */
+const STYLE_ELEMENT_ID = 'ai-adblocker-cosmetic-rules';
+
+/**
+ * CosmeticStylesheet: hides elements matched by cosmetic (##) rules
+ * with an injected stylesheet, no DOM scanning or AI calls involved
+ */
+export class CosmeticStylesheet {
+    /**
+     * Inject (or replace) the stylesheet hiding cosmetic rule selectors
+     * @param rules Cosmetic rules applicable to the current page
+     * @returns Injected style element, or null if there was nothing to hide
+     */
+    static inject(rules: CosmeticRule[]): HTMLStyleElement | null {
+        const selectors = rules
+            .filter((rule) => rule.enabled)
+            .map((rule) => rule.selector)
+            .filter((selector) => CosmeticStylesheet.isValidSelector(selector));
+
+        if (selectors.length === 0) {
+            return null;
+        }
+
+        let style = document.getElementById(STYLE_ELEMENT_ID);
+        if (!(style instanceof HTMLStyleElement)) {
+            style = document.createElement('style');
+            style.id = STYLE_ELEMENT_ID;
+        }
+
+        // One block per selector, an unsupported selector
+        // in a selector list would void the whole block
+        style.textContent = selectors
+            .map((selector) => `${selector} { display: none !important; }`)
+            .join('\n');
+
+        // At document_start <head> may not exist yet
+        (document.head || document.documentElement).appendChild(style);
+
+        logger.info(`Injected cosmetic stylesheet: ${selectors.length} rules`);
+        return style as HTMLStyleElement;
+    }
+
+    /**
+     * Remove the injected stylesheet, e.g. before applying another profile
+     */
+    static remove(): void {
+        document.getElementById(STYLE_ELEMENT_ID)?.remove();
+    }
+
+    /**
+     * Check that the browser accepts a selector
+     * Rejected selectors (including ones with "{" or "}") are skipped
+     * so they cannot break out of their style block
+     * @param selector CSS selector to check
+     * @returns True if selector is valid
+     */
+    static isValidSelector(selector: string): boolean {
+        try {
+            document.createDocumentFragment().querySelector(selector);
+            return true;
+        } catch {
+            logger.warn(`Skipping invalid cosmetic selector: ${selector}`);
+            return false;
+        }
+    }
+}
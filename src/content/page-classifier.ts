@@ -0,0 +1,75 @@
+import { ACTIONS, MAX_TEXT_LENGTH } from '../shared/constants';
+import { createLogger } from '../shared/logger';
+import { Messaging } from '../shared/messaging';
+import type { PageContent } from '../background/message-handler';
+import { PageInterstitial } from './page-interstitial';
+
+const logger = createLogger('PageClassifier');
+
+/**
+ * Elements holding the main content, the first one found is used
+ */
+const MAIN_CONTENT_SELECTOR = 'main, article, [role="main"]';
+
+/**
+ * PageClassifier: classifies the whole page with page rules
+ * (page:contains-meaning-prompt('...')) and gates matched pages
+ */
+export class PageClassifier {
+    /**
+     * Classify the page once its content is parsed and show
+     * the interstitial if a page rule matches
+     */
+    static async classify(): Promise<void> {
+        if (document.readyState === 'loading') {
+            await new Promise((resolve) => {
+                document.addEventListener('DOMContentLoaded', resolve, {
+                    once: true,
+                });
+            });
+        }
+
+        try {
+            const response = await Messaging.sendMessage({
+                action: ACTIONS.ANALYZE_PAGE,
+                page: PageClassifier.extractContent(),
+            });
+
+            if (!response.success) {
+                logger.error(`Page analysis failed: ${response.error}`);
+                return;
+            }
+
+            const confPct = (response.confidence * 100).toFixed(0);
+            logger.info(
+                `Page analysis: ${response.matched ? 'match' : 'no match'} `
+                + `(confidence: ${confPct}%)`,
+            );
+
+            if (response.matched && response.rule) {
+                PageInterstitial.show(response.rule, response.confidence);
+            }
+        } catch (error) {
+            logger.error('Failed to classify page:', error);
+        }
+    }
+
+    /**
+     * Extract title, meta description and main content text
+     * @returns Page content to classify
+     */
+    static extractContent(): PageContent {
+        const description = document
+            .querySelector('meta[name="description"]')
+            ?.getAttribute('content') ?? '';
+        const main = document.querySelector(MAIN_CONTENT_SELECTOR)
+            ?? document.body;
+        const text = (main as HTMLElement | null)?.innerText ?? '';
+
+        return {
+            title: document.title.trim(),
+            description: description.trim(),
+            text: text.trim().substring(0, MAX_TEXT_LENGTH),
+        };
+    }
+}
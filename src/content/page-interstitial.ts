@@ -0,0 +1,123 @@
+import { createLogger } from '../shared/logger';
+import type { PromptRule } from '../shared/rule-types';
+
+const logger = createLogger('PageInterstitial');
+
+/**
+ * ID of the interstitial shadow host
+ */
+const HOST_ELEMENT_ID = 'ai-adblocker-page-interstitial';
+
+/**
+ * PageInterstitial: full-page overlay gating a page matched by a page rule
+ */
+export class PageInterstitial {
+    /**
+     * Cleanup of the shown interstitial
+     */
+    private static activeCleanup: (() => void) | null = null;
+
+    /**
+     * Cover the page with an interstitial until the user chooses
+     * to show it anyway
+     * @param rule Page rule that matched
+     * @param confidence Confidence of the match
+     * @returns Cleanup function removing the interstitial
+     */
+    static show(rule: PromptRule, confidence: number): () => void {
+        PageInterstitial.remove();
+
+        const host = document.createElement('div');
+        host.id = HOST_ELEMENT_ID;
+        host.style.cssText = `
+            position: fixed;
+            inset: 0;
+            z-index: 2147483647;
+        `;
+
+        // Closed shadow DOM keeps page styles out of the interstitial
+        const shadow = host.attachShadow({ mode: 'closed' });
+
+        const layer = document.createElement('div');
+        Object.assign(layer.style, {
+            position: 'absolute',
+            inset: '0',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            backdropFilter: 'blur(24px)',
+            WebkitBackdropFilter: 'blur(24px)',
+            background: 'rgba(255,255,255,0.85)',
+            fontFamily: 'system-ui, -apple-system, sans-serif',
+        });
+
+        const panel = document.createElement('div');
+        Object.assign(panel.style, {
+            maxWidth: '480px',
+            padding: '24px',
+            borderRadius: '8px',
+            background: 'white',
+            boxShadow: '0 4px 24px rgba(0,0,0,0.15)',
+            color: '#333',
+            textAlign: 'center',
+        });
+
+        // textContent only, the prompt is user input
+        const message = document.createElement('p');
+        message.textContent = `🚫 This page was classified as "${rule.prompt}"`
+            + ` (${(confidence * 100).toFixed(0)}%) — show anyway?`;
+        Object.assign(message.style, {
+            margin: '0 0 16px 0',
+            fontSize: '16px',
+            lineHeight: '1.4',
+        });
+
+        const button = document.createElement('button');
+        button.textContent = 'Show anyway';
+        Object.assign(button.style, {
+            cursor: 'pointer',
+            background: 'rgba(255,71,87,0.9)',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            padding: '8px 16px',
+            fontSize: '14px',
+            fontWeight: 'bold',
+        });
+
+        panel.append(message, button);
+        layer.appendChild(panel);
+        shadow.appendChild(layer);
+
+        // Page scrolling under the interstitial is disabled until dismissed
+        const root = document.documentElement;
+        const previousOverflow = root.style.getPropertyValue('overflow');
+        root.style.setProperty('overflow', 'hidden', 'important');
+        root.appendChild(host);
+
+        const cleanup = () => {
+            host.remove();
+            if (previousOverflow) {
+                root.style.setProperty('overflow', previousOverflow);
+            } else {
+                root.style.removeProperty('overflow');
+            }
+            PageInterstitial.activeCleanup = null;
+        };
+        PageInterstitial.activeCleanup = cleanup;
+        button.addEventListener('click', () => {
+            logger.info(`Page shown anyway for rule: ${rule.ruleString}`);
+            cleanup();
+        });
+
+        logger.info(`Page gated by rule: ${rule.ruleString}`);
+        return cleanup;
+    }
+
+    /**
+     * Remove the shown interstitial, if any
+     */
+    static remove(): void {
+        PageInterstitial.activeCleanup?.();
+    }
+}
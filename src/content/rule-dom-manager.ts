@@ -1,7 +1,14 @@
 // Rule DOM Manager - Handles DOM operations for rule application
 
+import { RULE_ACTION } from '../shared/constants';
 import { createLogger } from '../shared/logger';
-import type { CandidateElement, Rule } from '../shared/rule-types';
+import type {
+    CandidateElement,
+    ExceptionRule,
+    Rule,
+    RuleModifiers,
+} from '../shared/rule-types';
+import { Translator } from '../shared/translator';
 import { BlurManager } from './blur-manager';
 import {
     BLUR_MODE,
@@ -11,6 +18,11 @@ import {
 
 const logger = createLogger('RuleDOMManager');
 
+/**
+ * What the overlay of a blocked element shows
+ */
+type OverlayDisplay = Pick<RuleModifiers, 'label' | 'category'>;
+
 /**
  * Blocked element with metadata
  */
@@ -46,27 +58,80 @@ export class RuleDOMManager {
         this.analyzedElements = new Set();
     }
 
+    /**
+     * Check if element is inside an area allowed by an exception rule
+     * @param element Element to check
+     * @param exceptionRules Selector-only exception rules
+     * @returns True if element or one of its ancestors matches an exception
+     */
+    static isElementExcepted(
+        element: Element,
+        exceptionRules: ExceptionRule[],
+    ): boolean {
+        return exceptionRules.some((exception) => {
+            if (!exception.enabled) {
+                return false;
+            }
+            try {
+                return element.closest(exception.selector) !== null;
+            } catch (error) {
+                logger.error(
+                    `Invalid exception selector "${exception.selector}"`,
+                );
+                return false;
+            }
+        });
+    }
+
     /**
      * Find DOM elements matching a parsed rule
+     * With :text-from the text is read from a descendant and with :upward
+     * an ancestor is the candidate that gets blurred or hidden
      * @param rule Parsed rule object with selector
+     * @param exceptionRules Selector-only exception rules to skip
      * @returns Array of candidate elements with metadata
      */
-    static findElementsByRule(rule: Rule): CandidateElement[] {
+    static findElementsByRule(
+        rule: Rule,
+        exceptionRules: ExceptionRule[] = [],
+    ): CandidateElement[] {
         const candidates: CandidateElement[] = [];
+        const { textFrom, upward } = rule.targeting ?? {};
         let elements: NodeListOf<Element>;
 
         try {
             elements = document.querySelectorAll(rule.selector);
+
+            // Targeting selectors are checked once instead of per element
+            [textFrom, upward].forEach((selector) => {
+                if (typeof selector === 'string') {
+                    document.createDocumentFragment().querySelector(selector);
+                }
+            });
         } catch (error) {
             const errMsg = (error as Error).message;
-            const msg = `Invalid selector "${rule.selector}": ${errMsg}`;
+            const msg = `Invalid selector in rule "${rule.ruleString}": `
+                + `${errMsg}`;
             logger.error(msg);
             return candidates;
         }
 
+        // Several matched elements may resolve to the same :upward target
+        const targets = new Set<Element>();
+
         elements.forEach((element) => {
-            const rect = element.getBoundingClientRect();
-            const text = element.textContent?.trim() || '';
+            const textElement = textFrom
+                ? element.querySelector(textFrom)
+                : element;
+            const target = upward !== undefined
+                ? RuleDOMManager.findUpwardTarget(element, upward)
+                : element;
+            if (!textElement || !target || targets.has(target)) {
+                return;
+            }
+
+            const rect = target.getBoundingClientRect();
+            const text = textElement.textContent?.trim() || '';
 
             // Skip elements that are too small or have no text
             if (rect.width < MIN_BLUR_WIDTH
@@ -80,8 +145,18 @@ export class RuleDOMManager {
                 return;
             }
 
+            // Skip elements allowed by exception rules
+            if (
+                RuleDOMManager.isElementExcepted(element, exceptionRules)
+                || RuleDOMManager.isElementExcepted(target, exceptionRules)
+            ) {
+                return;
+            }
+
+            targets.add(target);
             candidates.push({
-                element,
+                element: target,
+                textElement,
                 text,
                 rect,
                 selector: rule.selector,
@@ -94,6 +169,28 @@ export class RuleDOMManager {
         return candidates;
     }
 
+    /**
+     * Resolve the :upward target of a matched element
+     * @param element Element matched by the rule's selector
+     * @param upward Number of levels up, or selector of the closest
+     * matching ancestor (the element itself is not considered)
+     * @returns Ancestor element, or null if there is none
+     */
+    static findUpwardTarget(
+        element: Element,
+        upward: number | string,
+    ): Element | null {
+        if (typeof upward === 'string') {
+            return element.parentElement?.closest(upward) ?? null;
+        }
+
+        let target: Element | null = element;
+        for (let level = 0; level < upward && target; level += 1) {
+            target = target.parentElement;
+        }
+        return target;
+    }
+
     /**
      * Apply blur effect to element during analysis
      * @param element DOM element to blur
@@ -125,27 +222,29 @@ export class RuleDOMManager {
      * @param rule Rule that matched this element
      * @param confidence Confidence score of the match
      * @param threshold Threshold used for this rule
+     * @param display Overlay label and category of the match
      */
     blockElement(
         element: Element,
         rule: Rule,
         confidence?: number,
         threshold?: number,
+        display: OverlayDisplay = {},
     ): void {
-        // Format label with score and threshold
-        let label = '🚫 Blocked';
-        if (confidence !== undefined && threshold !== undefined) {
-            const scorePercent = (confidence * 100).toFixed(0);
-            const threshPercent = (threshold * 100).toFixed(0);
-            label = `🚫 Blocked ${scorePercent}% (min: ${threshPercent}%)`;
-        }
+        const label = RuleDOMManager.formatBlockLabel(
+            display,
+            confidence,
+            threshold,
+        );
 
-        // Apply permanent block blur
-        const cleanup = BlurManager.blur(element, {
-            mode: BLUR_MODE.BLOCKED,
-            radius: 8,
-            label,
-        });
+        // Apply permanent block blur, or hide element if rule asks for it
+        const cleanup = rule.modifiers?.action === RULE_ACTION.HIDE
+            ? RuleDOMManager.hideElement(element)
+            : BlurManager.blur(element, {
+                mode: BLUR_MODE.BLOCKED,
+                radius: 8,
+                label,
+            });
 
         if (!cleanup) {
             return;
@@ -165,6 +264,56 @@ export class RuleDOMManager {
         logger.info(`Blocked element with rule: ${rule.ruleString}`);
     }
 
+    /**
+     * Format the overlay label of a blocked element, e.g.
+     * "🚫 Spoiler 87% (min: 70%)"
+     * @param display Label and category from the rule's modifiers
+     * @param confidence Confidence score of the match
+     * @param threshold Threshold used for the rule
+     * @param fallback Text used when the rule has no label or category
+     * @returns Overlay label
+     */
+    static formatBlockLabel(
+        display: OverlayDisplay,
+        confidence?: number,
+        threshold?: number,
+        fallback = 'Blocked',
+    ): string {
+        let title = fallback;
+        if (display.label) {
+            title = display.label;
+        } else if (display.category) {
+            title = Translator.getCategoryName(display.category);
+        }
+
+        if (confidence === undefined || threshold === undefined) {
+            return `🚫 ${title}`;
+        }
+        const scorePercent = (confidence * 100).toFixed(0);
+        const threshPercent = (threshold * 100).toFixed(0);
+        return `🚫 ${title} ${scorePercent}% (min: ${threshPercent}%)`;
+    }
+
+    /**
+     * Hide element completely (action=hide rule modifier)
+     * @param element Element to hide
+     * @returns Cleanup function restoring the element's display style
+     */
+    static hideElement(element: Element): () => void {
+        const { style } = element as HTMLElement;
+        const previousValue = style.getPropertyValue('display');
+        const previousPriority = style.getPropertyPriority('display');
+        style.setProperty('display', 'none', 'important');
+
+        return () => {
+            if (previousValue) {
+                style.setProperty('display', previousValue, previousPriority);
+            } else {
+                style.removeProperty('display');
+            }
+        };
+    }
+
     /**
      * Remove analysis blur from element
      * @param cleanup Cleanup function returned from applyAnalysisBlur
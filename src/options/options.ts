@@ -3,15 +3,39 @@
 import {
     ACTIONS,
     ALL_MODELS_MAP,
-    EMBEDDING_MODELS,
+    DEFAULT_EMBEDDING_MODEL,
+    DEFAULT_PROMPT_MODEL,
+    DEFAULT_VISION_MODEL,
     LLM_PROVIDERS,
-    PROMPT_MODELS,
-    VISION_MODELS,
+    MATCH_STRATEGY,
+    RULE_EXPORT_FORMAT,
+    RULE_FIX_ACTION,
+    RULE_IMPORT_MODE,
+    RULE_TYPE,
+    SUBSCRIPTION_CONFIG,
 } from '../shared/constants';
-import type { LLMProvider } from '../shared/constants';
-import { createLogger } from '../shared/logger';
+import type {
+    LLMProvider,
+    MatchStrategy,
+    ModelOption,
+    RuleExportFormat,
+    RuleImportMode,
+} from '../shared/constants';
+import type {
+    ImportFilterListResponse,
+    PreviewRuleImportResponse,
+} from '../background/message-handler';
+import type { RuleFinding } from '../background/rule-analyzer';
+import { createLogger, getErrorMessage } from '../shared/logger';
 import { Messaging } from '../shared/messaging';
-import type { Settings } from '../shared/settings-schema';
+import {
+    getAdapterKey,
+    getModelsForRuleType,
+    registerCustomProviders,
+    registerDiscoveredModels,
+} from '../shared/model-utils';
+import type { FilterList } from '../shared/rule-types';
+import type { CustomProvider, Settings } from '../shared/settings-schema';
 import { Storage } from '../shared/storage';
 
 const logger = createLogger('Options');
@@ -33,6 +57,33 @@ const REPEATED_MESSAGES = {
     UNKNOWN_ERROR: 'Unknown error',
 };
 
+/**
+ * Rules listed in the import preview, the rest are only counted
+ */
+const RULE_IMPORT_PREVIEW_LIMIT = 20;
+
+/**
+ * Export file name and type
+ */
+interface RuleExportFile {
+    fileName: string;
+    mimeType: string;
+}
+
+/**
+ * Export file per format
+ */
+const RULE_EXPORT_FILES: Record<RuleExportFormat, RuleExportFile> = {
+    [RULE_EXPORT_FORMAT.TEXT]: {
+        fileName: 'ai-adblocker-rules.txt',
+        mimeType: 'text/plain',
+    },
+    [RULE_EXPORT_FORMAT.JSON]: {
+        fileName: 'ai-adblocker-rules.json',
+        mimeType: 'application/json',
+    },
+};
+
 /**
  * Status type for UI feedback
  */
@@ -49,10 +100,16 @@ function getProviderLabel(provider: LLMProvider): string {
             return 'Chrome';
         case LLM_PROVIDERS.LMSTUDIO:
             return 'LM Studio';
+        case LLM_PROVIDERS.OLLAMA:
+            return 'Ollama';
         case LLM_PROVIDERS.OPENAI:
             return 'OpenAI';
         case LLM_PROVIDERS.OPENROUTER:
             return 'OpenRouter';
+        case LLM_PROVIDERS.ANTHROPIC:
+            return 'Anthropic';
+        case LLM_PROVIDERS.CUSTOM:
+            return 'Custom';
         default:
             return provider;
     }
@@ -60,12 +117,50 @@ function getProviderLabel(provider: LLMProvider): string {
 
 /**
  * Generate a model label for UI display
- * @param modelId The model ID
- * @param provider The provider
- * @returns Formatted label like "model-name (Provider)"
+ * @param model Model from the registry
+ * @returns Formatted label like "model-name (Provider) - $0.05 / $0.40",
+ * with the price per 1M input and output tokens if known
+ */
+function getModelLabel(model: ModelOption): string {
+    const label = `${model.name} (${getProviderLabel(model.provider)})`;
+    const { pricing } = model.capabilities;
+    return pricing
+        ? `${label} - $${pricing.input} / $${pricing.output}`
+        : label;
+}
+
+/**
+ * Format a duration for UI display
+ * @param ms Duration in milliseconds
+ * @returns Duration like "4 days" or "12 hours"
+ */
+function formatDuration(ms: number): string {
+    const hours = Math.round(ms / (60 * 60 * 1000));
+    if (hours % 24 === 0) {
+        const days = hours / 24;
+        return days === 1 ? '1 day' : `${days} days`;
+    }
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+/**
+ * Format how long ago a time was for UI display
+ * @param timestamp Time in milliseconds since epoch
+ * @returns Text like "5 minutes ago"
  */
-function getModelLabel(modelId: string, provider: LLMProvider): string {
-    return `${modelId} (${getProviderLabel(provider)})`;
+function formatTimeAgo(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / (60 * 1000));
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return `${minutes} min ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+        return `${hours} h ago`;
+    }
+    return `${Math.floor(hours / 24)} days ago`;
 }
 
 /**
@@ -88,10 +183,45 @@ export class Options {
 
     private openrouterKeyInput!: HTMLInputElement;
 
+    private anthropicKeyInput!: HTMLInputElement;
+
+    private customProvidersContainer!: HTMLDivElement;
+
+    private customProviderNameInput!: HTMLInputElement;
+
+    private customProviderBaseUrlInput!: HTMLInputElement;
+
+    private customProviderApiKeyInput!: HTMLInputElement;
+
+    private customProviderHeadersInput!: HTMLTextAreaElement;
+
+    private customProviderEmbeddingModelsInput!: HTMLInputElement;
+
+    private customProviderPromptModelsInput!: HTMLInputElement;
+
+    private customProviderVisionModelsInput!: HTMLInputElement;
+
+    private saveCustomProviderBtn!: HTMLButtonElement;
+
+    private refreshModelsBtn!: HTMLButtonElement;
+
+    private discoveredModelsInfo!: HTMLDivElement;
+
+    /**
+     * Custom OpenAI-compatible providers from settings
+     */
+    private customProviders: CustomProvider[] = [];
+
     private saveScreenshotsCheckbox!: HTMLInputElement;
 
     private debugLoggingCheckbox!: HTMLInputElement;
 
+    private matchStrategySelect!: HTMLSelectElement;
+
+    private consensusCountInput!: HTMLInputElement;
+
+    private consensusCountGroup!: HTMLDivElement;
+
     private saveBtn!: HTMLButtonElement;
 
     private clearBtn!: HTMLButtonElement;
@@ -100,6 +230,44 @@ export class Options {
 
     private status!: HTMLDivElement;
 
+    private filterListInput!: HTMLTextAreaElement;
+
+    private filterListErrors!: HTMLDivElement;
+
+    private importFilterListBtn!: HTMLButtonElement;
+
+    private filterListsContainer!: HTMLDivElement;
+
+    private subscriptionUrlInput!: HTMLInputElement;
+
+    private subscribeBtn!: HTMLButtonElement;
+
+    private subscriptionErrors!: HTMLDivElement;
+
+    private subscriptionsContainer!: HTMLDivElement;
+
+    private checkRulesBtn!: HTMLButtonElement;
+
+    private ruleFindingsContainer!: HTMLDivElement;
+
+    private exportTextBtn!: HTMLButtonElement;
+
+    private exportJsonBtn!: HTMLButtonElement;
+
+    private ruleImportInput!: HTMLTextAreaElement;
+
+    private ruleImportFile!: HTMLInputElement;
+
+    private ruleImportErrors!: HTMLDivElement;
+
+    private ruleImportPreview!: HTMLDivElement;
+
+    private previewRuleImportBtn!: HTMLButtonElement;
+
+    private mergeRuleImportBtn!: HTMLButtonElement;
+
+    private replaceRuleImportBtn!: HTMLButtonElement;
+
     /**
      * Initialize the options manager and set up event listeners
      */
@@ -114,16 +282,56 @@ export class Options {
             this.visionModelWarning = document.getElementById('visionModelWarning') as HTMLDivElement;
             this.openaiKeyInput = document.getElementById('openaiKey') as HTMLInputElement;
             this.openrouterKeyInput = document.getElementById('openrouterKey') as HTMLInputElement;
+            this.anthropicKeyInput = document.getElementById('anthropicKey') as HTMLInputElement;
+            this.customProvidersContainer = document.getElementById('customProviders') as HTMLDivElement;
+            this.customProviderNameInput = document.getElementById('customProviderName') as HTMLInputElement;
+            this.customProviderBaseUrlInput = document.getElementById('customProviderBaseUrl') as HTMLInputElement;
+            this.customProviderApiKeyInput = document.getElementById('customProviderApiKey') as HTMLInputElement;
+            this.customProviderHeadersInput = document.getElementById('customProviderHeaders') as HTMLTextAreaElement;
+            this.customProviderEmbeddingModelsInput = document.getElementById('customProviderEmbeddingModels') as HTMLInputElement;
+            this.customProviderPromptModelsInput = document.getElementById('customProviderPromptModels') as HTMLInputElement;
+            this.customProviderVisionModelsInput = document.getElementById('customProviderVisionModels') as HTMLInputElement;
+            this.saveCustomProviderBtn = document.getElementById('saveCustomProviderBtn') as HTMLButtonElement;
+            this.refreshModelsBtn = document.getElementById('refreshModelsBtn') as HTMLButtonElement;
+            this.discoveredModelsInfo = document.getElementById('discoveredModels') as HTMLDivElement;
             this.saveScreenshotsCheckbox = document.getElementById(
                 'saveScreenshotsCheckbox',
             ) as HTMLInputElement;
             this.debugLoggingCheckbox = document.getElementById(
                 'debugLoggingCheckbox',
             ) as HTMLInputElement;
+            this.matchStrategySelect = document.getElementById(
+                'matchStrategySelect',
+            ) as HTMLSelectElement;
+            this.consensusCountInput = document.getElementById(
+                'consensusCountInput',
+            ) as HTMLInputElement;
+            this.consensusCountGroup = document.getElementById(
+                'consensusCountGroup',
+            ) as HTMLDivElement;
             this.saveBtn = document.getElementById('saveBtn') as HTMLButtonElement;
             this.clearBtn = document.getElementById('clearBtn') as HTMLButtonElement;
             this.clearCacheBtn = document.getElementById('clearCacheBtn') as HTMLButtonElement;
             this.status = document.getElementById('status') as HTMLDivElement;
+            this.filterListInput = document.getElementById('filterListInput') as HTMLTextAreaElement;
+            this.filterListErrors = document.getElementById('filterListErrors') as HTMLDivElement;
+            this.importFilterListBtn = document.getElementById('importFilterListBtn') as HTMLButtonElement;
+            this.filterListsContainer = document.getElementById('filterLists') as HTMLDivElement;
+            this.subscriptionUrlInput = document.getElementById('subscriptionUrl') as HTMLInputElement;
+            this.subscribeBtn = document.getElementById('subscribeBtn') as HTMLButtonElement;
+            this.subscriptionErrors = document.getElementById('subscriptionErrors') as HTMLDivElement;
+            this.subscriptionsContainer = document.getElementById('subscriptions') as HTMLDivElement;
+            this.checkRulesBtn = document.getElementById('checkRulesBtn') as HTMLButtonElement;
+            this.ruleFindingsContainer = document.getElementById('ruleFindings') as HTMLDivElement;
+            this.exportTextBtn = document.getElementById('exportTextBtn') as HTMLButtonElement;
+            this.exportJsonBtn = document.getElementById('exportJsonBtn') as HTMLButtonElement;
+            this.ruleImportInput = document.getElementById('ruleImportInput') as HTMLTextAreaElement;
+            this.ruleImportFile = document.getElementById('ruleImportFile') as HTMLInputElement;
+            this.ruleImportErrors = document.getElementById('ruleImportErrors') as HTMLDivElement;
+            this.ruleImportPreview = document.getElementById('ruleImportPreview') as HTMLDivElement;
+            this.previewRuleImportBtn = document.getElementById('previewRuleImportBtn') as HTMLButtonElement;
+            this.mergeRuleImportBtn = document.getElementById('mergeRuleImportBtn') as HTMLButtonElement;
+            this.replaceRuleImportBtn = document.getElementById('replaceRuleImportBtn') as HTMLButtonElement;
 
             // Populate model dropdowns
             this.populateModelSelects();
@@ -131,6 +339,9 @@ export class Options {
             // Load settings
             this.loadSettings();
 
+            // Load imported filter lists
+            this.loadFilterLists();
+
             // Set up event listeners
             this.setupEventListeners();
 
@@ -210,25 +421,35 @@ export class Options {
     }
 
     /**
-     * Populate model select dropdowns from constants
+     * Populate model select dropdowns with the models of the registry
+     * supporting each rule type
+     * Selected models are kept if still listed
      */
     private populateModelSelects(): void {
+        const embeddingModel = this.embeddingModelSelect.value;
+        const promptModel = this.promptModelSelect.value;
+        const visionModel = this.visionModelSelect.value;
+
         this.populateModelSelect(
             this.embeddingModelSelect,
-            EMBEDDING_MODELS,
+            getModelsForRuleType(RULE_TYPE.EMBEDDING),
         );
         this.populateModelSelect(
             this.promptModelSelect,
-            PROMPT_MODELS,
+            getModelsForRuleType(RULE_TYPE.PROMPT),
         );
         this.populateModelSelect(
             this.visionModelSelect,
-            VISION_MODELS,
+            getModelsForRuleType(RULE_TYPE.VISION),
         );
+
+        this.embeddingModelSelect.value = embeddingModel;
+        this.promptModelSelect.value = promptModel;
+        this.visionModelSelect.value = visionModel;
     }
 
     /**
-     * Populate a single model select element
+     * Populate a single model select element, replacing its options
      * @param selectElement The select element to populate
      * @param modelIds Array of model IDs
      */
@@ -236,11 +457,16 @@ export class Options {
         selectElement: HTMLSelectElement,
         modelIds: string[],
     ): void {
+        selectElement.replaceChildren();
+
         // Get models from registry and group by provider
         const chromePromptModels: string[] = [];
         const lmstudioModels: string[] = [];
+        const ollamaModels: string[] = [];
         const openaiModels: string[] = [];
         const openrouterModels: string[] = [];
+        const anthropicModels: string[] = [];
+        const customModels = new Map<string, string[]>();
 
         modelIds.forEach((id) => {
             const model = ALL_MODELS_MAP[id];
@@ -252,10 +478,17 @@ export class Options {
                 chromePromptModels.push(id);
             } else if (model.provider === LLM_PROVIDERS.LMSTUDIO) {
                 lmstudioModels.push(id);
+            } else if (model.provider === LLM_PROVIDERS.OLLAMA) {
+                ollamaModels.push(id);
             } else if (model.provider === LLM_PROVIDERS.OPENAI) {
                 openaiModels.push(id);
             } else if (model.provider === LLM_PROVIDERS.OPENROUTER) {
                 openrouterModels.push(id);
+            } else if (model.provider === LLM_PROVIDERS.ANTHROPIC) {
+                anthropicModels.push(id);
+            } else if (model.instance) {
+                const { name } = model.instance;
+                customModels.set(name, [...(customModels.get(name) ?? []), id]);
             }
         });
 
@@ -270,7 +503,7 @@ export class Options {
                 }
                 const option = document.createElement('option');
                 option.value = modelId;
-                option.textContent = getModelLabel(model.name, model.provider);
+                option.textContent = getModelLabel(model);
                 chromeGroup.appendChild(option);
             });
             selectElement.appendChild(chromeGroup);
@@ -287,12 +520,29 @@ export class Options {
                 }
                 const option = document.createElement('option');
                 option.value = modelId;
-                option.textContent = getModelLabel(model.name, model.provider);
+                option.textContent = getModelLabel(model);
                 lmstudioGroup.appendChild(option);
             });
             selectElement.appendChild(lmstudioGroup);
         }
 
+        // Create Ollama optgroup if there are models
+        if (ollamaModels.length > 0) {
+            const ollamaGroup = document.createElement('optgroup');
+            ollamaGroup.label = '🦙 Ollama (Local - Free)';
+            ollamaModels.forEach((modelId) => {
+                const model = ALL_MODELS_MAP[modelId];
+                if (!model) {
+                    return;
+                }
+                const option = document.createElement('option');
+                option.value = modelId;
+                option.textContent = getModelLabel(model);
+                ollamaGroup.appendChild(option);
+            });
+            selectElement.appendChild(ollamaGroup);
+        }
+
         // Create OpenAI optgroup if there are models
         if (openaiModels.length > 0) {
             const openaiGroup = document.createElement('optgroup');
@@ -304,7 +554,7 @@ export class Options {
                 }
                 const option = document.createElement('option');
                 option.value = modelId;
-                option.textContent = getModelLabel(model.name, model.provider);
+                option.textContent = getModelLabel(model);
                 openaiGroup.appendChild(option);
             });
             selectElement.appendChild(openaiGroup);
@@ -321,11 +571,41 @@ export class Options {
                 }
                 const option = document.createElement('option');
                 option.value = modelId;
-                option.textContent = getModelLabel(model.name, model.provider);
+                option.textContent = getModelLabel(model);
                 openrouterGroup.appendChild(option);
             });
             selectElement.appendChild(openrouterGroup);
         }
+
+        // Create Anthropic optgroup if there are models
+        if (anthropicModels.length > 0) {
+            const anthropicGroup = document.createElement('optgroup');
+            anthropicGroup.label = '🧠 Anthropic (Cloud - Requires API Key)';
+            anthropicModels.forEach((modelId) => {
+                const model = ALL_MODELS_MAP[modelId];
+                if (!model) {
+                    return;
+                }
+                const option = document.createElement('option');
+                option.value = modelId;
+                option.textContent = getModelLabel(model);
+                anthropicGroup.appendChild(option);
+            });
+            selectElement.appendChild(anthropicGroup);
+        }
+
+        // Create one optgroup per custom provider
+        customModels.forEach((customModelIds, name) => {
+            const customGroup = document.createElement('optgroup');
+            customGroup.label = `🔌 ${name} (Custom)`;
+            customModelIds.forEach((modelId) => {
+                const option = document.createElement('option');
+                option.value = modelId;
+                option.textContent = ALL_MODELS_MAP[modelId]!.name;
+                customGroup.appendChild(option);
+            });
+            selectElement.appendChild(customGroup);
+        });
     }
 
     /**
@@ -338,6 +618,48 @@ export class Options {
             'click',
             () => this.clearEmbeddingCache(),
         );
+        this.importFilterListBtn.addEventListener(
+            'click',
+            () => this.importFilterList(),
+        );
+        this.subscribeBtn.addEventListener(
+            'click',
+            () => this.subscribeFilterList(),
+        );
+        this.checkRulesBtn.addEventListener('click', () => this.checkRules());
+        this.exportTextBtn.addEventListener(
+            'click',
+            () => this.exportRules(RULE_EXPORT_FORMAT.TEXT),
+        );
+        this.exportJsonBtn.addEventListener(
+            'click',
+            () => this.exportRules(RULE_EXPORT_FORMAT.JSON),
+        );
+        this.ruleImportFile.addEventListener(
+            'change',
+            () => this.loadRuleImportFile(),
+        );
+        this.ruleImportInput.addEventListener(
+            'input',
+            () => this.resetRuleImportPreview(),
+        );
+        this.previewRuleImportBtn.addEventListener(
+            'click',
+            () => this.previewRuleImport(),
+        );
+        this.mergeRuleImportBtn.addEventListener(
+            'click',
+            () => this.importRules(RULE_IMPORT_MODE.MERGE),
+        );
+        this.replaceRuleImportBtn.addEventListener(
+            'click',
+            () => this.importRules(RULE_IMPORT_MODE.REPLACE),
+        );
+        this.subscriptionUrlInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                this.subscribeFilterList();
+            }
+        });
 
         // Auto-save when models change and update warnings
         this.embeddingModelSelect.addEventListener('change', () => {
@@ -361,6 +683,36 @@ export class Options {
         this.openrouterKeyInput.addEventListener('input', () => {
             this.updateModelWarnings();
         });
+
+        this.anthropicKeyInput.addEventListener('input', () => {
+            this.updateModelWarnings();
+        });
+
+        this.saveCustomProviderBtn.addEventListener('click', () => {
+            this.saveCustomProvider();
+        });
+
+        this.refreshModelsBtn.addEventListener('click', () => {
+            this.loadDiscoveredModels(true);
+        });
+
+        // Auto-save the rule match strategy
+        this.matchStrategySelect.addEventListener('change', () => {
+            this.updateConsensusCountVisibility();
+            this.saveSettings();
+        });
+        this.consensusCountInput.addEventListener('change', () => {
+            this.saveSettings();
+        });
+    }
+
+    /**
+     * Show the consensus count only for the consensus strategy
+     */
+    private updateConsensusCountVisibility(): void {
+        const isConsensus = this.matchStrategySelect.value
+            === MATCH_STRATEGY.CONSENSUS;
+        this.consensusCountGroup.style.display = isConsensus ? '' : 'none';
     }
 
     /**
@@ -379,6 +731,13 @@ export class Options {
 
             const { settings } = response;
 
+            // Add the models of custom providers and the discovered models
+            // before selecting models
+            this.customProviders = settings.customProviders;
+            registerCustomProviders(this.customProviders);
+            await this.loadDiscoveredModels();
+            this.renderCustomProviders();
+
             // Set model selectors - settings already store unique IDs
             this.embeddingModelSelect.value = settings.embeddingModel;
             this.promptModelSelect.value = settings.promptModel;
@@ -394,6 +753,11 @@ export class Options {
                 this.openrouterKeyInput.value = settings.openrouterApiKey;
             }
 
+            // Load Anthropic API key
+            if (settings.anthropicApiKey) {
+                this.anthropicKeyInput.value = settings.anthropicApiKey;
+            }
+
             // Load screenshot setting
             const shouldSave = settings.saveScreenshotsToDownloads;
             this.saveScreenshotsCheckbox.checked = shouldSave;
@@ -401,6 +765,11 @@ export class Options {
             // Load debug logging setting
             this.debugLoggingCheckbox.checked = settings.debugLogging;
 
+            // Load rule match strategy
+            this.matchStrategySelect.value = settings.matchStrategy;
+            this.consensusCountInput.value = String(settings.consensusCount);
+            this.updateConsensusCountVisibility();
+
             // Update model warnings after loading
             this.updateModelWarnings();
 
@@ -429,6 +798,15 @@ export class Options {
         return modelValue.startsWith('openrouter:');
     }
 
+    /**
+     * Check if a model requires Anthropic API key
+     * @param modelValue Combined "provider:model" string
+     * @returns True if model requires Anthropic API key
+     */
+    private requiresAnthropicKey(modelValue: string): boolean {
+        return modelValue.startsWith('anthropic:');
+    }
+
     /**
      * Update model warnings based on selections and API key status
      */
@@ -437,6 +815,9 @@ export class Options {
         const hasOpenRouterKey = (
             this.openrouterKeyInput.value.trim().length > 0
         );
+        const hasAnthropicKey = (
+            this.anthropicKeyInput.value.trim().length > 0
+        );
 
         // Embedding model warning
         const embeddingNeedsOpenAI = this.requiresOpenAIKey(
@@ -470,6 +851,9 @@ export class Options {
         const llmNeedsOpenRouter = this.requiresOpenRouterKey(
             this.promptModelSelect.value,
         );
+        const llmNeedsAnthropic = this.requiresAnthropicKey(
+            this.promptModelSelect.value,
+        );
         if (llmNeedsOpenAI && !hasOpenAIKey) {
             this.promptModelWarning.innerHTML = (
                 '⚠️ <strong>OpenAI API Key Required</strong><br>'
@@ -484,6 +868,13 @@ export class Options {
                 + 'Please add your API key below or switch to a free model.'
             );
             this.promptModelWarning.classList.add('show');
+        } else if (llmNeedsAnthropic && !hasAnthropicKey) {
+            this.promptModelWarning.innerHTML = (
+                '⚠️ <strong>Anthropic API Key Required</strong><br>'
+                + 'This model requires an Anthropic API key. '
+                + 'Please add your API key below or switch to a free model.'
+            );
+            this.promptModelWarning.classList.add('show');
         } else {
             this.promptModelWarning.classList.remove('show');
         }
@@ -495,6 +886,9 @@ export class Options {
         const visionNeedsOpenRouter = this.requiresOpenRouterKey(
             this.visionModelSelect.value,
         );
+        const visionNeedsAnthropic = this.requiresAnthropicKey(
+            this.visionModelSelect.value,
+        );
         if (visionNeedsOpenAI && !hasOpenAIKey) {
             this.visionModelWarning.innerHTML = (
                 '⚠️ <strong>OpenAI API Key Required</strong><br>'
@@ -509,6 +903,13 @@ export class Options {
                 + 'Please add your API key below.'
             );
             this.visionModelWarning.classList.add('show');
+        } else if (visionNeedsAnthropic && !hasAnthropicKey) {
+            this.visionModelWarning.innerHTML = (
+                '⚠️ <strong>Anthropic API Key Required</strong><br>'
+                + 'This model requires an Anthropic API key. '
+                + 'Please add your API key below.'
+            );
+            this.visionModelWarning.classList.add('show');
         } else {
             this.visionModelWarning.classList.remove('show');
         }
@@ -529,6 +930,7 @@ export class Options {
     private async saveSettings(): Promise<void> {
         const openaiKey = this.openaiKeyInput.value.trim();
         const openrouterKey = this.openrouterKeyInput.value.trim();
+        const anthropicKey = this.anthropicKeyInput.value.trim();
 
         // API keys are optional
         if (openaiKey && !openaiKey.startsWith('sk-')) {
@@ -541,15 +943,26 @@ export class Options {
             return;
         }
 
+        if (anthropicKey && !anthropicKey.startsWith('sk-ant-')) {
+            this.showStatus('Invalid Anthropic API key format. Anthropic keys start with "sk-ant-"', STATUS_TYPE.ERROR);
+            return;
+        }
+
         try {
             // Parse model selections only if they have values
             // Models are optional - not selected means features won't work
             const settings: Partial<Settings> = {
                 openaiApiKey: openaiKey,
                 openrouterApiKey: openrouterKey,
+                anthropicApiKey: anthropicKey,
                 saveScreenshotsToDownloads:
                     this.saveScreenshotsCheckbox.checked,
                 debugLogging: this.debugLoggingCheckbox.checked,
+                matchStrategy: this.matchStrategySelect.value as MatchStrategy,
+                consensusCount: Math.max(
+                    1,
+                    parseInt(this.consensusCountInput.value, 10) || 1,
+                ),
             };
 
             // Only include embedding model if selected
@@ -600,6 +1013,337 @@ export class Options {
         }
     }
 
+    /**
+     * Add the models listed by the providers to the model selects
+     * @param refresh List the models of all providers again instead of
+     * using the stored lists
+     */
+    private async loadDiscoveredModels(refresh = false): Promise<void> {
+        this.refreshModelsBtn.disabled = true;
+        try {
+            const response = await Messaging.sendMessage({
+                action: ACTIONS.LIST_MODELS,
+                refresh,
+            });
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+
+            registerDiscoveredModels(response.models);
+            this.populateModelSelects();
+            this.updateModelWarnings();
+
+            const getLabel = (key: string) => this.customProviders.find(
+                (instance) => key === getAdapterKey({
+                    provider: LLM_PROVIDERS.CUSTOM,
+                    instance,
+                }),
+            )?.name ?? getProviderLabel(key as LLMProvider);
+
+            this.discoveredModelsInfo.textContent = Object.entries(
+                response.models,
+            ).map(([key, list]) => `${getLabel(key)}: `
+                + `${list.models.length} models, `
+                + `listed ${formatTimeAgo(list.listedAt)}`).join(' · ');
+
+            const errors = Object.entries(response.errors)
+                .map(([key, error]) => `${getLabel(key)}: ${error}`);
+            if (errors.length > 0) {
+                this.showStatus(
+                    `Failed to list models of ${errors.join('; ')}`,
+                    STATUS_TYPE.WARNING,
+                );
+            } else if (refresh) {
+                this.showStatus('Models refreshed', STATUS_TYPE.SUCCESS);
+            }
+        } catch (error) {
+            logger.error('Failed to list models:', error);
+            this.showStatus(
+                `Failed to list models: ${getErrorMessage(error)}`,
+                STATUS_TYPE.ERROR,
+            );
+        } finally {
+            this.refreshModelsBtn.disabled = false;
+        }
+    }
+
+    /**
+     * Render custom providers with edit and remove buttons
+     */
+    private renderCustomProviders(): void {
+        this.customProvidersContainer.replaceChildren();
+
+        if (this.customProviders.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'help-text';
+            empty.textContent = 'No custom providers yet';
+            this.customProvidersContainer.append(empty);
+            return;
+        }
+
+        this.customProviders.forEach((provider) => {
+            const item = document.createElement('div');
+            item.className = 'filter-list-item';
+
+            const info = document.createElement('div');
+            info.className = 'filter-list-info';
+
+            const title = document.createElement('div');
+            title.className = 'filter-list-title';
+            title.textContent = `${provider.name} (${provider.id})`;
+
+            const url = document.createElement('div');
+            url.className = 'filter-list-meta';
+            url.textContent = provider.baseUrl;
+
+            const meta = document.createElement('div');
+            meta.className = 'filter-list-meta';
+            meta.textContent = [
+                `${provider.embeddingModels.length} embedding`,
+                `${provider.promptModels.length} prompt`,
+                `${provider.visionModels.length} vision models`,
+            ].join(' · ');
+
+            info.append(title, url, meta);
+
+            const editBtn = document.createElement('button');
+            editBtn.className = 'btn btn-secondary';
+            editBtn.textContent = 'Edit';
+            editBtn.addEventListener('click', () => {
+                this.fillCustomProviderForm(provider);
+                this.customProviderNameInput.focus();
+            });
+
+            const removeBtn = document.createElement('button');
+            removeBtn.className = 'btn btn-danger';
+            removeBtn.textContent = 'Remove';
+            removeBtn.addEventListener(
+                'click',
+                () => this.removeCustomProvider(provider),
+            );
+
+            item.append(info, editBtn, removeBtn);
+            this.customProvidersContainer.append(item);
+        });
+    }
+
+    /**
+     * Fill the custom provider form to change a provider, or clear it
+     * Saving under the same name replaces the provider
+     * @param provider Custom provider to edit, none to clear the form
+     */
+    private fillCustomProviderForm(provider?: CustomProvider): void {
+        this.customProviderNameInput.value = provider?.name ?? '';
+        this.customProviderBaseUrlInput.value = provider?.baseUrl ?? '';
+        this.customProviderApiKeyInput.value = provider?.apiKey ?? '';
+        this.customProviderHeadersInput.value = Object.entries(
+            provider?.headers ?? {},
+        ).map(([name, value]) => `${name}: ${value}`).join('\n');
+        this.customProviderEmbeddingModelsInput.value = (
+            provider?.embeddingModels ?? []
+        ).join(', ');
+        this.customProviderPromptModelsInput.value = (
+            provider?.promptModels ?? []
+        ).join(', ');
+        this.customProviderVisionModelsInput.value = (
+            provider?.visionModels ?? []
+        ).join(', ');
+    }
+
+    /**
+     * Split a comma-separated list of model names
+     * @param value Input value
+     * @returns Model names without duplicates
+     */
+    private static parseModelNames(value: string): string[] {
+        const names = value.split(',')
+            .map((name) => name.trim())
+            .filter((name) => name !== '');
+        return [...new Set(names)];
+    }
+
+    /**
+     * Parse request headers, one "Name: value" per line
+     * @param value Input value
+     * @returns Headers by name
+     * @throws {Error} When a line has no header name
+     */
+    private static parseHeaders(value: string): Record<string, string> {
+        const headers: Record<string, string> = {};
+        value.split('\n').forEach((line, index) => {
+            if (line.trim() === '') {
+                return;
+            }
+            const separator = line.indexOf(':');
+            const name = line.substring(0, separator).trim();
+            if (separator < 0 || !/^[\w-]+$/.test(name)) {
+                throw new Error(
+                    `Line ${index + 1}: expected "Name: value", got "${line}"`,
+                );
+            }
+            headers[name] = line.substring(separator + 1).trim();
+        });
+        return headers;
+    }
+
+    /**
+     * Add or replace the custom provider from the form
+     * The ID used in model IDs is derived from the name
+     */
+    private async saveCustomProvider(): Promise<void> {
+        const name = this.customProviderNameInput.value.trim();
+        const id = name.toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '');
+        if (!id) {
+            this.showStatus(
+                'Enter a provider name with letters or digits',
+                STATUS_TYPE.ERROR,
+            );
+            return;
+        }
+
+        const baseUrl = this.customProviderBaseUrlInput.value.trim();
+        if (!URL.canParse(baseUrl)
+            || !['http:', 'https:'].includes(new URL(baseUrl).protocol)) {
+            this.showStatus(
+                'Enter an http(s) base URL, e.g. http://localhost:8000/v1',
+                STATUS_TYPE.ERROR,
+            );
+            return;
+        }
+
+        let headers: Record<string, string>;
+        try {
+            headers = Options.parseHeaders(
+                this.customProviderHeadersInput.value,
+            );
+        } catch (error) {
+            const errorMsg = error instanceof Error
+                ? error.message
+                : REPEATED_MESSAGES.UNKNOWN_ERROR;
+            this.showStatus(`Invalid headers: ${errorMsg}`, STATUS_TYPE.ERROR);
+            return;
+        }
+
+        const provider: CustomProvider = {
+            id,
+            name,
+            baseUrl,
+            apiKey: this.customProviderApiKeyInput.value.trim(),
+            headers,
+            embeddingModels: Options.parseModelNames(
+                this.customProviderEmbeddingModelsInput.value,
+            ),
+            promptModels: Options.parseModelNames(
+                this.customProviderPromptModelsInput.value,
+            ),
+            visionModels: Options.parseModelNames(
+                this.customProviderVisionModelsInput.value,
+            ),
+        };
+        const modelCount = provider.embeddingModels.length
+            + provider.promptModels.length
+            + provider.visionModels.length;
+        if (modelCount === 0) {
+            this.showStatus(
+                'Enter at least one embedding, prompt or vision model',
+                STATUS_TYPE.ERROR,
+            );
+            return;
+        }
+
+        const exists = this.customProviders.some((p) => p.id === id);
+        const providers = exists
+            ? this.customProviders.map((p) => (p.id === id ? provider : p))
+            : [...this.customProviders, provider];
+
+        if (await this.updateCustomProviders(providers)) {
+            this.fillCustomProviderForm();
+            this.showStatus(
+                `${exists ? 'Updated' : 'Added'} "${name}"`,
+                STATUS_TYPE.SUCCESS,
+            );
+        }
+    }
+
+    /**
+     * Remove a custom provider
+     * Models of the provider in use fall back to the defaults
+     * @param provider Custom provider to remove
+     */
+    private async removeCustomProvider(
+        provider: CustomProvider,
+    ): Promise<void> {
+        // eslint-disable-next-line no-restricted-globals, no-alert
+        if (!confirm(`Remove custom provider "${provider.name}"?`)) {
+            return;
+        }
+
+        const providers = this.customProviders
+            .filter((p) => p.id !== provider.id);
+        if (await this.updateCustomProviders(providers)) {
+            this.showStatus(`Removed "${provider.name}"`, STATUS_TYPE.SUCCESS);
+        }
+    }
+
+    /**
+     * Save custom providers and update the model selects
+     * Selected models that no longer exist are reset to the defaults
+     * @param providers Custom providers to save
+     * @returns True if saved
+     */
+    private async updateCustomProviders(
+        providers: CustomProvider[],
+    ): Promise<boolean> {
+        const updates: Partial<Settings> = { customProviders: providers };
+        const selects = {
+            embeddingModel: this.embeddingModelSelect,
+            promptModel: this.promptModelSelect,
+            visionModel: this.visionModelSelect,
+        };
+        const defaults = {
+            embeddingModel: DEFAULT_EMBEDDING_MODEL,
+            promptModel: DEFAULT_PROMPT_MODEL,
+            visionModel: DEFAULT_VISION_MODEL,
+        };
+        const keys = Object.keys(selects) as Array<keyof typeof selects>;
+        const selected = keys.map((key) => selects[key].value);
+
+        registerCustomProviders(providers);
+        this.populateModelSelects();
+
+        keys.forEach((key, index) => {
+            const modelId = selected[index];
+            if (modelId && !ALL_MODELS_MAP[modelId]) {
+                selects[key].value = defaults[key];
+                updates[key] = defaults[key];
+            }
+        });
+
+        type UpdateResponse = { success: boolean; error?: string };
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.UPDATE_SETTINGS,
+            updates,
+        }) as UpdateResponse;
+
+        if (!response.success) {
+            // Keep the registry in line with the stored providers
+            registerCustomProviders(this.customProviders);
+            this.populateModelSelects();
+            this.showStatus(
+                `Failed to save custom providers: ${response.error}`,
+                STATUS_TYPE.ERROR,
+            );
+            return false;
+        }
+
+        this.customProviders = providers;
+        this.renderCustomProviders();
+        this.updateModelWarnings();
+        return true;
+    }
+
     /**
      * Clear all data
      */
@@ -636,6 +1380,7 @@ Are you absolutely sure you want to continue?`;
             }
 
             await this.loadSettings();
+            await this.loadFilterLists();
 
             this.showStatus('All data cleared successfully', STATUS_TYPE.SUCCESS);
             logger.info('All data cleared');
@@ -685,6 +1430,642 @@ Continue?`;
         }
     }
 
+    /**
+     * Import the filter list text from the textarea
+     */
+    private async importFilterList(): Promise<void> {
+        const text = this.filterListInput.value;
+        if (!text.trim()) {
+            this.showStatus('Paste a filter list first', STATUS_TYPE.WARNING);
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.IMPORT_FILTER_LIST,
+            text,
+        });
+
+        Options.renderLineErrors(this.filterListErrors, response.errors);
+
+        if (!response.list) {
+            this.showStatus(
+                'No valid rules found in the filter list',
+                STATUS_TYPE.ERROR,
+            );
+            return;
+        }
+
+        const { title } = response.list;
+        if (response.errors.length > 0) {
+            this.showStatus(
+                `Imported "${title}" with ${response.ruleCount} rules, `
+                + `${response.errors.length} lines skipped`,
+                STATUS_TYPE.WARNING,
+            );
+        } else {
+            this.filterListInput.value = '';
+            this.showStatus(
+                `Imported "${title}" with ${response.ruleCount} rules`,
+                STATUS_TYPE.SUCCESS,
+            );
+        }
+        logger.info(`Filter list imported: ${title}`);
+        await this.loadFilterLists();
+    }
+
+    /**
+     * Show per-line filter list errors
+     * @param container Error box element
+     * @param errors Line errors, empty to hide the error box
+     * @param unit What the line numbers count, e.g. "Rule" for JSON
+     */
+    private static renderLineErrors(
+        container: HTMLElement,
+        errors: ImportFilterListResponse['errors'],
+        unit = 'Line',
+    ): void {
+        container.replaceChildren();
+        container.classList.toggle('show', errors.length > 0);
+
+        errors.forEach((lineError) => {
+            const { line, column } = lineError;
+            const message = document.createElement('div');
+            const position = column ? `${line}:${column}` : `${line}`;
+            message.textContent = `${unit} ${position}: ${lineError.error}`;
+
+            const source = document.createElement('code');
+            source.textContent = lineError.text;
+
+            container.append(message, source);
+        });
+    }
+
+    /**
+     * Export the rules of the active profile to a file
+     * @param format Text filter list or JSON
+     */
+    private async exportRules(format: RuleExportFormat): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.EXPORT_RULES,
+            format,
+        });
+        if (!response.success) {
+            this.showStatus('Failed to export rules', STATUS_TYPE.ERROR);
+            return;
+        }
+
+        const { fileName, mimeType } = RULE_EXPORT_FILES[format];
+        const url = URL.createObjectURL(
+            new Blob([response.content], { type: mimeType }),
+        );
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        logger.info(`Rules exported as ${format}`);
+    }
+
+    /**
+     * Load the chosen export file into the import textarea and preview it
+     */
+    private async loadRuleImportFile(): Promise<void> {
+        const file = this.ruleImportFile.files?.[0];
+        if (!file) {
+            return;
+        }
+
+        this.ruleImportInput.value = await file.text();
+        this.ruleImportFile.value = '';
+        await this.previewRuleImport();
+    }
+
+    /**
+     * Check the rules to import and show what would be imported
+     */
+    private async previewRuleImport(): Promise<void> {
+        this.resetRuleImportPreview();
+        const text = this.ruleImportInput.value;
+        if (!text.trim()) {
+            this.showStatus(
+                'Paste exported rules or choose a file first',
+                STATUS_TYPE.WARNING,
+            );
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.PREVIEW_RULE_IMPORT,
+            text,
+        });
+
+        Options.renderLineErrors(
+            this.ruleImportErrors,
+            response.errors,
+            response.format === RULE_EXPORT_FORMAT.JSON ? 'Rule' : 'Line',
+        );
+        this.renderRuleImportPreview(response);
+
+        const canImport = response.rules.length > 0;
+        this.mergeRuleImportBtn.disabled = !canImport;
+        this.replaceRuleImportBtn.disabled = !canImport;
+    }
+
+    /**
+     * Render the rules an import would add
+     * @param preview Parsed rules and counts
+     */
+    private renderRuleImportPreview(
+        preview: PreviewRuleImportResponse,
+    ): void {
+        const { rules, errors, existing } = preview;
+        const summary = document.createElement('div');
+        const counts = [`${rules.length} valid rules`];
+        if (existing > 0) {
+            counts.push(`${existing} already in your rules`);
+        }
+        if (errors.length > 0) {
+            counts.push(`${errors.length} with errors`);
+        }
+        summary.textContent = counts.join(' · ');
+        this.ruleImportPreview.append(summary);
+
+        rules.slice(0, RULE_IMPORT_PREVIEW_LIMIT).forEach((rule) => {
+            const code = document.createElement('code');
+            code.classList.toggle('disabled', !rule.enabled);
+            const tags = rule.tags?.map((tag) => ` #${tag}`).join('') ?? '';
+            code.textContent = `${rule.ruleString}${tags}`;
+            this.ruleImportPreview.append(code);
+        });
+
+        const hidden = rules.length - RULE_IMPORT_PREVIEW_LIMIT;
+        if (hidden > 0) {
+            const more = document.createElement('div');
+            more.className = 'help-text';
+            more.textContent = `…and ${hidden} more`;
+            this.ruleImportPreview.append(more);
+        }
+    }
+
+    /**
+     * Clear the import preview, the text has to be previewed again
+     * before importing
+     */
+    private resetRuleImportPreview(): void {
+        this.ruleImportPreview.replaceChildren();
+        Options.renderLineErrors(this.ruleImportErrors, []);
+        this.mergeRuleImportBtn.disabled = true;
+        this.replaceRuleImportBtn.disabled = true;
+    }
+
+    /**
+     * Import the previewed rules
+     * @param mode Merge with or replace the current rules
+     */
+    private async importRules(mode: RuleImportMode): Promise<void> {
+        if (
+            mode === RULE_IMPORT_MODE.REPLACE
+            // eslint-disable-next-line no-alert, no-restricted-globals
+            && !confirm('Replace all your rules with the imported ones? '
+                + 'Subscribed rules are kept.')
+        ) {
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.IMPORT_RULES,
+            text: this.ruleImportInput.value,
+            mode,
+        });
+
+        if (!response.success) {
+            this.showStatus('No valid rules to import', STATUS_TYPE.ERROR);
+            return;
+        }
+
+        const { added, removed, skipped } = response;
+        const details = [`${added} rules added`];
+        if (removed > 0) {
+            details.push(`${removed} removed`);
+        }
+        if (skipped > 0) {
+            details.push(`${skipped} already there`);
+        }
+        this.ruleImportInput.value = '';
+        this.resetRuleImportPreview();
+        this.showStatus(
+            `Rules imported: ${details.join(', ')}`,
+            STATUS_TYPE.SUCCESS,
+        );
+        logger.info(`Rules imported (${mode})`);
+        await this.loadFilterLists();
+    }
+
+    /**
+     * Load imported filter lists and their rule counts
+     * Subscriptions are shown on their own tab
+     */
+    private async loadFilterLists(): Promise<void> {
+        try {
+            const [listsResponse, rulesResponse] = await Promise.all([
+                Messaging.sendMessage({ action: ACTIONS.GET_FILTER_LISTS }),
+                Messaging.sendMessage({ action: ACTIONS.GET_ALL_RULES }),
+            ]);
+
+            const ruleCounts = new Map<string, number>();
+            rulesResponse.rules.forEach(({ listId }) => {
+                if (listId) {
+                    ruleCounts.set(listId, (ruleCounts.get(listId) ?? 0) + 1);
+                }
+            });
+
+            const { lists } = listsResponse;
+            this.renderFilterLists(
+                this.filterListsContainer,
+                lists.filter((list) => !list.subscription),
+                ruleCounts,
+                'No filter lists imported yet',
+            );
+            this.renderFilterLists(
+                this.subscriptionsContainer,
+                lists.filter((list) => list.subscription),
+                ruleCounts,
+                'No subscriptions yet',
+            );
+        } catch (error) {
+            logger.error('Failed to load filter lists:', error);
+        }
+    }
+
+    /**
+     * Render filter lists with enable/disable and remove buttons
+     * @param container Element to render the lists into
+     * @param lists Filter lists to render
+     * @param ruleCounts Number of rules per list ID
+     * @param emptyText Text shown when there are no lists
+     */
+    private renderFilterLists(
+        container: HTMLElement,
+        lists: FilterList[],
+        ruleCounts: Map<string, number>,
+        emptyText: string,
+    ): void {
+        container.replaceChildren();
+
+        if (lists.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'help-text';
+            empty.textContent = emptyText;
+            container.append(empty);
+            return;
+        }
+
+        lists.forEach((list) => {
+            container.append(
+                this.createFilterListItem(list, ruleCounts.get(list.id) ?? 0),
+            );
+        });
+    }
+
+    /**
+     * Create a filter list item
+     * Subscriptions also show their update state and an update button
+     * @param list Filter list to display
+     * @param ruleCount Number of rules in the list
+     * @returns Filter list item element
+     */
+    private createFilterListItem(
+        list: FilterList,
+        ruleCount: number,
+    ): HTMLElement {
+        const item = document.createElement('div');
+        item.className = 'filter-list-item';
+        item.classList.toggle('disabled', !list.enabled);
+
+        const info = document.createElement('div');
+        info.className = 'filter-list-info';
+
+        const title = document.createElement('div');
+        title.className = 'filter-list-title';
+        title.textContent = list.title;
+        info.append(title);
+
+        const details = [`${ruleCount} rules`];
+        if (list.version) {
+            details.unshift(`v${list.version}`);
+        }
+
+        const { subscription } = list;
+        if (subscription) {
+            const url = document.createElement('div');
+            url.className = 'filter-list-meta';
+            url.textContent = subscription.url;
+            info.append(url);
+
+            const interval = list.expires
+                ?? SUBSCRIPTION_CONFIG.DEFAULT_EXPIRES;
+            details.push(`updates every ${formatDuration(interval)}`);
+            details.push(subscription.lastUpdated
+                ? `updated ${formatTimeAgo(subscription.lastUpdated)}`
+                : 'never updated');
+        }
+
+        const meta = document.createElement('div');
+        meta.className = 'filter-list-meta';
+        meta.textContent = details.join(' · ');
+        info.append(meta);
+
+        if (subscription && subscription.failureCount > 0) {
+            const failure = document.createElement('div');
+            failure.className = 'filter-list-meta filter-list-failure';
+            failure.textContent = `${subscription.failureCount} failed `
+                + `update(s), last: ${subscription.lastError ?? 'unknown error'}`;
+            info.append(failure);
+        }
+
+        item.append(info);
+
+        if (subscription) {
+            const refreshBtn = document.createElement('button');
+            refreshBtn.className = 'btn btn-primary';
+            refreshBtn.textContent = 'Update now';
+            refreshBtn.addEventListener(
+                'click',
+                () => this.refreshFilterList(list),
+            );
+            item.append(refreshBtn);
+        }
+
+        const toggleBtn = document.createElement('button');
+        toggleBtn.className = 'btn btn-secondary';
+        toggleBtn.textContent = list.enabled ? 'Disable' : 'Enable';
+        toggleBtn.addEventListener(
+            'click',
+            () => this.toggleFilterList(list, !list.enabled),
+        );
+
+        const removeBtn = document.createElement('button');
+        removeBtn.className = 'btn btn-danger';
+        removeBtn.textContent = subscription ? 'Unsubscribe' : 'Remove';
+        removeBtn.addEventListener(
+            'click',
+            () => this.removeFilterList(list),
+        );
+
+        item.append(toggleBtn, removeBtn);
+        return item;
+    }
+
+    /**
+     * Subscribe to the filter list URL from the input
+     */
+    private async subscribeFilterList(): Promise<void> {
+        const url = this.subscriptionUrlInput.value.trim();
+        if (!url) {
+            this.showStatus('Enter a filter list URL', STATUS_TYPE.WARNING);
+            return;
+        }
+
+        this.subscribeBtn.disabled = true;
+        try {
+            const response = await Messaging.sendMessage({
+                action: ACTIONS.SUBSCRIBE_FILTER_LIST,
+                url,
+            });
+
+            Options.renderLineErrors(
+                this.subscriptionErrors,
+                response.errors,
+            );
+
+            if (!response.list) {
+                this.showStatus(
+                    `Failed to subscribe: ${response.error}`,
+                    STATUS_TYPE.ERROR,
+                );
+                return;
+            }
+
+            this.subscriptionUrlInput.value = '';
+            this.showStatus(
+                `Subscribed to "${response.list.title}" `
+                + `with ${response.ruleCount} rules`,
+                response.errors.length > 0
+                    ? STATUS_TYPE.WARNING
+                    : STATUS_TYPE.SUCCESS,
+            );
+            await this.loadFilterLists();
+        } finally {
+            this.subscribeBtn.disabled = false;
+        }
+    }
+
+    /**
+     * Fetch a subscribed list now instead of waiting for its schedule
+     * @param list Subscribed filter list
+     */
+    private async refreshFilterList(list: FilterList): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.REFRESH_FILTER_LIST,
+            listId: list.id,
+        });
+
+        Options.renderLineErrors(this.subscriptionErrors, response.errors);
+
+        if (response.success) {
+            this.showStatus(
+                `Updated "${list.title}": ${response.added} rules added, `
+                + `${response.removed} removed`,
+                STATUS_TYPE.SUCCESS,
+            );
+        } else {
+            this.showStatus(
+                `Failed to update "${list.title}": ${response.error}`,
+                STATUS_TYPE.ERROR,
+            );
+        }
+        await this.loadFilterLists();
+    }
+
+    /**
+     * Enable/disable a filter list with all its rules
+     * @param list Filter list to toggle
+     * @param enabled New enabled state
+     */
+    private async toggleFilterList(
+        list: FilterList,
+        enabled: boolean,
+    ): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.TOGGLE_FILTER_LIST,
+            listId: list.id,
+            enabled,
+        });
+
+        if (!response.success) {
+            this.showStatus('Failed to update filter list', STATUS_TYPE.ERROR);
+            return;
+        }
+        await this.loadFilterLists();
+    }
+
+    /**
+     * Remove a filter list with all its rules
+     * @param list Filter list to remove
+     */
+    private async removeFilterList(list: FilterList): Promise<void> {
+        const action = list.subscription ? 'Unsubscribe from' : 'Remove';
+        // eslint-disable-next-line no-restricted-globals, no-alert
+        if (!confirm(`${action} "${list.title}" and remove all its rules?`)) {
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.REMOVE_FILTER_LIST,
+            listId: list.id,
+        });
+
+        if (!response.success) {
+            this.showStatus('Failed to remove filter list', STATUS_TYPE.ERROR);
+            return;
+        }
+        this.showStatus(`Removed "${list.title}"`, STATUS_TYPE.SUCCESS);
+        await this.loadFilterLists();
+    }
+
+    /**
+     * Analyze the rules and show the findings
+     * Not run on load, comparing criteria may call the embedding API
+     */
+    private async checkRules(): Promise<void> {
+        this.checkRulesBtn.disabled = true;
+        try {
+            const response = await Messaging.sendMessage({
+                action: ACTIONS.ANALYZE_RULES,
+            });
+
+            if (!response.success) {
+                this.showStatus(
+                    `Failed to check rules: ${response.error}`,
+                    STATUS_TYPE.ERROR,
+                );
+                return;
+            }
+            this.renderRuleFindings(response.findings);
+        } finally {
+            this.checkRulesBtn.disabled = false;
+        }
+    }
+
+    /**
+     * Render rule findings with their fix buttons
+     * @param findings Findings from the rule analyzer
+     */
+    private renderRuleFindings(findings: RuleFinding[]): void {
+        this.ruleFindingsContainer.replaceChildren();
+
+        if (findings.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'help-text';
+            empty.textContent = '✅ No duplicate or redundant rules found';
+            this.ruleFindingsContainer.append(empty);
+            return;
+        }
+
+        findings.forEach((finding) => {
+            this.ruleFindingsContainer.append(
+                this.createRuleFindingItem(finding),
+            );
+        });
+    }
+
+    /**
+     * Create a rule finding item
+     * @param finding Finding to display
+     * @returns Rule finding item element
+     */
+    private createRuleFindingItem(finding: RuleFinding): HTMLElement {
+        const item = document.createElement('div');
+        item.className = 'rule-finding';
+
+        const info = document.createElement('div');
+        info.className = 'rule-finding-info';
+
+        const message = document.createElement('div');
+        message.className = 'rule-finding-message';
+        message.textContent = `⚠️ ${finding.message}`;
+        info.append(message);
+
+        finding.ruleStrings.forEach((ruleString) => {
+            const rule = document.createElement('code');
+            rule.textContent = ruleString;
+            info.append(rule);
+        });
+        item.append(info);
+
+        const { fix } = finding;
+        if (!fix) {
+            return item;
+        }
+
+        const fixBtn = document.createElement('button');
+        if (fix.action === RULE_FIX_ACTION.MERGE) {
+            fixBtn.className = 'btn btn-primary';
+            fixBtn.textContent = 'Merge';
+            fixBtn.title = fix.ruleString;
+        } else {
+            fixBtn.className = 'btn btn-danger';
+            fixBtn.textContent = fix.ruleIds.length > 1
+                ? `Remove ${fix.ruleIds.length} rules`
+                : 'Remove';
+        }
+        fixBtn.addEventListener('click', () => this.fixRuleFinding(finding));
+        item.append(fixBtn);
+        return item;
+    }
+
+    /**
+     * Apply the fix of a finding and check the rules again,
+     * other findings may involve the changed rules
+     * @param finding Finding with a fix
+     */
+    private async fixRuleFinding(finding: RuleFinding): Promise<void> {
+        const { fix } = finding;
+        if (!fix) {
+            return;
+        }
+
+        let success: boolean;
+        if (fix.action === RULE_FIX_ACTION.MERGE) {
+            const response = await Messaging.sendMessage({
+                action: ACTIONS.MERGE_RULES,
+                ruleIds: fix.ruleIds,
+                ruleString: fix.ruleString,
+            });
+            success = response.success;
+        } else {
+            const responses = await Promise.all(fix.ruleIds.map(
+                (ruleId) => Messaging.sendMessage({
+                    action: ACTIONS.REMOVE_RULE,
+                    ruleId,
+                }),
+            ));
+            success = responses.every((response) => response.success);
+        }
+
+        if (success) {
+            this.showStatus(
+                fix.action === RULE_FIX_ACTION.MERGE
+                    ? 'Rules merged'
+                    : 'Redundant rules removed',
+                STATUS_TYPE.SUCCESS,
+            );
+        } else {
+            this.showStatus('Failed to fix rules', STATUS_TYPE.ERROR);
+        }
+        await this.checkRules();
+    }
+
     /**
      * Show status message
      * @param message Status message
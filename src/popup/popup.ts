@@ -1,17 +1,28 @@
 import {
     ACTIONS,
+    ALL_MODELS_MAP,
     DEFAULT_EMBEDDING_THRESHOLD,
+    DEFAULT_PROFILE,
     DEFAULT_PROMPT_THRESHOLD,
     DEFAULT_VISION_THRESHOLD,
+    RULE_TYPE,
     SETTINGS_KEYS,
 } from '../shared/constants';
+import type { ValidateRuleResponse } from '../background/message-handler';
+import type { ProfileSummary } from '../background/profile-service';
 import { createLogger } from '../shared/logger';
 import { Messaging } from '../shared/messaging';
 import type { Rule } from '../shared/rule-types';
+import { formatScheduleStatus, getScheduleStatus } from '../shared/schedule';
 import { Translator } from '../shared/translator';
 
 const logger = createLogger('Popup');
 
+/**
+ * Value of the profile select option creating a new profile
+ */
+const NEW_PROFILE_OPTION = '__new__';
+
 /**
  * Popup class handles all popup operations
  */
@@ -19,6 +30,33 @@ export class Popup {
     // State properties
     rules: Rule[];
 
+    /**
+     * Titles of subscribed lists by ID, their rules are read-only
+     */
+    subscriptionTitles: Map<string, string>;
+
+    /**
+     * Rule profiles, the default one first
+     */
+    profiles: ProfileSummary[];
+
+    activeProfileId: string;
+
+    /**
+     * Tags used by the rules, sorted
+     */
+    tags: string[];
+
+    /**
+     * Tag the rule list is filtered by, null shows all rules
+     */
+    activeTag: string | null;
+
+    /**
+     * ID of the rule being dragged to a new priority
+     */
+    draggedRuleId: string | null;
+
     blockingEnabled: boolean;
 
     embeddingThreshold: number;
@@ -32,10 +70,14 @@ export class Popup {
     // DOM element properties (assigned during init before use)
     rulesContainer!: HTMLElement;
 
+    tagFilter!: HTMLElement;
+
     emptyRules!: HTMLElement;
 
     ruleInput!: HTMLInputElement;
 
+    ruleError!: HTMLElement;
+
     addRuleBtn!: HTMLElement;
 
     settingsBtn!: HTMLElement;
@@ -46,6 +88,10 @@ export class Popup {
 
     toggleStatus!: HTMLElement;
 
+    profileSelect!: HTMLSelectElement;
+
+    deleteProfileBtn!: HTMLElement;
+
     stats!: HTMLElement;
 
     status!: HTMLElement;
@@ -70,6 +116,12 @@ export class Popup {
 
     constructor() {
         this.rules = []; // Now stores full rule objects with enabled state
+        this.subscriptionTitles = new Map();
+        this.profiles = [];
+        this.activeProfileId = DEFAULT_PROFILE.ID;
+        this.tags = [];
+        this.activeTag = null;
+        this.draggedRuleId = null;
         this.blockingEnabled = true;
         this.embeddingThreshold = DEFAULT_EMBEDDING_THRESHOLD;
         this.promptThreshold = DEFAULT_PROMPT_THRESHOLD;
@@ -84,13 +136,21 @@ export class Popup {
         document.addEventListener('DOMContentLoaded', async () => {
             // Assign DOM refs
             this.rulesContainer = document.getElementById('rulesContainer')!;
+            this.tagFilter = document.getElementById('tagFilter')!;
             this.emptyRules = document.getElementById('emptyRules')!;
             this.ruleInput = document.getElementById('ruleInput') as HTMLInputElement;
+            this.ruleError = document.getElementById('ruleError')!;
             this.addRuleBtn = document.getElementById('addRuleBtn')!;
             this.settingsBtn = document.getElementById('settingsBtn')!;
             this.enabledToggle = document.getElementById('enabledToggle') as HTMLInputElement;
             this.toggleSwitch = document.getElementById('toggleSwitch')!;
             this.toggleStatus = document.getElementById('toggleStatus')!;
+            this.profileSelect = document.getElementById(
+                'profileSelect',
+            ) as HTMLSelectElement;
+            this.deleteProfileBtn = document.getElementById(
+                'deleteProfileBtn',
+            )!;
             this.stats = document.getElementById('stats')!;
             this.status = document.getElementById('status')!;
             this.embeddingThresholdSlider = document.getElementById(
@@ -123,6 +183,7 @@ export class Popup {
 
             Popup.initializeLocalization();
 
+            await this.loadProfiles();
             await this.loadSettings();
             await this.loadThresholds();
             this.updateRulesDisplay();
@@ -144,6 +205,8 @@ export class Popup {
             }
         });
 
+        this.ruleInput.addEventListener('input', () => this.hideRuleError());
+
         this.settingsBtn.addEventListener('click', async () => {
             await Popup.openOptionsTab('models');
         });
@@ -155,6 +218,19 @@ export class Popup {
             await Popup.openOptionsTab('rules');
         });
 
+        // Switch rule profile, or create one from the last option
+        this.profileSelect.addEventListener('change', () => {
+            if (this.profileSelect.value === NEW_PROFILE_OPTION) {
+                this.createProfile();
+            } else {
+                this.switchProfile(this.profileSelect.value);
+            }
+        });
+
+        this.deleteProfileBtn.addEventListener('click', () => {
+            this.deleteProfile();
+        });
+
         // Toggle blocking on/off
         this.toggleSwitch.addEventListener('click', () => {
             this.enabledToggle.checked = !this.enabledToggle.checked;
@@ -240,8 +316,31 @@ export class Popup {
             ) {
                 this.removeRule(parseInt(target.dataset.index, 10));
             }
+
+            // Edit tags buttons
+            if (target.classList.contains('tags') && target.dataset.index) {
+                this.editRuleTags(parseInt(target.dataset.index, 10));
+            }
+
+            // Tag filter chips, the "All" chip has an empty tag
+            if (target.classList.contains('tag-chip')) {
+                this.activeTag = target.dataset.tag || null;
+                this.updateRulesDisplay();
+            }
+
+            // Enable/disable all rules of the selected tag
+            if (target.classList.contains('tag-toggle')
+                && target.dataset.tag
+            ) {
+                this.toggleTag(
+                    target.dataset.tag,
+                    target.dataset.enabled === 'true',
+                );
+            }
         });
 
+        this.setupRuleDragAndDrop();
+
         // Event delegation for rule toggle checkboxes
         document.addEventListener('change', (e: Event) => {
             const target = e.target as HTMLInputElement;
@@ -253,6 +352,59 @@ export class Popup {
         });
     }
 
+    /**
+     * Reorder rules by dragging them, rules higher in the list
+     * have priority
+     */
+    setupRuleDragAndDrop(): void {
+        const getRuleItem = (e: Event) => (
+            (e.target as HTMLElement).closest<HTMLElement>('.rule-item')
+        );
+        const clearDropTargets = () => {
+            this.rulesContainer.querySelectorAll('.drag-over').forEach(
+                (item) => item.classList.remove('drag-over'),
+            );
+        };
+
+        this.rulesContainer.addEventListener('dragstart', (e: DragEvent) => {
+            const item = getRuleItem(e);
+            if (!item?.dataset.ruleId) {
+                return;
+            }
+            this.draggedRuleId = item.dataset.ruleId;
+            item.classList.add('dragging');
+            e.dataTransfer?.setData('text/plain', item.dataset.ruleId);
+        });
+
+        this.rulesContainer.addEventListener('dragover', (e: DragEvent) => {
+            const item = getRuleItem(e);
+            if (!this.draggedRuleId || !item?.dataset.ruleId) {
+                return;
+            }
+            // Allow dropping on rule items
+            e.preventDefault();
+            clearDropTargets();
+            if (item.dataset.ruleId !== this.draggedRuleId) {
+                item.classList.add('drag-over');
+            }
+        });
+
+        this.rulesContainer.addEventListener('drop', (e: DragEvent) => {
+            e.preventDefault();
+            const targetRuleId = getRuleItem(e)?.dataset.ruleId;
+            const ruleId = this.draggedRuleId;
+            if (ruleId && targetRuleId && targetRuleId !== ruleId) {
+                this.moveRule(ruleId, targetRuleId);
+            }
+        });
+
+        this.rulesContainer.addEventListener('dragend', (e: DragEvent) => {
+            getRuleItem(e)?.classList.remove('dragging');
+            clearDropTargets();
+            this.draggedRuleId = null;
+        });
+    }
+
     /**
      * Initialize UI localization
      */
@@ -319,9 +471,165 @@ export class Popup {
         if (response.success && response.rules) {
             // Store full rule objects including enabled state
             this.rules = response.rules;
+            this.tags = response.tags;
         } else {
             this.rules = [];
+            this.tags = [];
         }
+
+        // The filtered tag may be gone, e.g. after a profile switch
+        if (this.activeTag && !this.tags.includes(this.activeTag)) {
+            this.activeTag = null;
+        }
+
+        const listsResponse = await Messaging.sendMessage({
+            action: ACTIONS.GET_FILTER_LISTS,
+        });
+        this.subscriptionTitles = new Map(
+            (listsResponse.lists ?? [])
+                .filter((list) => list.subscription)
+                .map((list) => [list.id, list.title]),
+        );
+    }
+
+    /**
+     * Load rule profiles and fill the profile select
+     */
+    async loadProfiles(): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.GET_PROFILES,
+        });
+
+        if (response.success) {
+            this.profiles = response.profiles;
+            this.activeProfileId = response.activeProfileId;
+        } else {
+            logger.error('Failed to get profiles');
+        }
+
+        this.updateProfileSelect();
+    }
+
+    /**
+     * Render profile options, the active profile selected
+     */
+    updateProfileSelect(): void {
+        this.profileSelect.innerHTML = '';
+
+        this.profiles.forEach((profile) => {
+            const option = document.createElement('option');
+            option.value = profile.id;
+            option.textContent = profile.name;
+            option.selected = profile.id === this.activeProfileId;
+            this.profileSelect.appendChild(option);
+        });
+
+        const newOption = document.createElement('option');
+        newOption.value = NEW_PROFILE_OPTION;
+        newOption.textContent = 'New profile…';
+        this.profileSelect.appendChild(newOption);
+
+        // The default profile holds the top-level settings, keep it
+        const isDefault = this.activeProfileId === DEFAULT_PROFILE.ID;
+        this.deleteProfileBtn.style.display = isDefault ? 'none' : '';
+    }
+
+    /**
+     * Switch to another rule profile
+     * Rules, blocking status and thresholds are reloaded for it
+     * @param profileId Profile ID
+     */
+    async switchProfile(profileId: string): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.SWITCH_PROFILE,
+            profileId,
+        });
+
+        if (!response.success || !response.profile) {
+            this.showStatus(
+                response.error || 'Failed to switch profile',
+                'error',
+            );
+            this.updateProfileSelect();
+            return;
+        }
+
+        await this.showActiveProfile();
+        this.showStatus(`Switched to "${response.profile.name}"`, 'success');
+    }
+
+    /**
+     * Ask for a name and create an empty profile, then switch to it
+     */
+    async createProfile(): Promise<void> {
+        // eslint-disable-next-line no-restricted-globals, no-alert
+        const name = prompt('Profile name:');
+        if (!name?.trim()) {
+            this.updateProfileSelect();
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.CREATE_PROFILE,
+            name,
+        });
+
+        if (!response.success || !response.profile) {
+            this.showStatus(
+                response.error || 'Failed to create profile',
+                'error',
+            );
+            this.updateProfileSelect();
+            return;
+        }
+
+        await this.switchProfile(response.profile.id);
+    }
+
+    /**
+     * Delete the active profile after confirmation
+     * The background switches back to the default profile
+     */
+    async deleteProfile(): Promise<void> {
+        const profile = this.profiles.find(
+            ({ id }) => id === this.activeProfileId,
+        );
+        if (!profile || profile.id === DEFAULT_PROFILE.ID) {
+            return;
+        }
+
+        const confirmMessage = `Delete profile "${profile.name}" `
+            + 'and its rules?';
+        // eslint-disable-next-line no-restricted-globals, no-alert
+        if (!confirm(confirmMessage)) {
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.DELETE_PROFILE,
+            profileId: profile.id,
+        });
+
+        if (!response.success) {
+            this.showStatus(
+                response.error || 'Failed to delete profile',
+                'error',
+            );
+            return;
+        }
+
+        await this.showActiveProfile();
+        this.showStatus(`Deleted profile "${profile.name}"`, 'success');
+    }
+
+    /**
+     * Reload everything that belongs to the active profile
+     */
+    async showActiveProfile(): Promise<void> {
+        await this.loadProfiles();
+        await this.loadSettings();
+        await this.loadThresholds();
+        this.updateRulesDisplay();
     }
 
     /**
@@ -355,8 +663,11 @@ export class Popup {
 
     /**
      * Update rules display
+     * Blocking rules are listed first, exception rules in their own group
      */
     updateRulesDisplay(): void {
+        this.updateTagFilter();
+
         if (this.rules.length === 0) {
             this.emptyRules.style.display = 'block';
             this.rulesContainer.innerHTML = '';
@@ -367,31 +678,212 @@ export class Popup {
         this.emptyRules.style.display = 'none';
         this.rulesContainer.innerHTML = '';
 
+        const exceptionItems: HTMLElement[] = [];
         this.rules.forEach((rule, index) => {
-            const ruleItem = document.createElement('div');
-            ruleItem.className = 'rule-item';
-            ruleItem.setAttribute('data-rule-index', index.toString());
-            if (!rule.enabled) {
-                ruleItem.classList.add('disabled');
+            if (this.activeTag && !rule.tags?.includes(this.activeTag)) {
+                return;
             }
+            const subscriptionTitle = rule.listId
+                ? this.subscriptionTitles.get(rule.listId)
+                : undefined;
+            const ruleItem = Popup.createRuleItem(
+                rule,
+                index,
+                subscriptionTitle,
+            );
+            if (rule.type === RULE_TYPE.EXCEPTION) {
+                exceptionItems.push(ruleItem);
+            } else {
+                this.rulesContainer.appendChild(ruleItem);
+            }
+        });
+
+        if (exceptionItems.length > 0) {
+            const header = document.createElement('div');
+            header.className = 'rules-group-header';
+            header.textContent = Translator.getMessage('exceptionRules');
+            this.rulesContainer.appendChild(header);
+            exceptionItems.forEach((item) => {
+                this.rulesContainer.appendChild(item);
+            });
+        }
+    }
+
+    /**
+     * Render tag filter chips, with a button toggling all rules
+     * of the selected tag
+     * Hidden while no rule has tags
+     */
+    updateTagFilter(): void {
+        this.tagFilter.replaceChildren();
+        this.tagFilter.style.display = this.tags.length > 0 ? 'flex' : 'none';
+        if (this.tags.length === 0) {
+            return;
+        }
+
+        const createChip = (tag: string, text: string) => {
+            const chip = document.createElement('button');
+            chip.className = 'tag-chip';
+            chip.dataset.tag = tag;
+            chip.textContent = text;
+            chip.classList.toggle('active', tag === (this.activeTag ?? ''));
+            return chip;
+        };
+        this.tagFilter.append(
+            createChip('', 'All'),
+            ...this.tags.map((tag) => createChip(tag, `#${tag}`)),
+        );
+
+        if (!this.activeTag) {
+            return;
+        }
+
+        // Disable all when every toggleable rule of the tag is enabled
+        const taggedRules = this.rules.filter(
+            (rule) => rule.tags?.includes(this.activeTag!)
+                && !(rule.listId && this.subscriptionTitles.has(rule.listId)),
+        );
+        const allEnabled = taggedRules.every((rule) => rule.enabled);
+        const toggle = document.createElement('button');
+        toggle.className = 'tag-toggle';
+        toggle.dataset.tag = this.activeTag;
+        toggle.dataset.enabled = String(!allEnabled);
+        toggle.textContent = allEnabled ? 'Disable all' : 'Enable all';
+        toggle.disabled = taggedRules.length === 0;
+        this.tagFilter.append(toggle);
+    }
+
+    /**
+     * Create rule list item element
+     * Rules of a subscription are read-only, they have no toggle,
+     * edit or remove controls and can't be dragged
+     * @param rule Rule to display
+     * @param index Rule index in the rules array
+     * @param subscriptionTitle Title of the subscription the rule is from
+     * @returns Rule item element
+     */
+    static createRuleItem(
+        rule: Rule,
+        index: number,
+        subscriptionTitle?: string,
+    ): HTMLElement {
+        const ruleItem = document.createElement('div');
+        ruleItem.className = 'rule-item';
+        ruleItem.setAttribute('data-rule-index', index.toString());
+        ruleItem.dataset.ruleId = rule.id;
+        // Subscription rules keep the order of their list
+        ruleItem.draggable = !subscriptionTitle;
+        if (!rule.enabled) {
+            ruleItem.classList.add('disabled');
+        }
+        if (rule.type === RULE_TYPE.EXCEPTION) {
+            ruleItem.classList.add('exception');
+        } else if (rule.type === RULE_TYPE.COSMETIC) {
+            ruleItem.classList.add('cosmetic');
+        }
 
-            const checked = rule.enabled ? 'checked' : '';
-            const ruleString = rule.ruleString || rule;
-            ruleItem.innerHTML = `
+        const checked = rule.enabled ? 'checked' : '';
+        const ruleString = rule.ruleString || rule;
+        const readOnly = subscriptionTitle !== undefined;
+        const toggleTitle = readOnly
+            ? 'Managed by a subscription'
+            : 'Enable/disable this rule';
+        ruleItem.innerHTML = `
+        <span class="drag-handle" title="Drag to change priority">⋮⋮</span>
         <input type="checkbox"
           class="rule-toggle"
           data-rule-id="${rule.id}"
           ${checked}
-          title="Enable/disable this rule">
-        <span class="rule-text" title="${ruleString}">${ruleString}</span>
-        <div class="rule-actions">
+          ${readOnly ? 'disabled' : ''}
+          title="${toggleTitle}">
+        <div class="rule-content">
+          <span class="rule-text" title="${ruleString}">${ruleString}</span>
+          ${Popup.createModifiersHtml(rule)}
+          ${Popup.createTagsHtml(rule)}
+        </div>
+        ${readOnly ? '' : `<div class="rule-actions">
+          <button class="btn-small tags" data-index="${index}"
+            title="Edit tags">🏷️</button>
           <button class="btn-small edit" data-index="${index}">✏️</button>
           <button class="btn-small remove" data-index="${index}">×</button>
-        </div>
+        </div>`}
       `;
 
-            this.rulesContainer.appendChild(ruleItem);
-        });
+        if (readOnly) {
+            ruleItem.classList.add('read-only');
+            const badge = document.createElement('span');
+            badge.className = 'rule-modifier';
+            badge.textContent = `🔄 ${subscriptionTitle}`;
+            badge.title = 'Subscription rule, update it from the list';
+            ruleItem.querySelector('.rule-content')!.append(badge);
+        }
+
+        return ruleItem;
+    }
+
+    /**
+     * Create badges for per-rule threshold, model, action, schedule
+     * and overlay label
+     * @param rule Rule to display modifiers for
+     * @returns HTML string with modifier badges (empty if none)
+     */
+    static createModifiersHtml(rule: Rule): string {
+        const { modifiers } = rule;
+        if (!modifiers) {
+            return '';
+        }
+
+        const badge = (title: string, text: string) => (
+            `<span class="rule-modifier" title="${title}">${text}</span>`
+        );
+        const badges: string[] = [];
+        if (modifiers.threshold !== undefined) {
+            const percent = Math.round(modifiers.threshold * 100);
+            badges.push(badge('Threshold', `≥ ${percent}%`));
+        }
+        if (modifiers.model) {
+            const modelName = ALL_MODELS_MAP[modifiers.model]?.name
+                ?? modifiers.model;
+            badges.push(badge(modifiers.model, `🤖 ${modelName}`));
+        }
+        if (modifiers.action) {
+            badges.push(badge('Action', modifiers.action));
+        }
+        if (modifiers.schedule) {
+            const now = new Date();
+            const status = getScheduleStatus(modifiers.schedule, now);
+            const inactive = status.active ? '' : ' schedule-inactive';
+            badges.push(
+                `<span class="rule-modifier${inactive}" title="Schedule">`
+                + `⏰ ${formatScheduleStatus(status, now)}</span>`,
+            );
+        }
+        if (modifiers.label || modifiers.category) {
+            const title = modifiers.category
+                ? `Category: ${modifiers.category}`
+                : 'Overlay label';
+            const text = modifiers.label
+                ?? Translator.getCategoryName(modifiers.category!);
+            badges.push(badge(title, `🏷️ ${text}`));
+        }
+
+        return `<div class="rule-modifiers">${badges.join('')}</div>`;
+    }
+
+    /**
+     * Create badges for rule tags
+     * @param rule Rule to display tags for
+     * @returns HTML string with tag badges (empty if none)
+     */
+    static createTagsHtml(rule: Rule): string {
+        if (!rule.tags?.length) {
+            return '';
+        }
+
+        const badges = rule.tags.map(
+            (tag) => `<span class="rule-tag">#${tag}</span>`,
+        );
+        return `<div class="rule-modifiers">${badges.join('')}</div>`;
     }
 
     /**
@@ -412,9 +904,10 @@ export class Popup {
         });
 
         if (!validationResponse.success || !validationResponse.valid) {
-            this.showStatus(Translator.getMessage('invalidFormat'), 'error');
+            this.showRuleError(ruleString, validationResponse);
             return;
         }
+        this.hideRuleError();
 
         // Check if rule already exists
         const ruleStrings = this.rules.map((r) => r.ruleString || r);
@@ -460,6 +953,9 @@ export class Popup {
         }
         const { ruleString } = currentRule;
 
+        // Text selection in the editor must not drag the rule
+        (ruleItem as HTMLElement).draggable = false;
+
         // Replace rule item content with inline editor
         ruleItem.innerHTML = `
       <input type="text" class="rule-edit-input"
@@ -519,9 +1015,10 @@ export class Popup {
         });
 
         if (!validationResponse.success || !validationResponse.valid) {
-            this.showStatus(Translator.getMessage('invalidFormat'), 'error');
+            this.showRuleError(newRule, validationResponse);
             return;
         }
+        this.hideRuleError();
 
         // Check if the new rule already exists (but not the current one)
         const ruleStrings = this.rules.map((r) => r.ruleString || r);
@@ -533,9 +1030,12 @@ export class Popup {
         // Edit = remove old + add new (via background script)
         await this.removeRule(index);
 
+        // Tags and priority belong to the rule, not to its text
         const response = await Messaging.sendMessage({
             action: ACTIONS.ADD_RULE,
             ruleString: newRule,
+            tags: currentRule.tags,
+            index,
         });
 
         if (!response.success) {
@@ -554,9 +1054,56 @@ export class Popup {
      * Cancel editing
      */
     cancelEditRule(): void {
+        this.hideRuleError();
         this.updateRulesDisplay(); // Just refresh to show original rule
     }
 
+    /**
+     * Show rule validation error with the invalid part underlined
+     * @param ruleString Rule string that failed validation
+     * @param validation Validation response from background
+     */
+    showRuleError(
+        ruleString: string,
+        validation: ValidateRuleResponse,
+    ): void {
+        this.ruleError.replaceChildren();
+
+        if (validation.offset !== undefined) {
+            const start = validation.offset;
+            const end = start + (validation.length ?? 1);
+
+            const mark = document.createElement('span');
+            mark.className = 'rule-error-mark';
+            // Errors at the end of the rule point past the last character
+            mark.textContent = ruleString.substring(start, end) || ' ';
+
+            const source = document.createElement('div');
+            source.className = 'rule-error-source';
+            source.append(
+                ruleString.substring(0, start),
+                mark,
+                ruleString.substring(end),
+            );
+            this.ruleError.append(source);
+        }
+
+        const message = document.createElement('div');
+        message.className = 'rule-error-message';
+        message.textContent = validation.error
+            || Translator.getMessage('invalidFormat');
+        this.ruleError.append(message);
+
+        this.ruleError.style.display = 'block';
+    }
+
+    /**
+     * Hide rule validation error
+     */
+    hideRuleError(): void {
+        this.ruleError.style.display = 'none';
+    }
+
     /**
      * Remove rule
      * @param {number} index Rule index to remove
@@ -621,6 +1168,87 @@ export class Popup {
         this.showStatus(`Rule ${state}`, 'success');
     }
 
+    /**
+     * Move a rule to the position of another one
+     * @param ruleId Rule ID to move
+     * @param targetRuleId ID of the rule it was dropped on
+     */
+    async moveRule(ruleId: string, targetRuleId: string): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.MOVE_RULE,
+            ruleId,
+            targetRuleId,
+        });
+
+        if (!response.success) {
+            this.showStatus('Failed to move rule', 'error');
+            return;
+        }
+
+        await this.loadRulesFromBackground();
+        this.updateRulesDisplay();
+        this.showStatus('Rule priority updated', 'success');
+    }
+
+    /**
+     * Ask for comma-separated tags and replace the rule's tags
+     * @param index Rule index to edit tags of
+     */
+    async editRuleTags(index: number): Promise<void> {
+        const rule = this.rules[index];
+        if (!rule) {
+            return;
+        }
+
+        // eslint-disable-next-line no-restricted-globals, no-alert
+        const input = prompt(
+            'Tags (comma-separated):',
+            (rule.tags ?? []).join(', '),
+        );
+        if (input === null) {
+            return;
+        }
+
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.SET_RULE_TAGS,
+            ruleId: rule.id,
+            tags: input.split(','),
+        });
+
+        if (!response.success) {
+            this.showStatus('Failed to update tags', 'error');
+            return;
+        }
+
+        await this.loadRulesFromBackground();
+        this.updateRulesDisplay();
+        this.showStatus('Tags updated', 'success');
+    }
+
+    /**
+     * Enable/disable all rules with a tag
+     * @param tag Tag of the rules
+     * @param enabled New enabled state
+     */
+    async toggleTag(tag: string, enabled: boolean): Promise<void> {
+        const response = await Messaging.sendMessage({
+            action: ACTIONS.TOGGLE_TAG,
+            tag,
+            enabled,
+        });
+
+        if (!response.success) {
+            this.showStatus(`Failed to toggle #${tag}`, 'error');
+            return;
+        }
+
+        await this.loadRulesFromBackground();
+        this.updateRulesDisplay();
+
+        const state = enabled ? 'enabled' : 'disabled';
+        this.showStatus(`${response.count} #${tag} rules ${state}`, 'success');
+    }
+
     /**
      * Load thresholds from background
      */
@@ -8,6 +8,9 @@ export const DEFAULT_EMBEDDING_THRESHOLD = 0.32; // For embedding rules
 export const DEFAULT_PROMPT_THRESHOLD = 0.7;
 // For vision rules (vision model confidence)
 export const DEFAULT_VISION_THRESHOLD = 0.7;
+// How much the closest positive anchor of an embedding rule
+// has to beat the closest negative anchor by
+export const EMBEDDING_NEGATIVE_MARGIN = 0.05;
 
 // Ground truth labels for element classification
 export const GROUND_TRUTH = {
@@ -25,10 +28,12 @@ export const MAX_TEXT_LENGTH = 4000;
 export const LLM_PROVIDERS = {
     CHROME_PROMPT: 'chromePrompt',
     LMSTUDIO: 'lmstudio',
+    OLLAMA: 'ollama',
     OPENAI: 'openai',
     OPENROUTER: 'openrouter',
-    // Future providers can be added here
-    // ANTHROPIC: 'anthropic',
+    ANTHROPIC: 'anthropic',
+    // OpenAI-compatible servers configured in the options
+    CUSTOM: 'custom',
 } as const;
 
 export type LLMProvider = typeof LLM_PROVIDERS[keyof typeof LLM_PROVIDERS];
@@ -47,6 +52,20 @@ export function getModelId(modelName: string, provider: LLMProvider): string {
     return `${provider}:${modelName}`;
 }
 
+/**
+ * Generate a unique model ID for a model of a custom provider
+ * Several custom providers can serve models with the same name
+ * @param instanceId ID of the custom provider
+ * @param modelName The model name
+ * @returns Unique ID in "custom:instanceId:modelName" format
+ */
+export function getCustomModelId(
+    instanceId: string,
+    modelName: string,
+): string {
+    return getModelId(`${instanceId}:${modelName}`, LLM_PROVIDERS.CUSTOM);
+}
+
 // Model names (to avoid duplication)
 const QWEN3_EMBEDDING_MODEL = 'text-embedding-qwen3-embedding-0.6b';
 const OPENAI_TEXT_EMBEDDING_3_LARGE = 'text-embedding-3-large';
@@ -58,6 +77,10 @@ const CHROME_GEMINI_NANO_VISION = 'gemini-nano-vision';
 const GOOGLE_GEMINI_2_5_FLASH = 'google/gemini-2.5-flash';
 const GOOGLE_GEMINI_2_5_FLASH_LITE = 'google/gemini-2.5-flash-lite';
 const ANTHROPIC_CLAUDE_3_HAIKU = 'anthropic/claude-3-haiku';
+const OLLAMA_QWEN3_EMBEDDING = 'qwen3-embedding:0.6b';
+const OLLAMA_GEMMA_3_4B = 'gemma3:4b';
+const CLAUDE_HAIKU_4_5 = 'claude-haiku-4-5';
+const CLAUDE_SONNET_4_5 = 'claude-sonnet-4-5';
 
 // Default AI model configurations
 // LM Studio
@@ -77,6 +100,106 @@ export const DEFAULT_VISION_MODEL = getModelId(
     LLM_PROVIDERS.OPENAI,
 );
 
+/**
+ * Kinds of data a model takes or produces
+ */
+export const MODALITY = {
+    TEXT: 'text',
+    IMAGE: 'image',
+    EMBEDDING: 'embedding',
+} as const;
+
+export type Modality = typeof MODALITY[keyof typeof MODALITY];
+
+/**
+ * Model price in USD per 1M tokens
+ */
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+/**
+ * What a model can do
+ * The models offered for each rule type, rule validation and the options
+ * page are all derived from it
+ */
+export interface ModelCapabilities {
+    input: Modality[]; // Text, and images for vision models
+    output: Modality[]; // Text answers or embedding vectors
+    maxInputTokens?: number; // If known
+    structuredOutput: boolean; // Output can be constrained to a JSON schema
+    logprobs: boolean; // Can return token log probabilities
+    pricing?: ModelPricing; // Unset for local models and unknown prices
+}
+
+/**
+ * What an adapter can pass between the extension and its provider
+ * Models can't do more through the adapter than it supports
+ */
+export interface AdapterCapabilities {
+    input: Modality[];
+    output: Modality[];
+    structuredOutput: boolean; // Requests JSON schema output
+    logprobs: boolean; // Requests token log probabilities
+    requiresApiKey: boolean;
+}
+
+/**
+ * Capabilities of the adapter of each provider
+ */
+export const PROVIDER_CAPABILITIES: Record<LLMProvider, AdapterCapabilities> = {
+    [LLM_PROVIDERS.CHROME_PROMPT]: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT],
+        structuredOutput: true,
+        logprobs: false,
+        requiresApiKey: false,
+    },
+    [LLM_PROVIDERS.LMSTUDIO]: {
+        input: [MODALITY.TEXT],
+        output: [MODALITY.TEXT, MODALITY.EMBEDDING],
+        structuredOutput: false,
+        logprobs: false,
+        requiresApiKey: false,
+    },
+    [LLM_PROVIDERS.OLLAMA]: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT, MODALITY.EMBEDDING],
+        structuredOutput: true,
+        logprobs: false,
+        requiresApiKey: false,
+    },
+    [LLM_PROVIDERS.OPENAI]: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT, MODALITY.EMBEDDING],
+        structuredOutput: false,
+        logprobs: false,
+        requiresApiKey: true,
+    },
+    [LLM_PROVIDERS.OPENROUTER]: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT],
+        structuredOutput: true,
+        logprobs: false,
+        requiresApiKey: true,
+    },
+    [LLM_PROVIDERS.ANTHROPIC]: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT],
+        structuredOutput: false,
+        logprobs: false,
+        requiresApiKey: true,
+    },
+    [LLM_PROVIDERS.CUSTOM]: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT, MODALITY.EMBEDDING],
+        structuredOutput: false,
+        logprobs: false,
+        requiresApiKey: false,
+    },
+};
+
 /**
  * Model option structure
  * Simple data-only structure - UI strings generated where needed
@@ -85,80 +208,228 @@ export interface ModelOption {
     id: string; // Unique ID: "provider:modelName"
     name: string; // Model name to send to API
     provider: LLMProvider; // Provider enum
+    instance?: CustomProviderInstance; // Custom provider serving the model
+    capabilities: ModelCapabilities;
+}
+
+/**
+ * Model listed by a provider
+ */
+export interface DiscoveredModel {
+    name: string; // Model name to send to API
+    capabilities: ModelCapabilities;
+}
+
+/**
+ * Custom provider serving a model, one of several side by side
+ */
+export interface CustomProviderInstance {
+    id: string;
+    name: string;
 }
 
 const addId = (
     {
         name,
         provider,
+        capabilities,
     }: {
         name: string;
-        provider: LLMProvider
+        provider: LLMProvider;
+        capabilities: ModelCapabilities;
     },
-) => ({
+): ModelOption => ({
     id: getModelId(name, provider),
     name,
     provider,
+    capabilities,
+});
+
+/**
+ * Capabilities of embedding models
+ * @param maxInputTokens Maximum input in tokens
+ * @param pricing Price per 1M tokens, unset for local models
+ * @returns Model capabilities
+ */
+const embeddingCapabilities = (
+    maxInputTokens: number,
+    pricing?: ModelPricing,
+): ModelCapabilities => ({
+    input: [MODALITY.TEXT],
+    output: [MODALITY.EMBEDDING],
+    maxInputTokens,
+    structuredOutput: false,
+    logprobs: false,
+    pricing,
+});
+
+/**
+ * Capabilities of chat models
+ * @param capabilities Capabilities that differ between chat models
+ * @param capabilities.vision Whether images are accepted
+ * @returns Model capabilities
+ */
+const chatCapabilities = (
+    {
+        vision,
+        ...capabilities
+    }: Omit<ModelCapabilities, 'input' | 'output' | 'logprobs'> & {
+        vision: boolean;
+    },
+): ModelCapabilities => ({
+    input: vision ? [MODALITY.TEXT, MODALITY.IMAGE] : [MODALITY.TEXT],
+    output: [MODALITY.TEXT],
+    logprobs: false,
+    ...capabilities,
+});
+
+const GPT_5_NANO_CAPABILITIES = chatCapabilities({
+    vision: true,
+    maxInputTokens: 272000,
+    structuredOutput: true,
+    pricing: { input: 0.05, output: 0.4 },
+});
+
+const GPT_5_MINI_CAPABILITIES = chatCapabilities({
+    vision: true,
+    maxInputTokens: 272000,
+    structuredOutput: true,
+    pricing: { input: 0.25, output: 2 },
 });
 
 const QWEN_3_EMBEDDING_LM_STUDIO = addId({
     name: QWEN3_EMBEDDING_MODEL,
     provider: LLM_PROVIDERS.LMSTUDIO,
+    capabilities: embeddingCapabilities(32768),
 });
 
 const TEXT_EMBEDDING_3_LARGE_OPEN_AI = addId({
     name: OPENAI_TEXT_EMBEDDING_3_LARGE,
     provider: LLM_PROVIDERS.OPENAI,
+    capabilities: embeddingCapabilities(8191, { input: 0.13, output: 0 }),
 });
 
 const GOOGLE_GEMINI_NANO_CHROME_PROMPT = addId({
     name: CHROME_GEMINI_NANO,
     provider: LLM_PROVIDERS.CHROME_PROMPT,
+    capabilities: chatCapabilities({
+        vision: false,
+        structuredOutput: true,
+    }),
 });
 
 const GOOGLE_GEMMA_3N_E4B_LM_STUDIO = addId({
     name: GOOGLE_GEMMA_3N_E4B,
     provider: LLM_PROVIDERS.LMSTUDIO,
+    capabilities: chatCapabilities({
+        vision: false,
+        maxInputTokens: 32768,
+        structuredOutput: true,
+    }),
+});
+
+const QWEN_3_EMBEDDING_OLLAMA = addId({
+    name: OLLAMA_QWEN3_EMBEDDING,
+    provider: LLM_PROVIDERS.OLLAMA,
+    capabilities: embeddingCapabilities(32768),
+});
+
+const GOOGLE_GEMMA_3_4B_OLLAMA = addId({
+    name: OLLAMA_GEMMA_3_4B,
+    provider: LLM_PROVIDERS.OLLAMA,
+    capabilities: chatCapabilities({
+        vision: true,
+        maxInputTokens: 131072,
+        structuredOutput: true,
+    }),
 });
 
 const GPT_5_NANO_OPEN_AI = addId({
     name: GPT_5_NANO,
     provider: LLM_PROVIDERS.OPENAI,
+    capabilities: GPT_5_NANO_CAPABILITIES,
 });
 
 const OPENAI_GPT_5_NANO_OPEN_ROUTER = addId({
     name: GPT_5_NANO,
     provider: LLM_PROVIDERS.OPENROUTER,
+    capabilities: GPT_5_NANO_CAPABILITIES,
 });
 
 const GPT_5_MINI_OPEN_AI = addId({
     name: GPT_5_MINI,
     provider: LLM_PROVIDERS.OPENAI,
+    capabilities: GPT_5_MINI_CAPABILITIES,
 });
 
 const OPENAI_GPT_5_MINI_OPEN_ROUTER = addId({
     name: GPT_5_MINI,
     provider: LLM_PROVIDERS.OPENROUTER,
+    capabilities: GPT_5_MINI_CAPABILITIES,
 });
 
 const GOOGLE_GEMINI_2_5_FLASH_OPEN_ROUTER = addId({
     name: GOOGLE_GEMINI_2_5_FLASH,
     provider: LLM_PROVIDERS.OPENROUTER,
+    capabilities: chatCapabilities({
+        vision: true,
+        maxInputTokens: 1048576,
+        structuredOutput: true,
+        pricing: { input: 0.3, output: 2.5 },
+    }),
 });
 
 const GOOGLE_GEMINI_2_5_FLASH_LITE_OPEN_ROUTER = addId({
     name: GOOGLE_GEMINI_2_5_FLASH_LITE,
     provider: LLM_PROVIDERS.OPENROUTER,
+    capabilities: chatCapabilities({
+        vision: true,
+        maxInputTokens: 1048576,
+        structuredOutput: true,
+        pricing: { input: 0.1, output: 0.4 },
+    }),
 });
 
 const ANTHROPIC_CLAUDE_3_HAIKU_OPEN_ROUTER = addId({
     name: ANTHROPIC_CLAUDE_3_HAIKU,
     provider: LLM_PROVIDERS.OPENROUTER,
+    capabilities: chatCapabilities({
+        vision: true,
+        maxInputTokens: 200000,
+        structuredOutput: false,
+        pricing: { input: 0.25, output: 1.25 },
+    }),
+});
+
+const CLAUDE_HAIKU_4_5_ANTHROPIC = addId({
+    name: CLAUDE_HAIKU_4_5,
+    provider: LLM_PROVIDERS.ANTHROPIC,
+    capabilities: chatCapabilities({
+        vision: true,
+        maxInputTokens: 200000,
+        structuredOutput: false,
+        pricing: { input: 1, output: 5 },
+    }),
+});
+
+const CLAUDE_SONNET_4_5_ANTHROPIC = addId({
+    name: CLAUDE_SONNET_4_5,
+    provider: LLM_PROVIDERS.ANTHROPIC,
+    capabilities: chatCapabilities({
+        vision: true,
+        maxInputTokens: 200000,
+        structuredOutput: false,
+        pricing: { input: 3, output: 15 },
+    }),
 });
 
 const GOOGLE_GEMINI_NANO_VISION_CHROME_PROMPT = addId({
     name: CHROME_GEMINI_NANO_VISION,
     provider: LLM_PROVIDERS.CHROME_PROMPT,
+    capabilities: chatCapabilities({
+        vision: true,
+        structuredOutput: true,
+    }),
 });
 
 export const ALL_MODELS = [
@@ -166,6 +437,8 @@ export const ALL_MODELS = [
     TEXT_EMBEDDING_3_LARGE_OPEN_AI,
     GOOGLE_GEMINI_NANO_CHROME_PROMPT,
     GOOGLE_GEMMA_3N_E4B_LM_STUDIO,
+    QWEN_3_EMBEDDING_OLLAMA,
+    GOOGLE_GEMMA_3_4B_OLLAMA,
     GPT_5_NANO_OPEN_AI,
     GPT_5_MINI_OPEN_AI,
     OPENAI_GPT_5_MINI_OPEN_ROUTER,
@@ -174,6 +447,8 @@ export const ALL_MODELS = [
     GOOGLE_GEMINI_2_5_FLASH_LITE_OPEN_ROUTER,
     GOOGLE_GEMINI_NANO_VISION_CHROME_PROMPT,
     ANTHROPIC_CLAUDE_3_HAIKU_OPEN_ROUTER,
+    CLAUDE_HAIKU_4_5_ANTHROPIC,
+    CLAUDE_SONNET_4_5_ANTHROPIC,
 ];
 
 /**
@@ -188,60 +463,161 @@ export const ALL_MODELS_MAP: Record<string, ModelOption> = ALL_MODELS.reduce(
     {} as Record<string, ModelOption>,
 );
 
-/**
- * Available model IDs for each category (references to ALL_MODELS)
- */
-export const EMBEDDING_MODELS: string[] = [
-    QWEN_3_EMBEDDING_LM_STUDIO.id,
-    TEXT_EMBEDDING_3_LARGE_OPEN_AI.id,
-];
-
-export const PROMPT_MODELS: string[] = [
-    GOOGLE_GEMINI_NANO_CHROME_PROMPT.id,
-    GOOGLE_GEMMA_3N_E4B_LM_STUDIO.id,
-    GPT_5_NANO_OPEN_AI.id,
-    OPENAI_GPT_5_NANO_OPEN_ROUTER.id,
-    GOOGLE_GEMINI_2_5_FLASH_OPEN_ROUTER.id,
-    GOOGLE_GEMINI_2_5_FLASH_LITE_OPEN_ROUTER.id,
-    ANTHROPIC_CLAUDE_3_HAIKU_OPEN_ROUTER.id,
-];
-
-export const VISION_MODELS: string[] = [
-    GOOGLE_GEMINI_NANO_VISION_CHROME_PROMPT.id,
-    GPT_5_MINI_OPEN_AI.id,
-    OPENAI_GPT_5_MINI_OPEN_ROUTER.id,
-    GOOGLE_GEMINI_2_5_FLASH_OPEN_ROUTER.id,
-    GOOGLE_GEMINI_2_5_FLASH_LITE_OPEN_ROUTER.id,
-    ANTHROPIC_CLAUDE_3_HAIKU_OPEN_ROUTER.id,
-];
-
 // Rule type constants
 export const RULE_TYPE = {
     EMBEDDING: 'embedding',
     PROMPT: 'prompt',
     VISION: 'vision',
+    EXCEPTION: 'exception',
+    COSMETIC: 'cosmetic',
 } as const;
 
 export type RuleType = typeof RULE_TYPE[keyof typeof RULE_TYPE];
 
+// Rule action constants (what happens to a matched element)
+export const RULE_ACTION = {
+    BLUR: 'blur',
+    HIDE: 'hide',
+} as const;
+
+export type RuleAction = typeof RULE_ACTION[keyof typeof RULE_ACTION];
+
+// Rule modifier names used after the $ separator
+export const RULE_MODIFIER = {
+    THRESHOLD: 'threshold',
+    MODEL: 'model',
+    ACTION: 'action',
+    SCHEDULE: 'schedule',
+    LABEL: 'label',
+    CATEGORY: 'category',
+} as const;
+
+// Built-in rule categories, shown localized on the blur overlay.
+// Other categories are allowed and shown as written
+export const RULE_CATEGORY = {
+    AD: 'ad',
+    SPOILER: 'spoiler',
+    POLITICS: 'politics',
+    NSFW: 'nsfw',
+    RAGE_BAIT: 'rage-bait',
+} as const;
+
+export type RuleCategory = typeof RULE_CATEGORY[keyof typeof RULE_CATEGORY];
+
+// messages.json keys of the built-in category names
+export const RULE_CATEGORY_MESSAGES: Record<RuleCategory, string> = {
+    [RULE_CATEGORY.AD]: 'categoryAd',
+    [RULE_CATEGORY.SPOILER]: 'categorySpoiler',
+    [RULE_CATEGORY.POLITICS]: 'categoryPolitics',
+    [RULE_CATEGORY.NSFW]: 'categoryNsfw',
+    [RULE_CATEGORY.RAGE_BAIT]: 'categoryRageBait',
+};
+
+// Targeting operators: the rule classifies text from one element
+// and acts on another, e.g. h3:contains-meaning-*('...'):upward(2)
+export const TARGET_OPERATOR = {
+    UPWARD: 'upward',
+    TEXT_FROM: 'text-from',
+} as const;
+
+export type TargetOperator =
+    typeof TARGET_OPERATOR[keyof typeof TARGET_OPERATOR];
+
 // Rule format validation and parsing patterns
 export const RULE_PATTERNS = {
     // Domain-rule separator in rule syntax: domain1,domain2#?#selector:contains-meaning-*('...')
     DOMAIN_SEPARATOR: '#?#',
 
-    // Validation patterns (for format checking)
-    VALIDATION: {
-        EMBEDDING: /^.+:contains-meaning-embedding\(['"].+['"]?\)$/,
-        PROMPT: /^.+:contains-meaning-prompt\(['"].+['"]?\)$/,
-        VISION: /^.+:contains-meaning-vision\(['"].+['"]?\)$/,
-    },
+    // Exception (allowlist) separator: domain1,domain2#@?#selector[:contains-meaning-*('...')]
+    EXCEPTION_SEPARATOR: '#@?#',
 
-    // Parsing patterns (with capture groups for extraction)
-    PARSING: {
-        EMBEDDING: /^(.+?):contains-meaning-embedding\(['"](.+?)['"]?\)$/,
-        PROMPT: /^(.+?):contains-meaning-prompt\(['"](.+?)['"]?\)$/,
-        VISION: /^(.+?):contains-meaning-vision\(['"](.+?)['"]?\)$/,
-    },
+    // Cosmetic (plain CSS) rule separator: domain1,domain2##selector
+    COSMETIC_SEPARATOR: '##',
+
+    // Negated domain prefix: ~example.com excludes the domain from a rule
+    DOMAIN_NEGATION: '~',
+
+    // Modifier separator: selector:contains-meaning-*('...')$threshold=0.85,model=...,action=hide
+    MODIFIER_SEPARATOR: '$',
+
+    // Prefix of the AI pseudo-classes: :contains-meaning-embedding('...') etc.
+    PSEUDO_CLASS_PREFIX: ':contains-meaning-',
+
+    // Selector of page rules classifying the whole page: page:contains-meaning-prompt('...')
+    PAGE_SELECTOR: 'page',
+
+    // Named argument with negative embedding anchors: ('a' | 'b', not: 'c')
+    NEGATIVE_ANCHOR_ARGUMENT: 'not',
+} as const;
+
+// How the rules applicable to an element are combined, in priority order
+// (the order of the rule list)
+export const MATCH_STRATEGY = {
+    // The first matching rule wins, later rules are not analyzed
+    FIRST_MATCH: 'first-match',
+    // All rules are analyzed, the most confident result counts
+    BEST_CONFIDENCE: 'best-confidence',
+    // All rules are analyzed, a number of them must match
+    CONSENSUS: 'consensus',
+} as const;
+
+export type MatchStrategy = typeof MATCH_STRATEGY[keyof typeof MATCH_STRATEGY];
+
+export const DEFAULT_MATCH_STRATEGY: MatchStrategy = (
+    MATCH_STRATEGY.BEST_CONFIDENCE
+);
+
+// Matching rules needed with the consensus strategy
+export const DEFAULT_CONSENSUS_COUNT = 2;
+
+// Kinds of problems found between rules by the rule analyzer
+export const RULE_FINDING = {
+    // Same rule string listed more than once
+    DUPLICATE: 'duplicate',
+    // Same selector and domains with the same or similar criteria
+    SIMILAR: 'similar',
+    // Same rule applying only where a broader rule already applies
+    SHADOWED: 'shadowed',
+    // Same rule on different domains, can be merged
+    OVERLAPPING: 'overlapping',
+} as const;
+
+export type RuleFindingKind = typeof RULE_FINDING[keyof typeof RULE_FINDING];
+
+// One-click fixes of rule analyzer findings
+export const RULE_FIX_ACTION = {
+    REMOVE: 'remove',
+    MERGE: 'merge',
+} as const;
+
+// Formats rules are exported to and imported from
+export const RULE_EXPORT_FORMAT = {
+    // Filter list with one rule string per line
+    TEXT: 'text',
+    // Rule strings with their enabled state, tags and list ID
+    JSON: 'json',
+} as const;
+
+export type RuleExportFormat = typeof RULE_EXPORT_FORMAT[
+    keyof typeof RULE_EXPORT_FORMAT
+];
+
+// How imported rules are combined with the current rules
+export const RULE_IMPORT_MODE = {
+    // Add rules that are not there yet
+    MERGE: 'merge',
+    // Remove the current rules first, subscribed rules are kept
+    REPLACE: 'replace',
+} as const;
+
+export type RuleImportMode = typeof RULE_IMPORT_MODE[
+    keyof typeof RULE_IMPORT_MODE
+];
+
+// Profile backed by the top-level rule settings, always present
+export const DEFAULT_PROFILE = {
+    ID: 'default',
+    NAME: 'Default',
 } as const;
 
 // Storage keys for settings and data
@@ -250,11 +626,13 @@ export const STORAGE_KEYS = {
     SETTINGS: 'settings',
     OPENAI_API_KEY: 'openaiApiKey',
     OPENROUTER_API_KEY: 'openrouterApiKey',
+    ANTHROPIC_API_KEY: 'anthropicApiKey',
     EMBEDDING_MODEL: 'embeddingModel',
     PROMPT_MODEL: 'promptModel',
     VISION_MODEL: 'visionModel',
     // Rule management
     AD_BLOCK_RULES: 'adBlockRules',
+    FILTER_LISTS: 'filterLists',
     // Thresholds (per-provider)
     EMBEDDING_THRESHOLD: 'embeddingThreshold',
     PROMPT_THRESHOLD: 'promptThreshold',
@@ -268,12 +646,15 @@ export const STORAGE_KEYS = {
     // Performance benchmarking
     EMBEDDING_BENCHMARK_ENABLED: 'embeddingBenchmarkEnabled',
     EMBEDDING_BENCHMARK_DATA: 'embeddingBenchmarkData',
+    // Models listed by the providers, by adapter key
+    DISCOVERED_MODELS: 'discoveredModels',
 } as const;
 
 // Settings property keys (matches Settings schema)
 export const SETTINGS_KEYS = {
     OPENAI_API_KEY: 'openaiApiKey',
     OPENROUTER_API_KEY: 'openrouterApiKey',
+    ANTHROPIC_API_KEY: 'anthropicApiKey',
     EMBEDDING_MODEL: 'embeddingModel',
     PROMPT_MODEL: 'promptModel',
     VISION_MODEL: 'visionModel',
@@ -283,7 +664,12 @@ export const SETTINGS_KEYS = {
     BLOCKING_ENABLED: 'blockingEnabled',
     SAVE_SCREENSHOTS_TO_DOWNLOADS: 'saveScreenshotsToDownloads',
     DEBUG_LOGGING: 'debugLogging',
+    MATCH_STRATEGY: 'matchStrategy',
+    CONSENSUS_COUNT: 'consensusCount',
     AD_BLOCK_RULES: 'adBlockRules',
+    FILTER_LISTS: 'filterLists',
+    PROFILES: 'profiles',
+    ACTIVE_PROFILE_ID: 'activeProfileId',
 } as const;
 
 // Port names for chrome.runtime port connections
@@ -299,22 +685,43 @@ export const ACTIONS = {
     ADD_RULE: 'addRule',
     ANALYSIS_COMPLETE: 'analysisComplete',
     ANALYZE_ELEMENTS: 'analyzeElements',
+    ANALYZE_PAGE: 'analyzePage',
+    ANALYZE_RULES: 'analyzeRules',
     CAPTURE_PAGE_SCREENSHOT: 'capturePageScreenshot',
     CLEAR_EMBEDDING_CACHE: 'clearEmbeddingCache',
+    CREATE_PROFILE: 'createProfile',
     CROP_IMAGE: 'cropImage',
+    DELETE_PROFILE: 'deleteProfile',
     DOWNLOAD_CANVAS_IMAGE: 'downloadCanvasImage',
+    EXPORT_RULES: 'exportRules',
     GET_ALL_RULES: 'getAllRules',
     GET_BLOCKING_STATUS: 'getBlockingStatus',
+    GET_FILTER_LISTS: 'getFilterLists',
+    GET_PROFILES: 'getProfiles',
     GET_RULES: 'getRules',
     GET_SETTINGS: 'getSettings',
     GET_THRESHOLDS: 'getThresholds',
+    IMPORT_FILTER_LIST: 'importFilterList',
+    IMPORT_RULES: 'importRules',
+    LIST_MODELS: 'listModels',
+    MERGE_RULES: 'mergeRules',
+    MOVE_RULE: 'moveRule',
+    PREVIEW_RULE_IMPORT: 'previewRuleImport',
+    REFRESH_FILTER_LIST: 'refreshFilterList',
+    REMOVE_FILTER_LIST: 'removeFilterList',
     REMOVE_RULE: 'removeRule',
+    RULES_CHANGED: 'rulesChanged',
     SCREENSHOT_CAPTURED: 'screenshotCaptured',
+    SET_RULE_TAGS: 'setRuleTags',
     SET_EMBEDDING_THRESHOLD: 'setEmbeddingThreshold',
     SET_PROMPT_THRESHOLD: 'setPromptThreshold',
     SET_VISION_THRESHOLD: 'setVisionThreshold',
     START_ANALYSIS: 'startAnalysis',
+    SUBSCRIBE_FILTER_LIST: 'subscribeFilterList',
+    SWITCH_PROFILE: 'switchProfile',
+    TOGGLE_FILTER_LIST: 'toggleFilterList',
     TOGGLE_RULE: 'toggleRule',
+    TOGGLE_TAG: 'toggleTag',
     UNBLOCK_ALL: 'unblockAll',
     UPDATE_SETTINGS: 'updateSettings',
     VALIDATE_RULE: 'validateRule',
@@ -340,6 +747,36 @@ export const EMBEDDING_BENCHMARK_CONFIG = {
     DEFAULT_ENABLED: false,
 } as const;
 
+// Filter list subscription configuration
+export const SUBSCRIPTION_CONFIG = {
+    ALARM_NAME: 'filter-list-subscriptions',
+    // How often subscriptions are checked for being due
+    CHECK_INTERVAL_MINUTES: 60,
+    // Update interval for lists without an "Expires" header (1 day)
+    DEFAULT_EXPIRES: 24 * 60 * 60 * 1000,
+    FETCH_TIMEOUT: 30000,
+    // Delay before retrying a failed list, doubled with every failure in
+    // a row up to the update interval of the list (1 hour)
+    RETRY_DELAY: 60 * 60 * 1000,
+    // URL schemes a subscription can be fetched from
+    ALLOWED_PROTOCOLS: ['https:', 'http:', 'file:'],
+} as const;
+
+// Model discovery configuration
+export const MODEL_DISCOVERY_CONFIG = {
+    // How long the models listed by a provider are used before listing
+    // them again (1 day)
+    TTL: 24 * 60 * 60 * 1000,
+} as const;
+
+// Rule schedule ($schedule=mon-fri 09:00-18:00) configuration
+export const SCHEDULE_CONFIG = {
+    // One-shot alarm set to the next time a scheduled rule turns on or off
+    ALARM_NAME: 'rule-schedule',
+    // Day names in Date.getDay() order
+    DAYS: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+} as const;
+
 // Auto-screenshot observer configuration
 export const AUTO_SCREENSHOT_CONFIG = {
     VISIBILITY_THRESHOLD: 1.0,
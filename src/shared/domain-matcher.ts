@@ -1,131 +1,550 @@
 /**
  * Domain matching utilities for rule filtering
- * Supports wildcard patterns and path-based matching
+ * Domain entries use adblock-style patterns:
+ * - example.com covers its subdomains, *.example.com only the subdomains
+ * - example.* covers example under any public suffix (example.co.uk)
+ * - https://, :8080, /path and ?query parts constrain the URL further
+ * - /regex/ is matched against the hostname
  */
 
+import { RULE_PATTERNS } from './constants';
+import { getPublicSuffix } from './public-suffix';
 import type { Rule } from './rule-types';
+import { applyExceptionRules } from './rule-utils';
 
 /**
- * Check if a domain pattern matches a given URL
- * Supports wildcards and path matching
- * @param pattern Domain pattern (may contain wildcards or paths)
- * @param hostname Hostname to match against
- * @param pathname Pathname to match against
- * @returns True if pattern matches
+ * URL parts besides hostname and pathname that patterns may constrain
  */
-export function matchesDomainPattern(
-    pattern: string,
+export interface UrlLocation {
+    /**
+     * Scheme with the trailing colon as in URL.protocol, e.g. "https:"
+     */
+    protocol?: string;
+
+    /**
+     * Port, empty when the URL uses the default port of its scheme
+     */
+    port?: string;
+
+    /**
+     * Query string with the leading "?" as in URL.search
+     */
+    search?: string;
+}
+
+/**
+ * Domain entry split into the URL parts it constrains
+ */
+export interface DomainPattern {
+    /**
+     * Hostname regex of a /regex/ entry, other parts are unset then
+     */
+    regex: RegExp | null;
+    scheme: string | null;
+
+    /**
+     * Hostname pattern, empty if any host matches
+     */
+    host: string;
+    port: string | null;
+
+    /**
+     * Pathname prefix pattern, starts with "/" or "*"
+     */
+    path: string | null;
+
+    /**
+     * Query string prefix pattern without the "?"
+     */
+    query: string | null;
+}
+
+/**
+ * Host a domain entry applies to, for looking rules up by hostname
+ */
+export interface HostKey {
+    /**
+     * Host without wildcards, e.g. "example.com" for *.example.com
+     */
+    host: string;
+
+    /**
+     * Only subdomains of the host match (*.example.com)
+     */
+    subdomainsOnly: boolean;
+
+    /**
+     * The host is followed by any public suffix (example.*)
+     */
+    anyPublicSuffix: boolean;
+}
+
+/**
+ * Checks a URL against one compiled domain pattern
+ */
+type UrlMatcher = (
     hostname: string,
     pathname: string,
-): boolean {
-    // Exact hostname match
-    if (pattern === hostname) {
-        return true;
+    location: UrlLocation,
+) => boolean;
+
+const REGEX_DELIMITER = '/';
+
+// Characters only a regex has, "/blog/" without them is a path pattern
+const REGEX_SPECIAL_CHARACTERS = /[\\^$()[\]{}|+?]/;
+
+const SCHEME_PATTERN = /^([a-z][a-z\d+.-]*):\/\//;
+
+const PORT_PATTERN = /^(.*):(\d+)$/;
+
+// Host pattern suffix matching any public suffix, e.g. example.*
+const ANY_PUBLIC_SUFFIX = '.*';
+
+// Host pattern prefix matching subdomains only, e.g. *.example.com
+const SUBDOMAINS_ONLY = '*.';
+
+const compiledPatterns = new Map<string, UrlMatcher>();
+
+/**
+ * Check if a domain entry is a /regex/ hostname pattern
+ * Commas in the regex are escaped (\,) to not split the domain list
+ * @param pattern Domain entry without the ~ prefix
+ * @returns True if the entry is a regex
+ */
+export function isRegexDomainPattern(pattern: string): boolean {
+    return pattern.length > 2
+        && pattern.startsWith(REGEX_DELIMITER)
+        && pattern.endsWith(REGEX_DELIMITER)
+        && REGEX_SPECIAL_CHARACTERS.test(pattern.slice(1, -1));
+}
+
+/**
+ * Check if the part of a domain entry before the first "/" is a host,
+ * otherwise the entry is a path on any host
+ * @param segment Text before the first "/"
+ * @returns True for hostnames, wildcard hostnames and host:port
+ */
+function isHostSegment(segment: string): boolean {
+    return segment.includes('.')
+        || segment === 'localhost'
+        || PORT_PATTERN.test(segment);
+}
+
+/**
+ * Split a domain entry into the URL parts it constrains
+ * Entries without a host like "/blog/" or "test-page/index.html" match
+ * paths on any host, relative paths match from any path segment on
+ * @param pattern Domain entry without the ~ prefix
+ * @returns Pattern parts, or null for empty entries and invalid regexes
+ */
+export function parseDomainPattern(pattern: string): DomainPattern | null {
+    if (!pattern) {
+        return null;
     }
 
-    // Path-based pattern matching
-    // If pattern contains '/', match against pathname
-    if (pattern.includes('/')) {
-        // Partial path matching
-        // Pattern: test-page/index.html matches /anything/test-page/index.html
-        if (pathname.includes(pattern)) {
-            return true;
+    const parts: DomainPattern = {
+        regex: null,
+        scheme: null,
+        host: '',
+        port: null,
+        path: null,
+        query: null,
+    };
+
+    if (isRegexDomainPattern(pattern)) {
+        try {
+            parts.regex = new RegExp(
+                pattern.slice(1, -1).replace(/\\,/g, ','),
+            );
+            return parts;
+        } catch (error) {
+            return null;
         }
-        // Wildcard path matching
-        if (pattern.includes('*')) {
-            const regexPattern = pattern
-                .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-                .replace(/\*/g, '.*');
-            const regex = new RegExp(regexPattern);
-            return regex.test(pathname);
+    }
+
+    let rest = pattern;
+    const scheme = SCHEME_PATTERN.exec(rest);
+    if (scheme) {
+        parts.scheme = scheme[1]!;
+        rest = rest.substring(scheme[0].length);
+    }
+
+    const queryIndex = rest.indexOf('?');
+    if (queryIndex !== -1) {
+        parts.query = rest.substring(queryIndex + 1);
+        rest = rest.substring(0, queryIndex);
+    }
+
+    const pathIndex = rest.indexOf('/');
+    let host = pathIndex === -1 ? rest : rest.substring(0, pathIndex);
+    if (pathIndex !== -1) {
+        parts.path = rest.substring(pathIndex);
+        if (!parts.scheme && !isHostSegment(host)) {
+            parts.path = host === '' || host.startsWith('*')
+                ? rest
+                : `*/${rest}`;
+            host = '';
         }
-        return false;
     }
 
-    // Domain wildcard matching
-    if (!pattern.includes('*')) {
-        return false;
+    const port = PORT_PATTERN.exec(host);
+    if (port) {
+        host = port[1]!;
+        parts.port = port[2]!;
+    }
+    parts.host = host;
+    return parts;
+}
+
+/**
+ * Get the host a domain entry can be looked up by
+ * @param pattern Domain entry without the ~ prefix
+ * @returns Host key, or null for regexes, entries without a host and
+ * hosts with wildcards other than a leading *. or trailing .*
+ */
+export function getHostKey(pattern: string): HostKey | null {
+    const parts = parseDomainPattern(pattern);
+    if (!parts || parts.regex || !parts.host) {
+        return null;
+    }
+
+    let { host } = parts;
+    const anyPublicSuffix = host.endsWith(ANY_PUBLIC_SUFFIX);
+    if (anyPublicSuffix) {
+        host = host.substring(0, host.length - ANY_PUBLIC_SUFFIX.length);
+    }
+    const subdomainsOnly = host.startsWith(SUBDOMAINS_ONLY);
+    if (subdomainsOnly) {
+        host = host.substring(SUBDOMAINS_ONLY.length);
     }
 
-    // Convert pattern to regex for wildcard domain matching
-    const regexPattern = pattern
+    return host && !host.includes('*')
+        ? { host, subdomainsOnly, anyPublicSuffix }
+        : null;
+}
+
+/**
+ * Convert a pattern with * wildcards into regex source
+ * @param pattern Pattern text
+ * @returns Regex source with everything but the wildcards escaped
+ */
+function wildcardToRegex(pattern: string): string {
+    return pattern
         .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
         .replace(/\*/g, '.*');
+}
 
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(hostname);
+/**
+ * Compile a host pattern
+ * @param host Host pattern, may contain wildcards
+ * @returns Function checking if a hostname matches
+ */
+function compileHostPattern(host: string): (hostname: string) => boolean {
+    const isAnySuffix = host.endsWith(ANY_PUBLIC_SUFFIX);
+    const name = isAnySuffix
+        ? host.substring(0, host.length - ANY_PUBLIC_SUFFIX.length)
+        : host;
+    const subdomains = name.startsWith(SUBDOMAINS_ONLY) ? '' : '(?:.+\\.)?';
+    const regex = new RegExp(`^${subdomains}${wildcardToRegex(name)}$`);
+
+    return (hostname) => {
+        if (!isAnySuffix) {
+            return regex.test(hostname);
+        }
+        // example.* must not match example.evil.com, so the public
+        // suffix is cut off before matching
+        const suffix = getPublicSuffix(hostname);
+        if (!suffix || suffix === hostname) {
+            return false;
+        }
+        return regex.test(
+            hostname.substring(0, hostname.length - suffix.length - 1),
+        );
+    };
+}
+
+/**
+ * Compile a domain entry into a URL matcher
+ * @param pattern Domain entry without the ~ prefix
+ * @returns URL matcher, never matching for invalid entries
+ */
+function compileDomainPattern(pattern: string): UrlMatcher {
+    const parts = parseDomainPattern(pattern);
+    if (!parts) {
+        return () => false;
+    }
+
+    const { regex } = parts;
+    if (regex) {
+        return (hostname) => regex.test(hostname);
+    }
+
+    const {
+        scheme,
+        host,
+        port,
+        path,
+        query,
+    } = parts;
+    const matchesHost = host ? compileHostPattern(host) : null;
+    const pathRegex = path === null
+        ? null
+        : new RegExp(`^${wildcardToRegex(path)}`);
+    const queryRegex = query === null
+        ? null
+        : new RegExp(`^${wildcardToRegex(query)}`);
+
+    return (hostname, pathname, location) => (
+        (!scheme || location.protocol === `${scheme}:`)
+        && (!matchesHost || matchesHost(hostname))
+        && (port === null || location.port === port)
+        && (!pathRegex || pathRegex.test(pathname))
+        && (!queryRegex || queryRegex.test(
+            (location.search ?? '').substring(1),
+        ))
+    );
+}
+
+/**
+ * Check if a domain pattern matches a given URL
+ * Compiled patterns are cached, rules use the same few patterns
+ * @param pattern Domain pattern without the ~ prefix
+ * @param hostname Hostname to match against
+ * @param pathname Pathname to match against
+ * @param location Scheme, port and query string of the URL
+ * @returns True if pattern matches
+ */
+export function matchesDomainPattern(
+    pattern: string,
+    hostname: string,
+    pathname: string,
+    location: UrlLocation = {},
+): boolean {
+    let matcher = compiledPatterns.get(pattern);
+    if (!matcher) {
+        matcher = compileDomainPattern(pattern);
+        compiledPatterns.set(pattern, matcher);
+    }
+    return matcher(hostname, pathname, location);
+}
+
+/**
+ * Check if a domain entry is negated (~example.com)
+ * @param domain Domain entry from rule
+ * @returns True if domain entry excludes matching URLs
+ */
+export function isNegatedDomain(domain: string): boolean {
+    return domain.startsWith(RULE_PATTERNS.DOMAIN_NEGATION);
+}
+
+/**
+ * Split rule domains into included and negated (excluded) patterns
+ * @param domains Domain entries of a rule
+ * @returns Included patterns and excluded patterns without the ~ prefix
+ */
+function splitDomains(domains: string[]): {
+    included: string[];
+    excluded: string[];
+} {
+    return {
+        included: domains.filter((domain) => !isNegatedDomain(domain)),
+        excluded: domains
+            .filter(isNegatedDomain)
+            .map((domain) => domain.substring(
+                RULE_PATTERNS.DOMAIN_NEGATION.length,
+            )),
+    };
 }
 
 /**
  * Check if a rule should apply to a given URL
+ * Negated domains (~example.com) always exclude matching URLs,
+ * a rule with only negated domains applies everywhere else
  * @param rule Rule to check
  * @param hostname Hostname from URL
  * @param pathname Pathname from URL
+ * @param location Scheme, port and query string of the URL
  * @returns True if rule should apply
  */
 export function shouldRuleApply(
     rule: Rule,
     hostname: string,
     pathname: string,
+    location: UrlLocation = {},
 ): boolean {
     // Empty domains array means apply to all sites
     if (rule.domains.length === 0) {
         return true;
     }
 
+    const { included, excluded } = splitDomains(rule.domains);
+
+    // Excluded domains take precedence over included ones
+    if (excluded.some((pattern) => (
+        matchesDomainPattern(pattern, hostname, pathname, location)
+    ))) {
+        return false;
+    }
+
+    // Only negated domains means apply to all other sites
+    if (included.length === 0) {
+        return true;
+    }
+
     // Check if URL matches any of the rule's patterns
-    return rule.domains.some((pattern) => (
-        matchesDomainPattern(pattern, hostname, pathname)
+    return included.some((pattern) => (
+        matchesDomainPattern(pattern, hostname, pathname, location)
+    ));
+}
+
+/**
+ * Check if a domain pattern matches everything another pattern matches
+ * Regexes and scheme, port or query constraints are only compared as
+ * text, the check errs on the side of "does not cover"
+ * @param outer Pattern that may cover the other one
+ * @param inner Pattern that may be covered
+ * @returns True if every URL matched by inner is matched by outer
+ */
+function patternCovers(outer: string, inner: string): boolean {
+    if (outer === inner) {
+        return true;
+    }
+
+    const outerParts = parseDomainPattern(outer);
+    const innerParts = parseDomainPattern(inner);
+    if (!outerParts || !innerParts) {
+        return false;
+    }
+    const isConstrained = [outerParts, innerParts].some((parts) => (
+        parts.regex
+        || parts.scheme !== null
+        || parts.port !== null
+        || parts.query !== null
+    ));
+    if (isConstrained) {
+        return false;
+    }
+
+    // The inner pattern stands in for the URLs it matches,
+    // wildcards in it are matched by the outer wildcards
+    const hostCovered = !outerParts.host || (
+        !!innerParts.host && compileHostPattern(outerParts.host)(
+            innerParts.host,
+        )
+    );
+    const pathCovered = outerParts.path === null || (
+        innerParts.path !== null
+        && new RegExp(`^${wildcardToRegex(outerParts.path)}`).test(
+            innerParts.path,
+        )
+    );
+    return hostCovered && pathCovered;
+}
+
+/**
+ * Check if one rule domain list applies everywhere another one does,
+ * e.g. a global rule covers a rule scoped to example.com
+ * @param outer Domains of the broader rule
+ * @param inner Domains of the narrower rule
+ * @returns True if the outer domains apply to every URL the inner
+ * domains apply to
+ */
+export function domainsCover(outer: string[], inner: string[]): boolean {
+    const outerDomains = splitDomains(outer);
+    const innerDomains = splitDomains(inner);
+
+    if (outerDomains.included.length > 0) {
+        if (innerDomains.included.length === 0) {
+            return false;
+        }
+        const included = innerDomains.included.every(
+            (pattern) => outerDomains.included.some(
+                (outerPattern) => patternCovers(outerPattern, pattern),
+            ),
+        );
+        if (!included) {
+            return false;
+        }
+    }
+
+    // URLs the outer rule excludes must be excluded by the inner rule
+    // too, or lie outside of its domains
+    return outerDomains.excluded.every((excluded) => (
+        innerDomains.excluded.some(
+            (pattern) => patternCovers(pattern, excluded),
+        )
+        || (innerDomains.included.length > 0
+            && innerDomains.included.every(
+                (pattern) => !patternCovers(pattern, excluded)
+                    && !patternCovers(excluded, pattern),
+            ))
     ));
 }
 
 /**
- * Extract hostname and pathname from a URL string
+ * Extract the URL parts domain patterns match against
  * @param urlString URL to parse
- * @returns Object with hostname and pathname, or null if invalid URL
+ * @returns Hostname, pathname and the other URL parts,
+ * or null if invalid URL
  */
 export function parseUrl(urlString: string): {
     hostname: string;
     pathname: string;
+    location: Required<UrlLocation>;
 } | null {
     try {
         const url = new URL(urlString);
         return {
             hostname: url.hostname,
             pathname: url.pathname,
+            location: {
+                protocol: url.protocol,
+                port: url.port,
+                search: url.search,
+            },
         };
     } catch (error) {
         return null;
     }
 }
 
+/**
+ * Check if rules apply to a URL at all
+ * Only web pages (https://, http://) and local files (file://) get rules,
+ * system pages (chrome://, chrome-extension://, about:, etc.) do not
+ * @param urlString URL to check
+ * @returns True for web and file URLs
+ */
+export function isWebUrl(urlString: string): boolean {
+    return urlString.startsWith('https://')
+        || urlString.startsWith('http://')
+        || urlString.startsWith('file://');
+}
+
 /**
  * Filter rules that apply to a specific URL
  * Only processes web pages (https://, http://) and local files (file://)
  * Ignores system pages (chrome://, chrome-extension://, about:, etc.)
+ * Rules disabled by exception rules for this URL are removed
  * @param rules Array of rules to filter
  * @param urlString URL to match against
  * @returns Array of enabled rules that apply to the URL, or empty array for non-web URLs
  */
 export function filterRulesByUrl(rules: Rule[], urlString: string): Rule[] {
-    // Only handle web pages (https/http) and local files
-    // Ignore system pages (chrome://, chrome-extension://, about:, etc.)
-    const isWebUrl = urlString.startsWith('https://')
-        || urlString.startsWith('http://')
-        || urlString.startsWith('file://');
-
-    if (!isWebUrl) {
+    if (!isWebUrl(urlString)) {
         return [];
     }
 
     const parsed = parseUrl(urlString);
     if (!parsed) {
         // If URL is invalid, return rules with no domain restrictions
-        return rules.filter((rule) => rule.domains.length === 0);
+        return applyExceptionRules(
+            rules.filter((rule) => rule.domains.length === 0),
+        );
     }
 
-    const { hostname, pathname } = parsed;
-    return rules.filter((rule) => (
-        rule.enabled && shouldRuleApply(rule, hostname, pathname)
-    ));
+    const { hostname, pathname, location } = parsed;
+    return applyExceptionRules(rules.filter((rule) => (
+        rule.enabled && shouldRuleApply(rule, hostname, pathname, location)
+    )));
 }
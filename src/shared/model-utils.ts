@@ -1,5 +1,29 @@
-import { ALL_MODELS_MAP } from './constants';
-import type { ModelOption } from './constants';
+import {
+    ALL_MODELS_MAP,
+    getCustomModelId,
+    getModelId,
+    LLM_PROVIDERS,
+    MODALITY,
+    PROVIDER_CAPABILITIES,
+    RULE_TYPE,
+} from './constants';
+import type {
+    CustomProviderInstance,
+    DiscoveredModel,
+    LLMProvider,
+    Modality,
+    ModelCapabilities,
+    ModelOption,
+} from './constants';
+import type { AnalysisRuleType } from './rule-types';
+import type { CustomProvider } from './settings-schema';
+
+/**
+ * Models listed by a provider
+ */
+interface ModelList {
+    models: DiscoveredModel[];
+}
 
 /**
  * Get model from unique model ID
@@ -14,3 +38,220 @@ export function getModelInfo(uniqueModelId: string): ModelOption {
     }
     return model;
 }
+
+/**
+ * Provider, and custom provider for custom models, of a model
+ */
+export type ModelSource = Pick<ModelOption, 'provider' | 'instance'>;
+
+/**
+ * Get the key of the adapter serving a model
+ * Each custom provider has its own adapter, other providers have one
+ * @param source Model from the registry, or its provider
+ * @returns Provider, or "custom:instanceId" for custom providers
+ */
+export function getAdapterKey(source: ModelSource): string {
+    return source.instance
+        ? `${source.provider}:${source.instance.id}`
+        : source.provider;
+}
+
+/**
+ * Get what a model can do through the adapter of its provider
+ * @param model Model from the registry
+ * @returns Model capabilities limited to those of the adapter
+ */
+export function getModelCapabilities(model: ModelOption): ModelCapabilities {
+    const adapter = PROVIDER_CAPABILITIES[model.provider];
+    const supported = (modality: Modality) => adapter.input.includes(modality);
+    return {
+        ...model.capabilities,
+        input: model.capabilities.input.filter(supported),
+        output: model.capabilities.output.filter(
+            (modality) => adapter.output.includes(modality),
+        ),
+        structuredOutput: model.capabilities.structuredOutput
+            && adapter.structuredOutput,
+        logprobs: model.capabilities.logprobs && adapter.logprobs,
+    };
+}
+
+/**
+ * Explain why a model can't evaluate rules of a type
+ * @param model Model from the registry
+ * @param ruleType Type of the rules
+ * @returns Reason like 'Vision model "x" does not accept images', or
+ * undefined if the model supports the rule type
+ */
+export function getUnsupportedReason(
+    model: ModelOption,
+    ruleType: AnalysisRuleType,
+): string | undefined {
+    const { input, output } = getModelCapabilities(model);
+    const modelLabel = `${ruleType.charAt(0).toUpperCase()}`
+        + `${ruleType.slice(1)} model "${model.id}"`;
+
+    if (ruleType === RULE_TYPE.EMBEDDING) {
+        return output.includes(MODALITY.EMBEDDING)
+            ? undefined
+            : `${modelLabel} does not return embeddings`;
+    }
+    if (ruleType === RULE_TYPE.VISION && !input.includes(MODALITY.IMAGE)) {
+        return `${modelLabel} does not accept images`;
+    }
+    if (!input.includes(MODALITY.TEXT) || !output.includes(MODALITY.TEXT)) {
+        return `${modelLabel} does not answer text prompts`;
+    }
+    return undefined;
+}
+
+/**
+ * Get the models that can evaluate rules of a type
+ * @param ruleType Type of the rules
+ * @returns IDs of the supporting models in the registry
+ */
+export function getModelsForRuleType(ruleType: AnalysisRuleType): string[] {
+    return Object.values(ALL_MODELS_MAP)
+        .filter((model) => !getUnsupportedReason(model, ruleType))
+        .map(({ id }) => id);
+}
+
+/**
+ * Capabilities of a model configured for a custom provider by rule type
+ * Servers are not asked, the configured rule types are trusted
+ * @param types Rule types the model is configured for
+ * @returns Model capabilities
+ */
+function getConfiguredCapabilities(
+    types: AnalysisRuleType[],
+): ModelCapabilities {
+    const input: Modality[] = [MODALITY.TEXT];
+    const output: Modality[] = [];
+    if (types.includes(RULE_TYPE.EMBEDDING)) {
+        output.push(MODALITY.EMBEDDING);
+    }
+    if (types.includes(RULE_TYPE.PROMPT) || types.includes(RULE_TYPE.VISION)) {
+        output.push(MODALITY.TEXT);
+    }
+    if (types.includes(RULE_TYPE.VISION)) {
+        input.push(MODALITY.IMAGE);
+    }
+    return {
+        input,
+        output,
+        structuredOutput: false,
+        logprobs: false,
+    };
+}
+
+/**
+ * Models shipped with the extension, they are never replaced
+ */
+const BUILT_IN_MODEL_IDS = new Set(Object.keys(ALL_MODELS_MAP));
+
+/**
+ * Custom providers from settings
+ */
+let registeredCustomProviders: CustomProvider[] = [];
+
+/**
+ * Model lists of the providers, by adapter key
+ */
+let registeredModelLists: Record<string, ModelList> = {};
+
+/**
+ * Add a model to the registry
+ * Models already in the registry are kept as they are
+ * @param model Model to add
+ */
+function addModel(model: ModelOption): void {
+    if (!ALL_MODELS_MAP[model.id]) {
+        ALL_MODELS_MAP[model.id] = model;
+    }
+}
+
+/**
+ * Rebuild the model registry from the built-in models, the models
+ * configured for custom providers and the discovered models
+ */
+function rebuildModelRegistry(): void {
+    Object.keys(ALL_MODELS_MAP).forEach((id) => {
+        if (!BUILT_IN_MODEL_IDS.has(id)) {
+            delete ALL_MODELS_MAP[id];
+        }
+    });
+
+    const instances = new Map<string, CustomProviderInstance>();
+    registeredCustomProviders.forEach((provider) => {
+        const instance = { id: provider.id, name: provider.name };
+        instances.set(
+            getAdapterKey({ provider: LLM_PROVIDERS.CUSTOM, instance }),
+            instance,
+        );
+
+        // A model can be configured for several rule types
+        const configured = new Map<string, AnalysisRuleType[]>();
+        const lists: Array<[string[], AnalysisRuleType]> = [
+            [provider.embeddingModels, RULE_TYPE.EMBEDDING],
+            [provider.promptModels, RULE_TYPE.PROMPT],
+            [provider.visionModels, RULE_TYPE.VISION],
+        ];
+        lists.forEach(([names, ruleType]) => {
+            names.forEach((name) => {
+                const types = configured.get(name) ?? [];
+                configured.set(name, [...types, ruleType]);
+            });
+        });
+        configured.forEach((types, name) => addModel({
+            id: getCustomModelId(provider.id, name),
+            name,
+            provider: LLM_PROVIDERS.CUSTOM,
+            instance,
+            capabilities: getConfiguredCapabilities(types),
+        }));
+    });
+
+    Object.entries(registeredModelLists).forEach(([key, { models }]) => {
+        const instance = instances.get(key);
+        const provider = key as LLMProvider;
+        if (!instance && !Object.values(LLM_PROVIDERS).includes(provider)) {
+            // Custom provider that is no longer configured
+            return;
+        }
+
+        models.forEach(({ name, capabilities }) => {
+            addModel({
+                id: instance
+                    ? getCustomModelId(instance.id, name)
+                    : getModelId(name, provider),
+                name,
+                provider: instance ? LLM_PROVIDERS.CUSTOM : provider,
+                instance,
+                capabilities,
+            });
+        });
+    });
+}
+
+/**
+ * Replace the models of custom providers in the model registry
+ * Called whenever settings are loaded, so every context sees the
+ * configured providers
+ * @param providers Custom providers from settings
+ */
+export function registerCustomProviders(providers: CustomProvider[]): void {
+    registeredCustomProviders = providers;
+    rebuildModelRegistry();
+}
+
+/**
+ * Replace the models listed by the providers in the model registry
+ * Built-in models and models configured for custom providers are kept
+ * @param lists Model lists of the providers by adapter key
+ */
+export function registerDiscoveredModels(
+    lists: Record<string, ModelList>,
+): void {
+    registeredModelLists = lists;
+    rebuildModelRegistry();
+}
@@ -0,0 +1,116 @@
+// Rule profile resolution - Shared by background and UI
+
+import { DEFAULT_PROFILE } from './constants';
+import type { RuleProfile, Settings } from './settings-schema';
+
+/**
+ * Build the default profile from the top-level settings fields
+ * @param settings Current settings
+ * @returns Default profile
+ */
+export function getDefaultProfile(settings: Settings): RuleProfile {
+    return {
+        id: DEFAULT_PROFILE.ID,
+        name: DEFAULT_PROFILE.NAME,
+        enabled: settings.blockingEnabled,
+        embeddingThreshold: settings.embeddingThreshold,
+        promptThreshold: settings.promptThreshold,
+        visionThreshold: settings.visionThreshold,
+        adBlockRules: settings.adBlockRules,
+        filterLists: settings.filterLists,
+    };
+}
+
+/**
+ * Get all profiles, the default one first
+ * @param settings Current settings
+ * @returns Profiles
+ */
+export function getProfiles(settings: Settings): RuleProfile[] {
+    return [getDefaultProfile(settings), ...settings.profiles];
+}
+
+/**
+ * Get a profile by ID
+ * Falls back to the default profile if the profile no longer exists
+ * @param settings Current settings
+ * @param profileId Profile ID
+ * @returns Profile
+ */
+export function getProfile(
+    settings: Settings,
+    profileId: string,
+): RuleProfile {
+    return settings.profiles.find(
+        (profile) => profile.id === profileId,
+    ) ?? getDefaultProfile(settings);
+}
+
+/**
+ * Get the active profile
+ * Falls back to the default profile if the active one no longer exists
+ * @param settings Current settings
+ * @returns Active profile
+ */
+export function getActiveProfile(settings: Settings): RuleProfile {
+    return getProfile(settings, settings.activeProfileId);
+}
+
+/**
+ * Route updates of per-profile settings to a profile, the active one by
+ * default. Every profile has its own rules, filter lists, thresholds and
+ * enabled flag, for the default profile these are the top-level fields
+ * (with blockingEnabled as the flag). Updates are given in that top-level
+ * shape, other settings pass through unchanged
+ * @param settings Current settings
+ * @param updates Settings updates
+ * @param profileId Profile to update
+ * @returns Settings updates to save
+ * @throws {Error} When the profile does not exist (anymore)
+ */
+export function getProfileUpdates(
+    settings: Settings,
+    updates: Partial<Settings>,
+    profileId = getActiveProfile(settings).id,
+): Partial<Settings> {
+    if (profileId === DEFAULT_PROFILE.ID) {
+        return updates;
+    }
+
+    const target = settings.profiles.find(
+        (profile) => profile.id === profileId,
+    );
+    if (!target) {
+        throw new Error(`Profile "${profileId}" not found`);
+    }
+
+    const {
+        blockingEnabled,
+        embeddingThreshold,
+        promptThreshold,
+        visionThreshold,
+        adBlockRules,
+        filterLists,
+        ...otherUpdates
+    } = updates;
+    if (Object.keys(otherUpdates).length === Object.keys(updates).length) {
+        return updates;
+    }
+
+    const updatedProfile: RuleProfile = {
+        ...target,
+        enabled: blockingEnabled ?? target.enabled,
+        embeddingThreshold: embeddingThreshold ?? target.embeddingThreshold,
+        promptThreshold: promptThreshold ?? target.promptThreshold,
+        visionThreshold: visionThreshold ?? target.visionThreshold,
+        adBlockRules: adBlockRules ?? target.adBlockRules,
+        filterLists: filterLists ?? target.filterLists,
+    };
+
+    return {
+        ...otherUpdates,
+        profiles: settings.profiles.map((profile) => (
+            profile.id === target.id ? updatedProfile : profile
+        )),
+    };
+}
@@ -0,0 +1,118 @@
+/**
+ * Public suffix lookups (eTLD and eTLD+1) over the bundled
+ * Public Suffix List, see https://publicsuffix.org/list/ for the algorithm
+ */
+
+import { PUBLIC_SUFFIX_RULES } from './public-suffix-list';
+
+const WILDCARD_PREFIX = '*.';
+const EXCEPTION_PREFIX = '!';
+
+/**
+ * Suffix rules split by kind, built on first use
+ */
+interface SuffixRuleSets {
+    rules: Set<string>;
+
+    /**
+     * Wildcard rules without the "*." prefix
+     */
+    wildcards: Set<string>;
+
+    /**
+     * Exception rules without the "!" prefix
+     */
+    exceptions: Set<string>;
+}
+
+let ruleSets: SuffixRuleSets | null = null;
+
+/**
+ * Get the suffix rules, building the lookup sets on first use
+ * @returns Suffix rule sets
+ */
+function getRuleSets(): SuffixRuleSets {
+    if (!ruleSets) {
+        ruleSets = {
+            rules: new Set(),
+            wildcards: new Set(),
+            exceptions: new Set(),
+        };
+        for (const rule of PUBLIC_SUFFIX_RULES) {
+            if (rule.startsWith(EXCEPTION_PREFIX)) {
+                ruleSets.exceptions.add(
+                    rule.substring(EXCEPTION_PREFIX.length),
+                );
+            } else if (rule.startsWith(WILDCARD_PREFIX)) {
+                ruleSets.wildcards.add(
+                    rule.substring(WILDCARD_PREFIX.length),
+                );
+            } else {
+                ruleSets.rules.add(rule);
+            }
+        }
+    }
+    return ruleSets;
+}
+
+/**
+ * Get the public suffix (eTLD) of a hostname, e.g. "co.uk" for
+ * "news.example.co.uk"
+ * Unlisted top-level domains are public suffixes themselves
+ * @param hostname Lowercase hostname in punycode
+ * @returns Public suffix or null for hostnames without one
+ * (empty, IP addresses)
+ */
+export function getPublicSuffix(hostname: string): string | null {
+    if (!hostname || /^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+        return null;
+    }
+
+    const { rules, wildcards, exceptions } = getRuleSets();
+    const labels = hostname.split('.');
+
+    // Longest suffix first, the first matching rule is the longest one
+    for (let i = 0; i < labels.length; i += 1) {
+        const suffix = labels.slice(i).join('.');
+        if (exceptions.has(suffix)) {
+            // Exception rules make the parent suffix the public suffix
+            return labels.slice(i + 1).join('.');
+        }
+        if (rules.has(suffix)) {
+            return suffix;
+        }
+        const parent = labels.slice(i + 1).join('.');
+        if (i + 1 < labels.length && wildcards.has(parent)) {
+            return suffix;
+        }
+    }
+
+    return labels[labels.length - 1]!;
+}
+
+/**
+ * Get the registrable domain (eTLD+1) of a hostname, e.g. "example.co.uk"
+ * for "news.example.co.uk"
+ * @param hostname Lowercase hostname in punycode
+ * @returns Registrable domain, or null if the hostname is a public
+ * suffix itself or has none
+ */
+export function getRegistrableDomain(hostname: string): string | null {
+    const suffix = getPublicSuffix(hostname);
+    if (!suffix || suffix === hostname) {
+        return null;
+    }
+
+    const name = hostname.substring(0, hostname.length - suffix.length - 1);
+    const label = name.substring(name.lastIndexOf('.') + 1);
+    return `${label}.${suffix}`;
+}
+
+/**
+ * Check if a hostname is a public suffix, e.g. "co.uk" or "com"
+ * @param hostname Lowercase hostname in punycode
+ * @returns True if sites can be registered directly under the hostname
+ */
+export function isPublicSuffix(hostname: string): boolean {
+    return getPublicSuffix(hostname) === hostname;
+}
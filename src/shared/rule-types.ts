@@ -2,9 +2,123 @@
  * Shared rule type definitions used across background and content scripts
  */
 
-import type { RuleType } from './constants';
+import type { RuleAction, RuleType } from './constants';
 import { RULE_TYPE } from './constants';
 
+/**
+ * Per-rule overrides from the $ modifier section
+ */
+export interface RuleModifiers {
+    /**
+     * Confidence threshold (0-1) overriding the global one for the rule type
+     */
+    threshold?: number;
+
+    /**
+     * Model ID from ALL_MODELS_MAP overriding the global one for the rule type
+     */
+    model?: string;
+
+    /**
+     * What happens to a matched element (blur by default)
+     */
+    action?: RuleAction;
+
+    /**
+     * Time windows the rule is active in, always active if unset
+     */
+    schedule?: ScheduleWindow[];
+
+    /**
+     * Text shown on the overlay of matched elements instead of the default
+     */
+    label?: string;
+
+    /**
+     * Category of matched content, e.g. "spoiler" (built-in ones are
+     * localized on the overlay)
+     */
+    category?: string;
+}
+
+/**
+ * Weekly time window of a rule schedule, in local time
+ */
+export interface ScheduleWindow {
+    /**
+     * Days the window starts on, 0 is Sunday as in Date.getDay()
+     */
+    days: number[];
+
+    /**
+     * Start in minutes after midnight
+     */
+    start: number;
+
+    /**
+     * End in minutes after midnight, exclusive. An end before
+     * the start means the window runs past midnight into the next day
+     */
+    end: number;
+}
+
+/**
+ * Targeting from the :text-from and :upward operators, relative to
+ * the element matched by the rule's selector
+ */
+export interface RuleTargeting {
+    /**
+     * Selector of the descendant whose text is classified
+     */
+    textFrom?: string;
+
+    /**
+     * Ancestor that is blurred or hidden: number of levels up,
+     * or selector of the closest matching ancestor
+     */
+    upward?: number | string;
+}
+
+/**
+ * Anchor phrases of an embedding predicate
+ * An element matches when its closest positive anchor passes the threshold
+ * and beats every negative anchor by a margin
+ */
+export interface EmbeddingAnchors {
+    positive: string[];
+    negative: string[];
+}
+
+/**
+ * Single AI predicate of a chained rule
+ */
+export interface RuleStage {
+    /**
+     * Analysis type of the predicate (embedding or prompt)
+     */
+    type: AnalysisRuleType;
+
+    /**
+     * Embedding text or prompt of the predicate
+     */
+    criteria: string;
+
+    /**
+     * Positive and negative anchors (embedding predicates only)
+     */
+    anchors?: EmbeddingAnchors;
+}
+
+/**
+ * Result of evaluating one predicate of a rule
+ */
+export interface RuleStageResult extends RuleStage {
+    matches: boolean;
+    confidence: number;
+    threshold?: number;
+    explanation?: string;
+}
+
 /**
  * Base rule interface
  */
@@ -30,7 +144,7 @@ interface BaseRule {
     ruleString: string;
 
     /**
-     * Type of rule (embedding, prompt, or vision)
+     * Type of rule (embedding, prompt, vision, exception or cosmetic)
      */
     type: RuleType;
 
@@ -40,6 +154,35 @@ interface BaseRule {
      * Empty array means apply to all sites
      */
     domains: string[];
+
+    /**
+     * Per-rule threshold, model and action overrides
+     * (apply to the rule's own predicate, not to pre-filters)
+     */
+    modifiers?: RuleModifiers;
+
+    /**
+     * Predicates of a chained rule evaluated before the rule's own one,
+     * e.g. a cheap embedding check gating a prompt call.
+     * All must match, evaluation stops at the first one that does not
+     */
+    preFilters?: RuleStage[];
+
+    /**
+     * Classify one element and act on another (AI rules only)
+     */
+    targeting?: RuleTargeting;
+
+    /**
+     * ID of the filter list the rule was imported with,
+     * unset for rules added one by one
+     */
+    listId?: string;
+
+    /**
+     * Lowercase tags grouping rules in the popup, e.g. "news"
+     */
+    tags?: string[];
 }
 
 /**
@@ -47,7 +190,14 @@ interface BaseRule {
  */
 export interface EmbeddingRule extends BaseRule {
     type: typeof RULE_TYPE.EMBEDDING;
+
+    /**
+     * Canonical criteria text, the single anchor phrase
+     * or e.g. "a | b, not: c" for multiple anchors
+     */
     containsText: string;
+
+    anchors: EmbeddingAnchors;
 }
 
 /**
@@ -56,6 +206,12 @@ export interface EmbeddingRule extends BaseRule {
 export interface PromptRule extends BaseRule {
     type: typeof RULE_TYPE.PROMPT;
     prompt: string;
+
+    /**
+     * Whether the rule classifies the whole page (page:... rules)
+     * and gates it with an interstitial instead of blurring elements
+     */
+    page?: boolean;
 }
 
 /**
@@ -66,21 +222,124 @@ export interface VisionRule extends BaseRule {
     criteria: string;
 }
 
+/**
+ * Rule types that are evaluated by an AI model
+ */
+export type AnalysisRuleType =
+    | typeof RULE_TYPE.EMBEDDING
+    | typeof RULE_TYPE.PROMPT
+    | typeof RULE_TYPE.VISION;
+
+/**
+ * Exception (allowlist) rule
+ * With a target it disables the AI rule with the same selector and criteria,
+ * without a target it keeps elements inside the selector from being blurred
+ */
+export interface ExceptionRule extends BaseRule {
+    type: typeof RULE_TYPE.EXCEPTION;
+
+    /**
+     * Type of the AI rule this exception disables (null for selector-only)
+     */
+    targetType: AnalysisRuleType | null;
+
+    /**
+     * Criteria of the AI rule this exception disables (null for selector-only)
+     */
+    targetCriteria: string | null;
+}
+
+/**
+ * Cosmetic rule
+ * Hides elements matched by the selector with CSS, no AI call involved
+ */
+export interface CosmeticRule extends BaseRule {
+    type: typeof RULE_TYPE.COSMETIC;
+}
+
+/**
+ * Union type for rules that are evaluated by an AI model
+ */
+export type AnalysisRule = EmbeddingRule | PromptRule | VisionRule;
+
+/**
+ * Union type for rules that block elements (can be disabled by exceptions)
+ */
+export type BlockingRule = AnalysisRule | CosmeticRule;
+
 /**
  * Union type for all rule types
  */
-export type Rule = EmbeddingRule | PromptRule | VisionRule;
+export type Rule = BlockingRule | ExceptionRule;
 
 /**
  * Candidate element with metadata
  */
 export interface CandidateElement {
+    /**
+     * Element that is blurred or hidden (the :upward target if any)
+     */
     element: Element;
+
+    /**
+     * Element the text is read from (the :text-from descendant if any)
+     */
+    textElement: Element;
     text: string;
     rect: DOMRect;
     selector: string;
 }
 
+/**
+ * Filter list header values ("! Title: ..." lines)
+ */
+export interface FilterListMetadata {
+    title?: string;
+    version?: string;
+
+    /**
+     * Update interval in milliseconds
+     */
+    expires?: number;
+}
+
+/**
+ * Subscription state of a filter list fetched from a URL
+ */
+export interface FilterListSubscription {
+    url: string;
+
+    /**
+     * Time of the last successful update (ms since epoch)
+     */
+    lastUpdated?: number;
+
+    /**
+     * Time of the last update attempt, successful or not
+     */
+    lastAttempt?: number;
+
+    /**
+     * Failed update attempts since the last successful one
+     */
+    failureCount: number;
+    lastError?: string;
+}
+
+/**
+ * Imported filter list, its rules are stored with its ID
+ */
+export interface FilterList extends FilterListMetadata {
+    id: string;
+    title: string;
+    enabled: boolean;
+
+    /**
+     * Set for lists subscribed to by URL, their rules are read-only
+     */
+    subscription?: FilterListSubscription;
+}
+
 /**
  * Message response from background
  */
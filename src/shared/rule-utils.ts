@@ -0,0 +1,168 @@
+import { RULE_PATTERNS, RULE_TYPE, TARGET_OPERATOR } from './constants';
+import type {
+    AnalysisRule,
+    BlockingRule,
+    CosmeticRule,
+    EmbeddingAnchors,
+    ExceptionRule,
+    PromptRule,
+    Rule,
+} from './rule-types';
+
+/**
+ * Get the criteria text of an AI rule
+ * @param rule Rule to read criteria from
+ * @returns Embedding text, prompt or vision criteria
+ */
+export function getRuleCriteria(rule: AnalysisRule): string {
+    switch (rule.type) {
+        case RULE_TYPE.EMBEDDING:
+            return rule.containsText;
+        case RULE_TYPE.PROMPT:
+            return rule.prompt;
+        default:
+            return rule.criteria;
+    }
+}
+
+/**
+ * Format embedding anchors as the canonical criteria text
+ * A single positive anchor is kept as is, so it matches
+ * the criteria of a plain embedding rule
+ * @param anchors Positive and negative anchors
+ * @returns Criteria text, e.g. "a | b, not: c"
+ */
+export function formatEmbeddingCriteria(anchors: EmbeddingAnchors): string {
+    const positive = anchors.positive.join(' | ');
+    if (anchors.negative.length === 0) {
+        return positive;
+    }
+    const { NEGATIVE_ANCHOR_ARGUMENT } = RULE_PATTERNS;
+    const negative = anchors.negative.join(' | ');
+    return `${positive}, ${NEGATIVE_ANCHOR_ARGUMENT}: ${negative}`;
+}
+
+/**
+ * Get a key describing how a rule picks its text source and target
+ * Rules with the same selector but different targeting analyze
+ * different elements, so the key is part of candidate identity
+ * @param rule Rule to describe
+ * @returns Key like ":text-from(h3):upward(2)", empty without targeting
+ */
+export function getTargetingKey(rule: Rule): string {
+    const { textFrom, upward } = rule.targeting ?? {};
+    let key = '';
+    if (textFrom !== undefined) {
+        key += `:${TARGET_OPERATOR.TEXT_FROM}(${textFrom})`;
+    }
+    if (upward !== undefined) {
+        key += `:${TARGET_OPERATOR.UPWARD}(${upward})`;
+    }
+    return key;
+}
+
+/**
+ * Type guard for exception rules
+ * @param rule Rule to check
+ * @returns True if rule is an exception rule
+ */
+export function isExceptionRule(rule: Rule): rule is ExceptionRule {
+    return rule.type === RULE_TYPE.EXCEPTION;
+}
+
+/**
+ * Type guard for cosmetic rules
+ * @param rule Rule to check
+ * @returns True if rule is a cosmetic rule
+ */
+export function isCosmeticRule(rule: Rule): rule is CosmeticRule {
+    return rule.type === RULE_TYPE.COSMETIC;
+}
+
+/**
+ * Type guard for rules that are evaluated by an AI model
+ * @param rule Rule to check
+ * @returns True if rule is an embedding, prompt or vision rule
+ */
+export function isAnalysisRule(rule: Rule): rule is AnalysisRule {
+    return !isExceptionRule(rule) && !isCosmeticRule(rule);
+}
+
+/**
+ * Type guard for page rules (page:contains-meaning-prompt('...'))
+ * @param rule Rule to check
+ * @returns True if rule classifies the whole page
+ */
+export function isPageRule(rule: Rule): rule is PromptRule {
+    return rule.type === RULE_TYPE.PROMPT && rule.page === true;
+}
+
+/**
+ * Check if a blocking rule is disabled by one of the exception rules
+ * AI rules are disabled by exceptions with the same selector and criteria,
+ * cosmetic rules by selector-only exceptions with the same selector.
+ * Other selector-only exceptions are applied to DOM elements
+ * by the content script
+ * @param rule Blocking rule to check
+ * @param exceptions Exception rules to check against
+ * @returns True if an exception targets this rule
+ */
+export function isRuleExcepted(
+    rule: BlockingRule,
+    exceptions: ExceptionRule[],
+): boolean {
+    return exceptions.some((exception) => {
+        if (!exception.enabled || exception.selector !== rule.selector) {
+            return false;
+        }
+        if (isCosmeticRule(rule)) {
+            return exception.targetType === null;
+        }
+        return exception.targetType === rule.type
+            && exception.targetCriteria === getRuleCriteria(rule);
+    });
+}
+
+/**
+ * Remove blocking rules disabled by the given exception rules
+ * @param rules Rules to process
+ * @param exceptions Exception rules to apply
+ * @returns Rules with excepted blocking rules removed
+ */
+function removeExceptedRules(
+    rules: Rule[],
+    exceptions: ExceptionRule[],
+): Rule[] {
+    if (exceptions.length === 0) {
+        return rules;
+    }
+
+    return rules.filter((rule) => (
+        isExceptionRule(rule) || !isRuleExcepted(rule, exceptions)
+    ));
+}
+
+/**
+ * Remove blocking rules disabled by exception rules from the list
+ * Exception rules themselves are kept so content scripts can use them
+ * @param rules Rules to process
+ * @returns Rules with excepted blocking rules removed
+ */
+export function applyExceptionRules(rules: Rule[]): Rule[] {
+    return removeExceptedRules(rules, rules.filter(isExceptionRule));
+}
+
+/**
+ * Remove blocking rules disabled by exception rules that apply on every
+ * site, for rules that are not filtered by a page URL
+ * Exceptions limited to domains are kept but not applied, use
+ * filterRulesByUrl to apply them for a page
+ * @param rules Rules to process
+ * @returns Rules with globally excepted blocking rules removed
+ */
+export function applyGlobalExceptionRules(rules: Rule[]): Rule[] {
+    return removeExceptedRules(rules, rules.filter(
+        (rule): rule is ExceptionRule => isExceptionRule(rule)
+            && rule.domains.length === 0,
+    ));
+}
@@ -0,0 +1,335 @@
+/**
+ * Rule schedule utilities - Parses and evaluates $schedule modifiers
+ *
+ * Format: entry (';' entry)*
+ * entry := [days] time-range*
+ * days := day ['-' day], e.g. "mon", "mon-fri" or "fri-mon"
+ * time-range := HH:MM '-' HH:MM, e.g. "09:00-18:00" or "22:00-06:00"
+ * Without days the entry applies every day, without time ranges all day.
+ * Times are in the browser's local time zone
+ */
+
+import { SCHEDULE_CONFIG } from './constants';
+import type { Rule, ScheduleWindow } from './rule-types';
+
+const DAY_PATTERN = /^([a-z]{3})(?:-([a-z]{3}))?$/;
+const TIME_RANGE_PATTERN = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAYS_PER_WEEK = 7;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const DAY_NAMES: readonly string[] = SCHEDULE_CONFIG.DAYS;
+
+const DAY_TITLES = [
+    'Sunday',
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+];
+
+/**
+ * Whether a schedule is active now and when that changes
+ */
+export interface ScheduleStatus {
+    active: boolean;
+
+    /**
+     * Next time the schedule turns on or off, null if it never does
+     */
+    until: Date | null;
+}
+
+/**
+ * Parse a day or day range, e.g. "mon-fri"
+ * @param value Lowercase day spec
+ * @returns Day numbers or null if invalid
+ */
+function parseDays(value: string): number[] | null {
+    const match = value.match(DAY_PATTERN);
+    if (!match) {
+        return null;
+    }
+
+    const first = DAY_NAMES.indexOf(match[1]!);
+    const last = match[2] ? DAY_NAMES.indexOf(match[2]) : first;
+    if (first === -1 || last === -1) {
+        return null;
+    }
+
+    // Ranges may wrap around the week end, e.g. "fri-mon"
+    const length = ((last - first + DAYS_PER_WEEK) % DAYS_PER_WEEK) + 1;
+    return Array.from(
+        { length },
+        (_, index) => (first + index) % DAYS_PER_WEEK,
+    );
+}
+
+/**
+ * Parse a time range, e.g. "09:00-18:00"
+ * @param value Time range
+ * @returns Start and end in minutes after midnight or an error message
+ */
+function parseTimeRange(value: string): {
+    range?: { start: number; end: number };
+    error?: string;
+} {
+    const match = value.match(TIME_RANGE_PATTERN);
+    if (!match) {
+        return {};
+    }
+
+    const [startHours, startMinutes, endHours, endMinutes] = match
+        .slice(1)
+        .map(Number) as [number, number, number, number];
+    const start = startHours * 60 + startMinutes;
+    const end = endHours * 60 + endMinutes;
+    if (
+        startMinutes > 59
+        || endMinutes > 59
+        || start >= MINUTES_PER_DAY
+        || end > MINUTES_PER_DAY
+    ) {
+        return { error: `Invalid time range "${value}"` };
+    }
+    if (start === end) {
+        return { error: `Empty time range "${value}"` };
+    }
+
+    // 24:00 is the end of the day, same as 00:00 of the next one
+    return { range: { start, end: end % MINUTES_PER_DAY } };
+}
+
+/**
+ * Parse a single schedule entry, e.g. "mon-fri 09:00-12:00 13:00-18:00"
+ * @param entry Trimmed lowercase entry
+ * @returns Windows of the entry or an error message
+ */
+function parseEntry(entry: string): {
+    windows?: ScheduleWindow[];
+    error?: string;
+} {
+    const parts = entry.split(/\s+/);
+    let days = ALL_DAYS;
+    if (!TIME_RANGE_PATTERN.test(parts[0]!)) {
+        const parsedDays = parseDays(parts[0]!);
+        if (!parsedDays) {
+            return {
+                error: `Invalid schedule day "${parts[0]}", `
+                    + `expected one of ${DAY_NAMES.join(' ')} or a range`,
+            };
+        }
+        days = parsedDays;
+        parts.shift();
+    }
+
+    if (parts.length === 0) {
+        return { windows: [{ days, start: 0, end: 0 }] };
+    }
+
+    const windows: ScheduleWindow[] = [];
+    for (const part of parts) {
+        const { range, error } = parseTimeRange(part);
+        if (error) {
+            return { error };
+        }
+        if (!range) {
+            return {
+                error: `Invalid schedule time "${part}", `
+                    + 'expected e.g. "09:00-18:00"',
+            };
+        }
+        windows.push({ days, ...range });
+    }
+    return { windows };
+}
+
+/**
+ * Parse a $schedule modifier value
+ * @param value Schedule, e.g. "mon-fri 09:00-18:00; sat 10:00-14:00"
+ * @returns Schedule windows or an error message
+ */
+export function parseSchedule(value: string): {
+    windows?: ScheduleWindow[];
+    error?: string;
+} {
+    const entries = value.toLowerCase().split(';').map((e) => e.trim());
+    if (entries.some((entry) => !entry)) {
+        return {
+            error: `Invalid schedule "${value}", `
+                + 'expected e.g. "mon-fri 09:00-18:00"',
+        };
+    }
+
+    const windows: ScheduleWindow[] = [];
+    for (const entry of entries) {
+        const result = parseEntry(entry);
+        if (result.error) {
+            return { error: result.error };
+        }
+        windows.push(...result.windows!);
+    }
+    return { windows };
+}
+
+/**
+ * Check if a window covers a point in time
+ * All-day windows have the same start and end (00:00)
+ * @param window Schedule window
+ * @param day Day of the week (0 is Sunday)
+ * @param minute Minutes after midnight
+ * @returns True if the time is inside the window
+ */
+function isInWindow(
+    window: ScheduleWindow,
+    day: number,
+    minute: number,
+): boolean {
+    const previousDay = (day + DAYS_PER_WEEK - 1) % DAYS_PER_WEEK;
+    if (window.start < window.end) {
+        return window.days.includes(day)
+            && minute >= window.start
+            && minute < window.end;
+    }
+    if (window.start === window.end) {
+        return window.days.includes(day);
+    }
+    // Past midnight: the late part of the start day
+    // and the early part of the day after it
+    return (window.days.includes(day) && minute >= window.start)
+        || (window.days.includes(previousDay) && minute < window.end);
+}
+
+/**
+ * Check if a schedule is active at a point in time
+ * @param windows Schedule windows
+ * @param date Point in time
+ * @returns True if any window covers the time
+ */
+export function isScheduleActive(
+    windows: ScheduleWindow[],
+    date: Date,
+): boolean {
+    const day = date.getDay();
+    const minute = date.getHours() * 60 + date.getMinutes();
+    return windows.some((window) => isInWindow(window, day, minute));
+}
+
+/**
+ * Find the next time a schedule turns on or off
+ * Looks one week ahead, schedules repeat weekly
+ * @param windows Schedule windows
+ * @param now Current time
+ * @returns Time of the next change, null if the schedule never changes
+ */
+export function getNextScheduleChange(
+    windows: ScheduleWindow[],
+    now: Date,
+): Date | null {
+    const active = isScheduleActive(windows, now);
+
+    // Window starts and ends are the only times the schedule can change
+    const boundaries: Date[] = [];
+    for (let offset = -1; offset <= DAYS_PER_WEEK + 1; offset += 1) {
+        const date = new Date(
+            now.getFullYear(),
+            now.getMonth(),
+            now.getDate() + offset,
+        );
+        windows
+            .filter((window) => window.days.includes(date.getDay()))
+            .forEach((window) => {
+                const endDay = window.end <= window.start ? 1 : 0;
+                boundaries.push(
+                    new Date(
+                        date.getFullYear(),
+                        date.getMonth(),
+                        date.getDate(),
+                        0,
+                        window.start,
+                    ),
+                    new Date(
+                        date.getFullYear(),
+                        date.getMonth(),
+                        date.getDate() + endDay,
+                        0,
+                        window.end,
+                    ),
+                );
+            });
+    }
+
+    return boundaries
+        .filter((boundary) => boundary > now)
+        .sort((a, b) => a.getTime() - b.getTime())
+        .find((boundary) => isScheduleActive(windows, boundary) !== active)
+        ?? null;
+}
+
+/**
+ * Get whether a schedule is active and until when
+ * @param windows Schedule windows
+ * @param now Current time
+ * @returns Schedule status
+ */
+export function getScheduleStatus(
+    windows: ScheduleWindow[],
+    now: Date,
+): ScheduleStatus {
+    return {
+        active: isScheduleActive(windows, now),
+        until: getNextScheduleChange(windows, now),
+    };
+}
+
+/**
+ * Describe a schedule status, e.g. "active until 18:00"
+ * or "inactive until Monday 09:00"
+ * @param status Schedule status
+ * @param now Current time
+ * @returns Status text
+ */
+export function formatScheduleStatus(
+    status: ScheduleStatus,
+    now: Date,
+): string {
+    const state = status.active ? 'active' : 'inactive';
+    const { until } = status;
+    if (!until) {
+        return state;
+    }
+
+    const time = `${String(until.getHours()).padStart(2, '0')}:`
+        + `${String(until.getMinutes()).padStart(2, '0')}`;
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const untilDay = new Date(
+        until.getFullYear(),
+        until.getMonth(),
+        until.getDate(),
+    );
+    const days = Math.round(
+        (untilDay.getTime() - today.getTime()) / (24 * 60 * 60 * 1000),
+    );
+
+    if (days === 0) {
+        return `${state} until ${time}`;
+    }
+    if (days === 1) {
+        return `${state} until tomorrow ${time}`;
+    }
+    return `${state} until ${DAY_TITLES[untilDay.getDay()]} ${time}`;
+}
+
+/**
+ * Check if a rule's schedule allows it to run now
+ * @param rule Rule to check
+ * @param now Current time
+ * @returns True if the rule has no schedule or it is active
+ */
+export function isRuleInSchedule(rule: Rule, now: Date): boolean {
+    const schedule = rule.modifiers?.schedule;
+    return !schedule || isScheduleActive(schedule, now);
+}
@@ -1,14 +1,76 @@
 import * as v from 'valibot';
 import {
+    DEFAULT_CONSENSUS_COUNT,
     DEFAULT_DEBUG_LOGGING,
     DEFAULT_EMBEDDING_MODEL,
     DEFAULT_EMBEDDING_THRESHOLD,
+    DEFAULT_MATCH_STRATEGY,
     DEFAULT_PROMPT_MODEL,
+    DEFAULT_PROFILE,
     DEFAULT_PROMPT_THRESHOLD,
     DEFAULT_VISION_MODEL,
     DEFAULT_VISION_THRESHOLD,
+    MATCH_STRATEGY,
 } from './constants';
 
+/**
+ * Stored rule, parsed again from its rule string on load
+ * Rules are stored in priority order, the first one first
+ */
+const storedRuleSchema = v.object({
+    ruleString: v.string(),
+    enabled: v.boolean(),
+    listId: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+});
+
+/**
+ * Imported filter list, subscription is set for lists fetched from a URL
+ */
+const filterListSchema = v.object({
+    id: v.string(),
+    title: v.string(),
+    version: v.optional(v.string()),
+    expires: v.optional(v.number()),
+    enabled: v.boolean(),
+    subscription: v.optional(v.object({
+        url: v.string(),
+        lastUpdated: v.optional(v.number()),
+        lastAttempt: v.optional(v.number()),
+        failureCount: v.number(),
+        lastError: v.optional(v.string()),
+    })),
+});
+
+/**
+ * Named rule profile with its own rules, thresholds and blocking state
+ */
+const ruleProfileSchema = v.object({
+    id: v.string(),
+    name: v.string(),
+    enabled: v.boolean(),
+    embeddingThreshold: v.number(),
+    promptThreshold: v.number(),
+    visionThreshold: v.number(),
+    adBlockRules: v.optional(v.array(storedRuleSchema), []),
+    filterLists: v.optional(v.array(filterListSchema), []),
+});
+
+/**
+ * OpenAI-compatible server (vLLM, llama.cpp server, LiteLLM, Azure OpenAI)
+ * Its models are added to the model registry at runtime
+ */
+const customProviderSchema = v.object({
+    id: v.string(),
+    name: v.string(),
+    baseUrl: v.string(),
+    apiKey: v.optional(v.string(), ''),
+    headers: v.optional(v.record(v.string(), v.string()), {}),
+    embeddingModels: v.optional(v.array(v.string()), []),
+    promptModels: v.optional(v.array(v.string()), []),
+    visionModels: v.optional(v.array(v.string()), []),
+});
+
 /**
  * Valibot schema for application settings
  */
@@ -16,6 +78,10 @@ export const settingsSchema = v.object({
     // API Keys
     openaiApiKey: v.optional(v.string(), ''),
     openrouterApiKey: v.optional(v.string(), ''),
+    anthropicApiKey: v.optional(v.string(), ''),
+
+    // Custom OpenAI-compatible providers
+    customProviders: v.optional(v.array(customProviderSchema), []),
 
     // Model configuration (provider is determined by model selection)
     embeddingModel: v.optional(v.string(), DEFAULT_EMBEDDING_MODEL),
@@ -30,15 +96,30 @@ export const settingsSchema = v.object({
     // General settings
     blockingEnabled: v.optional(v.boolean(), true),
 
+    // How rules applicable to the same element are combined
+    matchStrategy: v.optional(
+        v.picklist(Object.values(MATCH_STRATEGY)),
+        DEFAULT_MATCH_STRATEGY,
+    ),
+    consensusCount: v.optional(
+        v.pipe(v.number(), v.integer(), v.minValue(1)),
+        DEFAULT_CONSENSUS_COUNT,
+    ),
+
     // Development options
     saveScreenshotsToDownloads: v.optional(v.boolean(), false),
     debugLogging: v.optional(v.boolean(), DEFAULT_DEBUG_LOGGING),
 
     // Ad blocking rules
-    adBlockRules: v.optional(v.array(v.object({
-        ruleString: v.string(),
-        enabled: v.boolean(),
-    })), []),
+    adBlockRules: v.optional(v.array(storedRuleSchema), []),
+
+    // Imported filter lists, their rules are in adBlockRules
+    filterLists: v.optional(v.array(filterListSchema), []),
+
+    // Named rule profiles and the active one. The default profile is
+    // stored in the top-level fields above, see shared/profiles.ts
+    profiles: v.optional(v.array(ruleProfileSchema), []),
+    activeProfileId: v.optional(v.string(), DEFAULT_PROFILE.ID),
 });
 
 /**
@@ -46,12 +127,24 @@ export const settingsSchema = v.object({
  */
 export type Settings = v.InferOutput<typeof settingsSchema>;
 
+/**
+ * Named rule profile as stored in settings
+ */
+export type RuleProfile = v.InferOutput<typeof ruleProfileSchema>;
+
+/**
+ * Custom OpenAI-compatible provider as stored in settings
+ */
+export type CustomProvider = v.InferOutput<typeof customProviderSchema>;
+
 /**
  * Default settings object
  */
 export const DEFAULT_SETTINGS: Settings = {
     openaiApiKey: '',
     openrouterApiKey: '',
+    anthropicApiKey: '',
+    customProviders: [],
     embeddingModel: DEFAULT_EMBEDDING_MODEL,
     promptModel: DEFAULT_PROMPT_MODEL,
     visionModel: DEFAULT_VISION_MODEL,
@@ -59,9 +152,14 @@ export const DEFAULT_SETTINGS: Settings = {
     promptThreshold: DEFAULT_PROMPT_THRESHOLD,
     visionThreshold: DEFAULT_VISION_THRESHOLD,
     blockingEnabled: true,
+    matchStrategy: DEFAULT_MATCH_STRATEGY,
+    consensusCount: DEFAULT_CONSENSUS_COUNT,
     saveScreenshotsToDownloads: false,
     debugLogging: DEFAULT_DEBUG_LOGGING,
     adBlockRules: [],
+    filterLists: [],
+    profiles: [],
+    activeProfileId: DEFAULT_PROFILE.ID,
 };
 
 /**
@@ -6,6 +6,7 @@ import {
     type Settings,
 } from './settings-schema';
 import { createLogger } from './logger';
+import { registerCustomProviders } from './model-utils';
 
 const logger = createLogger('SettingsManager');
 
@@ -13,8 +14,14 @@ const logger = createLogger('SettingsManager');
  * Settings utility class for type-safe settings management
  */
 export class SettingsManager {
+    /**
+     * Last queued write, settings are written one at a time
+     */
+    private static writeQueue: Promise<void> = Promise.resolve();
+
     /**
      * Load settings from storage with validation
+     * Models of custom providers are registered on every load
      * @returns Validated settings object
      */
     static async load(): Promise<Settings> {
@@ -22,7 +29,9 @@ export class SettingsManager {
 
         try {
             // Parse and validate settings (use empty object if nothing stored)
-            return parseSettings(stored ?? {});
+            const settings = parseSettings(stored ?? {});
+            registerCustomProviders(settings.customProviders);
+            return settings;
         } catch (error) {
             logger.error('Failed to load settings:', error);
             logger.warn('Returning default settings');
@@ -69,17 +78,38 @@ export class SettingsManager {
      * @param settings Settings object to save
      */
     static async save(settings: Partial<Settings>): Promise<void> {
-        // Load existing settings first
-        const current = await SettingsManager.load();
-
-        // Merge with new settings
-        const updated = { ...current, ...settings };
-
-        // Validate before saving
-        const validated = parseSettings(updated);
+        await SettingsManager.modify(() => settings);
+    }
 
-        // Save to storage
-        await Storage.set(STORAGE_KEYS.SETTINGS, validated);
+    /**
+     * Save updates built from the current settings
+     * Writes of this context are queued, the current settings are loaded
+     * once the previous writes are done, so updates of nested settings
+     * (e.g. one profile in the profiles array) don't drop other changes
+     * @param getUpdates Builds the updates from the current settings
+     * @returns Resolves once the updates are saved
+     * @throws {Error} When getUpdates throws, nothing is saved then
+     */
+    static modify(
+        getUpdates: (current: Settings) => Partial<Settings>,
+    ): Promise<void> {
+        const write = SettingsManager.writeQueue.then(async () => {
+            // Load existing settings first
+            const current = await SettingsManager.load();
+
+            // Merge with new settings and validate before saving
+            const validated = parseSettings({
+                ...current,
+                ...getUpdates(current),
+            });
+
+            // Save to storage
+            await Storage.set(STORAGE_KEYS.SETTINGS, validated);
+        });
+
+        // Later writes run even if this one fails
+        SettingsManager.writeQueue = write.catch(() => {});
+        return write;
     }
 
     /**
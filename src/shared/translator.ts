@@ -1,5 +1,8 @@
 // Translator utility for i18n messages
 
+import { RULE_CATEGORY, RULE_CATEGORY_MESSAGES } from './constants';
+import type { RuleCategory } from './constants';
+
 /**
  * Type for message substitutions
  */
@@ -18,4 +21,18 @@ export class Translator {
     static getMessage(key: string, substitutions?: Substitutions): string {
         return chrome.i18n.getMessage(key, substitutions);
     }
+
+    /**
+     * Get the display name of a rule category
+     * @param category Category from the $category modifier
+     * @returns Localized name of a built-in category, others as written
+     */
+    static getCategoryName(category: string): string {
+        const categories: string[] = Object.values(RULE_CATEGORY);
+        if (!categories.includes(category)) {
+            return category;
+        }
+        const key = RULE_CATEGORY_MESSAGES[category as RuleCategory];
+        return Translator.getMessage(key) || category;
+    }
 }
@@ -0,0 +1,212 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+    afterAll,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    it,
+} from 'vitest';
+import { AnthropicAdapter } from '../../src/background/adapters/anthropic-adapter';
+
+interface ReceivedRequest {
+    method?: string;
+    url?: string;
+    headers: IncomingHttpHeaders;
+    body: Record<string, unknown>;
+}
+
+/**
+ * Mock Messages API answering every request with the next response
+ */
+let server: Server;
+let baseUrl: string;
+let received: ReceivedRequest[];
+let reply: { status: number; body: unknown };
+
+const textResponse = (text: string) => ({
+    status: 200,
+    body: {
+        content: [{ type: 'text', text }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 120, output_tokens: 30 },
+    },
+});
+
+const createAdapter = (apiKey = 'sk-ant-test') => new AnthropicAdapter({
+    apiKey,
+    promptModel: 'claude-haiku-4-5',
+    visionModel: 'claude-haiku-4-5',
+    baseUrl,
+});
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let data = '';
+        req.on('data', (chunk) => {
+            data += chunk;
+        });
+        req.on('end', () => {
+            received.push({
+                method: req.method,
+                url: req.url,
+                headers: req.headers,
+                body: data ? JSON.parse(data) : {},
+            });
+            res.writeHead(reply.status, {
+                'Content-Type': 'application/json',
+            });
+            res.end(JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>((resolve) => {
+        server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => {
+        server.close(resolve);
+    });
+});
+
+beforeEach(() => {
+    received = [];
+    reply = textResponse(
+        '{"matches": true, "confidence": 0.9, "explanation": "Ad"}',
+    );
+});
+
+describe('AnthropicAdapter', () => {
+    it('should send text analysis to the Messages API', async () => {
+        const result = await createAdapter().analyzeWithPrompt(
+            'Buy now, 50% off',
+            'advertisement',
+            'claude-haiku-4-5',
+        );
+
+        expect(result).toEqual({
+            matches: true,
+            confidence: 0.9,
+            explanation: 'Ad',
+            usage: {
+                promptTokens: 120,
+                completionTokens: 30,
+                totalTokens: 150,
+            },
+        });
+        expect(received).toHaveLength(1);
+        const [request] = received;
+        expect(request!.method).toBe('POST');
+        expect(request!.url).toBe('/v1/messages');
+        expect(request!.headers['x-api-key']).toBe('sk-ant-test');
+        expect(request!.headers['anthropic-version']).toBe('2023-06-01');
+        expect(request!.body.model).toBe('claude-haiku-4-5');
+        expect(request!.body.system).toContain('content analyzer');
+        expect(request!.body.messages).toEqual([{
+            role: 'user',
+            content: [{
+                type: 'text',
+                text: expect.stringContaining('Buy now, 50% off'),
+            }],
+        }]);
+    });
+
+    it('should send images as base64 content blocks', async () => {
+        reply = textResponse(
+            '```json\n{"matches": false, "confidence": 0.8, '
+            + '"explanation": "A landscape"}\n```',
+        );
+        const result = await createAdapter().analyzeImage(
+            'iVBORw0KGgo=',
+            'advertisement',
+            'claude-haiku-4-5',
+        );
+
+        expect(result.matches).toBe(false);
+        expect(result.explanation).toBe('A landscape');
+        const [message] = received[0]!.body.messages as Array<{
+            content: unknown[];
+        }>;
+        expect(message!.content[0]).toEqual({
+            type: 'image',
+            source: {
+                type: 'base64',
+                media_type: 'image/png',
+                data: 'iVBORw0KGgo=',
+            },
+        });
+        expect(received[0]!.body.system).toContain('visual content analyzer');
+    });
+
+    it('should not match on an empty response', async () => {
+        reply = {
+            status: 200,
+            body: { content: [], stop_reason: 'max_tokens' },
+        };
+        const result = await createAdapter().analyzeWithPrompt(
+            'text',
+            'criteria',
+            'claude-haiku-4-5',
+        );
+
+        expect(result.matches).toBe(false);
+        expect(result.confidence).toBe(0);
+    });
+
+    it('should throw on API errors', async () => {
+        reply = {
+            status: 401,
+            body: { type: 'error', error: { type: 'authentication_error' } },
+        };
+
+        await expect(createAdapter().analyzeWithPrompt(
+            'text',
+            'criteria',
+            'claude-haiku-4-5',
+        )).rejects.toThrow('Anthropic Chat API error: 401');
+    });
+
+    it('should require an API key without calling the API', async () => {
+        await expect(createAdapter('').analyzeImage(
+            'iVBORw0KGgo=',
+            'criteria',
+            'claude-haiku-4-5',
+        )).rejects.toThrow('Anthropic API key not configured');
+        await expect(createAdapter().getEmbedding())
+            .rejects.toThrow('does not support embeddings');
+        expect(received).toHaveLength(0);
+    });
+
+    it('should list models as prompt and vision models', async () => {
+        reply = {
+            status: 200,
+            body: {
+                data: [{
+                    type: 'model',
+                    id: 'claude-opus-4-1',
+                    display_name: 'Claude Opus 4.1',
+                }],
+                has_more: false,
+            },
+        };
+
+        expect(await createAdapter().listModels()).toEqual([{
+            name: 'claude-opus-4-1',
+            capabilities: {
+                input: ['text', 'image'],
+                output: ['text'],
+                structuredOutput: false,
+                logprobs: false,
+            },
+        }]);
+        expect(received[0]!.method).toBe('GET');
+        expect(received[0]!.url).toBe('/v1/models?limit=1000');
+        expect(received[0]!.headers['x-api-key']).toBe('sk-ant-test');
+    });
+});
+
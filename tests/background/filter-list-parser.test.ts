@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { FilterListParser } from '../../src/background/filter-list-parser';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('FilterListParser', () => {
+    describe('parse', () => {
+        it('should read header, skip comments and blank lines', () => {
+            const result = FilterListParser.parse([
+                '! Title: Team rules',
+                '! Version: 1.2.0',
+                '! Expires: 4 days',
+                '! Maintained by the news team',
+                '',
+                '! Sponsored content',
+                'example.com##.banner',
+                '',
+                'div:contains-meaning-embedding(\'ad\')',
+            ].join('\n'));
+
+            expect(result.metadata).toEqual({
+                title: 'Team rules',
+                version: '1.2.0',
+                expires: 4 * 24 * HOUR_MS,
+            });
+            expect(result.rules).toEqual([
+                { line: 7, ruleString: 'example.com##.banner', indent: 0 },
+                {
+                    line: 9,
+                    ruleString: 'div:contains-meaning-embedding(\'ad\')',
+                    indent: 0,
+                },
+            ]);
+            expect(result.errors).toEqual([]);
+        });
+
+        it('should handle CRLF line endings and indented rules', () => {
+            const result = FilterListParser.parse('! Title: List\r\n  div.ad\r\n');
+
+            expect(result.metadata.title).toBe('List');
+            expect(result.rules).toEqual([
+                { line: 2, ruleString: 'div.ad', indent: 2 },
+            ]);
+        });
+
+        it('should put rules below section lines into the section', () => {
+            const result = FilterListParser.parse([
+                '! Title: Team rules',
+                'div.top',
+                '! [News sites]',
+                'div.ad',
+                '! Sponsored content',
+                'div.sponsored',
+                '!  [ Social widgets ] ',
+                'div.share',
+                '! []',
+                'div.bottom',
+            ].join('\n'));
+
+            expect(result.metadata.title).toBe('Team rules');
+            expect(result.rules.map(({ ruleString, section }) => ({ ruleString, section })))
+                .toEqual([
+                    { ruleString: 'div.top', section: undefined },
+                    { ruleString: 'div.ad', section: 'News sites' },
+                    { ruleString: 'div.sponsored', section: 'News sites' },
+                    { ruleString: 'div.share', section: 'Social widgets' },
+                    { ruleString: 'div.bottom', section: undefined },
+                ]);
+        });
+
+        it('should ignore header-like comments after the first rule', () => {
+            const result = FilterListParser.parse([
+                '! Title: First',
+                'div.ad',
+                '! Title: Second',
+            ].join('\n'));
+
+            expect(result.metadata.title).toBe('First');
+        });
+
+        it('should treat unknown headers as comments', () => {
+            const result = FilterListParser.parse('! Homepage: https://example.com\n');
+
+            expect(result.metadata).toEqual({});
+            expect(result.errors).toEqual([]);
+        });
+
+        it('should report invalid Expires header with its line', () => {
+            const result = FilterListParser.parse('! Title: List\n! Expires: weekly\n');
+
+            expect(result.metadata).toEqual({ title: 'List' });
+            expect(result.errors).toEqual([{
+                line: 2,
+                text: '! Expires: weekly',
+                error: 'Invalid "Expires" header "weekly", expected e.g. "4 days" or "12 hours"',
+            }]);
+        });
+
+        it('should return no rules for empty text', () => {
+            expect(FilterListParser.parse('')).toEqual({
+                metadata: {},
+                rules: [],
+                errors: [],
+            });
+        });
+    });
+
+    describe('parseExpires', () => {
+        it('should parse days and hours', () => {
+            expect(FilterListParser.parseExpires('1 day')).toBe(24 * HOUR_MS);
+            expect(FilterListParser.parseExpires('12 hours')).toBe(12 * HOUR_MS);
+            expect(FilterListParser.parseExpires('2 days (update frequency)')).toBe(48 * HOUR_MS);
+        });
+
+        it('should reject invalid values', () => {
+            expect(FilterListParser.parseExpires('0 days')).toBeNull();
+            expect(FilterListParser.parseExpires('soon')).toBeNull();
+            expect(FilterListParser.parseExpires('3 weeks')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    it,
+    vi,
+} from 'vitest';
+import { LLMService } from '../../src/background/llm-service';
+import { RuleService } from '../../src/background/rule-service';
+import { STORAGE_KEYS } from '../../src/shared/constants';
+import { registerCustomProviders } from '../../src/shared/model-utils';
+import type { Settings } from '../../src/shared/settings-schema';
+import { DEFAULT_SETTINGS } from '../../src/shared/settings-schema';
+
+const OVERRIDE_MODEL = 'custom:team-vllm:llama';
+
+/**
+ * In-memory chrome.storage.local with settings whose global models
+ * are OpenAI models without an API key
+ */
+const createStorage = (overrides: Partial<Settings> = {}) => {
+    const store: Record<string, unknown> = {
+        [STORAGE_KEYS.SETTINGS]: {
+            ...DEFAULT_SETTINGS,
+            embeddingModel: 'openai:text-embedding-3-large',
+            promptModel: 'openai:gpt-5-nano',
+            visionModel: 'openai:gpt-5-mini',
+            customProviders: [{
+                id: 'team-vllm',
+                name: 'Team vLLM',
+                baseUrl: 'http://localhost:8000/v1',
+                apiKey: '',
+                headers: {},
+                embeddingModels: ['llama'],
+                promptModels: ['llama'],
+                visionModels: ['llama'],
+            }],
+            ...overrides,
+        },
+    };
+    return {
+        get: (keys: string[], callback: (result: object) => void) => {
+            callback(Object.fromEntries(keys.map((key) => [key, store[key]])));
+        },
+        set: (items: object, callback: () => void) => {
+            Object.assign(store, items);
+            callback();
+        },
+    };
+};
+
+describe('LLMService', () => {
+    let llm: LLMService;
+
+    beforeEach(async () => {
+        vi.stubGlobal('chrome', { storage: { local: createStorage() } });
+        vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+            const body = String(url).endsWith('/embeddings')
+                ? { data: [{ embedding: [1, 0] }] }
+                : {
+                    choices: [{
+                        message: {
+                            content: '{"matches": true, "confidence": 0.9, '
+                                + '"explanation": "Ad"}',
+                        },
+                    }],
+                };
+            return new Response(JSON.stringify(body));
+        });
+        llm = new LLMService();
+        await llm.init();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+        registerCustomProviders([]);
+    });
+
+    describe('init', () => {
+        it('should initialize when a global model is not in the registry', async () => {
+            vi.stubGlobal('chrome', {
+                storage: { local: createStorage({ promptModel: 'custom:removed:llama' }) },
+            });
+            const service = new LLMService();
+            await service.init();
+
+            const embedding = await service.getEmbedding('Buy now', 'content', OVERRIDE_MODEL);
+            expect(embedding).toEqual([1, 0]);
+        });
+    });
+
+    describe('settings updates', () => {
+        it('should handle a global model whose custom provider was deleted', async () => {
+            const storage = createStorage({
+                openaiApiKey: 'sk-test',
+                promptModel: OVERRIDE_MODEL,
+            });
+            vi.stubGlobal('chrome', { storage: { local: storage } });
+            const service = new LLMService();
+            await service.init();
+            await service.analyzeByPrompt('Buy now', 'ad');
+
+            storage.get([STORAGE_KEYS.SETTINGS], (result) => {
+                const settings = (result as Record<string, Settings>)[STORAGE_KEYS.SETTINGS]!;
+                storage.set({
+                    [STORAGE_KEYS.SETTINGS]: { ...settings, customProviders: [] },
+                }, () => {});
+            });
+            await service.reloadSettings();
+
+            await expect(service.analyzeByPrompt('Buy now', 'ad'))
+                .rejects.toThrow(`Model "${OVERRIDE_MODEL}" for prompt analysis is not available`);
+            const embedding = await service.getEmbedding('Buy now', 'content');
+            expect(embedding).toEqual([1, 0]);
+        });
+    });
+
+    describe('canExecuteRuleType', () => {
+        it('should not run rules using models missing from the registry', () => {
+            expect(llm.canExecuteRuleType('prompt', OVERRIDE_MODEL)).toBe(true);
+            expect(llm.canExecuteRuleType('prompt', 'custom:removed:llama')).toBe(false);
+        });
+
+        it('should not run rules when the global model is missing from the registry', async () => {
+            vi.stubGlobal('chrome', {
+                storage: {
+                    local: createStorage({
+                        openaiApiKey: 'sk-test',
+                        promptModel: 'custom:removed:llama',
+                    }),
+                },
+            });
+            const service = new LLMService();
+            await service.init();
+
+            expect(service.canExecuteRuleType('prompt')).toBe(false);
+            expect(service.canExecuteRuleType('embedding')).toBe(true);
+            expect(service.canExecuteRuleType('prompt', OVERRIDE_MODEL)).toBe(true);
+        });
+    });
+
+    describe('canExecuteRule', () => {
+        it('should check the global models of pre-filters', () => {
+            const rule = RuleService.parseRule(
+                `div:contains-meaning-prompt('ad')$model=${OVERRIDE_MODEL}`,
+            );
+            const chained = RuleService.parseRule(
+                'div:contains-meaning-embedding(\'ad\')'
+                + `:contains-meaning-prompt('ad')$model=${OVERRIDE_MODEL}`,
+            );
+
+            expect(llm.canExecuteRule(rule)).toBe(true);
+            // The embedding pre-filter needs the OpenAI key
+            expect(llm.canExecuteRule(chained)).toBe(false);
+        });
+    });
+
+    describe('model overrides', () => {
+        it('should fail without override when the global provider is unavailable', async () => {
+            await expect(llm.analyzeByPrompt('Buy now', 'ad'))
+                .rejects.toThrow('OpenAI API key required for prompt analysis');
+        });
+
+        it('should only need the provider of the override model', async () => {
+            const overrides = { model: OVERRIDE_MODEL };
+
+            const prompt = await llm.analyzeByPrompt('Buy now', 'ad', undefined, overrides);
+            expect(prompt.matches).toBe(true);
+
+            const image = await llm.analyzeByImage('iVBORw0KGgo=', 'ad', {}, {}, overrides);
+            expect(image.matches).toBe(true);
+
+            const embedding = await llm.getEmbedding('Buy now', 'content', OVERRIDE_MODEL);
+            expect(embedding).toEqual([1, 0]);
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ModelDiscoveryService } from '../../src/background/model-discovery-service';
+import {
+    ALL_MODELS_MAP,
+    MODALITY,
+    MODEL_DISCOVERY_CONFIG,
+} from '../../src/shared/constants';
+import type { ModelCapabilities } from '../../src/shared/constants';
+import {
+    getModelCapabilities,
+    getModelsForRuleType,
+    getUnsupportedReason,
+    registerCustomProviders,
+    registerDiscoveredModels,
+} from '../../src/shared/model-utils';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const capabilities = (
+    overrides: Partial<ModelCapabilities> = {},
+): ModelCapabilities => ({
+    input: [MODALITY.TEXT],
+    output: [MODALITY.TEXT],
+    structuredOutput: true,
+    logprobs: false,
+    ...overrides,
+});
+
+const VISION = [MODALITY.TEXT, MODALITY.IMAGE];
+
+describe('ModelDiscoveryService', () => {
+    describe('isStale', () => {
+        it('should list providers without a stored list', () => {
+            expect(ModelDiscoveryService.isStale(undefined, NOW)).toBe(true);
+        });
+
+        it('should use stored lists until the TTL has passed', () => {
+            const list = { listedAt: NOW, models: [] };
+            expect(ModelDiscoveryService.isStale(list, NOW + 1000)).toBe(false);
+            expect(ModelDiscoveryService.isStale(
+                list,
+                NOW + MODEL_DISCOVERY_CONFIG.TTL,
+            )).toBe(true);
+        });
+    });
+});
+
+describe('registerDiscoveredModels', () => {
+    afterEach(() => {
+        registerDiscoveredModels({});
+        registerCustomProviders([]);
+    });
+
+    it('should offer models for the rule types they support', () => {
+        registerDiscoveredModels({
+            openai: {
+                models: [
+                    {
+                        name: 'gpt-4.1',
+                        capabilities: capabilities({
+                            input: VISION,
+                            maxInputTokens: 1047576,
+                        }),
+                    },
+                    {
+                        name: 'text-embedding-3-small',
+                        capabilities: capabilities({
+                            output: [MODALITY.EMBEDDING],
+                        }),
+                    },
+                ],
+            },
+        });
+
+        expect(ALL_MODELS_MAP['openai:gpt-4.1']?.capabilities.maxInputTokens)
+            .toBe(1047576);
+        expect(getModelsForRuleType('prompt')).toContain('openai:gpt-4.1');
+        expect(getModelsForRuleType('vision')).toContain('openai:gpt-4.1');
+        expect(getModelsForRuleType('embedding'))
+            .toContain('openai:text-embedding-3-small');
+        expect(getModelsForRuleType('prompt'))
+            .not.toContain('openai:text-embedding-3-small');
+    });
+
+    it('should limit capabilities to those of the adapter', () => {
+        registerDiscoveredModels({
+            lmstudio: {
+                models: [{
+                    name: 'qwen2.5-vl-7b',
+                    capabilities: capabilities({ input: VISION }),
+                }],
+            },
+        });
+        const model = ALL_MODELS_MAP['lmstudio:qwen2.5-vl-7b']!;
+
+        expect(getModelCapabilities(model).input).toEqual([MODALITY.TEXT]);
+        expect(getModelCapabilities(model).structuredOutput).toBe(false);
+        expect(getUnsupportedReason(model, 'vision')).toBe(
+            'Vision model "lmstudio:qwen2.5-vl-7b" does not accept images',
+        );
+        expect(getModelsForRuleType('prompt'))
+            .toContain('lmstudio:qwen2.5-vl-7b');
+    });
+
+    it('should keep built-in models as they are', () => {
+        const builtIn = ALL_MODELS_MAP['openai:gpt-5-nano'];
+        registerDiscoveredModels({
+            openai: {
+                models: [{
+                    name: 'gpt-5-nano',
+                    capabilities: capabilities({ maxInputTokens: 1000 }),
+                }],
+            },
+        });
+
+        expect(ALL_MODELS_MAP['openai:gpt-5-nano']).toBe(builtIn);
+        expect(getModelsForRuleType('vision')).toContain('openai:gpt-5-nano');
+    });
+
+    it('should replace previously discovered models', () => {
+        const lists = {
+            ollama: {
+                models: [{ name: 'llama3.2:3b', capabilities: capabilities() }],
+            },
+        };
+        registerDiscoveredModels(lists);
+        registerDiscoveredModels({});
+
+        expect(ALL_MODELS_MAP['ollama:llama3.2:3b']).toBeUndefined();
+        expect(getModelsForRuleType('prompt'))
+            .not.toContain('ollama:llama3.2:3b');
+    });
+
+    it('should add models of configured custom providers only', () => {
+        const lists = {
+            'custom:team-vllm': {
+                models: [{ name: 'qwen3-8b', capabilities: capabilities() }],
+            },
+        };
+        registerDiscoveredModels(lists);
+        expect(ALL_MODELS_MAP['custom:team-vllm:qwen3-8b']).toBeUndefined();
+
+        registerCustomProviders([{
+            id: 'team-vllm',
+            name: 'Team vLLM',
+            baseUrl: 'http://localhost:8000/v1',
+            apiKey: '',
+            headers: {},
+            embeddingModels: [],
+            promptModels: [],
+            visionModels: [],
+        }]);
+        expect(ALL_MODELS_MAP['custom:team-vllm:qwen3-8b']?.instance)
+            .toEqual({ id: 'team-vllm', name: 'Team vLLM' });
+        expect(getModelsForRuleType('prompt'))
+            .toContain('custom:team-vllm:qwen3-8b');
+    });
+});
@@ -0,0 +1,208 @@
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+    afterAll,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    it,
+} from 'vitest';
+import { OllamaAdapter } from '../../src/background/adapters/ollama-adapter';
+
+interface ReceivedRequest {
+    url?: string;
+    body: Record<string, unknown>;
+}
+
+interface Reply {
+    status: number;
+    body: unknown;
+}
+
+/**
+ * Mock Ollama server answering every request with the next response,
+ * or with the response for its URL
+ */
+let server: Server;
+let received: ReceivedRequest[];
+let reply: Reply | ((url?: string, body?: Record<string, unknown>) => Reply);
+let adapter: OllamaAdapter;
+
+const chatResponse = (content: string) => ({
+    status: 200,
+    body: {
+        message: { role: 'assistant', content },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 80,
+        eval_count: 20,
+    },
+});
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let data = '';
+        req.on('data', (chunk) => {
+            data += chunk;
+        });
+        req.on('end', () => {
+            const body = data ? JSON.parse(data) : {};
+            received.push({ url: req.url, body });
+            const { status, body: replyBody } = typeof reply === 'function'
+                ? reply(req.url, body)
+                : reply;
+            res.writeHead(status, {
+                'Content-Type': 'application/json',
+            });
+            res.end(JSON.stringify(replyBody));
+        });
+    });
+    await new Promise<void>((resolve) => {
+        server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    adapter = new OllamaAdapter({
+        embeddingModel: 'qwen3-embedding:0.6b',
+        promptModel: 'gemma3:4b',
+        visionModel: 'gemma3:4b',
+        baseUrl: `http://127.0.0.1:${port}`,
+    });
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => {
+        server.close(resolve);
+    });
+});
+
+beforeEach(() => {
+    received = [];
+    reply = chatResponse(
+        '{"matches": true, "confidence": 0.85, "explanation": "Ad"}',
+    );
+});
+
+describe('OllamaAdapter', () => {
+    it('should get embeddings from /api/embed', async () => {
+        reply = { status: 200, body: { embeddings: [[0.1, 0.2, 0.3]] } };
+        const embedding = await adapter.getEmbedding(
+            'text',
+            'qwen3-embedding:0.6b',
+        );
+
+        expect(embedding).toEqual([0.1, 0.2, 0.3]);
+        expect(received).toEqual([{
+            url: '/api/embed',
+            body: { model: 'qwen3-embedding:0.6b', input: 'text' },
+        }]);
+    });
+
+    it('should request JSON from /api/chat', async () => {
+        const result = await adapter.analyzeWithPrompt(
+            'Buy now, 50% off',
+            'advertisement',
+            'gemma3:4b',
+        );
+
+        expect(result).toEqual({
+            matches: true,
+            confidence: 0.85,
+            explanation: 'Ad',
+            usage: {
+                promptTokens: 80,
+                completionTokens: 20,
+                totalTokens: 100,
+            },
+        });
+        const [request] = received;
+        expect(request!.url).toBe('/api/chat');
+        expect(request!.body.model).toBe('gemma3:4b');
+        expect(request!.body.stream).toBe(false);
+        expect(request!.body.format).toMatchObject({
+            required: ['matches', 'confidence', 'explanation'],
+        });
+    });
+
+    it('should send images with the user message', async () => {
+        await adapter.analyzeImage('iVBORw0KGgo=', 'advertisement', 'gemma3:4b');
+
+        const messages = received[0]!.body.messages as Array<{
+            role: string;
+            images?: string[];
+        }>;
+        expect(messages.map(({ role }) => role)).toEqual(['system', 'user']);
+        expect(messages[1]!.images).toEqual(['iVBORw0KGgo=']);
+    });
+
+    it('should ask to pull models that are not available', async () => {
+        reply = {
+            status: 404,
+            body: { error: 'model "gemma3:4b" not found, try pulling it first' },
+        };
+
+        await expect(adapter.analyzeWithPrompt('text', 'ad', 'gemma3:4b'))
+            .rejects.toThrow('Pull it with "ollama pull gemma3:4b"');
+    });
+
+    it('should pass other API errors through', async () => {
+        reply = {
+            status: 400,
+            body: { error: 'this model does not support embeddings' },
+        };
+
+        await expect(adapter.getEmbedding('text', 'gemma3:4b'))
+            .rejects.toThrow('Ollama Embed API error: 400');
+    });
+
+    it('should list pulled models with their capabilities', async () => {
+        const details: Record<string, unknown> = {
+            'gemma3:4b': {
+                capabilities: ['completion', 'vision'],
+                model_info: {
+                    'general.architecture': 'gemma3',
+                    'gemma3.context_length': 131072,
+                },
+            },
+            'qwen3-embedding:0.6b': {
+                capabilities: ['embedding'],
+                model_info: { 'qwen3.context_length': 32768 },
+            },
+        };
+        reply = (url, body) => (url === '/api/tags'
+            ? {
+                status: 200,
+                body: {
+                    models: [
+                        { name: 'gemma3:4b' },
+                        { name: 'qwen3-embedding:0.6b' },
+                    ],
+                },
+            }
+            : { status: 200, body: details[body!.model as string] });
+
+        expect(await adapter.listModels()).toEqual([
+            {
+                name: 'gemma3:4b',
+                capabilities: {
+                    input: ['text', 'image'],
+                    output: ['text'],
+                    maxInputTokens: 131072,
+                    structuredOutput: true,
+                    logprobs: false,
+                },
+            },
+            {
+                name: 'qwen3-embedding:0.6b',
+                capabilities: {
+                    input: ['text'],
+                    output: ['embedding'],
+                    maxInputTokens: 32768,
+                    structuredOutput: false,
+                    logprobs: false,
+                },
+            },
+        ]);
+    });
+});
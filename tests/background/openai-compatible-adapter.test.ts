@@ -0,0 +1,270 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+    afterAll,
+    afterEach,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    it,
+} from 'vitest';
+import {
+    OpenAICompatibleAdapter,
+} from '../../src/background/adapters/openai-compatible-adapter';
+import { RuleParser } from '../../src/background/rule-parser';
+import { ALL_MODELS_MAP, MODALITY } from '../../src/shared/constants';
+import {
+    getAdapterKey,
+    getModelsForRuleType,
+    registerCustomProviders,
+} from '../../src/shared/model-utils';
+
+interface ReceivedRequest {
+    url?: string;
+    headers: IncomingHttpHeaders;
+    body: Record<string, unknown>;
+}
+
+/**
+ * Mock OpenAI-compatible server answering every request with the next response
+ */
+let server: Server;
+let received: ReceivedRequest[];
+let reply: { status: number; body: unknown };
+let baseUrl: string;
+
+const chatResponse = (content: string) => ({
+    status: 200,
+    body: {
+        choices: [{ message: { role: 'assistant', content } }],
+        usage: { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 },
+    },
+});
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let data = '';
+        req.on('data', (chunk) => {
+            data += chunk;
+        });
+        req.on('end', () => {
+            received.push({
+                url: req.url,
+                headers: req.headers,
+                body: data ? JSON.parse(data) : {},
+            });
+            res.writeHead(reply.status, {
+                'Content-Type': 'application/json',
+            });
+            res.end(JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>((resolve) => {
+        server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1/`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => {
+        server.close(resolve);
+    });
+});
+
+beforeEach(() => {
+    received = [];
+    reply = chatResponse(
+        '{"matches": true, "confidence": 0.85, "explanation": "Ad"}',
+    );
+});
+
+describe('OpenAICompatibleAdapter', () => {
+    const createAdapter = () => new OpenAICompatibleAdapter({
+        name: 'Team vLLM',
+        baseUrl,
+        apiKey: 'secret',
+        headers: { 'api-key': 'azure-key' },
+    });
+
+    it('should send the API key and custom headers', async () => {
+        await createAdapter().analyzeWithPrompt('text', 'ad', 'llama');
+
+        const [request] = received;
+        expect(request!.url).toBe('/v1/chat/completions');
+        expect(request!.headers.authorization).toBe('Bearer secret');
+        expect(request!.headers['api-key']).toBe('azure-key');
+    });
+
+    it('should not send a bearer token without API key', async () => {
+        const adapter = new OpenAICompatibleAdapter({ name: 'Local', baseUrl });
+        await adapter.analyzeWithPrompt('text', 'ad', 'llama');
+
+        expect(received[0]!.headers.authorization).toBeUndefined();
+    });
+
+    it('should get embeddings from /embeddings', async () => {
+        reply = {
+            status: 200,
+            body: { data: [{ embedding: [0.1, 0.2, 0.3] }] },
+        };
+        const embedding = await createAdapter().getEmbedding('text', 'bge-m3');
+
+        expect(embedding).toEqual([0.1, 0.2, 0.3]);
+        expect(received[0]!.url).toBe('/v1/embeddings');
+        expect(received[0]!.body).toEqual({ input: 'text', model: 'bge-m3' });
+    });
+
+    it('should parse the analysis and usage', async () => {
+        reply = chatResponse(
+            '<think>Looks like a sale</think>\n'
+            + '```json\n{"matches": true, "confidence": 0.9, '
+            + '"explanation": "Sale"}\n```',
+        );
+        const result = await createAdapter().analyzeWithPrompt(
+            'Buy now, 50% off',
+            'advertisement',
+            'qwen3',
+        );
+
+        expect(result).toEqual({
+            matches: true,
+            confidence: 0.9,
+            explanation: 'Sale',
+            usage: {
+                promptTokens: 80,
+                completionTokens: 20,
+                totalTokens: 100,
+            },
+        });
+    });
+
+    it('should send images as data URLs', async () => {
+        await createAdapter().analyzeImage('iVBORw0KGgo=', 'ad', 'qwen-vl');
+
+        const messages = received[0]!.body.messages as Array<{
+            role: string;
+            content: unknown;
+        }>;
+        expect(messages[1]!.content).toContainEqual({
+            type: 'image_url',
+            image_url: {
+                url: 'data:image/png;base64,iVBORw0KGgo=',
+                detail: 'auto',
+            },
+        });
+    });
+
+    it('should guess capabilities from model names', async () => {
+        reply = {
+            status: 200,
+            body: {
+                data: [
+                    { id: 'BAAI/bge-m3', max_model_len: 8192 },
+                    { id: 'Qwen/Qwen2.5-VL-7B-Instruct' },
+                    { id: 'meta-llama/Llama-3.1-8B-Instruct' },
+                ],
+            },
+        };
+        const models = await createAdapter().listModels();
+
+        expect(received[0]!.url).toBe('/v1/models');
+        expect(models.map(({ name, capabilities }) => [
+            name,
+            capabilities.input,
+            capabilities.output,
+        ])).toEqual([
+            ['BAAI/bge-m3', ['text'], ['embedding']],
+            ['Qwen/Qwen2.5-VL-7B-Instruct', ['text', 'image'], ['text']],
+            ['meta-llama/Llama-3.1-8B-Instruct', ['text'], ['text']],
+        ]);
+        expect(models[0]!.capabilities.maxInputTokens).toBe(8192);
+    });
+
+    it('should name the provider in API errors', async () => {
+        reply = { status: 401, body: { error: 'invalid key' } };
+
+        await expect(createAdapter().analyzeWithPrompt('text', 'ad', 'llama'))
+            .rejects.toThrow('Team vLLM Chat API error: 401');
+    });
+});
+
+describe('registerCustomProviders', () => {
+    const provider = {
+        id: 'team-vllm',
+        name: 'Team vLLM',
+        baseUrl: 'http://localhost:8000/v1',
+        apiKey: '',
+        headers: {},
+        embeddingModels: ['BAAI/bge-m3'],
+        promptModels: ['meta-llama/Llama-3.1-8B-Instruct'],
+        visionModels: [],
+    };
+
+    afterEach(() => {
+        registerCustomProviders([]);
+    });
+
+    it('should add models to the registry by category', () => {
+        registerCustomProviders([provider]);
+
+        const promptModelId = 'custom:team-vllm:meta-llama/Llama-3.1-8B-Instruct';
+        expect(ALL_MODELS_MAP[promptModelId]).toEqual({
+            id: promptModelId,
+            name: 'meta-llama/Llama-3.1-8B-Instruct',
+            provider: 'custom',
+            instance: { id: 'team-vllm', name: 'Team vLLM' },
+            capabilities: {
+                input: [MODALITY.TEXT],
+                output: [MODALITY.TEXT],
+                structuredOutput: false,
+                logprobs: false,
+            },
+        });
+        expect(getModelsForRuleType('embedding'))
+            .toContain('custom:team-vllm:BAAI/bge-m3');
+        expect(getModelsForRuleType('prompt')).toContain(promptModelId);
+        expect(getModelsForRuleType('vision')).not.toContain(promptModelId);
+        expect(getAdapterKey(ALL_MODELS_MAP[promptModelId]!))
+            .toBe('custom:team-vllm');
+    });
+
+    it('should merge the rule types of models configured twice', () => {
+        registerCustomProviders([{
+            ...provider,
+            promptModels: ['qwen-vl'],
+            visionModels: ['qwen-vl'],
+        }]);
+
+        expect(getModelsForRuleType('prompt')).toContain('custom:team-vllm:qwen-vl');
+        expect(getModelsForRuleType('vision')).toContain('custom:team-vllm:qwen-vl');
+    });
+
+    it('should replace the models of previous providers', () => {
+        registerCustomProviders([provider]);
+        const builtInCount = Object.keys(ALL_MODELS_MAP).length - 2;
+        registerCustomProviders([{
+            ...provider,
+            id: 'lite',
+            name: 'LiteLLM',
+            promptModels: ['gpt-4o'],
+        }]);
+
+        expect(ALL_MODELS_MAP['custom:team-vllm:BAAI/bge-m3']).toBeUndefined();
+        expect(getModelsForRuleType('prompt')).toContain('custom:lite:gpt-4o');
+        expect(Object.keys(ALL_MODELS_MAP)).toHaveLength(builtInCount + 2);
+    });
+
+    it('should let rules use models of custom providers', () => {
+        registerCustomProviders([provider]);
+
+        const ast = RuleParser.parse(
+            'div:contains-meaning-embedding(\'ad\')'
+            + '$model=custom:team-vllm:BAAI/bge-m3',
+        );
+        expect(RuleParser.parseModifierNodes(ast.modifiers, 'embedding'))
+            .toEqual({ model: 'custom:team-vllm:BAAI/bge-m3' });
+    });
+});
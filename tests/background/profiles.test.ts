@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROFILE } from '../../src/shared/constants';
+import {
+    getActiveProfile,
+    getProfileUpdates,
+    getProfiles,
+} from '../../src/shared/profiles';
+import {
+    DEFAULT_SETTINGS,
+    type RuleProfile,
+    type Settings,
+} from '../../src/shared/settings-schema';
+
+const workProfile: RuleProfile = {
+    id: 'profile-work',
+    name: 'Work',
+    enabled: false,
+    embeddingThreshold: 0.5,
+    promptThreshold: 0.8,
+    visionThreshold: 0.9,
+    adBlockRules: [{ ruleString: 'example.com##.banner', enabled: true }],
+    filterLists: [],
+};
+
+const settingsWith = (overrides: Partial<Settings> = {}): Settings => ({
+    ...DEFAULT_SETTINGS,
+    adBlockRules: [{ ruleString: 'Cats', enabled: true }],
+    profiles: [workProfile],
+    ...overrides,
+});
+
+describe('getActiveProfile', () => {
+    it('should build the default profile from top-level settings', () => {
+        const profile = getActiveProfile(settingsWith());
+
+        expect(profile.id).toBe(DEFAULT_PROFILE.ID);
+        expect(profile.enabled).toBe(DEFAULT_SETTINGS.blockingEnabled);
+        expect(profile.adBlockRules).toEqual([
+            { ruleString: 'Cats', enabled: true },
+        ]);
+    });
+
+    it('should return the active named profile', () => {
+        const settings = settingsWith({ activeProfileId: workProfile.id });
+
+        expect(getActiveProfile(settings)).toEqual(workProfile);
+    });
+
+    it('should fall back to the default profile if the active one is gone', () => {
+        const settings = settingsWith({
+            activeProfileId: 'profile-deleted',
+        });
+
+        expect(getActiveProfile(settings).id).toBe(DEFAULT_PROFILE.ID);
+    });
+});
+
+describe('getProfiles', () => {
+    it('should list the default profile first', () => {
+        const ids = getProfiles(settingsWith()).map(({ id }) => id);
+
+        expect(ids).toEqual([DEFAULT_PROFILE.ID, workProfile.id]);
+    });
+});
+
+describe('getProfileUpdates', () => {
+    it('should keep updates as they are for the default profile', () => {
+        const updates = { blockingEnabled: false, embeddingThreshold: 0.4 };
+
+        expect(getProfileUpdates(settingsWith(), updates)).toBe(updates);
+    });
+
+    it('should keep updates without per-profile settings as they are', () => {
+        const settings = settingsWith({ activeProfileId: workProfile.id });
+        const updates = { debugLogging: true };
+
+        expect(getProfileUpdates(settings, updates)).toBe(updates);
+    });
+
+    it('should use the default profile when the active one is gone', () => {
+        const settings = settingsWith({ activeProfileId: 'deleted' });
+        const updates = { adBlockRules: [] };
+
+        expect(getProfileUpdates(settings, updates)).toBe(updates);
+    });
+
+    it('should not save updates of a deleted profile', () => {
+        expect(() => getProfileUpdates(settingsWith(), { adBlockRules: [] }, 'deleted'))
+            .toThrow('Profile "deleted" not found');
+    });
+
+    it('should route per-profile settings to the active profile', () => {
+        const settings = settingsWith({ activeProfileId: workProfile.id });
+        const adBlockRules = [{ ruleString: 'Dogs', enabled: true }];
+
+        const result = getProfileUpdates(settings, {
+            blockingEnabled: true,
+            promptThreshold: 0.6,
+            adBlockRules,
+            debugLogging: true,
+        });
+
+        expect(result).toEqual({
+            debugLogging: true,
+            profiles: [{
+                ...workProfile,
+                enabled: true,
+                promptThreshold: 0.6,
+                adBlockRules,
+            }],
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { RuleAnalyzer } from '../../src/background/rule-analyzer';
+import type { CriteriaComparator } from '../../src/background/rule-analyzer';
+import { RuleService } from '../../src/background/rule-service';
+import { RULE_FINDING, RULE_FIX_ACTION } from '../../src/shared/constants';
+import type { Rule } from '../../src/shared/rule-types';
+
+const parse = (ruleStrings: string[]) => ruleStrings.map(
+    (ruleString) => RuleService.parseRule(ruleString),
+);
+
+// Criteria only match as text, as without an embedding model
+const textOnly: CriteriaComparator = async () => 0;
+
+const noneReadOnly = () => false;
+
+describe('RuleAnalyzer', () => {
+    it('should find duplicates and keep the first copy', async () => {
+        const rules = parse([
+            'div:contains-meaning-prompt(\'ad\')',
+            'div:contains-meaning-prompt(\'ad\')',
+            'div:contains-meaning-prompt(\'ad\')',
+        ]);
+        const findings = await RuleAnalyzer.findIssues(
+            rules,
+            textOnly,
+            noneReadOnly,
+        );
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0]!.kind).toBe(RULE_FINDING.DUPLICATE);
+        expect(findings[0]!.fix).toEqual({
+            action: RULE_FIX_ACTION.REMOVE,
+            ruleIds: [rules[1]!.id, rules[2]!.id],
+        });
+    });
+
+    it('should find similar criteria with the comparator', async () => {
+        const rules = parse([
+            'div:contains-meaning-prompt(\'Crypto ads\')',
+            'div:contains-meaning-prompt(\'crypto ads!\')',
+            'div:contains-meaning-prompt(\'crypto promotion\')',
+            'div:contains-meaning-prompt(\'cooking recipes\')',
+        ]);
+        const compare: CriteriaComparator = async (a, b) => (
+            [a, b].every((criteria) => /crypto/i.test(criteria))
+                ? 0.95
+                : 0.2
+        );
+        const findings = await RuleAnalyzer.findIssues(
+            rules,
+            compare,
+            noneReadOnly,
+        );
+
+        expect(findings.map(({ kind }) => kind)).toEqual([
+            RULE_FINDING.SIMILAR,
+            RULE_FINDING.SIMILAR,
+            RULE_FINDING.SIMILAR,
+        ]);
+        expect(findings[0]!.message).toContain('the same criteria');
+        expect(findings[1]!.message).toContain('95% similar');
+        expect(findings.flatMap(({ ruleIds }) => ruleIds))
+            .not.toContain(rules[3]!.id);
+    });
+
+    it('should not compare rules with different selectors or modifiers', async () => {
+        const rules = parse([
+            'div:contains-meaning-prompt(\'ad\')',
+            'span:contains-meaning-prompt(\'ad\')',
+            'div:contains-meaning-prompt(\'ad\')$threshold=0.9',
+            'div:contains-meaning-embedding(\'ad\')',
+        ]);
+        const findings = await RuleAnalyzer.findIssues(
+            rules,
+            textOnly,
+            noneReadOnly,
+        );
+
+        expect(findings).toEqual([]);
+    });
+
+    it('should find rules shadowed by broader domains', async () => {
+        const rules = parse([
+            'news.example.com##.sponsored',
+            '*.example.com##.sponsored',
+        ]);
+        const findings = await RuleAnalyzer.findIssues(
+            rules,
+            textOnly,
+            noneReadOnly,
+        );
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0]!.kind).toBe(RULE_FINDING.SHADOWED);
+        expect(findings[0]!.fix).toEqual({
+            action: RULE_FIX_ACTION.REMOVE,
+            ruleIds: [rules[0]!.id],
+        });
+    });
+
+    it('should merge rules on different domains', async () => {
+        const rules = parse([
+            'example.org,example.com#?#div:contains-meaning-prompt(\'ad\')',
+            'example.net#?#div:contains-meaning-prompt(\'ad\')',
+        ]);
+        const findings = await RuleAnalyzer.findIssues(
+            rules,
+            textOnly,
+            noneReadOnly,
+        );
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0]!.kind).toBe(RULE_FINDING.OVERLAPPING);
+        expect(findings[0]!.fix).toEqual({
+            action: RULE_FIX_ACTION.MERGE,
+            ruleIds: [rules[0]!.id, rules[1]!.id],
+            ruleString: 'example.org,example.com,example.net'
+                + '#?#div:contains-meaning-prompt(\'ad\')',
+        });
+    });
+
+    it('should not offer to remove read-only rules', async () => {
+        const rules = parse([
+            '##.sponsored',
+            'example.com##.sponsored',
+            'example.org##.sponsored',
+        ]);
+        const isReadOnly = (rule: Rule) => rule !== rules[0];
+        const findings = await RuleAnalyzer.findIssues(
+            rules,
+            textOnly,
+            isReadOnly,
+        );
+
+        expect(findings.map(({ kind }) => kind)).toEqual([
+            RULE_FINDING.SHADOWED,
+            RULE_FINDING.SHADOWED,
+            RULE_FINDING.OVERLAPPING,
+        ]);
+        expect(findings.every(({ fix }) => !fix)).toBe(true);
+    });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { RuleIndex } from '../../src/background/rule-index';
+import { RuleService } from '../../src/background/rule-service';
+import { filterRulesByUrl } from '../../src/shared/domain-matcher';
+import type { Rule } from '../../src/shared/rule-types';
+
+const parse = (ruleStrings: string[]) => ruleStrings.map(
+    (ruleString) => RuleService.parseRule(ruleString),
+);
+
+const ruleStrings = (rules: Rule[]) => rules.map(
+    ({ ruleString }) => ruleString,
+);
+
+/**
+ * Build rules using every kind of domain pattern, with a few rules
+ * applying everywhere but on some sites as in real filter lists
+ * @param count Number of rules
+ * @returns Rules
+ */
+const generateRules = (count: number): Rule[] => parse(
+    Array.from({ length: count }, (_, i) => {
+        if (i % 100 === 3) {
+            return `~site${i}.com##.ad-${i}`;
+        }
+        switch (i % 10) {
+        case 0:
+            return `*.cdn${i}.net##.ad-${i}`;
+        case 1:
+            return `brand${i}.*##.ad-${i}`;
+        case 2:
+            return `site${i}.com/news##.ad-${i}`;
+        default:
+            return `site${i}.com,www.site${i}.org##.ad-${i}`;
+        }
+    }).concat([
+        '##.banner',
+        '/^ads\\d+\\.example\\.org$/##.ad',
+        'shop*.example.org##.ad',
+        '#@?#.banner',
+    ]),
+);
+
+/**
+ * URLs hitting the generated rules, none of them and the catch-all ones
+ * @param count Number of URLs
+ * @returns URLs
+ */
+const generateUrls = (count: number): string[] => Array.from(
+    { length: count },
+    (_, i) => [
+        `https://img.cdn${i * 10}.net/a.png`,
+        `https://brand${i * 10 + 1}.co.uk/`,
+        `https://site${i * 10 + 2}.com/news/today`,
+        `https://www.site${i * 10 + 4}.org/`,
+        `https://ads${i}.example.org/`,
+        `http://unknown${i}.example.com:8080/?q=${i}`,
+    ][i % 6]!,
+);
+
+/**
+ * Average time of a lookup in milliseconds
+ * @param urls URLs to look up
+ * @param lookup Lookup to measure
+ * @returns Milliseconds per URL
+ */
+const measure = (urls: string[], lookup: (url: string) => Rule[]) => {
+    const start = performance.now();
+    urls.forEach(lookup);
+    return (performance.now() - start) / urls.length;
+};
+
+describe('RuleIndex', () => {
+    it('should find rules by host, subdomain and public suffix', () => {
+        const rules = parse([
+            'example.com##.a',
+            '*.example.com##.b',
+            'example.*##.c',
+            '*.example.*##.d',
+            'other.com##.e',
+            '##.f',
+        ]);
+        const index = new RuleIndex(rules);
+
+        expect(ruleStrings(index.getRulesForUrl('https://example.com/')))
+            .toEqual(['example.com##.a', 'example.*##.c', '##.f']);
+        expect(ruleStrings(index.getRulesForUrl('https://www.example.co.uk/')))
+            .toEqual(['example.*##.c', '*.example.*##.d', '##.f']);
+        expect(ruleStrings(index.getRulesForUrl('https://cdn.example.com/')))
+            .toEqual([
+                'example.com##.a',
+                '*.example.com##.b',
+                'example.*##.c',
+                '*.example.*##.d',
+                '##.f',
+            ]);
+        expect(index.getRulesForUrl('chrome://extensions/')).toEqual([]);
+    });
+
+    it('should keep priority order and apply exceptions', () => {
+        const rules = parse([
+            '##.banner',
+            'example.com##.sponsored',
+            '/^ads\\d+\\.example\\.com$/##.promo',
+            'example.com#@?#.banner',
+        ]);
+        const index = new RuleIndex(rules);
+
+        expect(ruleStrings(index.getRulesForUrl('https://ads1.example.com/')))
+            .toEqual([
+                'example.com##.sponsored',
+                '/^ads\\d+\\.example\\.com$/##.promo',
+                'example.com#@?#.banner',
+            ]);
+        expect(ruleStrings(index.getRulesForUrl('https://example.org/')))
+            .toEqual(['##.banner']);
+    });
+
+    it('should skip disabled rules at lookup time', () => {
+        const rules = parse(['example.com##.a', 'example.com##.b']);
+        const index = new RuleIndex(rules);
+        rules[0]!.enabled = false;
+
+        expect(ruleStrings(index.getRulesForUrl('https://example.com/')))
+            .toEqual(['example.com##.b']);
+    });
+
+    it('should find the same rules as filtering every rule', () => {
+        const rules = generateRules(1000);
+        const index = new RuleIndex(rules);
+
+        generateUrls(120).forEach((url) => {
+            expect(index.getRulesForUrl(url))
+                .toEqual(filterRulesByUrl(rules, url));
+        });
+    });
+
+    it('should look up 10k rules faster than filtering every rule', () => {
+        const rules = generateRules(10000);
+        const urls = generateUrls(600);
+
+        const buildStart = performance.now();
+        const index = new RuleIndex(rules);
+        const buildTime = performance.now() - buildStart;
+
+        // Compile and cache every domain pattern before measuring
+        filterRulesByUrl(rules, urls[0]!);
+
+        const indexTime = measure(urls, (url) => index.getRulesForUrl(url));
+        const linearTime = measure(
+            urls.slice(0, 30),
+            (url) => filterRulesByUrl(rules, url),
+        );
+
+        console.log(
+            `10k rules: index built in ${buildTime.toFixed(1)} ms, `
+            + `lookup ${indexTime.toFixed(3)} ms per URL, `
+            + `filtering every rule ${linearTime.toFixed(3)} ms per URL`,
+        );
+        expect(indexTime).toBeLessThan(linearTime);
+    }, 30000);
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { RuleMatcher } from '../../src/background/rule-matcher';
+import type { RuleAnalysisResult } from '../../src/background/rule-matcher';
+import { RuleService } from '../../src/background/rule-service';
+import { MATCH_STRATEGY } from '../../src/shared/constants';
+import type { Rule } from '../../src/shared/rule-types';
+
+const rules = ['first', 'second', 'third'].map(
+    (criteria) => RuleService.parseRule(
+        `div:contains-meaning-prompt('${criteria}')`,
+    ),
+);
+
+/**
+ * Build an analyzer returning fixed results and recording analyzed rules
+ * @param results Result per rule index
+ * @returns Analyzer and the rules it was called with
+ */
+const analyzerFor = (results: RuleAnalysisResult[]) => {
+    const analyzed: Rule[] = [];
+    const analyze = async (rule: Rule) => {
+        analyzed.push(rule);
+        return results[rules.indexOf(rule)]!;
+    };
+    return { analyze, analyzed };
+};
+
+const match = (confidence: number) => ({
+    matches: true,
+    confidence,
+    threshold: 0.7,
+});
+
+const noMatch = (confidence: number) => ({
+    matches: false,
+    confidence,
+    threshold: 0.7,
+});
+
+describe('RuleMatcher', () => {
+    describe('first match', () => {
+        const options = {
+            strategy: MATCH_STRATEGY.FIRST_MATCH,
+            consensusCount: 2,
+        };
+
+        it('should skip rules after the first match', async () => {
+            const { analyze, analyzed } = analyzerFor([
+                noMatch(0.9),
+                match(0.8),
+                match(0.95),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, options);
+
+            expect(analyzed).toEqual([rules[0], rules[1]]);
+            expect(result.matched).toBe(true);
+            expect(result.matchedRule).toBe(rules[1]);
+            expect(result.maxConfidence).toBe(0.8);
+        });
+
+        it('should report the most confident result without a match', async () => {
+            const { analyze } = analyzerFor([
+                noMatch(0.2),
+                noMatch(0.6),
+                noMatch(0.4),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, options);
+
+            expect(result.matched).toBe(false);
+            expect(result.matchedRule).toBeNull();
+            expect(result.maxConfidence).toBe(0.6);
+        });
+    });
+
+    describe('best confidence', () => {
+        const options = {
+            strategy: MATCH_STRATEGY.BEST_CONFIDENCE,
+            consensusCount: 2,
+        };
+
+        it('should analyze all rules and keep the most confident', async () => {
+            const { analyze, analyzed } = analyzerFor([
+                match(0.75),
+                match(0.9),
+                noMatch(0.3),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, options);
+
+            expect(analyzed).toHaveLength(3);
+            expect(result.matchedRule).toBe(rules[1]);
+            expect(result.maxConfidence).toBe(0.9);
+        });
+
+        it('should block when a less confident rule matches', async () => {
+            const { analyze } = analyzerFor([
+                match(0.8),
+                noMatch(0.9),
+                noMatch(0.3),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, options);
+
+            expect(result.matched).toBe(true);
+            expect(result.matchedRule).toBe(rules[0]);
+            expect(result.maxConfidence).toBe(0.8);
+        });
+
+        it('should report the most confident result without a match', async () => {
+            const { analyze } = analyzerFor([
+                noMatch(0.4),
+                noMatch(0.9),
+                noMatch(0.3),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, options);
+
+            expect(result.matched).toBe(false);
+            expect(result.matchedRule).toBeNull();
+            expect(result.maxConfidence).toBe(0.9);
+        });
+
+        it('should not match when no rules apply', async () => {
+            const { analyze } = analyzerFor([]);
+            const result = await RuleMatcher.match([], analyze, options);
+
+            expect(result).toEqual({
+                matched: false,
+                matchedRule: null,
+                maxConfidence: 0,
+                threshold: 0,
+            });
+        });
+    });
+
+    describe('consensus', () => {
+        it('should block when enough rules match', async () => {
+            const { analyze } = analyzerFor([
+                match(0.75),
+                noMatch(0.95),
+                match(0.85),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, {
+                strategy: MATCH_STRATEGY.CONSENSUS,
+                consensusCount: 2,
+            });
+
+            expect(result.matched).toBe(true);
+            expect(result.matchedRule).toBe(rules[2]);
+            expect(result.maxConfidence).toBe(0.85);
+            expect(result.explanation).toContain('2 of 3 rules matched');
+        });
+
+        it('should not block when too few rules match', async () => {
+            const { analyze } = analyzerFor([
+                match(0.9),
+                noMatch(0.2),
+                noMatch(0.1),
+            ]);
+            const result = await RuleMatcher.match(rules, analyze, {
+                strategy: MATCH_STRATEGY.CONSENSUS,
+                consensusCount: 2,
+            });
+
+            expect(result.matched).toBe(false);
+            expect(result.matchedRule).toBeNull();
+            expect(result.explanation).toContain('1 of 3 rules matched (2 needed)');
+        });
+
+        it('should not block when fewer rules than the count apply', async () => {
+            const { analyze } = analyzerFor([match(0.9)]);
+            const result = await RuleMatcher.match([rules[0]!], analyze, {
+                strategy: MATCH_STRATEGY.CONSENSUS,
+                consensusCount: 3,
+            });
+
+            expect(result.matched).toBe(false);
+            expect(result.matchedRule).toBeNull();
+            expect(result.explanation).toContain('1 of 1 rules matched (3 needed)');
+        });
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { RuleParser } from '../../src/background/rule-parser';
+import { RuleSyntaxError } from '../../src/background/rule-syntax-error';
+import type { AnalysisRuleType } from '../../src/shared/rule-types';
 
 describe('RuleParser', () => {
     describe('parseRuleComponents', () => {
@@ -58,6 +60,39 @@ describe('RuleParser', () => {
             expect(result.domains).toEqual(['www.example.org', 'blog.test.com']);
             expect(result.rulePart).toBe('div:contains-meaning-prompt(\'ad\')');
         });
+
+        it('should not mark regular rules as exceptions', () => {
+            const ruleString = 'example.org#?#div:contains-meaning-prompt(\'ad\')';
+            const result = RuleParser.parseRuleComponents(ruleString);
+
+            expect(result.isException).toBe(false);
+        });
+
+        it('should parse exception rule with domains', () => {
+            const ruleString = 'news.example.com#@?#article:contains-meaning-prompt(\'ad\')';
+            const result = RuleParser.parseRuleComponents(ruleString);
+
+            expect(result.isException).toBe(true);
+            expect(result.domains).toEqual(['news.example.com']);
+            expect(result.rulePart).toBe('article:contains-meaning-prompt(\'ad\')');
+        });
+
+        it('should parse exception rule without domains', () => {
+            const result = RuleParser.parseRuleComponents('#@?#.comment');
+
+            expect(result.isException).toBe(true);
+            expect(result.domains).toEqual([]);
+            expect(result.rulePart).toBe('.comment');
+        });
+
+        it('should parse cosmetic rule with domains', () => {
+            const result = RuleParser.parseRuleComponents('example.org,test.com##.ad-slot');
+
+            expect(result.isCosmetic).toBe(true);
+            expect(result.isException).toBe(false);
+            expect(result.domains).toEqual(['example.org', 'test.com']);
+            expect(result.rulePart).toBe('.ad-slot');
+        });
     });
 
     describe('parseDomains', () => {
@@ -91,10 +126,20 @@ describe('RuleParser', () => {
             expect(result).toEqual(['example.org', 'test.com']);
         });
 
+        it('should keep negation prefix', () => {
+            const result = RuleParser.parseDomains('*.example.com, ~shop.example.com');
+            expect(result).toEqual(['*.example.com', '~shop.example.com']);
+        });
+
         it('should handle leading comma', () => {
             const result = RuleParser.parseDomains(',example.org,test.com');
             expect(result).toEqual(['example.org', 'test.com']);
         });
+
+        it('should not split on escaped commas', () => {
+            const result = RuleParser.parseDomains('/^a{1\\,2}\\./,test.com');
+            expect(result).toEqual(['/^a{1\\,2}\\./', 'test.com']);
+        });
     });
 
     describe('isValidDomain', () => {
@@ -135,6 +180,18 @@ describe('RuleParser', () => {
             expect(RuleParser.isValidDomain('*/test-page/*.html')).toBe(true);
         });
 
+        it('should validate negated domains', () => {
+            expect(RuleParser.isValidDomain('~example.com')).toBe(true);
+            expect(RuleParser.isValidDomain('~*.example.org')).toBe(true);
+            expect(RuleParser.isValidDomain('~localhost')).toBe(true);
+        });
+
+        it('should reject invalid negated domains', () => {
+            expect(RuleParser.isValidDomain('~')).toBe(false);
+            expect(RuleParser.isValidDomain('~~example.com')).toBe(false);
+            expect(RuleParser.isValidDomain('~example')).toBe(false);
+        });
+
         it('should reject empty string', () => {
             expect(RuleParser.isValidDomain('')).toBe(false);
         });
@@ -175,6 +232,27 @@ describe('RuleParser', () => {
         it('should reject domain ending with dot', () => {
             expect(RuleParser.isValidDomain('example.org.')).toBe(false);
         });
+
+        it('should validate scheme, port, path and query parts', () => {
+            expect(RuleParser.isValidDomain('https://example.org')).toBe(true);
+            expect(RuleParser.isValidDomain('localhost:8080')).toBe(true);
+            expect(RuleParser.isValidDomain('example.org/news/*')).toBe(true);
+            expect(RuleParser.isValidDomain('example.org/watch?v=*')).toBe(true);
+            expect(RuleParser.isValidDomain('example.org:port')).toBe(false);
+            expect(RuleParser.isValidDomain('example.org/a?b?c')).toBe(false);
+        });
+
+        it('should validate regex patterns', () => {
+            expect(RuleParser.isValidDomain('/^ads\\d+\\.example\\.com$/')).toBe(true);
+            expect(RuleParser.isValidDomain('~/^ads\\./')).toBe(true);
+            expect(RuleParser.isValidDomain('/(ads/')).toBe(false);
+        });
+
+        it('should reject public suffixes', () => {
+            expect(RuleParser.isValidDomain('co.uk')).toBe(false);
+            expect(RuleParser.isValidDomain('~com.au')).toBe(false);
+            expect(RuleParser.isValidDomain('example.co.uk')).toBe(true);
+        });
     });
 
     describe('validateDomains', () => {
@@ -208,5 +286,254 @@ describe('RuleParser', () => {
             expect(result.error).toBe('Invalid domain format: "example#.org"');
         });
     });
-});
 
+    describe('parse', () => {
+        it('should build syntax tree with positions', () => {
+            const ast = RuleParser.parse('example.org,~shop.example.org#?#div.ad:contains-meaning-prompt(\'ad\')$threshold=0.8');
+
+            expect(ast.isException).toBe(false);
+            expect(ast.domains.map((d) => d.value)).toEqual(['example.org', '~shop.example.org']);
+            expect(ast.domains[1]).toMatchObject({ start: 12, end: 29 });
+            expect(ast.selector).toEqual({ value: 'div.ad', start: 32, end: 38 });
+            expect(ast.pseudoClasses[0]?.kind).toBe('prompt');
+            expect(ast.pseudoClasses[0]?.arguments).toEqual([{
+                name: null,
+                values: [{ value: 'ad', start: 63, end: 67 }],
+                start: 63,
+                end: 67,
+            }]);
+            expect(ast.modifiers).toEqual([{
+                key: 'threshold',
+                value: '0.8',
+                start: 69,
+                end: 82,
+                valueStart: 79,
+                valueEnd: 82,
+            }]);
+        });
+
+        it('should parse cosmetic rule', () => {
+            const ast = RuleParser.parse('example.org##.ad-slot');
+            expect(ast.isCosmetic).toBe(true);
+            expect(ast.isException).toBe(false);
+            expect(ast.selector).toEqual({ value: '.ad-slot', start: 13, end: 21 });
+        });
+
+        it('should parse exception rule without pseudo-class', () => {
+            const ast = RuleParser.parse('example.org#@?#.comments');
+            expect(ast.isException).toBe(true);
+            expect(ast.selector.value).toBe('.comments');
+            expect(ast.pseudoClasses).toEqual([]);
+        });
+
+        it('should resolve escaped quotes in arguments', () => {
+            const ast = RuleParser.parse('div:contains-meaning-prompt(\'it\\\'s an \\"ad\\"\')');
+            expect(ast.pseudoClasses[0]?.arguments[0]?.values[0]?.value).toBe('it\'s an "ad"');
+        });
+
+        it('should keep parentheses and commas inside quoted arguments', () => {
+            const ast = RuleParser.parse('div:contains-meaning-prompt("ads (sponsored, promoted)")');
+            expect(ast.pseudoClasses[0]?.arguments[0]?.values[0]?.value).toBe('ads (sponsored, promoted)');
+        });
+
+        it('should parse alternatives and named arguments', () => {
+            const ast = RuleParser.parse('div:contains-meaning-embedding(\'a\' | "b", not: \'c\')');
+            const args = ast.pseudoClasses[0]?.arguments;
+
+            expect(args?.map((arg) => arg.name)).toEqual([null, 'not']);
+            expect(args?.[0]?.values.map((v) => v.value)).toEqual(['a', 'b']);
+            expect(args?.[1]).toMatchObject({ start: 42, end: 50 });
+        });
+
+        it('should parse targeting operators around pseudo-classes', () => {
+            const ast = RuleParser.parse('div.card:text-from(h3:not(.x)):contains-meaning-prompt(\'ad\'):upward(2)$action=hide');
+
+            expect(ast.selector.value).toBe('div.card');
+            expect(ast.pseudoClasses.map((p) => p.kind)).toEqual(['prompt']);
+            expect(ast.operators).toEqual([
+                {
+                    kind: 'text-from',
+                    argument: { value: 'h3:not(.x)', start: 19, end: 29 },
+                    start: 8,
+                    end: 30,
+                },
+                {
+                    kind: 'upward',
+                    argument: { value: '2', start: 68, end: 69 },
+                    start: 60,
+                    end: 70,
+                },
+            ]);
+            expect(ast.modifiers.map((m) => m.key)).toEqual(['action']);
+        });
+
+        it('should keep $ and brackets inside selector', () => {
+            const ast = RuleParser.parse('a[href$=".pdf"]:not(.x):contains-meaning-prompt(\'costs $5\')');
+            expect(ast.selector.value).toBe('a[href$=".pdf"]:not(.x)');
+            expect(ast.pseudoClasses[0]?.arguments[0]?.values[0]?.value).toBe('costs $5');
+            expect(ast.modifiers).toEqual([]);
+        });
+
+        it('should ignore separator inside quoted selector', () => {
+            const ast = RuleParser.parse('div[title="a#?#b"]:contains-meaning-prompt(\'ad\')');
+            expect(ast.domains).toEqual([]);
+            expect(ast.selector.value).toBe('div[title="a#?#b"]');
+        });
+
+        it('should accept whitespace around modifiers', () => {
+            const ast = RuleParser.parse('div:contains-meaning-prompt(\'ad\') $ threshold = 0.5 , action = blur ');
+            expect(ast.modifiers.map((m) => [m.key, m.value])).toEqual([['threshold', '0.5'], ['action', 'blur']]);
+        });
+
+        it('should report unterminated string at its opening quote', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'ad)'))
+                .toThrow('Invalid rule format: unterminated string at column 29');
+        });
+
+        it('should report mismatched quotes as unterminated string', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'ad")'))
+                .toThrow('unterminated string at column 29');
+        });
+
+        it('should report unterminated string in selector', () => {
+            expect(() => RuleParser.parse('div[title="ad]:contains-meaning-prompt(\'ad\')'))
+                .toThrow('unterminated string at column 11');
+        });
+
+        it('should report unclosed bracket in selector', () => {
+            expect(() => RuleParser.parse('div[data-ad:contains-meaning-prompt(\'ad\')'))
+                .toThrow('unclosed "[" at column 4');
+        });
+
+        it('should report unknown pseudo-class', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-magic(\'ad\')'))
+                .toThrow('unknown pseudo-class ":contains-meaning-magic" at column 4');
+        });
+
+        it('should report missing opening parenthesis', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt \'ad\''))
+                .toThrow('expected "(" after ":contains-meaning-prompt" at column 29');
+        });
+
+        it('should report unquoted argument', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(ad)'))
+                .toThrow('expected quoted string at column 29');
+        });
+
+        it('should report missing alternative after pipe', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-embedding(\'a\' |)'))
+                .toThrow('expected quoted string at column 37');
+        });
+
+        it('should report empty targeting operator argument', () => {
+            expect(() => RuleParser.parse('h3:contains-meaning-prompt(\'ad\'):upward()'))
+                .toThrow('expected selector at column 41');
+        });
+
+        it('should report unclosed targeting operator', () => {
+            expect(() => RuleParser.parse('h3:contains-meaning-prompt(\'ad\'):upward(.card'))
+                .toThrow('expected ")" at column 46');
+        });
+
+        it('should report missing closing parenthesis', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'ad\''))
+                .toThrow('expected ")" at column 33');
+        });
+
+        it('should report empty argument', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'  \')'))
+                .toThrow('empty argument at column 29');
+        });
+
+        it('should report missing selector', () => {
+            expect(() => RuleParser.parse('example.org#?#'))
+                .toThrow('expected selector at column 15');
+        });
+
+        it('should report trailing text', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'ad\') extra'))
+                .toThrow('unexpected "extra" at column 35');
+        });
+
+        it('should report modifier without value', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'ad\')$hide'))
+                .toThrow('expected "=" after modifier "hide" at column 39');
+        });
+
+        it('should report empty modifier list', () => {
+            expect(() => RuleParser.parse('div:contains-meaning-prompt(\'ad\')$'))
+                .toThrow('expected modifier name at column 35');
+        });
+
+        it('should expose error offset and length', () => {
+            try {
+                RuleParser.parse('div:contains-meaning-magic(\'ad\')');
+                expect.unreachable();
+            } catch (error) {
+                expect(error).toBeInstanceOf(RuleSyntaxError);
+                expect((error as RuleSyntaxError).offset).toBe(3);
+                expect((error as RuleSyntaxError).length).toBe(23);
+                expect((error as RuleSyntaxError).column).toBe(4);
+            }
+        });
+    });
+
+    describe('validateDomainNodes', () => {
+        it('should point at the invalid domain', () => {
+            const ast = RuleParser.parse('example.org, invalid#?#div:contains-meaning-prompt(\'ad\')');
+            expect(() => RuleParser.validateDomainNodes(ast.domains))
+                .toThrow('Invalid domain format: "invalid" at column 14');
+        });
+    });
+
+    describe('parseModifierNodes', () => {
+        const parseModifiers = (modifiers: string, ruleType: AnalysisRuleType = 'prompt') => {
+            const ast = RuleParser.parse(`div:contains-meaning-${ruleType}('ad')$${modifiers}`);
+            return RuleParser.parseModifierNodes(ast.modifiers, ruleType);
+        };
+
+        it('should parse threshold, model and action', () => {
+            expect(parseModifiers('threshold=0.85,model=openai:gpt-5-nano,action=hide')).toEqual({
+                threshold: 0.85,
+                model: 'openai:gpt-5-nano',
+                action: 'hide',
+            });
+        });
+
+        it('should reject threshold out of range at its value', () => {
+            expect(() => parseModifiers('threshold=1.5')).toThrow('Invalid threshold: "1.5" (expected a number between 0 and 1) at column 45');
+        });
+
+        it('should reject non-numeric threshold', () => {
+            expect(() => parseModifiers('threshold=high')).toThrow('Invalid threshold');
+        });
+
+        it('should reject unknown model', () => {
+            expect(() => parseModifiers('model=openai:unknown')).toThrow('Unknown model: "openai:unknown"');
+        });
+
+        it('should reject model that does not support rule type', () => {
+            expect(() => parseModifiers('model=openai:gpt-5-nano', 'embedding')).toThrow('Embedding model "openai:gpt-5-nano" does not return embeddings');
+        });
+
+        it('should reject vision model that does not accept images', () => {
+            expect(() => parseModifiers('model=lmstudio:google/gemma-3n-e4b', 'vision')).toThrow('Vision model "lmstudio:google/gemma-3n-e4b" does not accept images');
+        });
+
+        it('should reject prompt model that does not answer prompts', () => {
+            expect(() => parseModifiers('model=openai:text-embedding-3-large', 'prompt')).toThrow('Prompt model "openai:text-embedding-3-large" does not answer text prompts');
+        });
+
+        it('should reject unknown action', () => {
+            expect(() => parseModifiers('action=remove')).toThrow('Invalid action');
+        });
+
+        it('should reject unknown modifier at its key', () => {
+            expect(() => parseModifiers('priority=1')).toThrow('Unknown modifier: "priority" at column 35');
+        });
+
+        it('should reject duplicate modifier', () => {
+            expect(() => parseModifiers('threshold=0.5,threshold=0.6')).toThrow('Duplicate modifier: "threshold" at column 49');
+        });
+    });
+});
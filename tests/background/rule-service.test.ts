@@ -1,11 +1,70 @@
-import { describe, expect, it } from 'vitest';
+import {
+    afterEach,
+    describe,
+    expect,
+    it,
+    vi,
+} from 'vitest';
 import { RuleService } from '../../src/background/rule-service';
-import { RULE_TYPE } from '../../src/shared/constants';
+import {
+    RULE_EXPORT_FORMAT,
+    RULE_IMPORT_MODE,
+    RULE_TYPE,
+    STORAGE_KEYS,
+} from '../../src/shared/constants';
 import type {
+    CosmeticRule,
     EmbeddingRule,
+    ExceptionRule,
     PromptRule,
     VisionRule,
 } from '../../src/shared/rule-types';
+import { DEFAULT_SETTINGS } from '../../src/shared/settings-schema';
+
+/**
+ * Rule service with an imported list, a subscribed list and a
+ * user rule stored in an in-memory chrome.storage.local
+ */
+const createService = async (): Promise<RuleService> => {
+    const store: Record<string, unknown> = {
+        [STORAGE_KEYS.SETTINGS]: {
+            ...DEFAULT_SETTINGS,
+            adBlockRules: [
+                { ruleString: '##.a', enabled: true, listId: 'imported' },
+                { ruleString: '##.b', enabled: true, listId: 'subscribed' },
+                { ruleString: '##.c', enabled: true },
+            ],
+            filterLists: [
+                { id: 'imported', title: 'Imported', enabled: true },
+                {
+                    id: 'subscribed',
+                    title: 'Subscribed',
+                    enabled: true,
+                    subscription: {
+                        url: 'https://example.com/rules.txt',
+                        failureCount: 0,
+                    },
+                },
+            ],
+        },
+    };
+    vi.stubGlobal('chrome', {
+        storage: {
+            local: {
+                get: (keys: string[], callback: (result: object) => void) => {
+                    callback(Object.fromEntries(keys.map((key) => [key, store[key]])));
+                },
+                set: (items: object, callback: () => void) => {
+                    Object.assign(store, items);
+                    callback();
+                },
+            },
+        },
+    });
+    const service = new RuleService();
+    await service.initialize();
+    return service;
+};
 
 describe('RuleService', () => {
     describe('parseRule', () => {
@@ -44,6 +103,20 @@ describe('RuleService', () => {
                 expect(rule.domains).toEqual(['example.org', 'test.com']);
             });
 
+            it('should parse regex and URL domain patterns', () => {
+                const ruleString = '/^ads\\d{1\\,3}\\./,https://example.org:8443/news?id=*#?#article:contains-meaning-embedding(\'buy\')';
+                const rule = RuleService.parseRule(ruleString) as EmbeddingRule;
+
+                expect(rule.domains).toEqual([
+                    '/^ads\\d{1\\,3}\\./',
+                    'https://example.org:8443/news?id=*',
+                ]);
+            });
+
+            it('should reject public suffix domains', () => {
+                expect(() => RuleService.parseRule('co.uk##.ad')).toThrow('Invalid domain format');
+            });
+
             it('should parse embedding rule with complex selector', () => {
                 const ruleString = 'div[class*="ad"]:contains-meaning-embedding(\'advertisement\')';
                 const rule = RuleService.parseRule(ruleString) as EmbeddingRule;
@@ -118,6 +191,328 @@ describe('RuleService', () => {
             });
         });
 
+        describe('Exception rules', () => {
+            it('should parse exception rule targeting an AI rule', () => {
+                const ruleString = 'news.example.com#@?#article.sponsored-by-us:contains-meaning-prompt(\'advertisement\')';
+                const rule = RuleService.parseRule(ruleString) as ExceptionRule;
+
+                expect(rule.type).toBe(RULE_TYPE.EXCEPTION);
+                expect(rule.selector).toBe('article.sponsored-by-us');
+                expect(rule.targetType).toBe(RULE_TYPE.PROMPT);
+                expect(rule.targetCriteria).toBe('advertisement');
+                expect(rule.domains).toEqual(['news.example.com']);
+                expect(rule.ruleString).toBe(ruleString);
+            });
+
+            it('should parse selector-only exception rule', () => {
+                const rule = RuleService.parseRule('#@?#.comment') as ExceptionRule;
+
+                expect(rule.type).toBe(RULE_TYPE.EXCEPTION);
+                expect(rule.selector).toBe('.comment');
+                expect(rule.targetType).toBeNull();
+                expect(rule.targetCriteria).toBeNull();
+                expect(rule.domains).toEqual([]);
+            });
+
+            it('should reject exception rule with empty body', () => {
+                expect(() => RuleService.parseRule('example.org#@?#')).toThrow('Invalid rule format');
+            });
+
+            it('should reject exception rule with invalid target', () => {
+                const ruleString = '#@?#div:contains-meaning-unknown(\'ad\')';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('Invalid rule format');
+            });
+
+            it('should reject exception rule with invalid domain', () => {
+                expect(() => RuleService.parseRule('invalid#@?#.comment')).toThrow('Invalid domain format');
+            });
+        });
+
+        describe('Cosmetic rules', () => {
+            it('should parse cosmetic rule with domains', () => {
+                const ruleString = 'example.org,~shop.example.org##div[data-testid="promoted"]';
+                const rule = RuleService.parseRule(ruleString) as CosmeticRule;
+
+                expect(rule.type).toBe(RULE_TYPE.COSMETIC);
+                expect(rule.selector).toBe('div[data-testid="promoted"]');
+                expect(rule.domains).toEqual(['example.org', '~shop.example.org']);
+                expect(rule.ruleString).toBe(ruleString);
+            });
+
+            it('should parse cosmetic rule without domains', () => {
+                const rule = RuleService.parseRule('##.ad-slot');
+                expect(rule.type).toBe(RULE_TYPE.COSMETIC);
+                expect(rule.selector).toBe('.ad-slot');
+                expect(rule.domains).toEqual([]);
+            });
+
+            it('should keep id selector after separator', () => {
+                const rule = RuleService.parseRule('example.org###sidebar-ad');
+                expect(rule.selector).toBe('#sidebar-ad');
+            });
+
+            it('should reject cosmetic rule with AI pseudo-class', () => {
+                const ruleString = '##div:contains-meaning-prompt(\'ad\')';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('cosmetic rules cannot use AI pseudo-classes, use #?# instead at column 6');
+            });
+
+            it('should reject cosmetic rule with modifiers', () => {
+                expect(() => RuleService.parseRule('##.ad$action=hide')).toThrow('cosmetic rules do not support modifiers');
+            });
+
+            it('should reject cosmetic rule without selector', () => {
+                expect(() => RuleService.parseRule('example.org##')).toThrow('Invalid rule format');
+            });
+        });
+
+        describe('Embedding anchors', () => {
+            it('should parse positive and negative anchors', () => {
+                const ruleString = 'div:contains-meaning-embedding(\'sponsored deal\' | \'limited offer\', not: \'news report\' | \'tutorial\')';
+                const rule = RuleService.parseRule(ruleString) as EmbeddingRule;
+
+                expect(rule.anchors).toEqual({
+                    positive: ['sponsored deal', 'limited offer'],
+                    negative: ['news report', 'tutorial'],
+                });
+                expect(rule.containsText).toBe('sponsored deal | limited offer, not: news report | tutorial');
+            });
+
+            it('should keep single anchor as criteria', () => {
+                const rule = RuleService.parseRule('div:contains-meaning-embedding(\' ad \')') as EmbeddingRule;
+                expect(rule.containsText).toBe('ad');
+                expect(rule.anchors).toEqual({ positive: ['ad'], negative: [] });
+            });
+
+            it('should pass anchors to embedding pre-filters', () => {
+                const ruleString = 'div:contains-meaning-embedding(\'a\', not: \'b\'):contains-meaning-prompt(\'c\')';
+                const rule = RuleService.parseRule(ruleString);
+                expect(rule.preFilters?.[0]?.anchors).toEqual({ positive: ['a'], negative: ['b'] });
+            });
+
+            it('should reject negative anchors without positive ones', () => {
+                expect(() => RuleService.parseRule('div:contains-meaning-embedding(not: \'a\')'))
+                    .toThrow('unexpected argument "not:" at column 32');
+            });
+
+            it('should reject unknown argument name', () => {
+                expect(() => RuleService.parseRule('div:contains-meaning-embedding(\'a\', but: \'b\')'))
+                    .toThrow('expected "not:" argument at column 37');
+            });
+
+            it('should reject alternatives in prompt rules', () => {
+                expect(() => RuleService.parseRule('div:contains-meaning-prompt(\'a\' | \'b\')'))
+                    .toThrow('alternatives (|) are only supported in embedding rules at column 35');
+            });
+        });
+
+        describe('Targeting operators', () => {
+            it('should parse :upward with levels and :text-from', () => {
+                const ruleString = 'div.card:text-from(h3.title):contains-meaning-embedding(\'ad\'):upward(2)';
+                const rule = RuleService.parseRule(ruleString);
+
+                expect(rule.selector).toBe('div.card');
+                expect(rule.targeting).toEqual({ textFrom: 'h3.title', upward: 2 });
+            });
+
+            it('should parse :upward with selector', () => {
+                const rule = RuleService.parseRule('h3.title:contains-meaning-prompt(\'ad\'):upward(.card)');
+                expect(rule.targeting).toEqual({ upward: '.card' });
+            });
+
+            it('should not set targeting without operators', () => {
+                const rule = RuleService.parseRule('h3:contains-meaning-prompt(\'ad\')');
+                expect(rule.targeting).toBeUndefined();
+            });
+
+            it('should reject :upward(0)', () => {
+                expect(() => RuleService.parseRule('h3:contains-meaning-prompt(\'ad\'):upward(0)'))
+                    .toThrow('expected a positive number or a selector at column 41');
+            });
+
+            it('should reject duplicate operator', () => {
+                expect(() => RuleService.parseRule('h3:contains-meaning-prompt(\'ad\'):upward(1):upward(2)'))
+                    .toThrow('duplicate ":upward" at column 43');
+            });
+
+            it('should reject operators in vision and cosmetic rules', () => {
+                expect(() => RuleService.parseRule('img:contains-meaning-vision(\'ad\'):upward(1)'))
+                    .toThrow('vision rules cannot use ":upward"');
+                expect(() => RuleService.parseRule('##h3:upward(1)'))
+                    .toThrow('cosmetic rules cannot use ":upward" at column 5');
+            });
+        });
+
+        describe('Page rules', () => {
+            it('should parse page rule', () => {
+                const rule = RuleService.parseRule('news.example.com#?#page:contains-meaning-prompt(\'graphic violence\')$threshold=0.9') as PromptRule;
+
+                expect(rule.type).toBe(RULE_TYPE.PROMPT);
+                expect(rule.page).toBe(true);
+                expect(rule.prompt).toBe('graphic violence');
+                expect(rule.modifiers).toEqual({ threshold: 0.9 });
+            });
+
+            it('should not mark element rules as page rules', () => {
+                const rule = RuleService.parseRule('div:contains-meaning-prompt(\'ad\')') as PromptRule;
+                expect(rule.page).toBeUndefined();
+            });
+
+            it('should reject non-prompt page rules', () => {
+                expect(() => RuleService.parseRule('page:contains-meaning-embedding(\'ad\')'))
+                    .toThrow('page rules only support ":contains-meaning-prompt" at column 5');
+            });
+
+            it('should reject chained page rules', () => {
+                expect(() => RuleService.parseRule('page:contains-meaning-prompt(\'a\'):contains-meaning-prompt(\'b\')'))
+                    .toThrow('page rules cannot be chained at column 34');
+            });
+
+            it('should reject action modifier in page rules', () => {
+                expect(() => RuleService.parseRule('page:contains-meaning-prompt(\'a\')$action=hide'))
+                    .toThrow('page rules do not support the "action" modifier at column 35');
+            });
+        });
+
+        describe('Chained rules', () => {
+            it('should parse embedding pre-filter gating prompt', () => {
+                const ruleString = 'div.post:contains-meaning-embedding(\'crypto promotion\'):contains-meaning-prompt(\'is this a paid crypto promotion?\')';
+                const rule = RuleService.parseRule(ruleString) as PromptRule;
+
+                expect(rule.type).toBe(RULE_TYPE.PROMPT);
+                expect(rule.selector).toBe('div.post');
+                expect(rule.prompt).toBe('is this a paid crypto promotion?');
+                expect(rule.preFilters).toEqual([
+                    {
+                        type: RULE_TYPE.EMBEDDING,
+                        criteria: 'crypto promotion',
+                        anchors: { positive: ['crypto promotion'], negative: [] },
+                    },
+                ]);
+            });
+
+            it('should keep pre-filters in source order', () => {
+                const ruleString = 'div:contains-meaning-embedding(\'a\'):contains-meaning-embedding(\'b\'):contains-meaning-prompt(\'c\')';
+                const rule = RuleService.parseRule(ruleString);
+                expect(rule.preFilters?.map((stage) => stage.criteria)).toEqual(['a', 'b']);
+            });
+
+            it('should not set pre-filters for single predicate', () => {
+                const rule = RuleService.parseRule('div:contains-meaning-prompt(\'ad\')');
+                expect(rule.preFilters).toBeUndefined();
+            });
+
+            it('should validate modifiers against the last predicate', () => {
+                const ruleString = 'div:contains-meaning-embedding(\'a\'):contains-meaning-prompt(\'b\')$model=openai:gpt-5-nano';
+                const rule = RuleService.parseRule(ruleString);
+                expect(rule.modifiers).toEqual({ model: 'openai:gpt-5-nano' });
+            });
+
+            it('should reject vision predicate in a chain', () => {
+                const ruleString = 'img:contains-meaning-embedding(\'a\'):contains-meaning-vision(\'b\')';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('vision predicates cannot be chained at column 36');
+            });
+
+            it('should target the last predicate in exception rules', () => {
+                const ruleString = '#@?#div:contains-meaning-embedding(\'a\'):contains-meaning-prompt(\'b\')';
+                const rule = RuleService.parseRule(ruleString) as ExceptionRule;
+
+                expect(rule.targetType).toBe(RULE_TYPE.PROMPT);
+                expect(rule.targetCriteria).toBe('b');
+            });
+        });
+
+        describe('Modifiers', () => {
+            it('should parse rule with modifiers', () => {
+                const ruleString = 'example.org#?#div:contains-meaning-prompt(\'ad\')$threshold=0.85,model=openai:gpt-5-nano,action=hide';
+                const rule = RuleService.parseRule(ruleString) as PromptRule;
+
+                expect(rule.type).toBe(RULE_TYPE.PROMPT);
+                expect(rule.selector).toBe('div');
+                expect(rule.prompt).toBe('ad');
+                expect(rule.domains).toEqual(['example.org']);
+                expect(rule.modifiers).toEqual({
+                    threshold: 0.85,
+                    model: 'openai:gpt-5-nano',
+                    action: 'hide',
+                });
+                expect(rule.ruleString).toBe(ruleString);
+            });
+
+            it('should not set modifiers when rule has none', () => {
+                const rule = RuleService.parseRule('div:contains-meaning-embedding(\'ad\')');
+                expect(rule.modifiers).toBeUndefined();
+            });
+
+            it('should parse vision rule with vision model', () => {
+                const ruleString = 'img:contains-meaning-vision(\'banner\')$model=openai:gpt-5-mini';
+                const rule = RuleService.parseRule(ruleString) as VisionRule;
+
+                expect(rule.criteria).toBe('banner');
+                expect(rule.modifiers).toEqual({ model: 'openai:gpt-5-mini' });
+            });
+
+            it('should reject rule with invalid modifier', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'ad\')$threshold=2';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('Invalid threshold');
+            });
+
+            it('should reject model not supporting rule type', () => {
+                const ruleString = 'div:contains-meaning-embedding(\'ad\')$model=openai:gpt-5-nano';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('does not return embeddings');
+            });
+
+            it('should keep models missing from the registry when skipping the model check', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'ad\')$model=custom:removed:llama';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('Unknown model: "custom:removed:llama"');
+
+                const rule = RuleService.parseRule(ruleString, { skipModelCheck: true });
+                expect(rule.modifiers).toEqual({ model: 'custom:removed:llama' });
+            });
+
+            it('should parse schedule modifier with spaces', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'sports\')$schedule=mon-fri 09:00-18:00,action=hide';
+                const rule = RuleService.parseRule(ruleString) as PromptRule;
+
+                expect(rule.modifiers).toEqual({
+                    schedule: [{ days: [1, 2, 3, 4, 5], start: 540, end: 1080 }],
+                    action: 'hide',
+                });
+            });
+
+            it('should point at an invalid schedule value', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'ad\')$schedule=mon-fri 9-18';
+                const result = RuleService.validateRule(ruleString);
+
+                expect(result.valid).toBe(false);
+                expect(result.error).toContain('Invalid schedule time "9-18"');
+                expect(result.offset).toBe(ruleString.indexOf('mon-fri'));
+                expect(result.length).toBe('mon-fri 9-18'.length);
+            });
+
+            it('should parse quoted label and category modifiers', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'GoT plot\')$label="Spoiler: Game of Thrones",category=Spoiler';
+                const rule = RuleService.parseRule(ruleString) as PromptRule;
+
+                expect(rule.modifiers).toEqual({
+                    label: 'Spoiler: Game of Thrones',
+                    category: 'spoiler',
+                });
+            });
+
+            it('should reject invalid category', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'ad\')$category=rage_bait';
+                expect(() => RuleService.parseRule(ruleString)).toThrow('Invalid category: "rage_bait"');
+            });
+
+            it('should match exception target ignoring its modifiers', () => {
+                const ruleString = '#@?#div:contains-meaning-prompt(\'ad\')$threshold=0.9';
+                const rule = RuleService.parseRule(ruleString) as ExceptionRule;
+
+                expect(rule.targetType).toBe(RULE_TYPE.PROMPT);
+                expect(rule.targetCriteria).toBe('ad');
+            });
+        });
+
         describe('Domain validation', () => {
             it('should reject rule with invalid domain (no dot)', () => {
                 const ruleString = 'invalid#?#div:contains-meaning-embedding(\'ad\')';
@@ -159,6 +554,12 @@ describe('RuleService', () => {
                 expect(rule.selector).toBe('div[data-ad="true"]');
             });
 
+            it('should unescape quotes in criteria', () => {
+                const ruleString = 'div:contains-meaning-prompt(\'don\\\'t "buy" now\')';
+                const rule = RuleService.parseRule(ruleString) as PromptRule;
+                expect(rule.prompt).toBe('don\'t "buy" now');
+            });
+
             it('should handle rule text with quotes', () => {
                 const ruleString = 'div:contains-meaning-prompt("promotional content")';
                 const rule = RuleService.parseRule(ruleString) as PromptRule;
@@ -230,4 +631,356 @@ describe('RuleService', () => {
             expect(result).toBe(false);
         });
     });
+
+    describe('validateRule', () => {
+        it('should return valid result for correct rule', () => {
+            expect(RuleService.validateRule('div:contains-meaning-prompt(\'ad\')')).toEqual({ valid: true });
+        });
+
+        it('should return error position for syntax error', () => {
+            const result = RuleService.validateRule('div:contains-meaning-prompt(\'ad)');
+            expect(result).toEqual({
+                valid: false,
+                error: 'Invalid rule format: unterminated string at column 29',
+                offset: 28,
+                length: 1,
+                column: 29,
+            });
+        });
+
+        it('should point after selector when pseudo-class is missing', () => {
+            const result = RuleService.validateRule('example.org#?#div.ad');
+            expect(result.valid).toBe(false);
+            expect(result.offset).toBe(20);
+        });
+
+        it('should point at second argument', () => {
+            const result = RuleService.validateRule('div:contains-meaning-prompt(\'ad\', \'promo\')');
+            expect(result.error).toBe('Invalid rule format: expected a single argument at column 35');
+            expect(result.length).toBe(7);
+        });
+    });
+
+    describe('parseFilterList', () => {
+        it('should parse rules and header of a filter list', () => {
+            const result = RuleService.parseFilterList([
+                '! Title: Team rules',
+                '! Version: 2.0',
+                '',
+                'example.com##.banner',
+                'div:contains-meaning-embedding(\'ad\')',
+            ].join('\n'));
+
+            expect(result.metadata).toEqual({ title: 'Team rules', version: '2.0' });
+            expect(result.rules.map((rule) => rule.type)).toEqual([
+                RULE_TYPE.COSMETIC,
+                RULE_TYPE.EMBEDDING,
+            ]);
+            expect(result.errors).toEqual([]);
+        });
+
+        it('should report invalid rules per line and keep valid ones', () => {
+            const result = RuleService.parseFilterList([
+                '! Title: Team rules',
+                'div:contains-meaning-prompt(\'ad\')',
+                '  div:contains-meaning-prompt(\'ad)',
+                'example.com##.banner',
+            ].join('\n'));
+
+            expect(result.rules).toHaveLength(2);
+            expect(result.errors).toEqual([{
+                line: 3,
+                text: 'div:contains-meaning-prompt(\'ad)',
+                error: 'Invalid rule format: unterminated string at column 29',
+                column: 31,
+            }]);
+        });
+
+        it('should order header and rule errors by line', () => {
+            const result = RuleService.parseFilterList([
+                '! Expires: soon',
+                'div.ad',
+            ].join('\n'));
+
+            expect(result.errors.map((error) => error.line)).toEqual([1, 2]);
+        });
+
+        it('should tag rules with their section', () => {
+            const result = RuleService.parseFilterList([
+                '##.top',
+                '! [News sites]',
+                'example.com##.banner',
+            ].join('\n'));
+
+            expect(result.rules[0]!.tags).toBeUndefined();
+            expect(result.rules[1]!.tags).toEqual(['news-sites']);
+        });
+    });
+
+    describe('mergeFilterListRules', () => {
+        const list = {
+            id: 'list-1',
+            title: 'Team rules',
+            enabled: true,
+        };
+        const parse = (ruleString: string) => RuleService.parseRule(ruleString);
+
+        it('should keep unchanged rules and report added and removed ones', () => {
+            const kept = { ...parse('example.com##.x'), listId: list.id, enabled: false };
+            const removed = { ...parse('##.old'), listId: list.id };
+
+            const result = RuleService.mergeFilterListRules(
+                [kept, removed],
+                [parse('example.com##.x'), parse('##.new')],
+                list,
+            );
+
+            expect(result.added).toBe(1);
+            expect(result.removed).toBe(1);
+            expect(result.rules[0]).toBe(kept);
+            expect(result.rules[1]).toMatchObject({
+                ruleString: '##.new',
+                listId: list.id,
+                enabled: true,
+            });
+        });
+
+        it('should add new rules enabled when the list is disabled', () => {
+            const result = RuleService.mergeFilterListRules(
+                [],
+                [parse('##.new')],
+                { ...list, enabled: false },
+            );
+
+            expect(result.rules[0]?.enabled).toBe(true);
+        });
+
+        it('should keep duplicate lines once', () => {
+            const result = RuleService.mergeFilterListRules(
+                [],
+                [parse('##.new'), parse('##.new')],
+                list,
+            );
+
+            expect(result.rules).toHaveLength(1);
+            expect(result.added).toBe(1);
+        });
+    });
+
+    describe('moveRule', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        const ruleId = (service: RuleService, ruleString: string) => service.getRules()
+            .find((rule) => rule.ruleString === ruleString)!.id;
+        const order = (service: RuleService) => service.getRules()
+            .map((rule) => rule.ruleString);
+
+        it('should move rules to the position of the target', async () => {
+            const service = await createService();
+
+            expect(await service.moveRule(ruleId(service, '##.c'), ruleId(service, '##.a'))).toBe(true);
+            expect(order(service)).toEqual(['##.c', '##.a', '##.b']);
+        });
+
+        it('should not move rules of subscribed lists', async () => {
+            const service = await createService();
+
+            expect(await service.moveRule(ruleId(service, '##.b'), ruleId(service, '##.a'))).toBe(false);
+            expect(order(service)).toEqual(['##.a', '##.b', '##.c']);
+        });
+    });
+
+    describe('toggleFilterList', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        const enabledRules = (service: RuleService) => service.getRules()
+            .filter((rule) => rule.enabled)
+            .map((rule) => rule.ruleString);
+
+        it('should disable the rules of a disabled list', async () => {
+            const service = await createService();
+            await service.toggleFilterList('imported', false);
+
+            expect(enabledRules(service)).toEqual(['##.b', '##.c']);
+            expect(service.getRulesForUrl('https://example.com/')
+                .map((rule) => rule.ruleString)).toEqual(['##.b', '##.c']);
+        });
+
+        it('should keep rules disabled one by one when the list is enabled again', async () => {
+            const service = await createService();
+            const { list } = await service.importFilterList('! Title: Team\n##.d\n##.e\n');
+            const ruleD = service.getRules().find((rule) => rule.ruleString === '##.d')!;
+            await service.toggleRule(ruleD.id, false);
+
+            await service.toggleFilterList(list!.id, false);
+            expect(enabledRules(service)).toEqual(['##.a', '##.b', '##.c']);
+
+            await service.toggleFilterList(list!.id, true);
+            expect(enabledRules(service)).toEqual(['##.a', '##.b', '##.c', '##.e']);
+        });
+    });
+
+    describe('normalizeTags', () => {
+        it('should lowercase, trim and dedupe tags', () => {
+            expect(RuleService.normalizeTags([' News ', 'news', '', 'Rage Bait']))
+                .toEqual(['news', 'rage-bait']);
+        });
+
+        it('should drop characters other than letters, digits, - and _', () => {
+            expect(RuleService.normalizeTags(['<b>spoilers</b>', 'é_1', '!!']))
+                .toEqual(['bspoilersb', 'é_1']);
+        });
+    });
+
+    describe('getTags', () => {
+        it('should collect sorted unique tags of all rules', () => {
+            const news = { ...RuleService.parseRule('##.a'), tags: ['news'] };
+            const both = {
+                ...RuleService.parseRule('##.b'),
+                tags: ['sports', 'news'],
+            };
+
+            expect(RuleService.getTags([news, both, RuleService.parseRule('##.c')]))
+                .toEqual(['news', 'sports']);
+        });
+    });
+
+    describe('rule export and import', () => {
+        const parse = (ruleString: string) => RuleService.parseRule(ruleString);
+
+        it('should export rule strings as a filter list', () => {
+            const text = RuleService.formatRuleExport(
+                [parse('example.com##.x'), { ...parse('##.y'), enabled: false }],
+                RULE_EXPORT_FORMAT.TEXT,
+            );
+            const result = RuleService.parseRuleImport(text);
+
+            expect(text).toBe('! Title: Exported rules\nexample.com##.x\n##.y\n');
+            expect(result.format).toBe(RULE_EXPORT_FORMAT.TEXT);
+            expect(result.rules.map((rule) => rule.ruleString))
+                .toEqual(['example.com##.x', '##.y']);
+        });
+
+        it('should keep enabled state, tags and list ID in JSON', () => {
+            const rule = {
+                ...parse('example.com##.x'),
+                enabled: false,
+                tags: ['news'],
+                listId: 'list-1',
+            };
+            const json = RuleService.formatRuleExport(
+                [rule],
+                RULE_EXPORT_FORMAT.JSON,
+            );
+            const result = RuleService.parseRuleImport(json);
+
+            expect(JSON.parse(json)).toEqual({
+                version: 1,
+                rules: [{
+                    ruleString: 'example.com##.x',
+                    enabled: false,
+                    listId: 'list-1',
+                    tags: ['news'],
+                }],
+            });
+            expect(result.format).toBe(RULE_EXPORT_FORMAT.JSON);
+            expect(result.errors).toEqual([]);
+            expect(result.rules[0]).toMatchObject({
+                ruleString: 'example.com##.x',
+                enabled: false,
+                tags: ['news'],
+                listId: 'list-1',
+            });
+        });
+
+        it('should report invalid JSON entries by rule number', () => {
+            const result = RuleService.parseRuleImport(JSON.stringify([
+                { ruleString: '##.ok' },
+                { ruleString: 'div:contains-meaning-prompt(\'ad)' },
+                { enabled: true },
+            ]));
+
+            expect(result.rules.map((rule) => rule.ruleString)).toEqual(['##.ok']);
+            expect(result.rules[0]!.enabled).toBe(true);
+            expect(result.errors.map(({ line, text }) => ({ line, text }))).toEqual([
+                { line: 2, text: 'div:contains-meaning-prompt(\'ad)' },
+                { line: 3, text: '{"enabled":true}' },
+            ]);
+        });
+
+        it('should report malformed JSON', () => {
+            const result = RuleService.parseRuleImport('{"rules": [');
+
+            expect(result.rules).toEqual([]);
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0]!.error).toContain('Invalid JSON');
+        });
+
+        it('should merge only rules that are not there yet', () => {
+            const current = [parse('##.a'), parse('##.b')];
+            const result = RuleService.mergeImportedRules(
+                current,
+                [parse('##.b'), parse('##.c'), parse('##.c')],
+                RULE_IMPORT_MODE.MERGE,
+                () => false,
+            );
+
+            expect(result.rules.map((rule) => rule.ruleString))
+                .toEqual(['##.a', '##.b', '##.c']);
+            expect(result.rules[1]).toBe(current[1]);
+            expect(result).toMatchObject({ added: 1, removed: 0, skipped: 2 });
+        });
+
+        it('should replace rules but keep read-only ones', () => {
+            const subscribed = { ...parse('##.a'), listId: 'sub' };
+            const result = RuleService.mergeImportedRules(
+                [subscribed, parse('##.b')],
+                [parse('##.a'), parse('##.c')],
+                RULE_IMPORT_MODE.REPLACE,
+                (rule) => rule.listId === 'sub',
+            );
+
+            expect(result.rules.map((rule) => rule.ruleString))
+                .toEqual(['##.a', '##.c']);
+            expect(result.rules[0]).toBe(subscribed);
+            expect(result).toMatchObject({ added: 1, removed: 1, skipped: 1 });
+        });
+
+        describe('importRules', () => {
+            afterEach(() => {
+                vi.unstubAllGlobals();
+            });
+
+            it('should remove imported lists left without rules when replacing', async () => {
+                const service = await createService();
+                const result = await service.importRules('##.d', RULE_IMPORT_MODE.REPLACE);
+
+                expect(result).toMatchObject({ imported: true, added: 1, removed: 2 });
+                expect(service.getFilterLists().map((list) => list.id)).toEqual(['subscribed']);
+                expect(service.getRules().map((rule) => rule.ruleString)).toEqual(['##.b', '##.d']);
+            });
+
+            it('should keep imported lists that get rules back', async () => {
+                const service = await createService();
+                await service.importRules(
+                    JSON.stringify([{ ruleString: '##.e', listId: 'imported' }]),
+                    RULE_IMPORT_MODE.REPLACE,
+                );
+
+                expect(service.getFilterLists().map((list) => list.id))
+                    .toEqual(['imported', 'subscribed']);
+            });
+
+            it('should keep lists when merging', async () => {
+                const service = await createService();
+                await service.importRules('##.d', RULE_IMPORT_MODE.MERGE);
+
+                expect(service.getFilterLists()).toHaveLength(2);
+            });
+        });
+    });
 });
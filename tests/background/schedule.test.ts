@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleService } from '../../src/background/schedule-service';
+import { RuleService } from '../../src/background/rule-service';
+import {
+    formatScheduleStatus,
+    getNextScheduleChange,
+    getScheduleStatus,
+    isScheduleActive,
+    parseSchedule,
+} from '../../src/shared/schedule';
+import type { ScheduleWindow } from '../../src/shared/rule-types';
+
+// Local times, 2026-01-05 is a Monday
+const at = (day: number, hours: number, minutes = 0): Date => (
+    new Date(2026, 0, day, hours, minutes)
+);
+
+const windowsOf = (value: string): ScheduleWindow[] => {
+    const { windows, error } = parseSchedule(value);
+    if (error) {
+        throw new Error(error);
+    }
+    return windows!;
+};
+
+describe('parseSchedule', () => {
+    it('should parse days with a time range', () => {
+        expect(windowsOf('mon-fri 09:00-18:00')).toEqual([
+            { days: [1, 2, 3, 4, 5], start: 540, end: 1080 },
+        ]);
+    });
+
+    it('should parse day ranges wrapping around the week end', () => {
+        expect(windowsOf('fri-mon')).toEqual([
+            { days: [5, 6, 0, 1], start: 0, end: 0 },
+        ]);
+    });
+
+    it('should parse several entries and time ranges', () => {
+        expect(windowsOf('MON 09:00-12:00 13:00-17:30; 22:00-24:00')).toEqual([
+            { days: [1], start: 540, end: 720 },
+            { days: [1], start: 780, end: 1050 },
+            { days: [0, 1, 2, 3, 4, 5, 6], start: 1320, end: 0 },
+        ]);
+    });
+
+    it('should report invalid days and times', () => {
+        expect(parseSchedule('workdays 09:00-18:00').error)
+            .toContain('Invalid schedule day "workdays"');
+        expect(parseSchedule('mon 9-18').error)
+            .toContain('Invalid schedule time "9-18"');
+        expect(parseSchedule('mon 09:00-25:00').error)
+            .toBe('Invalid time range "09:00-25:00"');
+        expect(parseSchedule('mon 09:00-09:00').error)
+            .toBe('Empty time range "09:00-09:00"');
+        expect(parseSchedule('mon;').error).toContain('Invalid schedule');
+    });
+});
+
+describe('isScheduleActive', () => {
+    const workHours = windowsOf('mon-fri 09:00-18:00');
+
+    it('should be active inside the window', () => {
+        expect(isScheduleActive(workHours, at(5, 9))).toBe(true);
+        expect(isScheduleActive(workHours, at(9, 17, 59))).toBe(true);
+    });
+
+    it('should be inactive outside the window', () => {
+        expect(isScheduleActive(workHours, at(5, 8, 59))).toBe(false);
+        expect(isScheduleActive(workHours, at(5, 18))).toBe(false);
+        expect(isScheduleActive(workHours, at(10, 12))).toBe(false);
+    });
+
+    it('should continue windows past midnight into the next day', () => {
+        const nights = windowsOf('fri 22:00-06:00');
+
+        expect(isScheduleActive(nights, at(9, 23))).toBe(true);
+        expect(isScheduleActive(nights, at(10, 5, 59))).toBe(true);
+        expect(isScheduleActive(nights, at(10, 6))).toBe(false);
+        expect(isScheduleActive(nights, at(8, 23))).toBe(false);
+    });
+});
+
+describe('getNextScheduleChange', () => {
+    const workHours = windowsOf('mon-fri 09:00-18:00');
+
+    it('should find the end of the active window', () => {
+        expect(getNextScheduleChange(workHours, at(5, 12))).toEqual(at(5, 18));
+    });
+
+    it('should skip days the schedule is inactive on', () => {
+        expect(getNextScheduleChange(workHours, at(9, 19))).toEqual(at(12, 9));
+    });
+
+    it('should skip boundaries between adjacent windows', () => {
+        const windows = windowsOf('mon 09:00-12:00 12:00-18:00');
+
+        expect(getNextScheduleChange(windows, at(5, 10))).toEqual(at(5, 18));
+    });
+
+    it('should return null for schedules that never change', () => {
+        expect(getNextScheduleChange(windowsOf('mon-sun'), at(5, 10)))
+            .toBeNull();
+    });
+});
+
+describe('formatScheduleStatus', () => {
+    const workHours = windowsOf('mon-fri 09:00-18:00');
+    const format = (now: Date) => formatScheduleStatus(
+        getScheduleStatus(workHours, now),
+        now,
+    );
+
+    it('should describe the status with the time of the change', () => {
+        expect(format(at(5, 12))).toBe('active until 18:00');
+        expect(format(at(5, 19))).toBe('inactive until tomorrow 09:00');
+        expect(format(at(9, 19))).toBe('inactive until Monday 09:00');
+    });
+
+    it('should describe schedules that never change', () => {
+        const now = at(5, 12);
+        const status = getScheduleStatus(windowsOf('mon-sun'), now);
+
+        expect(formatScheduleStatus(status, now)).toBe('active');
+    });
+});
+
+describe('ScheduleService.getNextChange', () => {
+    it('should find the earliest change of enabled scheduled rules', () => {
+        const rules = [
+            'div:contains-meaning-prompt(\'news\')$schedule=mon-fri 09:00-18:00',
+            'div:contains-meaning-prompt(\'sports\')$schedule=mon 13:00-14:00',
+            'div:contains-meaning-prompt(\'ads\')',
+        ].map((ruleString) => RuleService.parseRule(ruleString));
+
+        expect(ScheduleService.getNextChange(rules, at(5, 10)))
+            .toEqual(at(5, 13));
+
+        rules[1]!.enabled = false;
+        expect(ScheduleService.getNextChange(rules, at(5, 10)))
+            .toEqual(at(5, 18));
+    });
+});
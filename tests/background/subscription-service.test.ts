@@ -0,0 +1,185 @@
+import {
+    afterEach,
+    describe,
+    expect,
+    it,
+    vi,
+} from 'vitest';
+import { RuleService } from '../../src/background/rule-service';
+import { SubscriptionService } from '../../src/background/subscription-service';
+import { STORAGE_KEYS, SUBSCRIPTION_CONFIG } from '../../src/shared/constants';
+import type { FilterList } from '../../src/shared/rule-types';
+import type { Settings } from '../../src/shared/settings-schema';
+import { DEFAULT_SETTINGS } from '../../src/shared/settings-schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const subscribedList = (overrides: Partial<FilterList> = {}): FilterList => ({
+    id: 'list-1',
+    title: 'Team rules',
+    enabled: true,
+    subscription: {
+        url: 'https://example.com/rules.txt',
+        lastUpdated: NOW - HOUR_MS,
+        failureCount: 0,
+    },
+    ...overrides,
+});
+
+/**
+ * In-memory chrome.storage.local holding the given settings
+ */
+const createStorage = (settings: Settings) => {
+    const store: Record<string, unknown> = { [STORAGE_KEYS.SETTINGS]: settings };
+    return {
+        store,
+        get: (keys: string[], callback: (result: object) => void) => {
+            callback(Object.fromEntries(keys.map((key) => [key, store[key]])));
+        },
+        set: (items: object, callback: () => void) => {
+            Object.assign(store, items);
+            callback();
+        },
+    };
+};
+
+describe('SubscriptionService', () => {
+    describe('refreshDue', () => {
+        afterEach(() => {
+            vi.restoreAllMocks();
+            vi.unstubAllGlobals();
+        });
+
+        /**
+         * Settings with a list that is not due in the active default
+         * profile and a due list in the inactive "Work" profile
+         */
+        const settingsWithWorkProfile = (): Settings => ({
+            ...DEFAULT_SETTINGS,
+            adBlockRules: [
+                { ruleString: '##.team', enabled: true, listId: 'list-active' },
+            ],
+            filterLists: [subscribedList({ id: 'list-active', expires: 2 * HOUR_MS })],
+            profiles: [{
+                id: 'work',
+                name: 'Work',
+                enabled: true,
+                embeddingThreshold: 0.5,
+                promptThreshold: 0.5,
+                visionThreshold: 0.5,
+                adBlockRules: [
+                    { ruleString: '##.old', enabled: true, listId: 'list-work' },
+                ],
+                filterLists: [subscribedList({ id: 'list-work', expires: HOUR_MS })],
+            }],
+        });
+
+        it('should refresh due lists of inactive profiles', async () => {
+            const storage = createStorage(settingsWithWorkProfile());
+            vi.stubGlobal('chrome', { storage: { local: storage } });
+            const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+                new Response('! Title: Work rules\n##.ad\n'),
+            );
+
+            const rules = new RuleService();
+            await rules.initialize();
+            await new SubscriptionService(rules).refreshDue(NOW);
+
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            const settings = storage.store[STORAGE_KEYS.SETTINGS] as Settings;
+            const [work] = settings.profiles;
+            expect(work!.adBlockRules).toEqual([
+                { ruleString: '##.ad', enabled: true, listId: 'list-work' },
+            ]);
+            expect(work!.filterLists[0]!.title).toBe('Work rules');
+            expect(settings.filterLists[0]!.title).toBe('Team rules');
+            expect(rules.getFilterLists()[0]!.id).toBe('list-active');
+        });
+
+        it('should not save lists of a profile deleted while refreshing', async () => {
+            const original = settingsWithWorkProfile();
+            const storage = createStorage(original);
+            vi.stubGlobal('chrome', { storage: { local: storage } });
+            vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+                storage.store[STORAGE_KEYS.SETTINGS] = { ...original, profiles: [] };
+                return new Response('! Title: Work rules\n##.ad\n');
+            });
+
+            const rules = new RuleService();
+            await rules.initialize();
+            await new SubscriptionService(rules).refreshDue(NOW);
+
+            const settings = storage.store[STORAGE_KEYS.SETTINGS] as Settings;
+            expect(settings.profiles).toEqual([]);
+            expect(settings.adBlockRules).toEqual(original.adBlockRules);
+            expect(settings.filterLists).toEqual(original.filterLists);
+        });
+    });
+
+    describe('isDue', () => {
+        it('should not refresh lists without a subscription', () => {
+            expect(SubscriptionService.isDue(subscribedList({ subscription: undefined }), NOW)).toBe(false);
+        });
+
+        it('should use the Expires interval of the list', () => {
+            expect(SubscriptionService.isDue(subscribedList({ expires: 2 * HOUR_MS }), NOW)).toBe(false);
+            expect(SubscriptionService.isDue(subscribedList({ expires: HOUR_MS }), NOW)).toBe(true);
+        });
+
+        it('should fall back to the default interval', () => {
+            expect(SubscriptionService.isDue(subscribedList(), NOW)).toBe(false);
+            expect(SubscriptionService.isDue(
+                subscribedList(),
+                NOW + SUBSCRIPTION_CONFIG.DEFAULT_EXPIRES,
+            )).toBe(true);
+        });
+
+        it('should back off after failures in a row', () => {
+            const failing = (failureCount: number, lastAttempt: number) => subscribedList({
+                subscription: {
+                    url: 'https://example.com/rules.txt',
+                    lastUpdated: NOW - 2 * SUBSCRIPTION_CONFIG.DEFAULT_EXPIRES,
+                    lastAttempt,
+                    failureCount,
+                    lastError: 'HTTP 500',
+                },
+            });
+
+            expect(SubscriptionService.isDue(failing(1, NOW - HOUR_MS / 2), NOW)).toBe(false);
+            expect(SubscriptionService.isDue(failing(1, NOW - HOUR_MS), NOW)).toBe(true);
+            expect(SubscriptionService.isDue(failing(3, NOW - 3 * HOUR_MS), NOW)).toBe(false);
+            expect(SubscriptionService.isDue(failing(3, NOW - 4 * HOUR_MS), NOW)).toBe(true);
+            // Never waits longer than the update interval
+            expect(SubscriptionService.isDue(
+                failing(20, NOW - SUBSCRIPTION_CONFIG.DEFAULT_EXPIRES),
+                NOW,
+            )).toBe(true);
+        });
+
+        it('should refresh lists that were never updated', () => {
+            const list = subscribedList({
+                subscription: {
+                    url: 'https://example.com/rules.txt',
+                    failureCount: 3,
+                    lastError: 'HTTP 500',
+                },
+            });
+            expect(SubscriptionService.isDue(list, NOW)).toBe(true);
+        });
+    });
+
+    describe('validateUrl', () => {
+        it('should accept http, https and file URLs', () => {
+            expect(SubscriptionService.validateUrl('https://example.com/rules.txt')).toBeNull();
+            expect(SubscriptionService.validateUrl('http://localhost:8080/rules.txt')).toBeNull();
+            expect(SubscriptionService.validateUrl('file:///home/user/rules.txt')).toBeNull();
+        });
+
+        it('should reject invalid URLs and other schemes', () => {
+            expect(SubscriptionService.validateUrl('rules.txt')).toBe('Invalid URL "rules.txt"');
+            expect(SubscriptionService.validateUrl('ftp://example.com/rules.txt'))
+                .toBe('Unsupported URL scheme "ftp:", expected one of https: http: file:');
+        });
+    });
+});
@@ -1,9 +1,16 @@
 import { describe, expect, it } from 'vitest';
 import {
+    domainsCover,
     filterRulesByUrl,
     matchesDomainPattern,
+    shouldRuleApply,
 } from '../../src/shared/domain-matcher';
 import { RULE_TYPE } from '../../src/shared/constants';
+import {
+    getPublicSuffix,
+    getRegistrableDomain,
+    isPublicSuffix,
+} from '../../src/shared/public-suffix';
 import type { Rule } from '../../src/shared/rule-types';
 
 /**
@@ -48,6 +55,17 @@ describe('Domain Pattern Matching', () => {
         });
     });
 
+    describe('Subdomain matching', () => {
+        it('should match subdomains of a plain domain', () => {
+            expect(matchesDomainPattern('example.org', 'www.example.org', '/')).toBe(true);
+            expect(matchesDomainPattern('example.org', 'deep.sub.example.org', '/')).toBe(true);
+        });
+
+        it('should match subdomains of localhost', () => {
+            expect(matchesDomainPattern('localhost', 'app.localhost', '/')).toBe(true);
+        });
+    });
+
     describe('Wildcard TLD matching', () => {
         it('should match example.* with example.com', () => {
             expect(matchesDomainPattern('example.*', 'example.com', '/')).toBe(true);
@@ -64,6 +82,13 @@ describe('Domain Pattern Matching', () => {
         it('should not match example.* with test.com', () => {
             expect(matchesDomainPattern('example.*', 'test.com', '/')).toBe(false);
         });
+
+        it('should match example.* only under a public suffix', () => {
+            expect(matchesDomainPattern('example.*', 'www.example.co.uk', '/')).toBe(true);
+            expect(matchesDomainPattern('example.*', 'example.evil.com', '/')).toBe(false);
+            expect(matchesDomainPattern('example.*', 'example', '/')).toBe(false);
+            expect(matchesDomainPattern('example.*', '127.0.0.1', '/')).toBe(false);
+        });
     });
 
     describe('Multiple wildcards', () => {
@@ -94,6 +119,66 @@ describe('Domain Pattern Matching', () => {
         });
     });
 
+    describe('Regex patterns', () => {
+        it('should match the hostname against a regex', () => {
+            expect(matchesDomainPattern('/^ads\\d+\\.example\\.com$/', 'ads12.example.com', '/')).toBe(true);
+            expect(matchesDomainPattern('/^ads\\d+\\.example\\.com$/', 'ads.example.com', '/')).toBe(false);
+        });
+
+        it('should unescape commas in regexes', () => {
+            expect(matchesDomainPattern('/^a{1\\,2}\\.com$/', 'aa.com', '/')).toBe(true);
+        });
+
+        it('should treat slashes without regex characters as a path', () => {
+            expect(matchesDomainPattern('/blog/', 'blog.example.com', '/')).toBe(false);
+            expect(matchesDomainPattern('/blog/', 'example.com', '/blog/post')).toBe(true);
+        });
+
+        it('should never match invalid regexes', () => {
+            expect(matchesDomainPattern('/(ads/', 'ads.example.com', '/')).toBe(false);
+        });
+    });
+
+    describe('Scheme, port and query constraints', () => {
+        it('should match the scheme', () => {
+            expect(matchesDomainPattern('https://example.com', 'example.com', '/', { protocol: 'https:' })).toBe(true);
+            expect(matchesDomainPattern('https://example.com', 'example.com', '/', { protocol: 'http:' })).toBe(false);
+            expect(matchesDomainPattern('file://', '', '/index.html', { protocol: 'file:' })).toBe(true);
+        });
+
+        it('should match the port', () => {
+            expect(matchesDomainPattern('localhost:8080', 'localhost', '/', { port: '8080' })).toBe(true);
+            expect(matchesDomainPattern('localhost:8080', 'localhost', '/', { port: '3000' })).toBe(false);
+            expect(matchesDomainPattern('localhost:8080', 'localhost', '/')).toBe(false);
+        });
+
+        it('should match the path from its start after a host', () => {
+            expect(matchesDomainPattern('example.com/news/', 'www.example.com', '/news/today')).toBe(true);
+            expect(matchesDomainPattern('example.com/news/', 'example.com', '/archive/news/')).toBe(false);
+            expect(matchesDomainPattern('example.com/news/', 'example.org', '/news/')).toBe(false);
+        });
+
+        it('should match the query string', () => {
+            expect(matchesDomainPattern('example.com/watch?v=*', 'example.com', '/watch', { search: '?v=42' })).toBe(true);
+            expect(matchesDomainPattern('example.com/watch?v=*', 'example.com', '/watch', { search: '?list=1' })).toBe(false);
+            expect(matchesDomainPattern('example.com/watch?v=*', 'example.com', '/watch')).toBe(false);
+        });
+
+        it('should filter rules by the full URL', () => {
+            const rule: Rule = {
+                id: 'rule-1',
+                type: RULE_TYPE.COSMETIC,
+                selector: '.ad',
+                enabled: true,
+                domains: ['https://example.com:8443/shop?ref=*'],
+                ruleString: 'https://example.com:8443/shop?ref=*##.ad',
+            };
+            expect(filterRulesByUrl([rule], 'https://example.com:8443/shop/?ref=mail')).toEqual([rule]);
+            expect(filterRulesByUrl([rule], 'http://example.com:8443/shop/?ref=mail')).toEqual([]);
+            expect(filterRulesByUrl([rule], 'https://example.com/shop/?ref=mail')).toEqual([]);
+        });
+    });
+
     describe('Special characters escaping', () => {
         it('should escape dots in pattern', () => {
             expect(matchesDomainPattern('example.org', 'exampleXorg', '/')).toBe(false);
@@ -144,6 +229,22 @@ describe('Domain Pattern Matching', () => {
             )).toBe(true);
         });
 
+        it('should match relative paths from a path segment', () => {
+            expect(matchesDomainPattern(
+                'test-page/index.html',
+                '',
+                '/Volumes/dev/mytest-page/index.html',
+            )).toBe(false);
+        });
+
+        it('should match absolute paths from the start', () => {
+            expect(matchesDomainPattern(
+                '/blog/',
+                'example.org',
+                '/archive/blog/post.html',
+            )).toBe(false);
+        });
+
         it('should not match different path', () => {
             expect(matchesDomainPattern(
                 '/other-page/',
@@ -163,7 +264,8 @@ describe('Domain Pattern Matching', () => {
 
     describe('Edge cases', () => {
         it('should not match pattern without wildcards to different domain', () => {
-            expect(matchesDomainPattern('example.org', 'www.example.org', '/')).toBe(false);
+            expect(matchesDomainPattern('example.org', 'www.example.net', '/')).toBe(false);
+            expect(matchesDomainPattern('example.org', 'myexample.org', '/')).toBe(false);
         });
 
         it('should handle empty strings', () => {
@@ -177,6 +279,71 @@ describe('Domain Pattern Matching', () => {
         });
     });
 
+    describe('Negated domains', () => {
+        const ruleWithDomains = (domains: string[]): Rule => ({
+            id: 'rule-1',
+            type: RULE_TYPE.EMBEDDING,
+            selector: 'div',
+            containsText: 'test',
+            anchors: { positive: ['test'], negative: [] },
+            enabled: true,
+            domains,
+            ruleString: `${domains.join(',')}#?#div:contains-meaning-embedding('test')`,
+        });
+
+        it('should apply rule with only negated domains everywhere else', () => {
+            const rule = ruleWithDomains(['~example.com']);
+            expect(shouldRuleApply(rule, 'test.com', '/')).toBe(true);
+            expect(shouldRuleApply(rule, 'example.org', '/')).toBe(true);
+        });
+
+        it('should not apply rule on subdomains of negated domain', () => {
+            const rule = ruleWithDomains(['~example.com']);
+            expect(shouldRuleApply(rule, 'www.example.com', '/')).toBe(false);
+        });
+
+        it('should not apply rule on negated domain', () => {
+            const rule = ruleWithDomains(['~example.com']);
+            expect(shouldRuleApply(rule, 'example.com', '/')).toBe(false);
+        });
+
+        it('should support wildcards in negated domains', () => {
+            const rule = ruleWithDomains(['~*.example.org']);
+            expect(shouldRuleApply(rule, 'blog.example.org', '/')).toBe(false);
+            expect(shouldRuleApply(rule, 'example.org', '/')).toBe(true);
+        });
+
+        it('should support multiple negated domains', () => {
+            const rule = ruleWithDomains(['~example.com', '~test.com']);
+            expect(shouldRuleApply(rule, 'example.com', '/')).toBe(false);
+            expect(shouldRuleApply(rule, 'test.com', '/')).toBe(false);
+            expect(shouldRuleApply(rule, 'other.com', '/')).toBe(true);
+        });
+
+        it('should exclude negated domain from mixed list', () => {
+            const rule = ruleWithDomains(['*.example.com', '~shop.example.com']);
+            expect(shouldRuleApply(rule, 'www.example.com', '/')).toBe(true);
+            expect(shouldRuleApply(rule, 'shop.example.com', '/')).toBe(false);
+        });
+
+        it('should not apply mixed list rule outside included domains', () => {
+            const rule = ruleWithDomains(['*.example.com', '~shop.example.com']);
+            expect(shouldRuleApply(rule, 'test.com', '/')).toBe(false);
+        });
+
+        it('should support negated path patterns', () => {
+            const rule = ruleWithDomains(['~/checkout/']);
+            expect(shouldRuleApply(rule, 'example.com', '/checkout/step1')).toBe(false);
+            expect(shouldRuleApply(rule, 'example.com', '/blog/')).toBe(true);
+        });
+
+        it('should filter rules by negated domains', () => {
+            const rule = ruleWithDomains(['~example.com']);
+            expect(filterRulesByUrl([rule], 'https://example.com/')).toEqual([]);
+            expect(filterRulesByUrl([rule], 'https://test.com/')).toEqual([rule]);
+        });
+    });
+
     describe('Extension URL Filtering', () => {
         it('should return empty array for chrome-extension:// URLs', () => {
             const rules: Rule[] = [
@@ -185,6 +352,7 @@ describe('Domain Pattern Matching', () => {
                     type: RULE_TYPE.EMBEDDING,
                     selector: 'div',
                     containsText: 'test',
+                    anchors: { positive: ['test'], negative: [] },
                     enabled: true,
                     domains: [],
                     ruleString: 'div:contains-meaning-embedding(\'test\')',
@@ -215,6 +383,7 @@ describe('Domain Pattern Matching', () => {
                     type: RULE_TYPE.EMBEDDING,
                     selector: 'div',
                     containsText: 'test',
+                    anchors: { positive: ['test'], negative: [] },
                     enabled: true,
                     domains: [],
                     ruleString: 'div:contains-meaning-embedding(\'test\')',
@@ -233,6 +402,7 @@ describe('Domain Pattern Matching', () => {
                     type: RULE_TYPE.EMBEDDING,
                     selector: 'div',
                     containsText: 'test',
+                    anchors: { positive: ['test'], negative: [] },
                     enabled: true,
                     domains: [],
                     ruleString: 'div:contains-meaning-embedding(\'test\')',
@@ -251,6 +421,7 @@ describe('Domain Pattern Matching', () => {
                     type: RULE_TYPE.EMBEDDING,
                     selector: 'div',
                     containsText: 'test',
+                    anchors: { positive: ['test'], negative: [] },
                     enabled: true,
                     domains: [],
                     ruleString: 'div:contains-meaning-embedding(\'test\')',
@@ -264,4 +435,188 @@ describe('Domain Pattern Matching', () => {
             expect(httpsResult.length).toBe(1);
         });
     });
+
+    describe('Exception rules', () => {
+        const promptRule: Rule = {
+            id: 'rule-1',
+            type: RULE_TYPE.PROMPT,
+            selector: 'article',
+            prompt: 'advertisement',
+            enabled: true,
+            domains: [],
+            ruleString: 'article:contains-meaning-prompt(\'advertisement\')',
+        };
+
+        const exceptionRule: Rule = {
+            id: 'rule-2',
+            type: RULE_TYPE.EXCEPTION,
+            selector: 'article',
+            targetType: RULE_TYPE.PROMPT,
+            targetCriteria: 'advertisement',
+            enabled: true,
+            domains: ['news.example.com'],
+            ruleString: 'news.example.com#@?#article:contains-meaning-prompt(\'advertisement\')',
+        };
+
+        it('should remove rule disabled by exception on matching domain', () => {
+            const result = filterRulesByUrl(
+                [promptRule, exceptionRule],
+                'https://news.example.com/',
+            );
+
+            expect(result).toEqual([exceptionRule]);
+        });
+
+        it('should keep rule on domains not covered by exception', () => {
+            const result = filterRulesByUrl(
+                [promptRule, exceptionRule],
+                'https://other.example.com/',
+            );
+
+            expect(result).toEqual([promptRule]);
+        });
+
+        it('should ignore disabled exception rules', () => {
+            const result = filterRulesByUrl(
+                [promptRule, { ...exceptionRule, enabled: false }],
+                'https://news.example.com/',
+            );
+
+            expect(result).toEqual([promptRule]);
+        });
+
+        it('should not remove rule with different criteria', () => {
+            const otherRule: Rule = {
+                ...promptRule,
+                id: 'rule-3',
+                prompt: 'clickbait',
+            };
+            const result = filterRulesByUrl(
+                [otherRule, exceptionRule],
+                'https://news.example.com/',
+            );
+
+            expect(result).toEqual([otherRule, exceptionRule]);
+        });
+
+        it('should keep selector-only exception rules for content scripts', () => {
+            const selectorException: Rule = {
+                ...exceptionRule,
+                id: 'rule-4',
+                selector: '.comment',
+                targetType: null,
+                targetCriteria: null,
+                domains: [],
+                ruleString: '#@?#.comment',
+            };
+            const result = filterRulesByUrl(
+                [promptRule, selectorException],
+                'https://news.example.com/',
+            );
+
+            expect(result).toEqual([promptRule, selectorException]);
+        });
+    });
+
+    describe('Cosmetic rules', () => {
+        const cosmeticRule: Rule = {
+            id: 'rule-1',
+            type: RULE_TYPE.COSMETIC,
+            selector: '.ad-slot',
+            enabled: true,
+            domains: ['*.example.com', '~shop.example.com'],
+            ruleString: '*.example.com,~shop.example.com##.ad-slot',
+        };
+
+        it('should filter cosmetic rules by domain', () => {
+            expect(filterRulesByUrl([cosmeticRule], 'https://news.example.com/')).toEqual([cosmeticRule]);
+            expect(filterRulesByUrl([cosmeticRule], 'https://shop.example.com/')).toEqual([]);
+        });
+
+        it('should remove cosmetic rule disabled by selector-only exception', () => {
+            const exceptionRule: Rule = {
+                id: 'rule-2',
+                type: RULE_TYPE.EXCEPTION,
+                selector: '.ad-slot',
+                targetType: null,
+                targetCriteria: null,
+                enabled: true,
+                domains: ['news.example.com'],
+                ruleString: 'news.example.com#@?#.ad-slot',
+            };
+
+            expect(filterRulesByUrl([cosmeticRule, exceptionRule], 'https://news.example.com/'))
+                .toEqual([exceptionRule]);
+            expect(filterRulesByUrl([cosmeticRule, exceptionRule], 'https://blog.example.com/'))
+                .toEqual([cosmeticRule]);
+        });
+    });
+
+    describe('Domain list coverage', () => {
+        it('should cover any domains with a global rule', () => {
+            expect(domainsCover([], ['example.com'])).toBe(true);
+            expect(domainsCover([], [])).toBe(true);
+            expect(domainsCover(['example.com'], [])).toBe(false);
+        });
+
+        it('should cover domains matched by a wildcard', () => {
+            expect(domainsCover(['*.example.com'], ['news.example.com'])).toBe(true);
+            expect(domainsCover(['*.example.*'], ['*.example.com'])).toBe(true);
+            expect(domainsCover(['news.example.com'], ['*.example.com'])).toBe(false);
+            expect(domainsCover(['example.com'], ['example.com', 'example.org'])).toBe(false);
+        });
+
+        it('should cover subdomains with a plain domain', () => {
+            expect(domainsCover(['example.com'], ['news.example.com'])).toBe(true);
+            expect(domainsCover(['example.com'], ['*.example.com'])).toBe(true);
+            expect(domainsCover(['example.*'], ['example.co.uk'])).toBe(true);
+            expect(domainsCover(['example.com'], ['example.com/news/'])).toBe(true);
+            expect(domainsCover(['example.com/news/'], ['example.com'])).toBe(false);
+        });
+
+        it('should only compare regexes and constrained patterns as text', () => {
+            expect(domainsCover(['/^ads\\./'], ['/^ads\\./'])).toBe(true);
+            expect(domainsCover(['example.com'], ['https://example.com'])).toBe(false);
+        });
+
+        it('should not mix host and path patterns', () => {
+            expect(domainsCover(['example.com'], ['/news/'])).toBe(false);
+            expect(domainsCover(['/news/*'], ['/news/sports/'])).toBe(true);
+        });
+
+        it('should respect negated domains', () => {
+            expect(domainsCover(['~example.com'], ['example.org'])).toBe(true);
+            expect(domainsCover(['~example.com'], ['example.com'])).toBe(false);
+            expect(domainsCover(['~example.com'], [])).toBe(false);
+            expect(domainsCover(['~example.com'], ['~example.com'])).toBe(true);
+            expect(domainsCover(['~news.example.com'], ['*.example.com'])).toBe(false);
+        });
+    });
+});
+
+describe('Public suffixes', () => {
+    it('should find the public suffix of a hostname', () => {
+        expect(getPublicSuffix('news.example.co.uk')).toBe('co.uk');
+        expect(getPublicSuffix('example.com')).toBe('com');
+        expect(getPublicSuffix('example.unlisted')).toBe('unlisted');
+        expect(getPublicSuffix('192.168.0.1')).toBeNull();
+        expect(getPublicSuffix('')).toBeNull();
+    });
+
+    it('should apply wildcard and exception rules', () => {
+        // *.ck and !www.ck
+        expect(getPublicSuffix('shop.example.ck')).toBe('example.ck');
+        expect(getPublicSuffix('www.ck')).toBe('ck');
+    });
+
+    it('should find the registrable domain of a hostname', () => {
+        expect(getRegistrableDomain('a.b.example.co.uk')).toBe('example.co.uk');
+        expect(getRegistrableDomain('example.com')).toBe('example.com');
+        expect(getRegistrableDomain('co.uk')).toBeNull();
+    });
+
+    it('should tell public suffixes apart from sites', () => {
+        expect(isPublicSuffix('co.uk')).toBe(true);
+        expect(isPublicSuffix('example.co.uk')).toBe(false);
+    });
 });
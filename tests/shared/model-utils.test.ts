@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    ALL_MODELS_MAP,
+    LLM_PROVIDERS,
+    MODALITY,
+    RULE_TYPE,
+} from '../../src/shared/constants';
+import type { ModelOption } from '../../src/shared/constants';
+import {
+    getModelCapabilities,
+    getModelsForRuleType,
+    getUnsupportedReason,
+    registerCustomProviders,
+} from '../../src/shared/model-utils';
+import type { CustomProvider } from '../../src/shared/settings-schema';
+
+const model = (overrides: Partial<ModelOption> = {}): ModelOption => ({
+    id: 'ollama:llava',
+    name: 'llava',
+    provider: LLM_PROVIDERS.OLLAMA,
+    capabilities: {
+        input: [MODALITY.TEXT, MODALITY.IMAGE],
+        output: [MODALITY.TEXT],
+        structuredOutput: true,
+        logprobs: true,
+    },
+    ...overrides,
+});
+
+const customProvider = (
+    overrides: Partial<CustomProvider> = {},
+): CustomProvider => ({
+    id: 'team-vllm',
+    name: 'Team vLLM',
+    baseUrl: 'http://localhost:8000/v1',
+    apiKey: '',
+    headers: {},
+    embeddingModels: [],
+    promptModels: [],
+    visionModels: [],
+    ...overrides,
+});
+
+describe('model-utils', () => {
+    afterEach(() => {
+        registerCustomProviders([]);
+    });
+
+    describe('getModelCapabilities', () => {
+        it('should keep what the adapter supports', () => {
+            const capabilities = getModelCapabilities(model());
+
+            expect(capabilities.input).toEqual([MODALITY.TEXT, MODALITY.IMAGE]);
+            expect(capabilities.structuredOutput).toBe(true);
+            // The Ollama adapter does not read logprobs
+            expect(capabilities.logprobs).toBe(false);
+        });
+
+        it('should limit modalities to those of the adapter', () => {
+            const capabilities = getModelCapabilities(model({
+                id: 'lmstudio:llava',
+                provider: LLM_PROVIDERS.LMSTUDIO,
+            }));
+
+            expect(capabilities.input).toEqual([MODALITY.TEXT]);
+            expect(capabilities.output).toEqual([MODALITY.TEXT]);
+            expect(capabilities.structuredOutput).toBe(false);
+        });
+    });
+
+    describe('getUnsupportedReason', () => {
+        it('should accept models that support the rule type', () => {
+            expect(getUnsupportedReason(model(), RULE_TYPE.PROMPT)).toBeUndefined();
+            expect(getUnsupportedReason(model(), RULE_TYPE.VISION)).toBeUndefined();
+        });
+
+        it('should explain missing embeddings', () => {
+            expect(getUnsupportedReason(model(), RULE_TYPE.EMBEDDING))
+                .toBe('Embedding model "ollama:llava" does not return embeddings');
+        });
+
+        it('should explain missing image input', () => {
+            const lmStudio = model({
+                id: 'lmstudio:llava',
+                provider: LLM_PROVIDERS.LMSTUDIO,
+            });
+
+            expect(getUnsupportedReason(lmStudio, RULE_TYPE.VISION))
+                .toBe('Vision model "lmstudio:llava" does not accept images');
+        });
+
+        it('should explain missing text answers', () => {
+            const embedder = model({
+                id: 'ollama:nomic-embed-text',
+                capabilities: {
+                    input: [MODALITY.TEXT],
+                    output: [MODALITY.EMBEDDING],
+                    structuredOutput: false,
+                    logprobs: false,
+                },
+            });
+
+            expect(getUnsupportedReason(embedder, RULE_TYPE.PROMPT))
+                .toBe('Prompt model "ollama:nomic-embed-text" does not answer text prompts');
+            expect(getUnsupportedReason(embedder, RULE_TYPE.EMBEDDING)).toBeUndefined();
+        });
+    });
+
+    describe('getModelsForRuleType', () => {
+        it('should support every rule type a custom model is configured for', () => {
+            registerCustomProviders([customProvider({
+                embeddingModels: ['qwen', 'bge'],
+                promptModels: ['qwen'],
+                visionModels: ['qwen'],
+            })]);
+
+            expect(ALL_MODELS_MAP['custom:team-vllm:qwen']!.capabilities).toMatchObject({
+                input: [MODALITY.TEXT, MODALITY.IMAGE],
+                output: [MODALITY.EMBEDDING, MODALITY.TEXT],
+            });
+            expect(getModelsForRuleType(RULE_TYPE.EMBEDDING))
+                .toEqual(expect.arrayContaining(['custom:team-vllm:qwen', 'custom:team-vllm:bge']));
+            expect(getModelsForRuleType(RULE_TYPE.PROMPT)).toContain('custom:team-vllm:qwen');
+            expect(getModelsForRuleType(RULE_TYPE.VISION)).toContain('custom:team-vllm:qwen');
+            expect(getModelsForRuleType(RULE_TYPE.PROMPT)).not.toContain('custom:team-vllm:bge');
+            expect(getModelsForRuleType(RULE_TYPE.VISION)).not.toContain('custom:team-vllm:bge');
+        });
+
+        it('should only list built-in models supporting the rule type', () => {
+            const embeddingModels = getModelsForRuleType(RULE_TYPE.EMBEDDING);
+
+            expect(embeddingModels).toContain('openai:text-embedding-3-large');
+            expect(embeddingModels).not.toContain('openai:gpt-5-nano');
+            expect(getModelsForRuleType(RULE_TYPE.PROMPT)).toContain('openai:gpt-5-nano');
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { RuleService } from '../../src/background/rule-service';
+import {
+    applyExceptionRules,
+    applyGlobalExceptionRules,
+} from '../../src/shared/rule-utils';
+
+const parse = (ruleStrings: string[]) => ruleStrings.map(
+    (ruleString) => RuleService.parseRule(ruleString),
+);
+
+const ruleStrings = (rules: { ruleString: string }[]) => rules.map(
+    (rule) => rule.ruleString,
+);
+
+describe('rule-utils', () => {
+    const rules = parse([
+        '##.banner',
+        'div:contains-meaning-prompt(\'ad\')',
+        'example.com#@?#.banner',
+        '#@?#div:contains-meaning-prompt(\'ad\')',
+    ]);
+
+    describe('applyExceptionRules', () => {
+        it('should apply all exceptions of the list', () => {
+            expect(ruleStrings(applyExceptionRules(rules))).toEqual([
+                'example.com#@?#.banner',
+                '#@?#div:contains-meaning-prompt(\'ad\')',
+            ]);
+        });
+    });
+
+    describe('applyGlobalExceptionRules', () => {
+        it('should only apply exceptions for all sites', () => {
+            expect(ruleStrings(applyGlobalExceptionRules(rules))).toEqual([
+                '##.banner',
+                'example.com#@?#.banner',
+                '#@?#div:contains-meaning-prompt(\'ad\')',
+            ]);
+        });
+    });
+});
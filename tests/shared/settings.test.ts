@@ -0,0 +1,86 @@
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    it,
+    vi,
+} from 'vitest';
+import { STORAGE_KEYS } from '../../src/shared/constants';
+import { getProfileUpdates } from '../../src/shared/profiles';
+import { SettingsManager } from '../../src/shared/settings';
+import type { RuleProfile, Settings } from '../../src/shared/settings-schema';
+import { DEFAULT_SETTINGS } from '../../src/shared/settings-schema';
+
+const profile = (id: string): RuleProfile => ({
+    id,
+    name: id,
+    enabled: true,
+    embeddingThreshold: 0.5,
+    promptThreshold: 0.5,
+    visionThreshold: 0.5,
+    adBlockRules: [],
+    filterLists: [],
+});
+
+describe('SettingsManager', () => {
+    let store: Record<string, unknown>;
+
+    beforeEach(() => {
+        store = {
+            [STORAGE_KEYS.SETTINGS]: {
+                ...DEFAULT_SETTINGS,
+                profiles: [profile('work'), profile('focus')],
+            },
+        };
+        vi.stubGlobal('chrome', {
+            storage: {
+                local: {
+                    get: (keys: string[], callback: (result: object) => void) => {
+                        callback(Object.fromEntries(keys.map((key) => [key, store[key]])));
+                    },
+                    set: (items: object, callback: () => void) => {
+                        Object.assign(store, items);
+                        callback();
+                    },
+                },
+            },
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('modify', () => {
+        it('should keep concurrent updates of different profiles', async () => {
+            const rules = (ruleString: string) => ({
+                adBlockRules: [{ ruleString, enabled: true }],
+            });
+
+            await Promise.all([
+                SettingsManager.modify((settings) => getProfileUpdates(settings, rules('##.a'), 'work')),
+                SettingsManager.modify((settings) => getProfileUpdates(settings, rules('##.b'), 'focus')),
+                SettingsManager.set({ debugLogging: true }),
+            ]);
+
+            const settings = store[STORAGE_KEYS.SETTINGS] as Settings;
+            expect(settings.profiles.map(({ adBlockRules }) => adBlockRules)).toEqual([
+                [{ ruleString: '##.a', enabled: true }],
+                [{ ruleString: '##.b', enabled: true }],
+            ]);
+            expect(settings.debugLogging).toBe(true);
+        });
+
+        it('should run later writes after a failed one', async () => {
+            const failed = SettingsManager.modify((settings) => (
+                getProfileUpdates(settings, { adBlockRules: [] }, 'deleted')
+            ));
+            const saved = SettingsManager.set({ debugLogging: true });
+
+            await expect(failed).rejects.toThrow('Profile "deleted" not found');
+            await saved;
+            expect((store[STORAGE_KEYS.SETTINGS] as Settings).debugLogging).toBe(true);
+        });
+    });
+});